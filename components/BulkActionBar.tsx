@@ -0,0 +1,241 @@
+/**
+ * 一括操作バーコンポーネント
+ *
+ * タスクリストで複数選択したタスクに対して、完了・削除・優先度・期限・タグ・プロジェクトを
+ * まとめて変更する操作バー（各操作は1回のバッチ書き込みで反映される）
+ * v1.8.0: 複数選択による一括操作の実装
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useProjectStore } from '@/store/projectStore';
+import { useTagStore } from '@/store/tagStore';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import { DateUtils } from '@/lib/dateUtils';
+import { ProjectUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 一括操作バーコンポーネントのプロパティ
+ */
+interface BulkActionBarProps {
+  selectedTaskIds: string[];         // 選択中のタスクID
+  visibleCount: number;              // 表示中（絞り込み後）のタスク数
+  onSelectAll: () => void;           // 表示中のタスクをすべて選択
+  onClearSelection: () => void;      // 選択を解除
+}
+
+/**
+ * 一括操作バーコンポーネント
+ */
+export default function BulkActionBar({
+  selectedTaskIds,
+  visibleCount,
+  onSelectAll,
+  onClearSelection
+}: BulkActionBarProps) {
+  const {
+    bulkCompleteTasks,
+    bulkRemoveTasks,
+    bulkSetPriority,
+    bulkSetDeadline,
+    bulkShiftDeadline,
+    bulkAddTag,
+    bulkMoveToProject
+  } = useEnhancedTaskStore();
+  const { getActiveProjects } = useProjectStore();
+  const { tags } = useTagStore();
+
+  const [deadline, setDeadlineValue] = useState(DateUtils.today());
+  const [shiftDays, setShiftDays] = useState(1);
+  const [tagName, setTagName] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  const selectedCount = selectedTaskIds.length;
+  const disabled = selectedCount === 0 || processing;
+
+  /**
+   * 一括操作を実行（実行中は他の操作を無効化）
+   */
+  const runAction = async (action: () => Promise<void>) => {
+    if (disabled) return;
+    setProcessing(true);
+    try {
+      await action();
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  /**
+   * 選択したタスクを削除
+   */
+  const handleRemove = () => {
+    if (!window.confirm(`${selectedCount}件のタスクを削除しますか？`)) return;
+    runAction(async () => {
+      await bulkRemoveTasks(selectedTaskIds);
+      onClearSelection();
+    });
+  };
+
+  /**
+   * 選択したタスクにタグを追加
+   */
+  const handleAddTag = () => {
+    if (!tagName.trim()) return;
+    runAction(async () => {
+      await bulkAddTag(selectedTaskIds, tagName);
+      setTagName('');
+    });
+  };
+
+  const buttonClass = 'px-2 py-1 text-xs rounded border disabled:opacity-50';
+
+  return (
+    <div className="px-3 py-2 border-b bg-blue-50 space-y-2">
+      {/* 選択状況 */}
+      <div className="flex items-center flex-wrap gap-2 text-xs">
+        <span className="font-medium text-blue-800">{selectedCount}件選択中</span>
+        <button
+          onClick={onSelectAll}
+          className="text-blue-600 hover:text-blue-800"
+        >
+          表示中の{visibleCount}件をすべて選択
+        </button>
+        {selectedCount > 0 && (
+          <button
+            onClick={onClearSelection}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            選択解除
+          </button>
+        )}
+        <span className="text-gray-500 ml-auto">Shift+クリックで範囲選択</span>
+      </div>
+
+      {/* 一括操作 */}
+      <div className="flex items-center flex-wrap gap-2">
+        <button
+          onClick={() => runAction(() => bulkCompleteTasks(selectedTaskIds, true))}
+          disabled={disabled}
+          className={`${buttonClass} bg-green-500 text-white border-green-500 hover:bg-green-600`}
+        >
+          ✓ 完了
+        </button>
+        <button
+          onClick={() => runAction(() => bulkCompleteTasks(selectedTaskIds, false))}
+          disabled={disabled}
+          className={`${buttonClass} bg-white text-gray-700 hover:bg-gray-100`}
+        >
+          未完了に戻す
+        </button>
+        <button
+          onClick={handleRemove}
+          disabled={disabled}
+          className={`${buttonClass} bg-red-500 text-white border-red-500 hover:bg-red-600`}
+        >
+          🗑️ 削除
+        </button>
+
+        {/* 優先度 */}
+        <select
+          value=""
+          onChange={(e) => {
+            const priority = e.target.value as PriorityLevel;
+            if (priority) runAction(() => bulkSetPriority(selectedTaskIds, priority));
+          }}
+          disabled={disabled}
+          className="text-xs border rounded px-1 py-1 disabled:opacity-50"
+        >
+          <option value="">優先度...</option>
+          <option value="high">高</option>
+          <option value="medium">中</option>
+          <option value="low">低</option>
+        </select>
+
+        {/* プロジェクト */}
+        <select
+          value=""
+          onChange={(e) => {
+            const value = e.target.value;
+            if (value) runAction(() => bulkMoveToProject(selectedTaskIds, value === ProjectUtils.UNASSIGNED ? null : value));
+          }}
+          disabled={disabled}
+          className="text-xs border rounded px-1 py-1 disabled:opacity-50"
+        >
+          <option value="">プロジェクトへ移動...</option>
+          <option value={ProjectUtils.UNASSIGNED}>未分類</option>
+          {getActiveProjects().map(project => (
+            <option key={project.id} value={project.id}>
+              {project.icon} {project.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center flex-wrap gap-3">
+        {/* 期限の設定 */}
+        <div className="flex items-center space-x-1">
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadlineValue(e.target.value)}
+            className="text-xs border rounded px-1 py-1"
+          />
+          <button
+            onClick={() => deadline && runAction(() => bulkSetDeadline(selectedTaskIds, deadline))}
+            disabled={disabled || !deadline}
+            className={`${buttonClass} bg-white text-gray-700 hover:bg-gray-100`}
+          >
+            期限に設定
+          </button>
+        </div>
+
+        {/* 期限をずらす */}
+        <div className="flex items-center space-x-1">
+          <span className="text-xs text-gray-600">期限を</span>
+          <input
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(parseInt(e.target.value) || 0)}
+            className="w-14 text-xs border rounded px-1 py-1"
+          />
+          <span className="text-xs text-gray-600">日</span>
+          <button
+            onClick={() => runAction(() => bulkShiftDeadline(selectedTaskIds, shiftDays))}
+            disabled={disabled || shiftDays === 0}
+            className={`${buttonClass} bg-white text-gray-700 hover:bg-gray-100`}
+          >
+            ずらす
+          </button>
+        </div>
+
+        {/* タグの追加 */}
+        <div className="flex items-center space-x-1">
+          <input
+            type="text"
+            value={tagName}
+            onChange={(e) => setTagName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddTag();
+            }}
+            list="bulk-action-tags"
+            placeholder="タグ名"
+            className="w-24 text-xs border rounded px-1 py-1"
+          />
+          <datalist id="bulk-action-tags">
+            {tags.map(tag => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+          </datalist>
+          <button
+            onClick={handleAddTag}
+            disabled={disabled || !tagName.trim()}
+            className={`${buttonClass} bg-white text-gray-700 hover:bg-gray-100`}
+          >
+            🏷️ タグ追加
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,12 @@
  * 
  * 期限が近いタスクがある場合に警告バナーを表示します
  * フローティングバナーとして画面上部に表示され、ユーザーに通知します
+ * v1.8.0: 期限の時刻を考慮した判定に変更、スヌーズ中のタスクは開始日まで警告しない
  */
 
 import { useState, useEffect } from 'react';
 import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { DueUtils, SnoozeUtils } from '@/lib/taskInterfaces';
 import { motion, AnimatePresence } from 'framer-motion';
 
 /**
@@ -29,38 +31,20 @@ export default function DeadlineWarning() {
   useEffect(() => {
     if (dismissed) return;
     
-    // 現在の日付を取得
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const now = Date.now();
     
-    // 明日の日付を取得（期限間近の基準）
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    // 未完了タスクのみを対象にする（スヌーズ中のタスクは開始日まで対象外）
+    const uncompletedTasks = tasks.filter(task => !task.completed && !SnoozeUtils.isSnoozed(task, now));
     
-    // 3日後の日付を取得
-    const threeDaysLater = new Date(today);
-    threeDaysLater.setDate(threeDaysLater.getDate() + 3);
-    
-    // 未完了タスクのみを対象にする
-    const uncompletedTasks = tasks.filter(task => !task.completed);
-    
-    // 期限切れのタスクを抽出
+    // 期限切れのタスクを抽出（時刻が設定されている場合は時刻を過ぎたもの）
     const expiredTaskList = uncompletedTasks
-      .filter(task => {
-        if (!task.deadline) return false;
-        const deadline = new Date(task.deadline);
-        return deadline < today;
-      })
+      .filter(task => DueUtils.isOverdue(task, now))
       .map(task => task.text);
     
-    // 期限間近のタスクを抽出（3日以内）
+    // 期限間近のタスクを抽出（3日以内、時刻付きのものは時刻も表示）
     const dueSoonTaskList = uncompletedTasks
-      .filter(task => {
-        if (!task.deadline) return false;
-        const deadline = new Date(task.deadline);
-        return deadline >= today && deadline <= threeDaysLater;
-      })
-      .map(task => task.text);
+      .filter(task => DueUtils.isDueWithin(task, 3, now))
+      .map(task => task.dueTime ? `${task.text}（${DueUtils.formatDue(task)}）` : task.text);
     
     // 期限切れまたは期限間近のタスクがある場合、警告を表示
     setExpiredTasks(expiredTaskList);
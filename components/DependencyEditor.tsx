@@ -0,0 +1,106 @@
+/**
+ * 依存関係編集コンポーネント
+ *
+ * タスク詳細パネルで「先に完了すべきタスク（ブロッカー）」を追加・削除し、
+ * このタスクの完了を待っているタスクを一覧表示する
+ * v1.8.0: タスク間の依存関係の追加
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { EnhancedTask, DependencyUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 依存関係編集コンポーネントのプロパティ
+ */
+interface DependencyEditorProps {
+  task: EnhancedTask; // 編集対象のタスク
+}
+
+/**
+ * 依存関係編集コンポーネント
+ */
+export default function DependencyEditor({ task }: DependencyEditorProps) {
+  const { tasks, addDependency, removeDependency } = useEnhancedTaskStore();
+  const [selectedBlockerId, setSelectedBlockerId] = useState('');
+
+  const blockers = tasks.filter(t => task.blockedBy?.includes(t.id));
+  const blockedTasks = DependencyUtils.getBlockedTasks(task.id, tasks);
+
+  // 追加候補: 自分自身・登録済み・循環するタスクを除いた未完了タスク
+  const candidates = tasks.filter(t =>
+    !t.completed &&
+    !task.blockedBy?.includes(t.id) &&
+    !DependencyUtils.wouldCreateCycle(task.id, t.id, tasks)
+  );
+
+  /**
+   * 選択したタスクをブロッカーとして追加
+   */
+  const handleAdd = async () => {
+    if (!selectedBlockerId) return;
+    const added = await addDependency(task.id, selectedBlockerId);
+    if (added) {
+      setSelectedBlockerId('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {/* ブロッカー一覧 */}
+      {blockers.length > 0 ? (
+        <ul className="space-y-1">
+          {blockers.map(blocker => (
+            <li key={blocker.id} className="flex items-center bg-white p-2 rounded border text-sm">
+              <span className="mr-2">{blocker.completed ? '✅' : '🔒'}</span>
+              <span className={`flex-1 ${blocker.completed ? 'line-through text-gray-500' : ''}`}>
+                {blocker.text}
+              </span>
+              <button
+                onClick={() => removeDependency(task.id, blocker.id)}
+                className="text-gray-400 hover:text-red-500 text-sm"
+                title="依存関係を解除"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">先に完了すべきタスクはありません</p>
+      )}
+
+      {/* ブロッカー追加フォーム */}
+      {!task.completed && (
+        <div className="flex">
+          <select
+            value={selectedBlockerId}
+            onChange={(e) => setSelectedBlockerId(e.target.value)}
+            className="flex-1 text-sm p-2 border rounded-l"
+          >
+            <option value="">先に完了すべきタスクを選択...</option>
+            {candidates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.text}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAdd}
+            disabled={!selectedBlockerId}
+            className="px-3 py-2 bg-green-500 text-white text-sm rounded-r hover:bg-green-600 disabled:bg-gray-300"
+          >
+            追加
+          </button>
+        </div>
+      )}
+
+      {/* このタスクの完了を待っているタスク */}
+      {blockedTasks.length > 0 && (
+        <p className="text-xs text-gray-500">
+          このタスクの完了待ち: {blockedTasks.map(t => `「${t.text}」`).join('、')}
+        </p>
+      )}
+    </div>
+  );
+}
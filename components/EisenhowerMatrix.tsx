@@ -0,0 +1,176 @@
+/**
+ * 重要度・緊急度マトリクスコンポーネント
+ *
+ * タスクを重要度と緊急度で「今すぐやる・計画する・任せる・やめる」の4区分に並べる表示
+ * カードを別の区分へドラッグ＆ドロップすると、重要度・緊急度とそこから求めた優先度が更新される
+ * スマートフォンでは移動先の選択、キーボードでは矢印キーでも移動できる
+ * v1.8.0: 重要度と緊急度のマトリクス表示の実装
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useDevice } from '@/hooks/useDevice';
+import { EnhancedTask, EisenhowerQuadrant, EisenhowerUtils, DueUtils } from '@/lib/taskInterfaces';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+
+/**
+ * 重要度・緊急度マトリクスコンポーネントのプロパティ
+ */
+interface EisenhowerMatrixProps {
+  tasks: EnhancedTask[];   // 表示するタスク（絞り込み・並べ替え済み）
+}
+
+// 区分の背景色
+const QUADRANT_CLASSES: { [quadrant in EisenhowerQuadrant]: string } = {
+  do: 'bg-red-50 border-red-200',
+  schedule: 'bg-blue-50 border-blue-200',
+  delegate: 'bg-yellow-50 border-yellow-200',
+  eliminate: 'bg-gray-50 border-gray-200'
+};
+
+// 優先度のバッジの色
+const PRIORITY_CLASSES: { [priority in PriorityLevel]: string } = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+/**
+ * 重要度・緊急度マトリクスコンポーネント
+ */
+export default function EisenhowerMatrix({ tasks }: EisenhowerMatrixProps) {
+  const { setEisenhowerQuadrant } = useEnhancedTaskStore();
+  const isMobile = useDevice();
+
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<EisenhowerQuadrant | null>(null);
+
+  // 完了済みのタスクは判断の対象外
+  const now = Date.now();
+  const grouped = EisenhowerUtils.groupByQuadrant(tasks.filter(task => !task.completed), now);
+
+  /**
+   * 矢印キーで隣の区分へ移動（上下で重要度、左右で緊急度を切り替える）
+   */
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: EnhancedTask) => {
+    const current = EisenhowerUtils.QUADRANTS.find(q => q.id === EisenhowerUtils.getQuadrant(task, now))!;
+    let important = current.important;
+    let urgent = current.urgent;
+
+    switch (e.key) {
+      case 'ArrowUp': important = true; break;
+      case 'ArrowDown': important = false; break;
+      case 'ArrowLeft': urgent = true; break;
+      case 'ArrowRight': urgent = false; break;
+      default: return;
+    }
+    e.preventDefault();
+
+    const target = EisenhowerUtils.QUADRANTS.find(q => q.important === important && q.urgent === urgent)!;
+    if (target.id !== current.id) setEisenhowerQuadrant(task.id, target.id);
+  };
+
+  /**
+   * カードのドロップ
+   */
+  const handleDrop = (e: React.DragEvent, quadrant: EisenhowerQuadrant) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain') || draggingTaskId;
+    setDraggingTaskId(null);
+    setDropTargetId(null);
+    if (taskId) setEisenhowerQuadrant(taskId, quadrant);
+  };
+
+  return (
+    <div className="p-3">
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-2 px-1">
+        <span>← 緊急</span>
+        <span>区分を移動すると重要度・緊急度と優先度が更新されます</span>
+        <span>緊急ではない →</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {EisenhowerUtils.QUADRANTS.map(quadrant => (
+          <section
+            key={quadrant.id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropTargetId(quadrant.id);
+            }}
+            onDragLeave={() => setDropTargetId(prev => prev === quadrant.id ? null : prev)}
+            onDrop={(e) => handleDrop(e, quadrant.id)}
+            className={`rounded-lg border p-2 min-h-[8rem] transition-colors ${QUADRANT_CLASSES[quadrant.id]} ${
+              dropTargetId === quadrant.id ? 'ring-2 ring-blue-400' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between px-1 mb-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                {quadrant.icon} {quadrant.label}
+                <span className="ml-2 text-xs font-normal text-gray-500">{quadrant.description}</span>
+              </h3>
+              <span className="text-xs text-gray-500">{grouped[quadrant.id].length}</span>
+            </div>
+
+            <ul className="space-y-2">
+              {grouped[quadrant.id].map(task => {
+                const scores = EisenhowerUtils.getScores(task, now);
+
+                return (
+                  <li
+                    key={task.id}
+                    draggable={!isMobile}
+                    tabIndex={0}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', task.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingTaskId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingTaskId(null);
+                      setDropTargetId(null);
+                    }}
+                    onKeyDown={(e) => handleCardKeyDown(e, task)}
+                    aria-label={`${task.text}（上下の矢印キーで重要度、左右の矢印キーで緊急度を切り替え）`}
+                    className={`bg-white p-2 rounded shadow-sm border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isMobile ? '' : 'cursor-grab'
+                    } ${draggingTaskId === task.id ? 'opacity-50' : ''}`}
+                  >
+                    <p className="text-gray-900">{task.text}</p>
+
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                      <span className={`px-1.5 rounded ${PRIORITY_CLASSES[task.priority]}`}>
+                        {task.priority === 'high' ? '高' : task.priority === 'medium' ? '中' : '低'}
+                      </span>
+                      <span className="text-gray-500" title="重要度 / 緊急度">
+                        重要 {scores.importance} / 緊急 {scores.urgency}
+                      </span>
+                      {task.deadline && (
+                        <span className={DueUtils.isOverdue(task, now) ? 'text-red-600' : 'text-gray-500'}>
+                          📅 {DueUtils.formatDue(task)}
+                        </span>
+                      )}
+                    </div>
+
+                    {/* スマートフォンでは移動先を選択 */}
+                    {isMobile && (
+                      <select
+                        value={quadrant.id}
+                        onChange={(e) => setEisenhowerQuadrant(task.id, e.target.value as EisenhowerQuadrant)}
+                        className="mt-2 w-full text-xs border rounded p-1"
+                        aria-label="移動先の区分"
+                      >
+                        {EisenhowerUtils.QUADRANTS.map(q => (
+                          <option key={q.id} value={q.id}>{q.icon} {q.label}</option>
+                        ))}
+                      </select>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
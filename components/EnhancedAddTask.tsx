@@ -4,6 +4,7 @@
  * メモ機能付きのタスク追加フォーム
  * AI優先度提案、期限設定、見積もり時間設定も含む
  * v1.6.0: AI優先度提案によるキーボード途切れ問題を修正
+ * v1.8.0: 繰り返しルール、タグ、プロジェクトの設定、クイック追加記法（自然言語入力）、期限の時刻とリマインダー、テンプレートからの作成を追加
  */
 
 import { useState, useRef, FormEvent, useCallback, useMemo } from 'react';
@@ -12,6 +13,16 @@ import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
 import { useAuthStore } from '@/store/auth';
 import { suggestPriority, PriorityLevel } from '@/lib/aiPriorityAssignment';
 import { useFeedbackStore } from '@/store/feedbackStore';
+import { UNDO_ACTION } from '@/store/historyStore';
+import { useProjectStore } from '@/store/projectStore';
+import { RecurrenceRule, RecurrenceUtils, ProjectUtils } from '@/lib/taskInterfaces';
+import { QuickAddParser } from '@/lib/quickAddParser';
+import { TaskTemplates } from '@/lib/taskTemplates';
+import RecurrenceEditor from './RecurrenceEditor';
+import ReminderEditor from './ReminderEditor';
+import TagChip from './TagChip';
+import TagInput from './TagInput';
+import TaskTemplateLibrary from './TaskTemplateLibrary';
 
 /**
  * 拡張タスク追加コンポーネント
@@ -21,14 +32,22 @@ export default function EnhancedAddTask() {
   const { addTask } = useEnhancedTaskStore();
   const { user } = useAuthStore();
   const { setMessage } = useFeedbackStore();
+  const { selectedProjectId, getActiveProjects } = useProjectStore();
   
   // ローカル状態
   const [text, setText] = useState('');
   const [deadline, setDeadline] = useState('');
+  const [dueTime, setDueTime] = useState('');
+  const [reminders, setReminders] = useState<number[]>([]);
   const [priority, setPriority] = useState<PriorityLevel>('medium');
+  const [priorityChosen, setPriorityChosen] = useState(false); // 優先度ボタンで選んだ（AI提案で上書きしない）
   const [memo, setMemo] = useState('');
   const [estimatedMinutes, setEstimatedMinutes] = useState<number | ''>('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null); // null は表示中のプロジェクトに追加
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [loading, setLoading] = useState(false);
   
   // 🔥 追加: AI優先度提案の状態管理
@@ -37,6 +56,17 @@ export default function EnhancedAddTask() {
   
   const inputRef = useRef<HTMLInputElement>(null);
 
+  /**
+   * クイック追加記法の解析結果（入力中にプレビュー表示する）
+   */
+  const parsed = useMemo(() => QuickAddParser.parse(text), [text]);
+  const hasQuickAddTokens = QuickAddParser.hasRecognizedTokens(parsed);
+
+  // 追加先のプロジェクト（未指定なら一覧で表示中のプロジェクト）
+  const targetProjectId = projectId ?? (
+    selectedProjectId && selectedProjectId !== ProjectUtils.UNASSIGNED ? selectedProjectId : ''
+  );
+
   /**
    * 🔥 修正: デバウンス機能付きAI優先度提案
    * キーボード入力を妨げないように500ms後に実行
@@ -67,8 +97,8 @@ export default function EnhancedAddTask() {
             
             const suggestedPriority = await suggestPriority(inputText);
             
-            // テキストが変更されていない場合のみ適用
-            if (inputText === text) {
+            // テキストが変更されておらず、優先度を自分で選んでいない場合のみ適用
+            if (inputText === text && !priorityChosen) {
               setPriority(suggestedPriority);
               setLastSuggestedText(inputText);
               console.log('AI優先度提案完了:', suggestedPriority);
@@ -82,7 +112,7 @@ export default function EnhancedAddTask() {
         }, 500);
       };
     })(),
-    [text, lastSuggestedText]
+    [text, lastSuggestedText, priorityChosen]
   );
 
   /**
@@ -92,6 +122,9 @@ export default function EnhancedAddTask() {
     // 即座にテキストを更新（UIの反応性を保つ）
     setText(value);
     
+    // 「!高」などで優先度が明示されている場合はAI提案を行わない
+    if (QuickAddParser.parse(value).priority) return;
+    
     // AI提案は非同期で実行（キーボード入力を妨げない）
     debouncedSuggestPriority(value);
   }, [debouncedSuggestPriority]);
@@ -110,28 +143,51 @@ export default function EnhancedAddTask() {
       return;
     }
     
+    // 記法だけでタスク名がない場合は追加しない
+    if (!parsed.text) {
+      setMessage('タスク名を入力してください');
+      return;
+    }
+    
     try {
       setLoading(true);
       
-      // タスクを追加
-      const taskId = await addTask(
-        text, 
-        deadline || undefined, 
-        priority, 
-        memo || undefined
+      // 記法で指定された項目は詳細設定より優先する
+      // 「 - 」区切りで入力されたサブタスクはタスクと一緒に1回で書き込む
+      await addTask(
+        parsed.text, 
+        parsed.deadline || deadline || undefined, 
+        parsed.priority || priority, 
+        memo || undefined,
+        {
+          dueTime: dueTime || undefined,
+          reminders,
+          estimatedMinutes: parsed.estimatedMinutes ?? (typeof estimatedMinutes === 'number' ? estimatedMinutes : undefined),
+          recurrence: recurrence && RecurrenceUtils.isValid(recurrence) ? recurrence : undefined,
+          tags: Array.from(new Set([...tags, ...parsed.tags])),
+          projectId: targetProjectId || undefined,
+          // 「!高」や優先度ボタンで選んだ優先度は自動調整しない
+          priorityManual: !!parsed.priority || priorityChosen,
+          subTasks: TaskTemplates.toSubTasks(parsed.subTasks.map(subTaskText => ({ text: subTaskText, depth: 0 })))
+        }
       );
       
-      // 見積もり時間が設定されている場合は追加で更新
-      if (estimatedMinutes && typeof estimatedMinutes === 'number') {
-        // この処理は addTask 内で行うように後で修正予定
+      if (parsed.subTasks.length > 0) {
+        setMessage(`タスク「${parsed.text}」をサブタスク${parsed.subTasks.length}件と一緒に追加しました`, UNDO_ACTION);
       }
       
       // フォームをリセット
       setText('');
       setDeadline('');
+      setDueTime('');
+      setReminders([]);
       setPriority('medium');
+      setPriorityChosen(false);
       setMemo('');
       setEstimatedMinutes('');
+      setRecurrence(null);
+      setTags([]);
+      setProjectId(null);
       setShowAdvanced(false);
       setLastSuggestedText(''); // 🔥 追加: AI提案履歴をリセット
       
@@ -205,7 +261,7 @@ export default function EnhancedAddTask() {
           type="text"
           value={text}
           onChange={(e) => handleTextChange(e.target.value)}
-          placeholder="新しいタスクを入力..."
+          placeholder="新しいタスクを入力...（例: 明日までに企画書提出 #仕事 !高 ~45分 - 目次作成）"
           className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           disabled={loading}
         />
@@ -218,15 +274,55 @@ export default function EnhancedAddTask() {
         )}
       </div>
       
+      {/* クイック追加記法のプレビュー */}
+      {hasQuickAddTokens && (
+        <div className="mb-3 px-3 py-2 bg-blue-50 border border-blue-100 rounded-lg text-xs text-gray-700 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium text-blue-700">認識結果:</span>
+            <span className="font-medium">{parsed.text || <em className="text-red-500">タスク名がありません</em>}</span>
+            {parsed.deadline && (
+              <span>📅 {parsed.deadline}（{parsed.deadlineLabel}）</span>
+            )}
+            {parsed.priority && (
+              <span className={`px-2 py-0.5 rounded-full border ${getPriorityClass(parsed.priority)}`}>
+                {parsed.priority === 'high' ? '高優先度' : parsed.priority === 'medium' ? '中優先度' : '低優先度'}
+              </span>
+            )}
+            {parsed.estimatedMinutes && (
+              <span>⏱️ {parsed.estimatedMinutes}分</span>
+            )}
+            {parsed.tags.map(tag => (
+              <TagChip key={tag} name={tag} />
+            ))}
+          </div>
+          {parsed.subTasks.length > 0 && (
+            <ul className="list-disc list-inside text-gray-600">
+              {parsed.subTasks.map((subTask, index) => (
+                <li key={index}>{subTask}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      
       {/* 詳細設定の表示切り替えボタン */}
       <div className="mb-3 flex justify-between items-center">
-        <button
-          type="button"
-          onClick={() => setShowAdvanced(!showAdvanced)}
-          className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
-        >
-          {showAdvanced ? '▼' : '▶'} 詳細設定
-        </button>
+        <div className="flex items-center space-x-4">
+          <button
+            type="button"
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+          >
+            {showAdvanced ? '▼' : '▶'} 詳細設定
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowTemplates(!showTemplates)}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+          >
+            {showTemplates ? '▼' : '▶'} テンプレート
+          </button>
+        </div>
         
         {/* 🔥 修正: AI提案状態の表示（改善版） */}
         {aiSuggestionStatus && (
@@ -239,6 +335,13 @@ export default function EnhancedAddTask() {
         )}
       </div>
       
+      {/* テンプレートライブラリ */}
+      {showTemplates && (
+        <div className="bg-gray-50 p-4 rounded-lg mb-3">
+          <TaskTemplateLibrary projectId={targetProjectId || undefined} />
+        </div>
+      )}
+      
       {/* 詳細設定パネル */}
       <AnimatePresence>
         {showAdvanced && (
@@ -256,12 +359,21 @@ export default function EnhancedAddTask() {
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     期限
                   </label>
-                  <input
-                    type="date"
-                    value={deadline}
-                    onChange={(e) => setDeadline(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
-                  />
+                  <div className="flex space-x-2">
+                    <input
+                      type="date"
+                      value={deadline}
+                      onChange={(e) => setDeadline(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="time"
+                      value={dueTime}
+                      onChange={(e) => setDueTime(e.target.value)}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                      title="時刻（任意）"
+                    />
+                  </div>
                 </div>
                 
                 {/* 見積もり時間設定 */}
@@ -284,6 +396,19 @@ export default function EnhancedAddTask() {
                 </div>
               </div>
               
+              {/* リマインダー設定 */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  リマインダー
+                </label>
+                <ReminderEditor
+                  value={reminders}
+                  onChange={setReminders}
+                  hasDueTime={!!dueTime}
+                  disabled={!(parsed.deadline || deadline)}
+                />
+              </div>
+              
               {/* 優先度選択ボタングループ */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -298,7 +423,10 @@ export default function EnhancedAddTask() {
                     <button
                       key={p}
                       type="button"
-                      onClick={() => setPriority(p)}
+                      onClick={() => {
+                        setPriority(p);
+                        setPriorityChosen(true);
+                      }}
                       className={`flex-1 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
                         priority === p ? getPriorityClass(p) : 'bg-gray-100 text-gray-600 border-gray-300 hover:bg-gray-200'
                       }`}
@@ -309,6 +437,41 @@ export default function EnhancedAddTask() {
                 </div>
               </div>
               
+              {/* プロジェクト設定 */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  プロジェクト
+                </label>
+                <select
+                  value={targetProjectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">未分類</option>
+                  {getActiveProjects().map(project => (
+                    <option key={project.id} value={project.id}>
+                      {project.icon} {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              {/* タグ設定 */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  タグ
+                </label>
+                <TagInput value={tags} onChange={setTags} />
+              </div>
+              
+              {/* 繰り返し設定 */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  繰り返し
+                </label>
+                <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+              </div>
+              
               {/* メモ入力 */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -354,7 +517,7 @@ export default function EnhancedAddTask() {
       {/* クイックヒント */}
       {!showAdvanced && (
         <p className="text-xs text-gray-500 mt-2 text-center">
-          💡 「詳細設定」でメモや見積もり時間を設定できます
+          💡 「明日」「来週金曜」「#タグ」「!高」「~30分」「 - サブタスク」と書くと自動で設定されます
           {text.length > 5 && <span className="ml-2">• AIが自動で優先度を判定します</span>}
         </p>
       )}
@@ -2,16 +2,47 @@
  * 拡張タスクリストコンポーネント（バグ修正版）
  * 
  * サブタスクとメモ機能を含む拡張されたタスクリスト
+ * v1.8.0: タスク管理機能の拡充に伴う表示と編集を追加（ボード・カレンダー・マトリクス表示など）
  */
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useDeferredValue, Fragment } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
 import { useAuthStore } from '@/store/auth';
+import { useProjectStore } from '@/store/projectStore';
+import { useUserSettingsStore } from '@/store/userSettingsStore';
+import { useDevice } from '@/hooks/useDevice';
+import { useTaskViewStore } from '@/store/taskViewStore';
+import { useTaskTemplateStore } from '@/store/taskTemplateStore';
 import { PriorityLevel } from '@/lib/aiPriorityAssignment';
-import { SubTaskUtils, TaskUtils, TaskSortBy, EnhancedTask } from '@/lib/taskInterfaces';
+import { SubTaskUtils, TaskUtils, TaskSortBy, TaskSortConfig, TaskSortKey, EnhancedTask, RecurrenceUtils, TagUtils, DependencyUtils, ProjectUtils, RetentionUtils, DueUtils, TaskGrouping, TaskViewUtils, BuiltInTaskViewSource, SnoozeUtils } from '@/lib/taskInterfaces';
+import { TaskReminders } from '@/lib/taskReminders';
+import { SearchQueryParser, SearchHighlighter, SearchContext, ParsedSearchQuery, taskSearchIndex } from '@/lib/taskSearch';
 import { playSound } from '@/lib/audioService';
+import { MemoChecklist } from '@/lib/markdown';
 import FloatingPomodoroTimer from './FloatingPomodoroTimer';
+import RecurrenceEditor from './RecurrenceEditor';
+import ReminderEditor from './ReminderEditor';
+import SnoozeEditor from './SnoozeEditor';
+import DependencyEditor from './DependencyEditor';
+import ProjectSwitcher from './ProjectSwitcher';
+import BulkActionBar from './BulkActionBar';
+import TaskArchive from './TaskArchive';
+import TaskSearchBar from './TaskSearchBar';
+import TaskViewTabs from './TaskViewTabs';
+import TaskBoard from './TaskBoard';
+import TaskCalendarView from './TaskCalendarView';
+import EisenhowerMatrix from './EisenhowerMatrix';
+import HighlightedText from './HighlightedText';
+import SubTaskTree from './SubTaskTree';
+import TagChip from './TagChip';
+import TagInput from './TagInput';
+import TagManager from './TagManager';
+import MarkdownView from './MarkdownView';
+import MarkdownEditor from './MarkdownEditor';
+import TaskActivityTimeline from './TaskActivityTimeline';
+import PriorityChangeDigest from './PriorityChangeDigest';
+import PriorityEscalationSettings from './PriorityEscalationSettings';
 
 /**
  * ソートオプションの型定義
@@ -30,9 +61,23 @@ const SORT_OPTIONS: SortOption[] = [
   { value: 'deadline', label: '期限順', icon: '📅' },
   { value: 'created', label: '作成日順', icon: '🕐' },
   { value: 'progress', label: '進捗順', icon: '📊' },
-  { value: 'alphabetical', label: 'あいうえお順', icon: '🔤' }
+  { value: 'alphabetical', label: 'あいうえお順', icon: '🔤' },
+  { value: 'tag', label: 'タグ別', icon: '🏷️' },
+  { value: 'ready', label: '着手可能順', icon: '🚦' },
+  { value: 'manual', label: '手動', icon: '✋' }
 ];
 
+/**
+ * 並べ替えの表示名（例: 期限順（昇順） → 優先度順（降順））
+ */
+const describeSortConfig = (config: TaskSortConfig): string => {
+  return TaskUtils.getSortKeys(config).map(key => {
+    const label = SORT_OPTIONS.find(option => option.value === key.sortBy)?.label || key.sortBy;
+    if (key.sortBy === 'ready' || key.sortBy === 'manual') return label;
+    return `${label}（${key.sortOrder === 'asc' ? '昇順' : '降順'}）`;
+  }).join(' → ');
+};
+
 /**
  * 拡張タスクリストコンポーネント
  */
@@ -40,31 +85,70 @@ export default function EnhancedTaskList() {
   // ストアからタスク機能を取得
   const { 
     tasks, 
+    archivedTasks,
+    sortConfig: savedSortConfig,
+    setSortConfig: saveSortConfig,
+    trashedTasks,
     loading,
+    pendingWrites,
     loadTasks,
     toggleCompleteTask, 
     removeTask, 
+    archiveTask,
     setDeadline, 
+    setReminders,
+    setStartDate,
     setPriority, 
     updateTaskMemo,
+    setMemoChecklistSync,
     setEstimatedTime,
+    setRecurrence,
+    setTaskTags,
+    setTaskProject,
     addSubTask,
     toggleCompleteSubTask,
-    removeSubTask,
-    startPomodoro
+    mergeTaskIntoTask,
+    startPomodoro,
+    getTasksDueToday,
+    getOverdueTasks,
+    getTasksDueSoon,
+    getTasksByPriority,
+    getSnoozedTasks,
+    moveTask
   } = useEnhancedTaskStore();
   
   const { user } = useAuthStore();
+  const { projects, selectedProjectId, getProjectById } = useProjectStore();
+  const { retention } = useUserSettingsStore();
+  const { views, activeViewId } = useTaskViewStore();
+  const { saveTaskAsTemplate } = useTaskTemplateStore();
   
   // ローカル状態
   const [filter, setFilter] = useState<'all' | 'active' | 'completed'>('all');
-  const [sortBy, setSortBy] = useState<TaskSortBy>('priority');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [sortConfig, setSortConfig] = useState<TaskSortConfig>(() => TaskUtils.normalizeSortConfig(savedSortConfig));
+  const { sortBy, sortOrder } = sortConfig;
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [grouping, setGrouping] = useState<TaskGrouping>('none');
+  const [layout, setLayout] = useState<'list' | 'board' | 'calendar' | 'matrix'>('list');
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showPrioritySettings, setShowPrioritySettings] = useState(false);
   const [expandedTaskId, setExpandedTaskId] = useState<string | null>(null);
   const [editingField, setEditingField] = useState<{taskId: string, field: string} | null>(null);
   const [editValues, setEditValues] = useState<{[key: string]: any}>({});
   const [newSubTaskText, setNewSubTaskText] = useState<{[taskId: string]: string}>({});
   const [mounted, setMounted] = useState(false);
+  const isMobile = useDevice();
+  
+  // 手動の並べ替え（ドラッグ＆ドロップ）の状態
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string, position: 'before' | 'after' } | null>(null);
+  
+  // 複数選択（一括操作）の状態
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
   
   // 🔥 追加: 優先度変更の処理中状態を管理
   const [priorityChanging, setPriorityChanging] = useState<{[taskId: string]: boolean}>({});
@@ -109,6 +193,20 @@ export default function EnhancedTaskList() {
       }
     }
   };
+
+  /**
+   * メモのチェックボックスの切り替え
+   * 同期中は対応するサブタスクを切り替え（メモはサブタスクに合わせて更新される）、それ以外はメモの行だけを書き換える
+   */
+  const handleToggleMemoCheckbox = async (task: EnhancedTask, line: number) => {
+    const memo = task.memo || '';
+    const subTask = task.memoChecklistSync ? MemoChecklist.findSubTask(memo, line, task.subTasks) : undefined;
+    if (subTask) {
+      await handleToggleSubTask(task.id, subTask.id);
+    } else {
+      await updateTaskMemo(task.id, MemoChecklist.toggleLine(memo, line));
+    }
+  };
   
   // コンポーネントのマウント状態を追跡
   useEffect(() => {
@@ -128,72 +226,314 @@ export default function EnhancedTaskList() {
    * タスクをソートする関数
    */
   const sortTasks = (tasksToSort: EnhancedTask[]): EnhancedTask[] => {
-    const sorted = [...tasksToSort].sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortBy) {
-        case 'priority':
-          // 優先度: high(3) > medium(2) > low(1)
-          const priorityOrder = { 'high': 3, 'medium': 2, 'low': 1 };
-          comparison = priorityOrder[b.priority] - priorityOrder[a.priority];
-          break;
-          
-        case 'deadline':
-          // 期限: 近い順（期限なしは最後）
-          if (!a.deadline && !b.deadline) comparison = 0;
-          else if (!a.deadline) comparison = 1;
-          else if (!b.deadline) comparison = -1;
-          else comparison = new Date(a.deadline).getTime() - new Date(b.deadline).getTime();
-          break;
-          
-        case 'created':
-          // 作成日: 新しい順
-          comparison = (b.createdAt || 0) - (a.createdAt || 0);
-          break;
-          
-        case 'progress':
-          // 進捗: 高い順
-          const progressA = TaskUtils.calculateTotalProgress(a);
-          const progressB = TaskUtils.calculateTotalProgress(b);
-          comparison = progressB - progressA;
-          break;
-          
-        case 'alphabetical':
-          // あいうえお順
-          comparison = a.text.localeCompare(b.text, 'ja');
-          break;
-          
-        default:
-          comparison = 0;
-      }
-      
-      // ソート順序を適用
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
+    // 着手可能順は絞り込みで外れたブロッカーも考慮する
+    if (sortBy === 'ready') {
+      return DependencyUtils.sortByReadiness(tasksToSort, tasks);
+    }
+    return TaskUtils.sortTasks(tasksToSort, sortConfig);
+  };
+
+  /**
+   * 選択中のビュー（組み込みビューまたは保存ビュー、選んでいなければ undefined）
+   */
+  const getActiveView = () => {
+    return TaskViewUtils.BUILT_IN_VIEWS.find(v => v.id === activeViewId) ||
+      useTaskViewStore.getState().getViewById(activeViewId);
+  };
+
+  /**
+   * ビューを切り替えたら、そのビューの検索条件・並べ替え・グループ表示を適用
+   * 保存ビューの内容が後から更新されても、表示中の条件は切り替え時のまま保つ
+   * ビューを選んでいない場合は、保存済みの既定の並べ替えに戻す
+   */
+  useEffect(() => {
+    const view = getActiveView();
     
-    return sorted;
+    setSearchQuery(view ? view.query : '');
+    setGrouping(view ? view.grouping : 'none');
+    setSortConfig(TaskUtils.normalizeSortConfig(view ? view.sortConfig : useEnhancedTaskStore.getState().sortConfig));
+    if (view) {
+      setFilter('all');
+      setTagFilter(null);
+    }
+  }, [activeViewId]);
+
+  /**
+   * ビューを選んでいない間は、他の端末で変更した既定の並べ替えも反映する
+   */
+  useEffect(() => {
+    if (!getActiveView()) setSortConfig(TaskUtils.normalizeSortConfig(savedSortConfig));
+  }, [savedSortConfig]);
+
+  /**
+   * 並べ替えを変更（ビューを選んでいない場合は、端末間で共有する既定の並べ替えとして保存する）
+   */
+  const changeSortConfig = (changes: Partial<TaskSortConfig>) => {
+    const next = TaskUtils.normalizeSortConfig({ ...sortConfig, ...changes });
+    setSortConfig(next);
+    if (!getActiveView()) saveSortConfig(next);
+  };
+
+  /**
+   * 第2条件以降を変更
+   */
+  const updateThenBy = (index: number, changes: Partial<TaskSortKey>) => {
+    changeSortConfig({ thenBy: (sortConfig.thenBy || []).map((key, i) => i === index ? { ...key, ...changes } : key) });
+  };
+
+  const removeThenBy = (index: number) => {
+    changeSortConfig({ thenBy: (sortConfig.thenBy || []).filter((_, i) => i !== index) });
+  };
+
+  const addThenBy = () => {
+    const usedKeys = TaskUtils.getSortKeys(sortConfig).map(key => key.sortBy);
+    const option = SORT_OPTIONS.find(o => o.value !== 'ready' && !usedKeys.includes(o.value));
+    if (option) changeSortConfig({ thenBy: [...(sortConfig.thenBy || []), { sortBy: option.value, sortOrder: 'asc' }] });
+  };
+
+  /**
+   * 組み込みビューの取得元のタスク
+   */
+  const getBuiltInViewTasks = (source: BuiltInTaskViewSource): EnhancedTask[] => {
+    switch (source) {
+      case 'today': return getTasksDueToday();
+      case 'overdue': return getOverdueTasks();
+      case 'week': return getTasksDueSoon(TaskViewUtils.getDaysUntilEndOfWeek());
+      case 'highPriority': return getTasksByPriority('high');
+      case 'snoozed': return getSnoozedTasks();
+    }
   };
 
+  /**
+   * スヌーズ中のタスクを表示するか（「スヌーズ中」ビューと is:snoozed の検索以外では開始日まで隠す）
+   */
+  const showsSnoozedTasks = (source: BuiltInTaskViewSource | undefined, parsed: ParsedSearchQuery): boolean => {
+    return source === 'snoozed' || parsed.terms.some(term => term.kind === 'is' && term.value === 'snoozed' && !term.negated);
+  };
+
+  const activeBuiltInView = TaskViewUtils.BUILT_IN_VIEWS.find(view => view.id === activeViewId);
+
+  /**
+   * ビューごとのタスク数（表示中のプロジェクト内で数える）
+   */
+  const viewCounts = useMemo(() => {
+    const context: SearchContext = { allTasks: tasks, projects, now: Date.now() };
+    const inProject = (task: EnhancedTask) =>
+      !selectedProjectId || ProjectUtils.getProjectKey(task) === selectedProjectId;
+    const countTasks = (baseTasks: EnhancedTask[], query: string, source?: BuiltInTaskViewSource) => {
+      const parsed = SearchQueryParser.parse(query);
+      const projectTasks = baseTasks.filter(task =>
+        inProject(task) && (showsSnoozedTasks(source, parsed) || !SnoozeUtils.isSnoozed(task, context.now)));
+      return parsed.terms.length > 0
+        ? taskSearchIndex.search(parsed, projectTasks, context).length
+        : projectTasks.length;
+    };
+    
+    const counts: { [viewId: string]: number } = {};
+    TaskViewUtils.BUILT_IN_VIEWS.forEach(view => {
+      counts[view.id] = countTasks(getBuiltInViewTasks(view.source), view.query, view.source);
+    });
+    views.filter(view => view.pinned).forEach(view => {
+      counts[view.id] = countTasks(tasks, view.query);
+    });
+    return counts;
+  }, [tasks, views, projects, selectedProjectId]);
+
+  /**
+   * 解析済みの検索クエリ（入力中は前回の結果を表示したまま再計算する）
+   */
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const parsedSearchQuery = useMemo(() => SearchQueryParser.parse(deferredSearchQuery), [deferredSearchQuery]);
+  const searchTerms = parsedSearchQuery.textTerms;
+
   /**
    * フィルターとソートを適用したタスクリスト
    */
   const filteredAndSortedTasks = useMemo(() => {
-    // フィルター適用
-    let filtered = tasks.filter(task => {
+    // 組み込みビューの表示中はその取得元のタスクに絞る
+    const baseTasks = activeBuiltInView ? getBuiltInViewTasks(activeBuiltInView.source) : tasks;
+    
+    // フィルター適用（スヌーズ中のタスクは開始日まで隠す）
+    const now = Date.now();
+    const showSnoozed = showsSnoozedTasks(activeBuiltInView?.source, parsedSearchQuery);
+    let filtered = baseTasks.filter(task => {
+      if (!showSnoozed && SnoozeUtils.isSnoozed(task, now)) return false;
       if (filter === 'active') return !task.completed;
       if (filter === 'completed') return task.completed;
       return true;
     });
     
-    // ソート適用
-    return sortTasks(filtered);
-  }, [tasks, filter, sortBy, sortOrder]);
+    // プロジェクトで絞り込み
+    if (selectedProjectId) {
+      filtered = filtered.filter(task => ProjectUtils.getProjectKey(task) === selectedProjectId);
+    }
+    
+    // タグで絞り込み
+    if (tagFilter) {
+      filtered = filtered.filter(task => task.tags?.includes(tagFilter));
+    }
+    
+    // 検索で絞り込み（索引はストアの onSnapshot で同期済み）
+    if (parsedSearchQuery.terms.length > 0) {
+      filtered = taskSearchIndex
+        .search(parsedSearchQuery, filtered, { allTasks: tasks, projects, now })
+        .map(result => result.task);
+    }
+    
+    // ソート適用（グループ表示ではグループ内の並び順を保ってグループ順に並べる）
+    return TaskViewUtils.sortByGroup(sortTasks(filtered), grouping, projects);
+  }, [tasks, activeBuiltInView, filter, selectedProjectId, tagFilter, parsedSearchQuery, projects, sortConfig, grouping]);
+
+  /**
+   * グループ見出しの表示方法（グループ表示なしでタグ別に並べている場合はタグで見出しを付ける）
+   */
+  const displayGrouping: TaskGrouping = grouping !== 'none' ? grouping : sortBy === 'tag' ? 'tag' : 'none';
+
+  /**
+   * 手動の並べ替えができるか（グループ表示中と選択モード中はできない）
+   */
+  const canReorder = sortBy === 'manual' && grouping === 'none' && !selectionMode;
+
+  /**
+   * 表示中の並びの指定位置（移動するタスクを除いた並びでの位置）へタスクを移動
+   * 移動後も並べ替えの操作を続けられるよう、ハンドルにフォーカスを戻す
+   */
+  const moveTaskTo = async (taskId: string, index: number) => {
+    await moveTask(taskId, filteredAndSortedTasks.map(task => task.id), index);
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-reorder-handle="${taskId}"]`)?.focus();
+    });
+  };
+
+  /**
+   * ドラッグ中のタスクを行の上半分なら前、下半分なら後ろに置く
+   */
+  const getTaskDropPosition = (row: Element, clientY: number, taskId: string): 'before' | 'after' | null => {
+    if (!draggingTaskId || draggingTaskId === taskId) return null;
+    const rect = row.getBoundingClientRect();
+    return clientY - rect.top < rect.height / 2 ? 'before' : 'after';
+  };
+
+  /**
+   * ドラッグ中のタスクを置く位置へ移動し、ドラッグの状態を解除
+   */
+  const dropTask = (target: { id: string, position: 'before' | 'after' } | null) => {
+    const movingId = draggingTaskId;
+    setDraggingTaskId(null);
+    setDropTarget(null);
+    if (!target || !movingId) return;
+
+    const others = filteredAndSortedTasks.filter(task => task.id !== movingId);
+    const index = others.findIndex(task => task.id === target.id);
+    moveTaskTo(movingId, target.position === 'before' ? index : index + 1);
+  };
+
+  /**
+   * タスクのドロップ
+   */
+  const handleTaskDrop = (e: React.DragEvent, taskId: string) => {
+    e.preventDefault();
+    const position = getTaskDropPosition(e.currentTarget, e.clientY, taskId);
+    dropTask(position ? { id: taskId, position } : null);
+  };
+
+  /**
+   * タッチ・ペンでのハンドルのドラッグ開始
+   * HTML5のドラッグ＆ドロップはタッチでは動かないため、ポインターイベントで扱う（マウスはHTML5のドラッグ）
+   */
+  const handleReorderPointerDown = (e: React.PointerEvent, taskId: string) => {
+    if (e.pointerType === 'mouse') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraggingTaskId(taskId);
+  };
+
+  /**
+   * タッチ・ペンでのドラッグ中は、指の下にある行から置く位置を求めて表示
+   */
+  const handleReorderPointerMove = (e: React.PointerEvent, taskId: string) => {
+    if (e.pointerType === 'mouse' || draggingTaskId !== taskId) return;
+    const row = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-reorder-row]');
+    const targetId = row?.dataset.reorderRow;
+    const position = row && targetId ? getTaskDropPosition(row, e.clientY, targetId) : null;
+    setDropTarget(position && targetId ? { id: targetId, position } : null);
+  };
+
+  /**
+   * 指を離した位置へ移動（ドラッグが中断された場合は移動しない）
+   */
+  const handleReorderPointerUp = (e: React.PointerEvent, taskId: string) => {
+    if (e.pointerType === 'mouse' || draggingTaskId !== taskId) return;
+    dropTask(e.type === 'pointerup' ? dropTarget : null);
+  };
+
+  /**
+   * 同期待ちの変更があるタスクのID
+   */
+  const pendingTaskIds = useMemo(
+    () => new Set(pendingWrites.flatMap(write => write.operations.map(operation => operation.taskId))),
+    [pendingWrites]
+  );
+
+  /**
+   * 削除されたタスクを選択から外す
+   */
+  useEffect(() => {
+    setSelectedTaskIds(prev => {
+      const remaining = prev.filter(taskId => tasks.some(task => task.id === taskId));
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }, [tasks]);
+
+  /**
+   * タスクの選択を切り替え（Shift+クリックで直前に選択したタスクからの範囲を選択）
+   */
+  const handleSelectTask = (taskId: string, shiftKey: boolean) => {
+    if (shiftKey && selectionAnchorId) {
+      const visibleIds = filteredAndSortedTasks.map(task => task.id);
+      const anchorIndex = visibleIds.indexOf(selectionAnchorId);
+      const targetIndex = visibleIds.indexOf(taskId);
+
+      if (anchorIndex !== -1 && targetIndex !== -1) {
+        const range = visibleIds.slice(
+          Math.min(anchorIndex, targetIndex),
+          Math.max(anchorIndex, targetIndex) + 1
+        );
+        setSelectedTaskIds(prev => Array.from(new Set([...prev, ...range])));
+        return;
+      }
+    }
+
+    setSelectedTaskIds(prev =>
+      prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId]
+    );
+    setSelectionAnchorId(taskId);
+  };
+
+  /**
+   * 選択モードを切り替え（終了時は選択を解除）
+   */
+  const toggleSelectionMode = () => {
+    if (selectionMode) {
+      setSelectedTaskIds([]);
+      setSelectionAnchorId(null);
+    }
+    setSelectionMode(!selectionMode);
+  };
+
+  /**
+   * 使用中のタグ一覧（絞り込み用）
+   */
+  const usedTags = useMemo(() => {
+    const tagSet = new Set<string>();
+    tasks.forEach(task => (task.tags || []).forEach(tag => tagSet.add(tag)));
+    return Array.from(tagSet).sort((a, b) => a.localeCompare(b, 'ja'));
+  }, [tasks]);
 
   /**
    * ソート順序を切り替える
    */
   const toggleSortOrder = () => {
-    setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc');
+    changeSortConfig({ sortOrder: sortOrder === 'asc' ? 'desc' : 'asc' });
   };
 
   /**
@@ -211,9 +551,13 @@ export default function EnhancedTaskList() {
       if (task) {
         setEditValues({
           [`${taskId}_deadline`]: task.deadline || '',
+          [`${taskId}_dueTime`]: task.dueTime || '',
+          [`${taskId}_reminders`]: task.reminders || [],
           [`${taskId}_priority`]: task.priority || 'medium',
           [`${taskId}_memo`]: task.memo || '',
-          [`${taskId}_estimatedMinutes`]: task.estimatedMinutes || ''
+          [`${taskId}_estimatedMinutes`]: task.estimatedMinutes || '',
+          [`${taskId}_recurrence`]: task.recurrence || null,
+          [`${taskId}_tags`]: task.tags || []
         });
       }
     }
@@ -239,7 +583,11 @@ export default function EnhancedTaskList() {
     try {
       switch (field) {
         case 'deadline':
-          await setDeadline(taskId, value);
+          // 期限を外した場合は時刻も解除する
+          await setDeadline(taskId, value, value ? editValues[`${taskId}_dueTime`] || null : null);
+          break;
+        case 'reminders':
+          await setReminders(taskId, value || []);
           break;
         case 'priority':
           await setPriority(taskId, value);
@@ -252,6 +600,12 @@ export default function EnhancedTaskList() {
             await setEstimatedTime(taskId, parseInt(value));
           }
           break;
+        case 'recurrence':
+          await setRecurrence(taskId, value);
+          break;
+        case 'tags':
+          await setTaskTags(taskId, value || []);
+          break;
       }
       setEditingField(null);
     } catch (error) {
@@ -329,11 +683,13 @@ export default function EnhancedTaskList() {
     if (diffDays === 0) return '今日完了';
     if (diffDays === 1) return '昨日完了';
     
-    const daysUntilDeletion = 7 - diffDays;
-    if (daysUntilDeletion > 0) {
-      return `${diffDays}日前に完了（あと${daysUntilDeletion}日で削除）`;
+    const daysUntilArchive = RetentionUtils.getDaysUntilArchive(task, retention, now);
+    if (daysUntilArchive === null) {
+      return `${diffDays}日前に完了`;
+    } else if (daysUntilArchive > 0) {
+      return `${diffDays}日前に完了（あと${daysUntilArchive}日でアーカイブ）`;
     } else {
-      return `${diffDays}日前に完了（もうすぐ削除）`;
+      return `${diffDays}日前に完了（もうすぐアーカイブ）`;
     }
   };
   
@@ -413,6 +769,14 @@ export default function EnhancedTaskList() {
       {/* フローティングポモドーロタイマー */}
       <FloatingPomodoroTimer />
       
+      {/* 保存ビュータブ */}
+      <TaskViewTabs
+        counts={viewCounts}
+        totalCount={tasks.length}
+        current={{ name: '', query: searchQuery, sortConfig, grouping }}
+        sortLabel={describeSortConfig(sortConfig)}
+      />
+      
       {/* フィルタータブ */}
       <div className="flex border-b">
         {(['all', 'active', 'completed'] as const).map((option) => (
@@ -430,6 +794,9 @@ export default function EnhancedTaskList() {
         ))}
       </div>
       
+      {/* プロジェクト切り替え */}
+      <ProjectSwitcher />
+      
       {/* ソートコントロール */}
       <div className="px-3 py-3 border-b bg-gray-50">
         <div className="flex items-center justify-between">
@@ -437,7 +804,7 @@ export default function EnhancedTaskList() {
             <span className="text-sm font-medium text-gray-700">並べ替え:</span>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as TaskSortBy)}
+              onChange={(e) => changeSortConfig({ sortBy: e.target.value as TaskSortBy })}
               className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500"
             >
               {SORT_OPTIONS.map(option => (
@@ -448,457 +815,1077 @@ export default function EnhancedTaskList() {
             </select>
             <button
               onClick={toggleSortOrder}
-              className="text-sm px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 flex items-center"
+              disabled={sortBy === 'ready' || sortBy === 'manual'}
+              className="text-sm px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 flex items-center disabled:opacity-50"
               title={`${sortOrder === 'asc' ? '昇順' : '降順'}で表示中`}
             >
               {sortOrder === 'asc' ? '↗️' : '↘️'}
               <span className="ml-1">{sortOrder === 'asc' ? '昇順' : '降順'}</span>
             </button>
+            <span className="text-sm font-medium text-gray-700">グループ:</span>
+            <select
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as TaskGrouping)}
+              className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500"
+            >
+              {TaskViewUtils.GROUPING_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
           </div>
           
           <div className="text-xs text-gray-500">
             {filteredAndSortedTasks.length}件 / {tasks.length}件
           </div>
         </div>
+        
+        {/* 第2条件以降と期限なしのタスクの位置（着手可能順・手動の並び順は単独で並びが決まる） */}
+        {sortBy !== 'ready' && sortBy !== 'manual' && (
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+            {(sortConfig.thenBy || []).map((key, index) => {
+              const usedKeys = TaskUtils.getSortKeys(sortConfig).map(k => k.sortBy).filter(k => k !== key.sortBy);
+              return (
+                <span key={index} className="flex items-center gap-1">
+                  <span className="text-gray-500">次に</span>
+                  <select
+                    value={key.sortBy}
+                    onChange={(e) => updateThenBy(index, { sortBy: e.target.value as TaskSortBy })}
+                    className="border border-gray-300 rounded px-1 py-0.5 focus:ring-2 focus:ring-blue-500"
+                    aria-label={`第${index + 2}条件`}
+                  >
+                    {SORT_OPTIONS.filter(option => option.value !== 'ready' && !usedKeys.includes(option.value)).map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.icon} {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => updateThenBy(index, { sortOrder: key.sortOrder === 'asc' ? 'desc' : 'asc' })}
+                    disabled={key.sortBy === 'manual'}
+                    className="px-1 py-0.5 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                    title={`${key.sortOrder === 'asc' ? '昇順' : '降順'}で表示中`}
+                  >
+                    {key.sortOrder === 'asc' ? '↗️' : '↘️'}
+                  </button>
+                  <button
+                    onClick={() => removeThenBy(index)}
+                    className="text-gray-400 hover:text-red-500"
+                    aria-label={`第${index + 2}条件を削除`}
+                  >
+                    ×
+                  </button>
+                </span>
+              );
+            })}
+            {TaskUtils.getSortKeys(sortConfig).length < TaskUtils.MAX_SORT_KEYS && (
+              <button onClick={addThenBy} className="text-xs text-blue-500 hover:text-blue-700">
+                ＋ 条件を追加
+              </button>
+            )}
+            {TaskUtils.getSortKeys(sortConfig).some(key => key.sortBy === 'deadline') && (
+              <label className="flex items-center gap-1 text-xs text-gray-600 ml-auto">
+                期限なし:
+                <select
+                  value={sortConfig.noDeadline || 'last'}
+                  onChange={(e) => changeSortConfig({ noDeadline: e.target.value as 'first' | 'last' })}
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                >
+                  <option value="first">先頭</option>
+                  <option value="last">最後</option>
+                </select>
+              </label>
+            )}
+          </div>
+        )}
       </div>
       
+      {/* 検索バー */}
+      <TaskSearchBar
+        value={searchQuery}
+        onChange={setSearchQuery}
+        resultCount={filteredAndSortedTasks.length}
+        errors={parsedSearchQuery.errors}
+      />
+      
+      {/* タグ絞り込みバー */}
+      {(usedTags.length > 0 || showTagManager) && (
+        <div className="px-3 py-2 border-b">
+          <div className="flex items-center flex-wrap gap-1">
+            <span className="text-sm font-medium text-gray-700 mr-1">🏷️</span>
+            {usedTags.map(tag => (
+              <TagChip
+                key={tag}
+                name={tag}
+                active={tagFilter === tag}
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              />
+            ))}
+            {tagFilter && (
+              <button
+                onClick={() => setTagFilter(null)}
+                className="text-xs text-gray-500 hover:text-gray-700 ml-1"
+              >
+                絞り込み解除
+              </button>
+            )}
+            <button
+              onClick={() => setShowTagManager(!showTagManager)}
+              className="text-xs text-blue-500 hover:text-blue-700 ml-auto"
+            >
+              {showTagManager ? 'タグ管理を閉じる' : 'タグ管理'}
+            </button>
+          </div>
+          {showTagManager && (
+            <div className="mt-2 bg-gray-50 p-3 rounded">
+              <TagManager />
+            </div>
+          )}
+        </div>
+      )}
+      
       {/* タスク件数と再読み込みボタン */}
       <div className="flex justify-between items-center px-3 py-2 border-b">
         <p className="text-xs text-gray-500">
-          {sortBy === 'priority' && '優先度順 '}
-          {sortBy === 'deadline' && '期限順 '}
-          {sortBy === 'created' && '作成日順 '}
-          {sortBy === 'progress' && '進捗順 '}
-          {sortBy === 'alphabetical' && 'あいうえお順 '}
-          で表示中
+          {describeSortConfig(sortConfig)} で表示中
+          {sortBy === 'manual' && grouping !== 'none' && '（グループ表示中は並べ替えできません）'}
         </p>
-        <button 
-          onClick={() => loadTasks()} 
-          className="text-xs text-blue-500 hover:text-blue-700"
-        >
-          🔄 再読み込み
-        </button>
+        <div className="flex items-center space-x-3">
+          <select
+            value={layout}
+            onChange={(e) => {
+              setLayout(e.target.value as 'list' | 'board' | 'calendar' | 'matrix');
+              if (selectionMode) toggleSelectionMode();
+            }}
+            className="text-xs border border-gray-300 rounded px-1 py-0.5 text-blue-600"
+            aria-label="表示形式"
+          >
+            <option value="list">📋 リスト</option>
+            <option value="board">🗂️ ボード</option>
+            <option value="calendar">📆 カレンダー</option>
+            <option value="matrix">🧭 マトリクス</option>
+          </select>
+          {layout === 'list' && (
+            <button
+              onClick={toggleSelectionMode}
+              className={`text-xs ${selectionMode ? 'text-blue-700 font-medium' : 'text-blue-500 hover:text-blue-700'}`}
+            >
+              {selectionMode ? '✕ 選択を終了' : '☑️ 選択'}
+            </button>
+          )}
+          <button 
+            onClick={() => loadTasks()} 
+            className="text-xs text-blue-500 hover:text-blue-700"
+          >
+            🔄 再読み込み
+          </button>
+        </div>
       </div>
       
+      {/* 一括操作バー */}
+      {selectionMode && (
+        <BulkActionBar
+          selectedTaskIds={selectedTaskIds}
+          visibleCount={filteredAndSortedTasks.length}
+          onSelectAll={() => setSelectedTaskIds(filteredAndSortedTasks.map(task => task.id))}
+          onClearSelection={() => {
+            setSelectedTaskIds([]);
+            setSelectionAnchorId(null);
+          }}
+        />
+      )}
+      
+      {/* 期限が近づいて自動で変更した優先度の確認 */}
+      <PriorityChangeDigest tasks={tasks} />
+      
+      {/* ボード表示 */}
+      {layout === 'board' && <TaskBoard tasks={filteredAndSortedTasks} />}
+      
+      {/* カレンダー表示 */}
+      {layout === 'calendar' && <TaskCalendarView tasks={filteredAndSortedTasks} />}
+      
+      {/* 重要度・緊急度マトリクス */}
+      {layout === 'matrix' && <EisenhowerMatrix tasks={filteredAndSortedTasks} />}
+      
       {/* タスクリスト */}
-      <ul className="divide-y divide-gray-200">
+      {layout === 'list' && <ul className="divide-y divide-gray-200">
         {filteredAndSortedTasks.length === 0 ? (
           <li className="p-4 text-center text-gray-500">
             現在の表示条件では該当するタスクがありません
           </li>
         ) : (
-          filteredAndSortedTasks.map((task) => {
+          filteredAndSortedTasks.map((task, index) => {
             const subTaskProgress = SubTaskUtils.calculateProgress(task.subTasks);
             const totalProgress = TaskUtils.calculateTotalProgress(task);
             const complexity = TaskUtils.calculateComplexity(task);
+            const openBlockers = task.completed ? [] : DependencyUtils.getOpenBlockers(task, tasks);
+            const memoSnippet = searchTerms.length > 0 && task.memo
+              ? SearchHighlighter.getSnippet(task.memo, searchTerms)
+              : null;
+            const matchedSubTasks = searchTerms.length > 0
+              ? task.subTasks.filter(subTask => SearchHighlighter.getSnippet(subTask.text, searchTerms) !== null)
+              : [];
+            const project = getProjectById(task.projectId);
+            const nextReminderAt = TaskReminders.getNextReminderAt(task);
+            
+            // グループ表示ではグループの先頭に見出しを表示
+            const groupKey = TaskViewUtils.getGroupKey(task, displayGrouping);
+            const showGroupHeader = displayGrouping !== 'none' &&
+              (index === 0 || TaskViewUtils.getGroupKey(filteredAndSortedTasks[index - 1], displayGrouping) !== groupKey);
+            const groupProject = displayGrouping === 'project' ? getProjectById(task.projectId) : undefined;
             
             return (
-              <li
-                key={task.id}
-                className={`p-4 ${task.completed ? 'bg-gray-50' : ''}`}
-              >
-                <div className="flex items-start">
-                  {/* 完了チェックボックス */}
-                  <div className="flex-shrink-0 mr-3">
-                    <input
-                      type="checkbox"
-                      checked={task.completed}
-                      onChange={() => handleToggleTask(task.id)}
-                      className="h-5 w-5 text-blue-600 focus:ring-blue-500 rounded"
-                    />
-                  </div>
-                  
-                  {/* タスク内容 */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between">
-                      <p
-                        className={`text-sm font-medium ${
-                          task.completed ? 'line-through text-gray-500' : 'text-gray-900'
-                        }`}
+              <Fragment key={task.id}>
+                {showGroupHeader && (
+                  <li className="px-4 py-1 bg-gray-100 text-xs font-medium text-gray-600">
+                    {displayGrouping === 'tag' && (groupKey ? <TagChip name={groupKey} /> : 'タグなし')}
+                    {displayGrouping === 'project' && (groupProject ? `${groupProject.icon} ${groupProject.name}` : '未分類')}
+                    {displayGrouping === 'priority' && `優先度: ${getPriorityText(task.priority)}`}
+                  </li>
+                )}
+                <li
+                  data-reorder-row={canReorder ? task.id : undefined}
+                  onDragOver={canReorder ? (e) => {
+                    const position = getTaskDropPosition(e.currentTarget, e.clientY, task.id);
+                    if (!position) return;
+                    e.preventDefault();
+                    setDropTarget({ id: task.id, position });
+                  } : undefined}
+                  onDragLeave={canReorder ? () => setDropTarget(prev => prev?.id === task.id ? null : prev) : undefined}
+                  onDrop={canReorder ? (e) => handleTaskDrop(e, task.id) : undefined}
+                  className={`p-4 ${selectedTaskIds.includes(task.id) ? 'bg-blue-50' : task.completed ? 'bg-gray-50' : ''} ${openBlockers.length > 0 ? 'opacity-60' : ''} ${
+                    dropTarget?.id === task.id ? (dropTarget.position === 'before' ? 'border-t-2 border-t-blue-500' : 'border-b-2 border-b-blue-500') : ''
+                  } ${draggingTaskId === task.id ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-start">
+                    {/* 並べ替えハンドル（手動の並び順のみ、マウスとタッチのドラッグ、キーボードは上下の矢印キー） */}
+                    {canReorder && (
+                      <button
+                        type="button"
+                        draggable={!isMobile}
+                        data-reorder-handle={task.id}
+                        onDragStart={(e) => {
+                          e.dataTransfer.setData('text/plain', task.id);
+                          e.dataTransfer.effectAllowed = 'move';
+                          const row = e.currentTarget.closest('li');
+                          if (row) e.dataTransfer.setDragImage(row, 16, 16);
+                          setDraggingTaskId(task.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingTaskId(null);
+                          setDropTarget(null);
+                        }}
+                        onPointerDown={(e) => handleReorderPointerDown(e, task.id)}
+                        onPointerMove={(e) => handleReorderPointerMove(e, task.id)}
+                        onPointerUp={(e) => handleReorderPointerUp(e, task.id)}
+                        onPointerCancel={(e) => handleReorderPointerUp(e, task.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'ArrowUp' && index > 0) {
+                            e.preventDefault();
+                            moveTaskTo(task.id, index - 1);
+                          } else if (e.key === 'ArrowDown' && index < filteredAndSortedTasks.length - 1) {
+                            e.preventDefault();
+                            moveTaskTo(task.id, index + 1);
+                          }
+                        }}
+                        className="flex-shrink-0 mr-2 px-1 text-gray-400 hover:text-gray-600 cursor-grab touch-none select-none focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                        aria-label={`「${task.text}」を並べ替え（上下の矢印キーで移動）`}
+                        title="ドラッグ、または上下の矢印キーで並べ替え"
                       >
-                        {task.text}
-                      </p>
-                      
-                      {/* 複雑度アイコン */}
-                      <div className="flex items-center space-x-1">
-                        {complexity === 'complex' && <span className="text-red-500" title="複雑なタスク">🔴</span>}
-                        {complexity === 'medium' && <span className="text-yellow-500" title="中程度のタスク">🟡</span>}
-                        {complexity === 'simple' && <span className="text-green-500" title="シンプルなタスク">🟢</span>}
+                        ⠿
+                      </button>
+                    )}
+                    {/* スマートフォンではドラッグしにくい場合のために上下ボタンも表示 */}
+                    {canReorder && isMobile && (
+                      <div className="flex-shrink-0 flex flex-col mr-2 -my-1">
+                        <button
+                          onClick={() => moveTaskTo(task.id, index - 1)}
+                          disabled={index === 0}
+                          className="px-1 text-gray-400 hover:text-blue-500 disabled:opacity-30"
+                          aria-label={`「${task.text}」を上へ移動`}
+                        >
+                          ▲
+                        </button>
+                        <button
+                          onClick={() => moveTaskTo(task.id, index + 1)}
+                          disabled={index === filteredAndSortedTasks.length - 1}
+                          className="px-1 text-gray-400 hover:text-blue-500 disabled:opacity-30"
+                          aria-label={`「${task.text}」を下へ移動`}
+                        >
+                          ▼
+                        </button>
                       </div>
-                    </div>
+                    )}
                     
-                    {/* プログレスバー（サブタスクがある場合） */}
-                    {task.subTasks.length > 0 && (
-                      <div className="mt-2">
-                        <div className="flex justify-between text-xs text-gray-500 mb-1">
-                          <span>進捗: {subTaskProgress.completed}/{subTaskProgress.total}</span>
-                          <span>{totalProgress}%</span>
-                        </div>
-                        <div className="w-full bg-gray-200 rounded-full h-2">
-                          <motion.div 
-                            className="bg-blue-500 h-2 rounded-full"
-                            initial={{ width: 0 }}
-                            animate={{ width: `${totalProgress}%` }}
-                            transition={{ duration: 0.3 }}
-                          />
-                        </div>
+                    {/* 選択チェックボックス（選択モード時のみ） */}
+                    {selectionMode && (
+                      <div className="flex-shrink-0 mr-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedTaskIds.includes(task.id)}
+                          onClick={(e) => handleSelectTask(task.id, e.shiftKey)}
+                          readOnly
+                          className="h-5 w-5 text-indigo-600 focus:ring-indigo-500 rounded-sm border-indigo-400"
+                          aria-label={`「${task.text}」を選択`}
+                        />
                       </div>
                     )}
                     
-                    {/* タスクのメタ情報 */}
-                    <div className="mt-2 flex flex-wrap gap-2 text-xs text-gray-500">
-                      {/* 期限表示 */}
-                      {task.deadline && (
-                        <span className="inline-flex items-center">
-                          📅 {task.deadline}
-                        </span>
+                    {/* 完了チェックボックス */}
+                    <div className="flex-shrink-0 mr-3">
+                      <input
+                        type="checkbox"
+                        checked={task.completed}
+                        onChange={() => handleToggleTask(task.id)}
+                        className="h-5 w-5 text-blue-600 focus:ring-blue-500 rounded"
+                      />
+                    </div>
+                  
+                    {/* タスク内容 */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <p
+                          className={`text-sm font-medium ${
+                            task.completed ? 'line-through text-gray-500' : 'text-gray-900'
+                          }`}
+                        >
+                          <HighlightedText text={task.text} terms={searchTerms} />
+                        </p>
+                      
+                        {/* 複雑度アイコン */}
+                        <div className="flex items-center space-x-1">
+                          {complexity === 'complex' && <span className="text-red-500" title="複雑なタスク">🔴</span>}
+                          {complexity === 'medium' && <span className="text-yellow-500" title="中程度のタスク">🟡</span>}
+                          {complexity === 'simple' && <span className="text-green-500" title="シンプルなタスク">🟢</span>}
+                        </div>
+                      </div>
+                    
+                      {/* プログレスバー（サブタスクがある場合） */}
+                      {task.subTasks.length > 0 && (
+                        <div className="mt-2">
+                          <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>進捗: {subTaskProgress.completed}/{subTaskProgress.total}</span>
+                            <span>{totalProgress}%</span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <motion.div 
+                              className="bg-blue-500 h-2 rounded-full"
+                              initial={{ width: 0 }}
+                              animate={{ width: `${totalProgress}%` }}
+                              transition={{ duration: 0.3 }}
+                            />
+                          </div>
+                        </div>
                       )}
+                    
+                      {/* タスクのメタ情報 */}
+                      <div className="mt-2 flex flex-wrap gap-2 text-xs text-gray-500">
+                        {/* 期限表示 */}
+                        {task.deadline && (
+                          <span className={`inline-flex items-center ${DueUtils.isOverdue(task) ? 'text-red-600 font-medium' : ''}`}>
+                            📅 {DueUtils.formatDue(task)}
+                          </span>
+                        )}
                       
-                      {/* 優先度表示 */}
-                      <span
-                        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
-                          getPriorityClass(task.priority)
-                        }`}
-                      >
-                        {getPriorityText(task.priority)}
-                      </span>
+                        {/* スヌーズ表示 */}
+                        {SnoozeUtils.isSnoozed(task) && (
+                          <span className="inline-flex items-center text-indigo-600">
+                            💤 {SnoozeUtils.formatStartDate(task.startDate!)}
+                          </span>
+                        )}
                       
-                      {/* 見積もり時間 */}
-                      {task.estimatedMinutes && (
-                        <span className="inline-flex items-center">
-                          ⏱️ {task.estimatedMinutes}分
-                        </span>
-                      )}
+                        {/* リマインダー表示 */}
+                        {task.deadline && task.reminders && task.reminders.length > 0 && !task.completed && (
+                          <span
+                            className="inline-flex items-center"
+                            title={task.reminders.map(DueUtils.describeReminder).join('、')}
+                          >
+                            🔔 {task.reminders.length}
+                          </span>
+                        )}
                       
-                      {/* サブタスク数 */}
-                      {task.subTasks.length > 0 && (
-                        <span className="inline-flex items-center">
-                          📝 {task.subTasks.length}個のサブタスク
+                        {/* 優先度表示 */}
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+                            getPriorityClass(task.priority)
+                          }`}
+                        >
+                          {getPriorityText(task.priority)}
                         </span>
-                      )}
                       
-                      {/* メモアイコン */}
-                      {task.memo && (
-                        <span className="inline-flex items-center">
-                          📄 メモあり
-                        </span>
-                      )}
+                        {/* 同期待ち表示 */}
+                        {pendingTaskIds.has(task.id) && (
+                          <span
+                            className="inline-flex items-center text-orange-600"
+                            title="この変更はオンラインに戻ったときに同期されます"
+                          >
+                            ⏳ 同期待ち
+                          </span>
+                        )}
                       
-                      {/* 完了日時表示 */}
-                      {task.completed && task.completedAt && (
-                        <span className="inline-flex items-center text-xs text-blue-600">
-                          ✓ {getCompletionStatusText(task)}
-                        </span>
+                        {/* プロジェクト表示（全プロジェクト表示時のみ） */}
+                        {project && !selectedProjectId && (
+                          <span className="inline-flex items-center" style={{ color: project.color }}>
+                            {project.icon} {project.name}
+                          </span>
+                        )}
+                      
+                        {/* ブロック中表示 */}
+                        {openBlockers.length > 0 && (
+                          <span
+                            className="inline-flex items-center text-gray-600"
+                            title={`完了待ち: ${openBlockers.map(t => t.text).join('、')}`}
+                          >
+                            🔒 {openBlockers.length}件の完了待ち
+                          </span>
+                        )}
+                      
+                        {/* 繰り返し表示 */}
+                        {task.recurrence && (
+                          <span className="inline-flex items-center text-purple-600">
+                            🔁 {RecurrenceUtils.describe(task.recurrence)}
+                          </span>
+                        )}
+                      
+                        {/* タグ表示（クリックで絞り込み） */}
+                        {(task.tags || []).map(tag => (
+                          <TagChip
+                            key={tag}
+                            name={tag}
+                            active={tagFilter === tag}
+                            onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                          />
+                        ))}
+                      
+                        {/* 見積もり時間 */}
+                        {(task.estimatedMinutes || task.actualMinutes) ? (
+                          <span className="inline-flex items-center" title="見積もり / 実績（ポモドーロの作業時間）">
+                            ⏱️ {task.estimatedMinutes ? `${task.estimatedMinutes}分` : '見積もりなし'}
+                            {task.actualMinutes ? ` / 実績${task.actualMinutes}分` : ''}
+                          </span>
+                        ) : null}
+                      
+                        {/* 作業状態 */}
+                        {!task.completed && task.status === 'inProgress' && (
+                          <span className="inline-flex items-center text-blue-600">
+                            🔄 進行中
+                          </span>
+                        )}
+                      
+                        {/* 昇格元のタスク */}
+                        {task.promotedFromTaskId && (() => {
+                          const formerParent = tasks.find(t => t.id === task.promotedFromTaskId);
+                          return formerParent ? (
+                            <button
+                              onClick={() => setExpandedTaskId(formerParent.id)}
+                              className="inline-flex items-center text-gray-500 hover:text-blue-600 hover:underline"
+                              title="元の親タスクを開く"
+                            >
+                              ⬆ 「{formerParent.text}」から昇格
+                            </button>
+                          ) : (
+                            <span className="inline-flex items-center text-gray-400">⬆ サブタスクから昇格</span>
+                          );
+                        })()}
+                      
+                        {/* サブタスク数 */}
+                        {task.subTasks.length > 0 && (
+                          <span className="inline-flex items-center">
+                            📝 {task.subTasks.length}個のサブタスク
+                          </span>
+                        )}
+                      
+                        {/* メモアイコン */}
+                        {task.memo && (
+                          <span className="inline-flex items-center">
+                            📄 メモあり
+                          </span>
+                        )}
+                      
+                        {/* 完了日時表示 */}
+                        {task.completed && task.completedAt && (
+                          <span className="inline-flex items-center text-xs text-blue-600">
+                            ✓ {getCompletionStatusText(task)}
+                          </span>
+                        )}
+                      </div>
+                      
+                      {/* 検索でメモ・サブタスクに一致した箇所 */}
+                      {(memoSnippet || matchedSubTasks.length > 0) && (
+                        <div className="mt-1 space-y-0.5 text-xs text-gray-600">
+                          {memoSnippet && (
+                            <p className="truncate">
+                              📄 <HighlightedText text={memoSnippet} terms={searchTerms} />
+                            </p>
+                          )}
+                          {matchedSubTasks.slice(0, 3).map(subTask => (
+                            <p key={subTask.id} className="truncate">
+                              {subTask.completed ? '☑' : '☐'} <HighlightedText text={subTask.text} terms={searchTerms} />
+                            </p>
+                          ))}
+                        </div>
                       )}
                     </div>
-                  </div>
                   
-                  {/* タスク操作ボタン */}
-                  <div className="flex ml-2 space-x-1">
-                    {/* 詳細展開ボタン */}
-                    <button
-                      onClick={() => toggleExpand(task.id)}
-                      className="text-gray-400 hover:text-gray-500"
-                      title="詳細を表示"
-                    >
-                      {expandedTaskId === task.id ? '🔽' : '▶️'}
-                    </button>
+                    {/* タスク操作ボタン */}
+                    <div className="flex ml-2 space-x-1">
+                      {/* 詳細展開ボタン */}
+                      <button
+                        onClick={() => toggleExpand(task.id)}
+                        className="text-gray-400 hover:text-gray-500"
+                        title="詳細を表示"
+                      >
+                        {expandedTaskId === task.id ? '🔽' : '▶️'}
+                      </button>
                     
-                    {/* ポモドーロ開始ボタン */}
-                    <button
-                      onClick={() => startPomodoro(task.id)}
-                      className="text-gray-400 hover:text-gray-500"
-                      disabled={task.completed}
-                      title="ポモドーロを開始"
-                    >
-                      ⏱️
-                    </button>
+                      {/* ポモドーロ開始ボタン */}
+                      <button
+                        onClick={() => startPomodoro(task.id)}
+                        className="text-gray-400 hover:text-gray-500"
+                        disabled={task.completed}
+                        title="ポモドーロを開始"
+                      >
+                        ⏱️
+                      </button>
+                    
+                      {/* アーカイブボタン（完了済みのみ） */}
+                      {task.completed && (
+                        <button
+                          onClick={() => archiveTask(task.id)}
+                          className="text-gray-400 hover:text-gray-600"
+                          title="アーカイブ"
+                        >
+                          🗄️
+                        </button>
+                      )}
                     
-                    {/* 削除ボタン */}
-                    <button
-                      onClick={() => removeTask(task.id)}
-                      className="text-gray-400 hover:text-red-500"
-                      title="削除"
-                    >
-                      🗑️
-                    </button>
+                      {/* 削除ボタン */}
+                      <button
+                        onClick={() => removeTask(task.id)}
+                        className="text-gray-400 hover:text-red-500"
+                        title="ゴミ箱へ移動"
+                      >
+                        🗑️
+                      </button>
+                    </div>
                   </div>
-                </div>
                 
-                {/* タスク詳細パネル */}
-                <AnimatePresence>
-                  {expandedTaskId === task.id && (
-                    <motion.div
-                      initial={{ height: 0, opacity: 0 }}
-                      animate={{ height: 'auto', opacity: 1 }}
-                      exit={{ height: 0, opacity: 0 }}
-                      className="mt-4 bg-gray-50 p-4 rounded-md overflow-hidden"
-                    >
-                      <div className="space-y-4">
-                        {/* 基本情報編集セクション */}
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          {/* 期限編集 */}
+                  {/* タスク詳細パネル */}
+                  <AnimatePresence>
+                    {expandedTaskId === task.id && (
+                      <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        className="mt-4 bg-gray-50 p-4 rounded-md overflow-hidden"
+                      >
+                        <div className="space-y-4">
+                          {/* 基本情報編集セクション */}
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {/* 期限編集 */}
+                            <div>
+                              <div className="flex justify-between items-center mb-1">
+                                <label className="block text-sm font-medium text-gray-700">
+                                  期限
+                                </label>
+                                <button
+                                  onClick={() => toggleEdit(task.id, 'deadline')}
+                                  className="text-xs text-blue-500 hover:text-blue-700"
+                                >
+                                  {editingField?.taskId === task.id && editingField?.field === 'deadline' ? 'キャンセル' : '編集'}
+                                </button>
+                              </div>
+                            
+                              {editingField?.taskId === task.id && editingField?.field === 'deadline' ? (
+                                <div className="flex">
+                                  <input
+                                    type="date"
+                                    value={editValues[`${task.id}_deadline`] || ''}
+                                    onChange={(e) => setEditValues({
+                                      ...editValues,
+                                      [`${task.id}_deadline`]: e.target.value
+                                    })}
+                                    className="flex-1 text-sm p-2 border rounded"
+                                  />
+                                  <input
+                                    type="time"
+                                    value={editValues[`${task.id}_dueTime`] || ''}
+                                    onChange={(e) => setEditValues({
+                                      ...editValues,
+                                      [`${task.id}_dueTime`]: e.target.value
+                                    })}
+                                    disabled={!editValues[`${task.id}_deadline`]}
+                                    className="ml-1 w-24 text-sm p-2 border rounded"
+                                    title="時刻（任意）"
+                                  />
+                                  <button
+                                    onClick={() => saveEdit(task.id, 'deadline')}
+                                    className="ml-2 px-3 py-1 bg-blue-500 text-white text-xs rounded"
+                                  >
+                                    保存
+                                  </button>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-gray-600">
+                                  {DueUtils.formatDue(task) || '設定されていません'}
+                                </p>
+                              )}
+                            </div>
+                          
+                            {/* 見積もり時間編集 */}
+                            <div>
+                              <div className="flex justify-between items-center mb-1">
+                                <label className="block text-sm font-medium text-gray-700">
+                                  見積もり時間
+                                </label>
+                                <button
+                                  onClick={() => toggleEdit(task.id, 'estimatedMinutes')}
+                                  className="text-xs text-blue-500 hover:text-blue-700"
+                                >
+                                  {editingField?.taskId === task.id && editingField?.field === 'estimatedMinutes' ? 'キャンセル' : '編集'}
+                                </button>
+                              </div>
+                            
+                              {editingField?.taskId === task.id && editingField?.field === 'estimatedMinutes' ? (
+                                <div className="flex">
+                                  <input
+                                    type="number"
+                                    value={editValues[`${task.id}_estimatedMinutes`] || ''}
+                                    onChange={(e) => setEditValues({
+                                      ...editValues,
+                                      [`${task.id}_estimatedMinutes`]: e.target.value
+                                    })}
+                                    placeholder="分"
+                                    className="flex-1 text-sm p-2 border rounded"
+                                  />
+                                  <button
+                                    onClick={() => saveEdit(task.id, 'estimatedMinutes')}
+                                    className="ml-2 px-3 py-1 bg-blue-500 text-white text-xs rounded"
+                                  >
+                                    保存
+                                  </button>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-gray-600">
+                                  {task.estimatedMinutes ? `${task.estimatedMinutes}分` : '設定されていません'}
+                                  {task.actualMinutes ? `（実績 ${task.actualMinutes}分）` : ''}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                        
+                          {/* 🔥 修正: 優先度編集（即座反映版） */}
                           <div>
-                            <div className="flex justify-between items-center mb-1">
+                            <div className="flex justify-between items-center mb-2">
                               <label className="block text-sm font-medium text-gray-700">
-                                期限
+                                優先度
                               </label>
                               <button
-                                onClick={() => toggleEdit(task.id, 'deadline')}
+                                onClick={() => toggleEdit(task.id, 'priority')}
                                 className="text-xs text-blue-500 hover:text-blue-700"
+                                disabled={priorityChanging[task.id]}
                               >
-                                {editingField?.taskId === task.id && editingField?.field === 'deadline' ? 'キャンセル' : '編集'}
+                                {priorityChanging[task.id] ? '変更中...' :
+                                 editingField?.taskId === task.id && editingField?.field === 'priority' ? 'キャンセル' : '編集'}
                               </button>
                             </div>
-                            
-                            {editingField?.taskId === task.id && editingField?.field === 'deadline' ? (
-                              <div className="flex">
-                                <input
-                                  type="date"
-                                  value={editValues[`${task.id}_deadline`] || ''}
-                                  onChange={(e) => setEditValues({
-                                    ...editValues,
-                                    [`${task.id}_deadline`]: e.target.value
-                                  })}
-                                  className="flex-1 text-sm p-2 border rounded"
-                                />
+                          
+                            {editingField?.taskId === task.id && editingField?.field === 'priority' ? (
+                              <div className="flex space-x-2">
+                                {(['high', 'medium', 'low'] as const).map((p) => (
+                                  <button
+                                    key={p}
+                                    onClick={() => handlePriorityChange(task.id, p)}
+                                    disabled={priorityChanging[task.id]}
+                                    className={`flex-1 px-3 py-1 text-xs rounded transition-colors ${
+                                      editValues[`${task.id}_priority`] === p
+                                        ? getPriorityClass(p)
+                                        : priorityChanging[task.id]
+                                          ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                                    }`}
+                                  >
+                                    {priorityChanging[task.id] && editValues[`${task.id}_priority`] === p ? (
+                                      <span className="flex items-center justify-center">
+                                        <div className="h-3 w-3 border border-current border-t-transparent rounded-full animate-spin mr-1"></div>
+                                        {p === 'high' ? '高' : p === 'medium' ? '中' : '低'}
+                                      </span>
+                                    ) : (
+                                      p === 'high' ? '高' : p === 'medium' ? '中' : '低'
+                                    )}
+                                  </button>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className={`inline-block px-3 py-1 rounded text-xs ${getPriorityClass(task.priority)}`}>
+                                {getPriorityText(task.priority)}優先度
+                              </span>
+                            )}
+                          </div>
+                        
+                          {/* プロジェクト選択 */}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              プロジェクト
+                            </label>
+                            <select
+                              value={task.projectId || ''}
+                              onChange={(e) => setTaskProject(task.id, e.target.value || null)}
+                              className="w-full text-sm p-2 border rounded"
+                            >
+                              <option value="">未分類</option>
+                              {projects
+                                .filter(p => !p.archived || p.id === task.projectId)
+                                .map(p => (
+                                  <option key={p.id} value={p.id}>
+                                    {p.icon} {p.name}
+                                  </option>
+                                ))}
+                            </select>
+                          </div>
+                        
+                          {/* タグ編集 */}
+                          <div>
+                            <div className="flex justify-between items-center mb-2">
+                              <label className="block text-sm font-medium text-gray-700">
+                                タグ
+                              </label>
+                              <button
+                                onClick={() => toggleEdit(task.id, 'tags')}
+                                className="text-xs text-blue-500 hover:text-blue-700"
+                              >
+                                {editingField?.taskId === task.id && editingField?.field === 'tags' ? 'キャンセル' : '編集'}
+                              </button>
+                            </div>
+                          
+                            {editingField?.taskId === task.id && editingField?.field === 'tags' ? (
+                              <div className="flex items-start">
+                                <div className="flex-1">
+                                  <TagInput
+                                    value={editValues[`${task.id}_tags`] || []}
+                                    onChange={(tags) => setEditValues({
+                                      ...editValues,
+                                      [`${task.id}_tags`]: tags
+                                    })}
+                                  />
+                                </div>
                                 <button
-                                  onClick={() => saveEdit(task.id, 'deadline')}
-                                  className="ml-2 px-3 py-1 bg-blue-500 text-white text-xs rounded"
+                                  onClick={() => saveEdit(task.id, 'tags')}
+                                  className="ml-2 px-3 py-2 bg-blue-500 text-white text-xs rounded"
                                 >
                                   保存
                                 </button>
                               </div>
+                            ) : (
+                              <div className="flex flex-wrap gap-1">
+                                {task.tags && task.tags.length > 0 ? (
+                                  task.tags.map(tag => <TagChip key={tag} name={tag} />)
+                                ) : (
+                                  <p className="text-sm text-gray-600">設定されていません</p>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        
+                          {/* 繰り返し編集 */}
+                          <div>
+                            <div className="flex justify-between items-center mb-2">
+                              <label className="block text-sm font-medium text-gray-700">
+                                繰り返し
+                              </label>
+                              <button
+                                onClick={() => toggleEdit(task.id, 'recurrence')}
+                                className="text-xs text-blue-500 hover:text-blue-700"
+                                disabled={task.completed}
+                              >
+                                {editingField?.taskId === task.id && editingField?.field === 'recurrence' ? 'キャンセル' : '編集'}
+                              </button>
+                            </div>
+                          
+                            {editingField?.taskId === task.id && editingField?.field === 'recurrence' ? (
+                              <div>
+                                <RecurrenceEditor
+                                  value={editValues[`${task.id}_recurrence`] || null}
+                                  onChange={(rule) => setEditValues({
+                                    ...editValues,
+                                    [`${task.id}_recurrence`]: rule
+                                  })}
+                                />
+                                <div className="flex justify-end mt-2">
+                                  <button
+                                    onClick={() => saveEdit(task.id, 'recurrence')}
+                                    className="px-3 py-1 bg-blue-500 text-white text-xs rounded"
+                                  >
+                                    保存
+                                  </button>
+                                </div>
+                              </div>
                             ) : (
                               <p className="text-sm text-gray-600">
-                                {task.deadline || '設定されていません'}
+                                {task.recurrence
+                                  ? RecurrenceUtils.describe(task.recurrence)
+                                  : task.nextOccurrenceId
+                                    ? '次の回に引き継ぎ済み'
+                                    : '繰り返しなし'}
                               </p>
                             )}
                           </div>
-                          
-                          {/* 見積もり時間編集 */}
+                        
+                          {/* リマインダー編集 */}
                           <div>
-                            <div className="flex justify-between items-center mb-1">
+                            <div className="flex justify-between items-center mb-2">
                               <label className="block text-sm font-medium text-gray-700">
-                                見積もり時間
+                                リマインダー
                               </label>
                               <button
-                                onClick={() => toggleEdit(task.id, 'estimatedMinutes')}
+                                onClick={() => toggleEdit(task.id, 'reminders')}
                                 className="text-xs text-blue-500 hover:text-blue-700"
+                                disabled={task.completed}
                               >
-                                {editingField?.taskId === task.id && editingField?.field === 'estimatedMinutes' ? 'キャンセル' : '編集'}
+                                {editingField?.taskId === task.id && editingField?.field === 'reminders' ? 'キャンセル' : '編集'}
                               </button>
                             </div>
-                            
-                            {editingField?.taskId === task.id && editingField?.field === 'estimatedMinutes' ? (
-                              <div className="flex">
-                                <input
-                                  type="number"
-                                  value={editValues[`${task.id}_estimatedMinutes`] || ''}
-                                  onChange={(e) => setEditValues({
+                          
+                            {editingField?.taskId === task.id && editingField?.field === 'reminders' ? (
+                              <div>
+                                <ReminderEditor
+                                  value={editValues[`${task.id}_reminders`] || []}
+                                  onChange={(reminders) => setEditValues({
                                     ...editValues,
-                                    [`${task.id}_estimatedMinutes`]: e.target.value
+                                    [`${task.id}_reminders`]: reminders
                                   })}
-                                  placeholder="分"
-                                  className="flex-1 text-sm p-2 border rounded"
+                                  hasDueTime={DueUtils.isValidTime(task.dueTime)}
+                                  disabled={!task.deadline}
                                 />
-                                <button
-                                  onClick={() => saveEdit(task.id, 'estimatedMinutes')}
-                                  className="ml-2 px-3 py-1 bg-blue-500 text-white text-xs rounded"
-                                >
-                                  保存
-                                </button>
+                                <div className="flex justify-end mt-2">
+                                  <button
+                                    onClick={() => saveEdit(task.id, 'reminders')}
+                                    className="px-3 py-1 bg-blue-500 text-white text-xs rounded"
+                                  >
+                                    保存
+                                  </button>
+                                </div>
                               </div>
                             ) : (
                               <p className="text-sm text-gray-600">
-                                {task.estimatedMinutes ? `${task.estimatedMinutes}分` : '設定されていません'}
+                                {task.reminders && task.reminders.length > 0
+                                  ? task.reminders.map(DueUtils.describeReminder).join('、')
+                                  : 'リマインダーなし'}
+                                {nextReminderAt && (
+                                  <span className="block text-xs text-gray-400">
+                                    次の通知: {new Date(nextReminderAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                                  </span>
+                                )}
                               </p>
                             )}
                           </div>
-                        </div>
                         
-                        {/* 🔥 修正: 優先度編集（即座反映版） */}
-                        <div>
-                          <div className="flex justify-between items-center mb-2">
-                            <label className="block text-sm font-medium text-gray-700">
-                              優先度
-                            </label>
-                            <button
-                              onClick={() => toggleEdit(task.id, 'priority')}
-                              className="text-xs text-blue-500 hover:text-blue-700"
-                              disabled={priorityChanging[task.id]}
-                            >
-                              {priorityChanging[task.id] ? '変更中...' :
-                               editingField?.taskId === task.id && editingField?.field === 'priority' ? 'キャンセル' : '編集'}
-                            </button>
-                          </div>
-                          
-                          {editingField?.taskId === task.id && editingField?.field === 'priority' ? (
-                            <div className="flex space-x-2">
-                              {(['high', 'medium', 'low'] as const).map((p) => (
-                                <button
-                                  key={p}
-                                  onClick={() => handlePriorityChange(task.id, p)}
-                                  disabled={priorityChanging[task.id]}
-                                  className={`flex-1 px-3 py-1 text-xs rounded transition-colors ${
-                                    editValues[`${task.id}_priority`] === p
-                                      ? getPriorityClass(p)
-                                      : priorityChanging[task.id]
-                                        ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                                  }`}
-                                >
-                                  {priorityChanging[task.id] && editValues[`${task.id}_priority`] === p ? (
-                                    <span className="flex items-center justify-center">
-                                      <div className="h-3 w-3 border border-current border-t-transparent rounded-full animate-spin mr-1"></div>
-                                      {p === 'high' ? '高' : p === 'medium' ? '中' : '低'}
-                                    </span>
-                                  ) : (
-                                    p === 'high' ? '高' : p === 'medium' ? '中' : '低'
-                                  )}
-                                </button>
-                              ))}
+                          {/* スヌーズ（開始日）編集 */}
+                          {!task.completed && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">
+                                スヌーズ（開始日）
+                              </label>
+                              <SnoozeEditor
+                                value={task.startDate}
+                                onChange={(startDate) => setStartDate(task.id, startDate)}
+                              />
                             </div>
-                          ) : (
-                            <span className={`inline-block px-3 py-1 rounded text-xs ${getPriorityClass(task.priority)}`}>
-                              {getPriorityText(task.priority)}優先度
-                            </span>
                           )}
-                        </div>
                         
-                        {/* メモ編集 */}
-                        <div>
-                          <div className="flex justify-between items-center mb-2">
-                            <label className="block text-sm font-medium text-gray-700">
-                              メモ・詳細
+                          {/* 依存関係編集 */}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              先に完了すべきタスク
                             </label>
-                            <button
-                              onClick={() => toggleEdit(task.id, 'memo')}
-                              className="text-xs text-blue-500 hover:text-blue-700"
-                            >
-                              {editingField?.taskId === task.id && editingField?.field === 'memo' ? 'キャンセル' : '編集'}
-                            </button>
+                            <DependencyEditor task={task} />
                           </div>
-                          
-                          {editingField?.taskId === task.id && editingField?.field === 'memo' ? (
-                            <div>
-                              <textarea
-                                value={editValues[`${task.id}_memo`] || ''}
+                        
+                          {/* 他のタスクへの統合 */}
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              他のタスクのサブタスクに統合
+                            </label>
+                            <div className="flex">
+                              <select
+                                value={editValues[`${task.id}_mergeTarget`] || ''}
                                 onChange={(e) => setEditValues({
                                   ...editValues,
-                                  [`${task.id}_memo`]: e.target.value
+                                  [`${task.id}_mergeTarget`]: e.target.value
                                 })}
-                                rows={4}
-                                className="w-full text-sm p-2 border rounded"
-                                placeholder="メモや詳細を入力..."
-                              />
-                              <div className="flex justify-between mt-2">
-                                <p className="text-xs text-gray-500">マークダウン記法に対応</p>
-                                <button
-                                  onClick={() => saveEdit(task.id, 'memo')}
-                                  className="px-3 py-1 bg-blue-500 text-white text-xs rounded"
-                                >
-                                  保存
-                                </button>
-                              </div>
-                            </div>
-                          ) : (
-                            <div className="text-sm text-gray-600 bg-white p-3 rounded border">
-                              {task.memo ? (
-                                <pre className="whitespace-pre-wrap">{task.memo}</pre>
-                              ) : (
-                                <em className="text-gray-400">メモが設定されていません</em>
-                              )}
+                                className="flex-1 text-sm p-2 border rounded-l"
+                              >
+                                <option value="">統合先のタスクを選択...</option>
+                                {tasks.filter(t => t.id !== task.id).map(t => (
+                                  <option key={t.id} value={t.id}>{t.text}</option>
+                                ))}
+                              </select>
+                              <button
+                                onClick={() => {
+                                  const targetTaskId = editValues[`${task.id}_mergeTarget`];
+                                  if (targetTaskId) mergeTaskIntoTask(task.id, targetTaskId);
+                                }}
+                                disabled={!editValues[`${task.id}_mergeTarget`]}
+                                className="px-3 py-2 bg-gray-600 text-white text-sm rounded-r hover:bg-gray-700 disabled:opacity-50"
+                              >
+                                統合
+                              </button>
                             </div>
-                          )}
-                        </div>
-                        
-                        {/* サブタスクセクション */}
-                        <div>
-                          <div className="flex justify-between items-center mb-3">
-                            <h4 className="text-sm font-medium text-gray-700">
-                              サブタスク ({task.subTasks.length})
-                            </h4>
-                            {subTaskProgress.total > 0 && (
-                              <span className="text-xs text-gray-500">
-                                {subTaskProgress.completed}/{subTaskProgress.total} 完了
-                              </span>
-                            )}
+                            <p className="text-xs text-gray-400 mt-1">
+                              完了状態とポイントは統合先に引き継がれ、このタスクはゴミ箱へ移動します
+                            </p>
                           </div>
-                          
-                          {/* サブタスク追加フォーム */}
-                          <div className="flex mb-3">
-                            <input
-                              type="text"
-                              value={newSubTaskText[task.id] || ''}
-                              onChange={(e) => setNewSubTaskText({
-                                ...newSubTaskText,
-                                [task.id]: e.target.value
-                              })}
-                              placeholder="新しいサブタスクを追加..."
-                              className="flex-1 text-sm p-2 border rounded-l"
-                              onKeyPress={(e) => {
-                                if (e.key === 'Enter') {
-                                  handleAddSubTask(task.id);
-                                }
-                              }}
-                            />
+                        
+                          {/* テンプレートとして保存 */}
+                          <div className="flex items-center justify-between">
+                            <p className="text-xs text-gray-500">
+                              優先度・期限までの日数・見積もり・メモ・サブタスクを再利用できます
+                            </p>
                             <button
-                              onClick={() => handleAddSubTask(task.id)}
-                              className="px-3 py-2 bg-green-500 text-white text-sm rounded-r hover:bg-green-600"
+                              onClick={() => saveTaskAsTemplate(task)}
+                              className="px-3 py-1 text-xs border border-blue-300 text-blue-600 rounded hover:bg-blue-50 flex-shrink-0 ml-2"
                             >
-                              追加
+                              📋 テンプレートとして保存
                             </button>
                           </div>
+                        
+                          {/* メモ編集 */}
+                          <div>
+                            <div className="flex justify-between items-center mb-2">
+                              <label className="block text-sm font-medium text-gray-700">
+                                メモ・詳細
+                              </label>
+                              <button
+                                onClick={() => toggleEdit(task.id, 'memo')}
+                                className="text-xs text-blue-500 hover:text-blue-700"
+                              >
+                                {editingField?.taskId === task.id && editingField?.field === 'memo' ? 'キャンセル' : '編集'}
+                              </button>
+                            </div>
                           
-                          {/* サブタスクリスト */}
-                          {task.subTasks.length > 0 ? (
-                            <ul className="space-y-2">
-                              {SubTaskUtils.sortByOrder(task.subTasks).map((subTask) => (
-                                <li key={subTask.id} className="flex items-center bg-white p-2 rounded border">
-                                  <input
-                                    type="checkbox"
-                                    checked={subTask.completed}
-                                    onChange={() => handleToggleSubTask(task.id, subTask.id)}
-                                    className="h-4 w-4 text-blue-600 mr-2"
-                                  />
-                                  <span className={`flex-1 text-sm ${subTask.completed ? 'line-through text-gray-500' : ''}`}>
-                                    {subTask.text}
-                                  </span>
-                                  {subTask.completed && (
-                                    <span className="text-xs text-green-600 mr-2">✓</span>
-                                  )}
+                            {editingField?.taskId === task.id && editingField?.field === 'memo' ? (
+                              <div>
+                                <MarkdownEditor
+                                  value={editValues[`${task.id}_memo`] || ''}
+                                  onChange={(memo) => setEditValues({
+                                    ...editValues,
+                                    [`${task.id}_memo`]: memo
+                                  })}
+                                  placeholder={'メモや詳細を入力...\n- [ ] チェックリストも書けます'}
+                                />
+                                <div className="flex justify-between mt-2">
+                                  <p className="text-xs text-gray-500">マークダウン記法に対応（見出し・リスト・コード・リンク・表）</p>
                                   <button
-                                    onClick={() => removeSubTask(task.id, subTask.id)}
-                                    className="text-gray-400 hover:text-red-500 text-sm"
+                                    onClick={() => saveEdit(task.id, 'memo')}
+                                    className="px-3 py-1 bg-blue-500 text-white text-xs rounded"
                                   >
-                                    ×
+                                    保存
                                   </button>
-                                </li>
-                              ))}
-                            </ul>
-                          ) : (
-                            <p className="text-sm text-gray-400 text-center py-2 bg-white rounded border border-dashed">
-                              サブタスクがありません
-                            </p>
-                          )}
-                        </div>
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="text-sm text-gray-600 bg-white p-3 rounded border">
+                                {task.memo ? (
+                                  <MarkdownView
+                                    source={task.memo}
+                                    terms={searchTerms}
+                                    onToggleCheckbox={(line) => handleToggleMemoCheckbox(task, line)}
+                                  />
+                                ) : (
+                                  <em className="text-gray-400">メモが設定されていません</em>
+                                )}
+                              </div>
+                            )}
+                            <label className="flex items-center mt-2 text-xs text-gray-600">
+                              <input
+                                type="checkbox"
+                                checked={!!task.memoChecklistSync}
+                                onChange={(e) => setMemoChecklistSync(task.id, e.target.checked)}
+                                className="h-3.5 w-3.5 mr-1.5"
+                              />
+                              メモのチェックリスト（- [ ]）をサブタスクと同期
+                            </label>
+                          </div>
                         
-                        {/* 完了したタスクの場合は自動削除の説明 */}
-                        {task.completed && task.completedAt && (
-                          <div className="text-xs text-blue-600 bg-blue-50 p-3 rounded">
-                            <p>このタスクは完了済みです。完了から1週間後に自動的に削除されます。</p>
+                          {/* サブタスクセクション */}
+                          <div>
+                            <div className="flex justify-between items-center mb-3">
+                              <h4 className="text-sm font-medium text-gray-700">
+                                サブタスク ({task.subTasks.length})
+                              </h4>
+                              {subTaskProgress.total > 0 && (
+                                <span className="text-xs text-gray-500">
+                                  {subTaskProgress.completed}/{subTaskProgress.total} 完了
+                                </span>
+                              )}
+                            </div>
+                          
+                            {/* サブタスク追加フォーム */}
+                            <div className="flex mb-3">
+                              <input
+                                type="text"
+                                value={newSubTaskText[task.id] || ''}
+                                onChange={(e) => setNewSubTaskText({
+                                  ...newSubTaskText,
+                                  [task.id]: e.target.value
+                                })}
+                                placeholder="新しいサブタスクを追加..."
+                                className="flex-1 text-sm p-2 border rounded-l"
+                                onKeyPress={(e) => {
+                                  if (e.key === 'Enter') {
+                                    handleAddSubTask(task.id);
+                                  }
+                                }}
+                              />
+                              <button
+                                onClick={() => handleAddSubTask(task.id)}
+                                className="px-3 py-2 bg-green-500 text-white text-sm rounded-r hover:bg-green-600"
+                              >
+                                追加
+                              </button>
+                            </div>
+                          
+                            {/* サブタスクリスト */}
+                            {task.subTasks.length > 0 ? (
+                              <SubTaskTree task={task} searchTerms={searchTerms} onToggle={handleToggleSubTask} />
+                            ) : (
+                              <p className="text-sm text-gray-400 text-center py-2 bg-white rounded border border-dashed">
+                                サブタスクがありません
+                              </p>
+                            )}
                           </div>
-                        )}
-                      </div>
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </li>
+
+                          {/* 変更履歴 */}
+                          <details>
+                            <summary className="cursor-pointer text-sm font-medium text-gray-700 select-none">
+                              🕘 変更履歴 ({task.activityLog?.length || 0})
+                            </summary>
+                            <div className="mt-2 bg-white p-3 rounded border">
+                              <TaskActivityTimeline task={task} />
+                            </div>
+                          </details>
+                        
+                          {/* 完了したタスクの場合は自動アーカイブの説明 */}
+                          {task.completed && task.completedAt && (
+                            <div className="text-xs text-blue-600 bg-blue-50 p-3 rounded">
+                              <p>
+                                {RetentionUtils.getDaysUntilArchive(task, retention, Date.now()) === null
+                                  ? 'このタスクは完了済みです。'
+                                  : `このタスクは完了済みです。完了から${retention.archiveAfterDays}日後に自動的にアーカイブされます（統計には残ります）。`}
+                              </p>
+                            </div>
+                          )}
+                        </div>
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </li>
+              </Fragment>
             );
           })
         )}
-      </ul>
+      </ul>}
       
       {/* タスク数の表示 */}
       <div className="p-3 text-xs text-gray-500 border-t">
@@ -909,8 +1896,36 @@ export default function EnhancedTaskList() {
             サブタスク: {tasks.reduce((sum, t) => sum + t.subTasks.length, 0)}個
             {' • '}
             メモ付き: {tasks.filter(t => t.memo && t.memo.length > 0).length}個
+            {pendingTaskIds.size > 0 && (
+              <span className="text-orange-600">
+                {' • '}
+                同期待ち: {pendingTaskIds.size}件
+              </span>
+            )}
           </>
         )}
+        <button
+          onClick={() => setShowArchive(!showArchive)}
+          className="float-right text-blue-500 hover:text-blue-700"
+        >
+          {showArchive ? 'アーカイブ・ゴミ箱を閉じる' : `🗄️ アーカイブ・ゴミ箱 (${archivedTasks.length + trashedTasks.length})`}
+        </button>
+        <button
+          onClick={() => setShowPrioritySettings(!showPrioritySettings)}
+          className="float-right mr-3 text-blue-500 hover:text-blue-700"
+        >
+          {showPrioritySettings ? '優先度の自動調整を閉じる' : '⚡ 優先度の自動調整'}
+        </button>
+        {showPrioritySettings && (
+          <div className="mt-2 bg-gray-50 p-3 rounded clear-both">
+            <PriorityEscalationSettings />
+          </div>
+        )}
+        {showArchive && (
+          <div className="mt-2 bg-gray-50 p-3 rounded clear-both">
+            <TaskArchive />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+/**
+ * 見積もりと実績の比較レポートコンポーネント
+ *
+ * ポモドーロで記録した実績時間と見積もり時間を、タスク・優先度・タグごとに比較する
+ * 見積もりと実績の両方があるタスク（アーカイブ済みを含む）が集計対象
+ * v1.8.0: 見積もりと実績の比較レポートの実装
+ */
+
+import { useMemo, useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { EstimateComparison, EstimateReportUtils } from '@/lib/taskInterfaces';
+
+type ReportGroup = 'task' | 'priority' | 'tag';
+
+const GROUP_LABELS: { [group in ReportGroup]: string } = {
+  task: 'タスク別',
+  priority: '優先度別',
+  tag: 'タグ別'
+};
+
+// タスク別の表示件数
+const TASK_ROW_LIMIT = 10;
+
+/**
+ * 実績 ÷ 見積もりの比率の表示色
+ */
+const getRatioClass = (ratio: number): string => {
+  if (ratio > 1.5) return 'text-red-600';
+  if (ratio > 1.1) return 'text-orange-500';
+  if (ratio < 0.7) return 'text-blue-600';
+  return 'text-green-600';
+};
+
+/**
+ * 見積もりと実績の比較レポートコンポーネント
+ */
+export default function EstimateReport() {
+  const { tasks, archivedTasks } = useEnhancedTaskStore();
+  const [group, setGroup] = useState<ReportGroup>('priority');
+
+  const allTasks = useMemo(() => [...tasks, ...archivedTasks], [tasks, archivedTasks]);
+
+  const rows: EstimateComparison[] = useMemo(() => {
+    switch (group) {
+      case 'task': return EstimateReportUtils.byTask(allTasks).slice(0, TASK_ROW_LIMIT);
+      case 'priority': return EstimateReportUtils.byPriority(allTasks);
+      case 'tag': return EstimateReportUtils.byTag(allTasks);
+    }
+  }, [allTasks, group]);
+
+  const measuredCount = useMemo(() => EstimateReportUtils.getMeasuredTasks(allTasks).length, [allTasks]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700">⏱️ 見積もりと実績</h3>
+        <div className="flex space-x-1">
+          {(Object.keys(GROUP_LABELS) as ReportGroup[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setGroup(option)}
+              className={`px-2 py-0.5 text-xs rounded-full border ${
+                group === option
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {GROUP_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {measuredCount === 0 ? (
+        <p className="text-xs text-gray-400 bg-gray-50 p-3 rounded">
+          見積もり時間を設定したタスクでポモドーロを使うと、実績時間が記録されここに比較が表示されます
+        </p>
+      ) : (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 border-b">
+                <th className="text-left font-normal py-1">{GROUP_LABELS[group].replace('別', '')}</th>
+                <th className="text-right font-normal py-1">見積もり</th>
+                <th className="text-right font-normal py-1">実績</th>
+                <th className="text-right font-normal py-1">比率</th>
+                <th className="text-right font-normal py-1">精度</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b last:border-b-0">
+                  <td className="py-1 pr-2 max-w-[8rem] truncate" title={row.label}>
+                    {row.label}
+                    {group !== 'task' && <span className="text-gray-400 ml-1">({row.taskCount})</span>}
+                  </td>
+                  <td className="py-1 text-right">{row.estimatedMinutes}分</td>
+                  <td className="py-1 text-right">{row.actualMinutes}分</td>
+                  <td className={`py-1 text-right font-medium ${getRatioClass(row.ratio)}`}>
+                    ×{row.ratio.toFixed(2)}
+                  </td>
+                  <td className="py-1 text-right">{row.accuracy}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-2">
+            比率は実績 ÷ 見積もり（1より大きいほど見積もりより時間がかかっています）・集計対象 {measuredCount}件
+            {group === 'task' && measuredCount > TASK_ROW_LIMIT && `（差の大きい${TASK_ROW_LIMIT}件を表示）`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
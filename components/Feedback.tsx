@@ -3,6 +3,7 @@
  * 
  * アプリケーション内の操作結果や通知を表示するトースト通知コンポーネント
  * アニメーション付きで表示され、一定時間後に自動的に消えます
+ * v1.8.0: 「元に戻す」などの操作ボタンの表示に対応
  */
 
 import { useEffect, useState } from 'react';
@@ -15,7 +16,7 @@ import { useFeedbackStore } from '@/store/feedbackStore';
  */
 export default function Feedback() {
   // ストアからメッセージを取得
-  const { message, setMessage } = useFeedbackStore();
+  const { message, action, setMessage } = useFeedbackStore();
   
   // タイムアウトID管理用
   const [timeoutId, setTimeoutId] = useState<NodeJS.Timeout | null>(null);
@@ -27,11 +28,11 @@ export default function Feedback() {
       clearTimeout(timeoutId);
     }
 
-    // メッセージがある場合は、3秒後に消す
+    // メッセージがある場合は、3秒後（操作ボタン付きの場合は5秒後）に消す
     if (message) {
       const id = setTimeout(() => {
         setMessage(null);
-      }, 3000);
+      }, action ? 5000 : 3000);
       
       setTimeoutId(id);
     }
@@ -42,7 +43,7 @@ export default function Feedback() {
         clearTimeout(timeoutId);
       }
     };
-  }, [message, setMessage]);
+  }, [message, action, setMessage]);
 
   return (
     <AnimatePresence>
@@ -54,8 +55,19 @@ export default function Feedback() {
           exit={{ opacity: 0, y: 50 }}
           transition={{ type: 'spring', damping: 20 }}
         >
-          <div className="bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg max-w-md text-center">
-            {message}
+          <div className="bg-blue-600 text-white px-6 py-3 rounded-lg shadow-lg max-w-md text-center flex items-center justify-center">
+            <span>{message}</span>
+            {action && (
+              <button
+                onClick={() => {
+                  setMessage(null);
+                  action.onClick();
+                }}
+                className="ml-4 px-2 py-1 text-sm font-medium bg-white text-blue-600 rounded hover:bg-blue-50 whitespace-nowrap"
+              >
+                {action.label}
+              </button>
+            )}
           </div>
         </motion.div>
       )}
@@ -0,0 +1,38 @@
+/**
+ * 検索語ハイライトコンポーネント
+ *
+ * 文字列のうち検索語に一致した箇所を強調表示する
+ * v1.8.0: タスク検索機能の実装
+ */
+
+import { useMemo } from 'react';
+import { SearchHighlighter } from '@/lib/taskSearch';
+
+/**
+ * 検索語ハイライトコンポーネントのプロパティ
+ */
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];    // ハイライトする検索語
+}
+
+/**
+ * 検索語ハイライトコンポーネント
+ */
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  const segments = useMemo(() => SearchHighlighter.getSegments(text, terms), [text, terms]);
+
+  if (terms.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * マークダウンエディターコンポーネント
+ *
+ * メモを書くためのテキストエリアに、見出し・太字・リスト・チェックリスト・コード・リンク・表を挿入するツールバーと、
+ * 書いた内容を確認するプレビューを付けたもの
+ * v1.8.0: メモのマークダウン表示とチェックリストの同期を追加
+ */
+
+import { useState, useRef } from 'react';
+import MarkdownView from './MarkdownView';
+
+/**
+ * マークダウンエディターコンポーネントのプロパティ
+ */
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+}
+
+/**
+ * ツールバーの操作
+ * wrap は選択範囲を前後で囲み、prefix は選択範囲の各行の先頭に付け、block は行を改めて挿入する
+ */
+type ToolbarAction =
+  | { kind: 'wrap'; before: string; after: string; fallback: string }
+  | { kind: 'prefix'; prefix: string }
+  | { kind: 'block'; text: string };
+
+const TOOLBAR: { label: string; title: string; action: ToolbarAction }[] = [
+  { label: 'H', title: '見出し', action: { kind: 'prefix', prefix: '## ' } },
+  { label: 'B', title: '太字', action: { kind: 'wrap', before: '**', after: '**', fallback: '太字' } },
+  { label: 'I', title: '斜体', action: { kind: 'wrap', before: '*', after: '*', fallback: '斜体' } },
+  { label: '•', title: 'リスト', action: { kind: 'prefix', prefix: '- ' } },
+  { label: '☑', title: 'チェックリスト', action: { kind: 'prefix', prefix: '- [ ] ' } },
+  { label: '<>', title: 'コード', action: { kind: 'wrap', before: '`', after: '`', fallback: 'code' } },
+  { label: '🔗', title: 'リンク', action: { kind: 'wrap', before: '[', after: '](https://)', fallback: 'リンク' } },
+  { label: '▦', title: '表', action: { kind: 'block', text: '| 項目 | 内容 |\n| --- | --- |\n|  |  |' } }
+];
+
+/**
+ * マークダウンエディターコンポーネント
+ */
+export default function MarkdownEditor({ value, onChange, rows = 6, placeholder }: MarkdownEditorProps) {
+  const [preview, setPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  /**
+   * ツールバーの操作を選択範囲に適用
+   */
+  const applyAction = (action: ToolbarAction) => {
+    const textarea = textareaRef.current;
+    const start = textarea ? textarea.selectionStart : value.length;
+    const end = textarea ? textarea.selectionEnd : value.length;
+    const selected = value.slice(start, end);
+
+    let next: string;
+    let selectionStart: number;
+    let selectionEnd: number;
+
+    if (action.kind === 'wrap') {
+      const inner = selected || action.fallback;
+      next = value.slice(0, start) + action.before + inner + action.after + value.slice(end);
+      selectionStart = start + action.before.length;
+      selectionEnd = selectionStart + inner.length;
+    } else if (action.kind === 'prefix') {
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      const lines = value.slice(lineStart, end).split('\n').map(line => action.prefix + line);
+      const replaced = lines.join('\n');
+      next = value.slice(0, lineStart) + replaced + value.slice(end);
+      selectionStart = lineStart + replaced.length;
+      selectionEnd = selectionStart;
+    } else {
+      const needsBreak = start > 0 && value[start - 1] !== '\n';
+      const inserted = `${needsBreak ? '\n\n' : ''}${action.text}\n`;
+      next = value.slice(0, start) + inserted + value.slice(end);
+      selectionStart = start + inserted.length;
+      selectionEnd = selectionStart;
+    }
+
+    onChange(next);
+    // 値の反映後に選択範囲を戻す
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(selectionStart, selectionEnd);
+    });
+  };
+
+  return (
+    <div className="border rounded bg-white">
+      <div className="flex items-center border-b bg-gray-50 px-1 py-1 text-xs">
+        <button
+          type="button"
+          onClick={() => setPreview(false)}
+          className={`px-2 py-0.5 rounded ${!preview ? 'bg-white border text-gray-800' : 'text-gray-500 hover:text-gray-800'}`}
+        >
+          編集
+        </button>
+        <button
+          type="button"
+          onClick={() => setPreview(true)}
+          className={`px-2 py-0.5 rounded ml-1 ${preview ? 'bg-white border text-gray-800' : 'text-gray-500 hover:text-gray-800'}`}
+        >
+          プレビュー
+        </button>
+        {!preview && (
+          <div className="flex items-center ml-auto space-x-0.5">
+            {TOOLBAR.map(item => (
+              <button
+                key={item.title}
+                type="button"
+                onClick={() => applyAction(item.action)}
+                title={item.title}
+                aria-label={item.title}
+                className="w-6 h-6 rounded text-gray-600 hover:bg-gray-200"
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {preview ? (
+        <div className="text-sm text-gray-700 p-2 min-h-[6rem]">
+          {value.trim() ? <MarkdownView source={value} /> : <em className="text-gray-400">プレビューする内容がありません</em>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          className="w-full text-sm p-2 rounded-b font-mono focus:outline-none"
+          placeholder={placeholder}
+        />
+      )}
+    </div>
+  );
+}
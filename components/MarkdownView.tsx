@@ -0,0 +1,151 @@
+/**
+ * マークダウン表示コンポーネント
+ *
+ * メモのマークダウンをReact要素として表示する（HTMLとしては埋め込まない）
+ * チェックリストのチェックボックスは、切り替え用の処理が渡された場合だけ操作できる
+ * v1.8.0: メモのマークダウン表示とチェックリストの同期を追加
+ */
+
+import { useMemo, ReactNode } from 'react';
+import { MarkdownParser, MarkdownBlock, MarkdownInline } from '@/lib/markdown';
+import HighlightedText from './HighlightedText';
+
+/**
+ * マークダウン表示コンポーネントのプロパティ
+ */
+interface MarkdownViewProps {
+  source: string;
+  terms?: string[];                              // 強調表示する検索語
+  onToggleCheckbox?: (line: number) => void;     // チェックボックスの切り替え（メモの行番号）
+}
+
+const HEADING_CLASSES = [
+  'text-lg font-bold',
+  'text-base font-bold',
+  'text-sm font-bold',
+  'text-sm font-semibold',
+  'text-sm font-semibold text-gray-700',
+  'text-xs font-semibold text-gray-600'
+];
+
+const EMPTY_TERMS: string[] = [];
+
+/**
+ * マークダウン表示コンポーネント
+ */
+export default function MarkdownView({ source, terms = EMPTY_TERMS, onToggleCheckbox }: MarkdownViewProps) {
+  const blocks = useMemo(() => MarkdownParser.parse(source), [source]);
+
+  const renderInline = (nodes: MarkdownInline[]): ReactNode[] => nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <HighlightedText key={index} text={node.text} terms={terms} />;
+      case 'code':
+        return <code key={index} className="bg-gray-100 text-pink-700 px-1 rounded text-xs">{node.text}</code>;
+      case 'break':
+        return <br key={index} />;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline hover:text-blue-800"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+  const renderBlock = (block: MarkdownBlock, index: number): ReactNode => {
+    switch (block.type) {
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'code':
+        return (
+          <pre key={index} className="bg-gray-800 text-gray-100 text-xs p-2 rounded overflow-x-auto">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-4 border-gray-300 pl-3 text-gray-500 space-y-2">
+            {block.children.map(renderBlock)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={index} className="border-gray-200" />;
+      case 'list': {
+        const isChecklist = block.items.some(item => item.checked !== null);
+        const children = block.items.map(item => (
+          <li key={item.line} className={item.checked !== null ? 'list-none' : ''}>
+            {item.checked !== null ? (
+              <label className={`inline-flex items-start ${onToggleCheckbox ? 'cursor-pointer' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={item.checked}
+                  disabled={!onToggleCheckbox}
+                  onChange={() => onToggleCheckbox?.(item.line)}
+                  className="h-4 w-4 text-blue-600 mr-2 mt-0.5"
+                />
+                <span className={item.checked ? 'line-through text-gray-400' : ''}>{renderInline(item.children)}</span>
+              </label>
+            ) : (
+              renderInline(item.children)
+            )}
+            {item.sublists.map(renderBlock)}
+          </li>
+        ));
+        const listClass = `${isChecklist ? 'pl-1' : 'pl-5'} space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`;
+        return block.ordered
+          ? <ol key={index} start={block.start} className={listClass}>{children}</ol>
+          : <ul key={index} className={listClass}>{children}</ul>;
+      }
+      case 'table':
+        return (
+          <div key={index} className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className="border px-2 py-1 bg-gray-50 font-semibold"
+                      style={{ textAlign: block.align[column] || 'left' }}
+                    >
+                      {renderInline(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <td key={column} className="border px-2 py-1" style={{ textAlign: block.align[column] || 'left' }}>
+                        {renderInline(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  };
+
+  return <div className="space-y-2 break-words">{blocks.map(renderBlock)}</div>;
+}
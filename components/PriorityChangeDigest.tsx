@@ -0,0 +1,112 @@
+/**
+ * 優先度の自動変更の確認コンポーネント
+ *
+ * 期限が近づいたために自動で上げた優先度を一覧にし、タスクごと・まとめて承認するか元に戻すかを選べるようにする
+ * v1.8.0: 期限が近づいたタスクの優先度の自動調整を追加
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { EnhancedTask, PriorityEscalationUtils, DueUtils } from '@/lib/taskInterfaces';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+
+/**
+ * 優先度の自動変更の確認コンポーネントのプロパティ
+ */
+interface PriorityChangeDigestProps {
+  tasks: EnhancedTask[];   // 確認の対象にするタスク
+}
+
+const PRIORITY_LABELS: { [priority in PriorityLevel]: string } = {
+  high: '高',
+  medium: '中',
+  low: '低'
+};
+
+// 最初に表示する件数
+const INITIAL_COUNT = 5;
+
+/**
+ * 優先度の自動変更の確認コンポーネント
+ */
+export default function PriorityChangeDigest({ tasks }: PriorityChangeDigestProps) {
+  const { acceptPriorityChanges, revertPriorityChanges } = useEnhancedTaskStore();
+  const [showAll, setShowAll] = useState(false);
+
+  const pending = PriorityEscalationUtils.getPendingChanges(tasks);
+  if (pending.length === 0) return null;
+
+  const now = Date.now();
+  const visible = showAll ? pending : pending.slice(0, INITIAL_COUNT);
+  const pendingIds = pending.map(task => task.id);
+
+  return (
+    <section className="mx-3 my-2 p-3 rounded-lg border border-orange-200 bg-orange-50" aria-label="優先度の自動変更">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-sm font-medium text-orange-800">
+          ⚡ 優先度が変更されました ({pending.length})
+        </h3>
+        <div className="flex items-center gap-3 text-xs">
+          <button
+            type="button"
+            onClick={() => acceptPriorityChanges(pendingIds)}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            すべて承認
+          </button>
+          <button
+            type="button"
+            onClick={() => revertPriorityChanges(pendingIds)}
+            className="text-gray-600 hover:text-gray-800"
+          >
+            すべて元に戻す
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {visible.map(task => {
+          const change = task.autoPriorityChange!;
+
+          return (
+            <li key={task.id} className="flex flex-wrap items-center gap-2 text-xs bg-white rounded px-2 py-1">
+              <span className="flex-1 min-w-0 truncate text-gray-900">{task.text}</span>
+              <span className="text-gray-600">
+                {PRIORITY_LABELS[change.from]} → <span className="font-medium text-red-700">{PRIORITY_LABELS[change.to]}</span>
+              </span>
+              {task.deadline && (
+                <span className={DueUtils.isOverdue(task, now) ? 'text-red-600' : 'text-gray-500'}>
+                  📅 {DueUtils.formatDue(task)}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => acceptPriorityChanges([task.id])}
+                className="text-blue-500 hover:text-blue-700"
+              >
+                そのまま
+              </button>
+              <button
+                type="button"
+                onClick={() => revertPriorityChanges([task.id])}
+                className="text-gray-500 hover:text-gray-700"
+              >
+                元に戻す
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {pending.length > INITIAL_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-1 text-xs text-blue-500 hover:text-blue-700"
+        >
+          {showAll ? '一部だけ表示' : `すべて表示（${pending.length}件）`}
+        </button>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * 優先度の自動調整の設定コンポーネント
+ *
+ * 期限が近づいたタスクの優先度を自動で上げるか、手動で設定した優先度も上げるかを切り替える
+ * v1.8.0: 期限が近づいたタスクの優先度の自動調整を追加
+ */
+
+import { useUserSettingsStore } from '@/store/userSettingsStore';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+
+/**
+ * 優先度の自動調整の設定コンポーネント
+ */
+export default function PriorityEscalationSettings() {
+  const { priorityEscalation, updatePriorityEscalation } = useUserSettingsStore();
+  const { reevaluatePriorities } = useEnhancedTaskStore();
+
+  return (
+    <div className="space-y-2 text-xs text-gray-700">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={priorityEscalation.enabled}
+          onChange={(e) => updatePriorityEscalation({ enabled: e.target.checked })}
+        />
+        期限が近づいたら優先度を自動で上げる
+      </label>
+      <label className={`flex items-center gap-2 ml-5 ${priorityEscalation.enabled ? '' : 'text-gray-400'}`}>
+        <input
+          type="checkbox"
+          checked={priorityEscalation.overrideManual}
+          disabled={!priorityEscalation.enabled}
+          onChange={(e) => updatePriorityEscalation({ overrideManual: e.target.checked })}
+        />
+        手動で設定した優先度も上げる
+      </label>
+      <p className="text-gray-500">
+        起動時と1日1回、未完了のタスクの優先度を見直します。自動で変更した優先度はタスク一覧の上で承認するか元に戻せます。
+      </p>
+      <button
+        type="button"
+        onClick={() => reevaluatePriorities(true)}
+        disabled={!priorityEscalation.enabled}
+        className="text-blue-500 hover:text-blue-700 disabled:text-gray-400"
+      >
+        今すぐ見直す
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+/**
+ * プロジェクト管理コンポーネント
+ *
+ * プロジェクトの作成・編集・アーカイブ・削除と、プロジェクト別のタスク集計を表示する
+ * 削除時は所属タスクを別のプロジェクトへ移動するか、ゴミ箱へ移動するかを選択する
+ * v1.8.0: プロジェクト機能の実装
+ */
+
+import { useState } from 'react';
+import { useProjectStore } from '@/store/projectStore';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { ProjectUtils, TagUtils } from '@/lib/taskInterfaces';
+
+/**
+ * プロジェクト管理コンポーネント
+ */
+export default function ProjectManager() {
+  const { projects, addProject, updateProject, setProjectArchived, removeProject } = useProjectStore();
+  const { getTaskAnalytics } = useEnhancedTaskStore();
+  const { projectStats } = getTaskAnalytics();
+
+  const [newName, setNewName] = useState('');
+  const [newIcon, setNewIcon] = useState(ProjectUtils.ICONS[0]);
+  const [newColor, setNewColor] = useState(TagUtils.COLORS[4]);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [deletingProjectId, setDeletingProjectId] = useState<string | null>(null);
+  const [moveTo, setMoveTo] = useState<string>('');
+
+  /**
+   * 新しいプロジェクトを作成
+   */
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    await addProject({ name: newName, icon: newIcon, color: newColor });
+    setNewName('');
+  };
+
+  /**
+   * プロジェクト名の変更を確定
+   */
+  const handleRename = async (projectId: string) => {
+    await updateProject(projectId, { name: editingName });
+    setEditingProjectId(null);
+  };
+
+  /**
+   * 削除を確定（所属タスクは別のプロジェクトかゴミ箱へ移動）
+   */
+  const handleRemove = async (projectId: string, deleteTasks: boolean) => {
+    const taskCount = projectStats[projectId]?.total || 0;
+    if (deleteTasks && taskCount > 0 &&
+        !window.confirm(`${taskCount}件のタスクはゴミ箱へ移動されます。よろしいですか？`)) {
+      return;
+    }
+
+    await removeProject(
+      projectId,
+      deleteTasks ? { type: 'delete' } : { type: 'move', moveTo: moveTo || null }
+    );
+    setDeletingProjectId(null);
+    setMoveTo('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* プロジェクト作成フォーム */}
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            placeholder="新しいプロジェクト名"
+            className="flex-1 text-sm p-2 border rounded"
+          />
+          <button
+            onClick={handleAdd}
+            className="px-3 py-2 bg-green-500 text-white text-sm rounded hover:bg-green-600"
+          >
+            作成
+          </button>
+        </div>
+        <div className="flex items-center flex-wrap gap-1">
+          {ProjectUtils.ICONS.map(icon => (
+            <button
+              key={icon}
+              type="button"
+              onClick={() => setNewIcon(icon)}
+              className={`w-7 h-7 rounded text-sm ${newIcon === icon ? 'bg-blue-100 ring-1 ring-blue-400' : 'hover:bg-gray-100'}`}
+            >
+              {icon}
+            </button>
+          ))}
+          <span className="mx-1 text-gray-300">|</span>
+          {TagUtils.COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setNewColor(color)}
+              className={`w-5 h-5 rounded-full ${newColor === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+              style={{ backgroundColor: color }}
+              aria-label={`色 ${color}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* プロジェクト一覧 */}
+      {projects.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2 bg-white rounded border border-dashed">
+          プロジェクトがありません
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {projects.map(project => {
+            const stats = projectStats[project.id];
+            return (
+              <li
+                key={project.id}
+                className={`bg-white p-2 rounded border ${project.archived ? 'opacity-60' : ''}`}
+                style={{ borderLeft: `4px solid ${project.color}` }}
+              >
+                <div className="flex items-center">
+                  <span className="mr-2">{project.icon}</span>
+
+                  {/* プロジェクト名（編集可能） */}
+                  {editingProjectId === project.id ? (
+                    <div className="flex-1 space-y-1">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(project.id);
+                          if (e.key === 'Escape') setEditingProjectId(null);
+                        }}
+                        className="w-full text-sm p-1 border rounded"
+                        autoFocus
+                      />
+                      <div className="flex flex-wrap gap-1">
+                        {ProjectUtils.ICONS.map(icon => (
+                          <button
+                            key={icon}
+                            type="button"
+                            onClick={() => updateProject(project.id, { icon })}
+                            className={`w-6 h-6 rounded text-xs ${project.icon === icon ? 'bg-blue-100 ring-1 ring-blue-400' : 'hover:bg-gray-100'}`}
+                          >
+                            {icon}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex space-x-1">
+                        {TagUtils.COLORS.map(color => (
+                          <button
+                            key={color}
+                            type="button"
+                            onClick={() => updateProject(project.id, { color })}
+                            className={`w-4 h-4 rounded-full ${project.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+                            style={{ backgroundColor: color }}
+                            aria-label={`色 ${color}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ) : (
+                    <span className="flex-1 text-sm">
+                      {project.name}
+                      {project.archived && <span className="ml-2 text-xs text-gray-500">（アーカイブ済み）</span>}
+                    </span>
+                  )}
+
+                  {/* プロジェクト別の集計 */}
+                  <span className="text-xs text-gray-500 mx-2 whitespace-nowrap">
+                    {stats ? `${stats.completed}/${stats.total}件完了` : '0件'}
+                    {stats && stats.estimatedMinutes > 0 && ` • ${stats.estimatedMinutes}分`}
+                  </span>
+
+                  {editingProjectId === project.id ? (
+                    <button
+                      onClick={() => handleRename(project.id)}
+                      className="px-2 py-1 bg-blue-500 text-white text-xs rounded mr-1"
+                    >
+                      保存
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        setEditingProjectId(project.id);
+                        setEditingName(project.name);
+                      }}
+                      className="text-xs text-blue-500 hover:text-blue-700 mr-2"
+                    >
+                      編集
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setProjectArchived(project.id, !project.archived)}
+                    className="text-xs text-gray-500 hover:text-gray-700 mr-2"
+                  >
+                    {project.archived ? '戻す' : 'アーカイブ'}
+                  </button>
+                  <button
+                    onClick={() => setDeletingProjectId(deletingProjectId === project.id ? null : project.id)}
+                    className="text-gray-400 hover:text-red-500 text-sm"
+                    title="削除"
+                  >
+                    ×
+                  </button>
+                </div>
+
+                {/* 削除確認（所属タスクの扱いを選択） */}
+                {deletingProjectId === project.id && (
+                  <div className="mt-2 p-2 bg-red-50 rounded text-xs space-y-2">
+                    <p className="text-red-700">
+                      プロジェクト「{project.name}」を削除します。所属する{stats?.total || 0}件のタスクをどうしますか？
+                    </p>
+                    <div className="flex items-center flex-wrap gap-2">
+                      <select
+                        value={moveTo}
+                        onChange={(e) => setMoveTo(e.target.value)}
+                        className="text-xs p-1 border rounded"
+                      >
+                        <option value="">未分類</option>
+                        {projects
+                          .filter(p => p.id !== project.id)
+                          .map(p => (
+                            <option key={p.id} value={p.id}>
+                              {p.icon} {p.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemove(project.id, false)}
+                        className="px-2 py-1 bg-blue-500 text-white rounded"
+                      >
+                        へ移動して削除
+                      </button>
+                      <button
+                        onClick={() => handleRemove(project.id, true)}
+                        className="px-2 py-1 bg-red-500 text-white rounded"
+                      >
+                        タスクごと削除
+                      </button>
+                      <button
+                        onClick={() => setDeletingProjectId(null)}
+                        className="px-2 py-1 text-gray-600"
+                      >
+                        キャンセル
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        アーカイブしたプロジェクトは切り替えメニューに表示されません（タスクは残ります）
+      </p>
+    </div>
+  );
+}
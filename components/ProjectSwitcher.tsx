@@ -0,0 +1,80 @@
+/**
+ * プロジェクト切り替えコンポーネント
+ *
+ * タスク一覧の上部に表示し、全プロジェクト・各プロジェクト・未分類を切り替える
+ * v1.8.0: プロジェクト機能の実装
+ */
+
+import { useState } from 'react';
+import { useProjectStore } from '@/store/projectStore';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { ProjectUtils } from '@/lib/taskInterfaces';
+import ProjectManager from './ProjectManager';
+
+/**
+ * プロジェクト切り替えコンポーネント
+ */
+export default function ProjectSwitcher() {
+  const { selectedProjectId, setSelectedProjectId, getActiveProjects } = useProjectStore();
+  const { tasks } = useEnhancedTaskStore();
+  const [showManager, setShowManager] = useState(false);
+
+  const activeProjects = getActiveProjects();
+
+  // プロジェクトごとの未完了タスク数
+  const activeCounts = ProjectUtils.calculateStats(tasks.filter(task => !task.completed));
+
+  /**
+   * 切り替えボタンのスタイルを取得
+   */
+  const getButtonClass = (selected: boolean) =>
+    `px-3 py-1 rounded-full text-xs whitespace-nowrap border transition-colors ${
+      selected
+        ? 'bg-blue-500 text-white border-blue-500'
+        : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="px-3 py-2 border-b">
+      <div className="flex items-center gap-1 overflow-x-auto">
+        <button
+          onClick={() => setSelectedProjectId(null)}
+          className={getButtonClass(selectedProjectId === null)}
+        >
+          📂 すべてのプロジェクト
+        </button>
+        {activeProjects.map(project => (
+          <button
+            key={project.id}
+            onClick={() => setSelectedProjectId(project.id)}
+            className={getButtonClass(selectedProjectId === project.id)}
+            style={selectedProjectId === project.id ? undefined : { borderColor: project.color }}
+          >
+            {project.icon} {project.name}
+            <span className="ml-1 opacity-75">{activeCounts[project.id]?.total || 0}</span>
+          </button>
+        ))}
+        {activeProjects.length > 0 && (
+          <button
+            onClick={() => setSelectedProjectId(ProjectUtils.UNASSIGNED)}
+            className={getButtonClass(selectedProjectId === ProjectUtils.UNASSIGNED)}
+          >
+            未分類
+            <span className="ml-1 opacity-75">{activeCounts[ProjectUtils.UNASSIGNED]?.total || 0}</span>
+          </button>
+        )}
+        <button
+          onClick={() => setShowManager(!showManager)}
+          className="text-xs text-blue-500 hover:text-blue-700 ml-auto whitespace-nowrap"
+        >
+          {showManager ? 'プロジェクト管理を閉じる' : 'プロジェクト管理'}
+        </button>
+      </div>
+      {showManager && (
+        <div className="mt-2 bg-gray-50 p-3 rounded">
+          <ProjectManager />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * 繰り返しルール編集コンポーネント
+ *
+ * タスクの繰り返し（毎日・毎週・毎月・完了後N日）を設定するフォーム部品
+ * タスク追加フォームとタスク詳細パネルの両方で使用します
+ * v1.8.0: 繰り返しタスク機能の追加
+ */
+
+import { RecurrenceRule, RecurrenceType, RecurrenceUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 繰り返しルール編集コンポーネントのプロパティ
+ */
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;                  // 現在のルール（null は繰り返しなし）
+  onChange: (rule: RecurrenceRule | null) => void; // ルール変更時のコールバック
+}
+
+/**
+ * 繰り返しの種類の選択肢
+ */
+const RECURRENCE_OPTIONS: { value: RecurrenceType | 'none'; label: string }[] = [
+  { value: 'none', label: '繰り返さない' },
+  { value: 'daily', label: '日ごと' },
+  { value: 'weekly', label: '毎週（曜日指定）' },
+  { value: 'monthly', label: '毎月' },
+  { value: 'afterCompletion', label: '完了からN日後' }
+];
+
+/**
+ * 種類ごとのデフォルトルールを生成
+ */
+const createDefaultRule = (type: RecurrenceType): RecurrenceRule => {
+  switch (type) {
+    case 'weekly':
+      return { type, weekdays: [new Date().getDay()] };
+    case 'monthly':
+      return { type, monthDay: new Date().getDate() };
+    case 'daily':
+    case 'afterCompletion':
+    default:
+      return { type, interval: 1 };
+  }
+};
+
+/**
+ * 繰り返しルール編集コンポーネント
+ */
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  /**
+   * 繰り返しの種類を変更
+   */
+  const handleTypeChange = (type: RecurrenceType | 'none') => {
+    onChange(type === 'none' ? null : createDefaultRule(type));
+  };
+
+  /**
+   * 曜日の選択を切り替え
+   */
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    const updated = weekdays.includes(day)
+      ? weekdays.filter(d => d !== day)
+      : [...weekdays, day].sort((a, b) => a - b);
+    onChange({ ...value, weekdays: updated });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={value?.type || 'none'}
+        onChange={(e) => handleTypeChange(e.target.value as RecurrenceType | 'none')}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-sm"
+      >
+        {RECURRENCE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {/* 日ごと・完了後N日: 間隔 */}
+      {value && (value.type === 'daily' || value.type === 'afterCompletion') && (
+        <div className="flex items-center text-sm text-gray-700">
+          <input
+            type="number"
+            min={1}
+            value={value.interval ?? 1}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded mr-2"
+          />
+          {value.type === 'daily' ? '日ごと' : '日後（完了日から）'}
+        </div>
+      )}
+
+      {/* 毎週: 曜日 */}
+      {value && value.type === 'weekly' && (
+        <div className="flex space-x-1">
+          {RecurrenceUtils.WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`flex-1 py-1 text-xs rounded border transition-colors ${
+                value.weekdays?.includes(day)
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 毎月: 日付または最終営業日 */}
+      {value && value.type === 'monthly' && (
+        <div className="flex items-center space-x-3 text-sm text-gray-700">
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={!value.lastBusinessDay}
+              onChange={() => onChange({ type: 'monthly', monthDay: value.monthDay || new Date().getDate() })}
+              className="mr-1"
+            />
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={value.monthDay ?? ''}
+              disabled={!!value.lastBusinessDay}
+              onChange={(e) => onChange({ type: 'monthly', monthDay: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+              className="w-16 px-2 py-1 border border-gray-300 rounded mr-1 disabled:bg-gray-100"
+            />
+            日
+          </label>
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={!!value.lastBusinessDay}
+              onChange={() => onChange({ type: 'monthly', lastBusinessDay: true })}
+              className="mr-1"
+            />
+            最終営業日
+          </label>
+        </div>
+      )}
+
+      {/* ルールの説明 */}
+      {value && (
+        <p className={`text-xs ${RecurrenceUtils.isValid(value) ? 'text-gray-500' : 'text-red-500'}`}>
+          {RecurrenceUtils.isValid(value)
+            ? `🔁 ${RecurrenceUtils.describe(value)}（完了すると次の回が自動作成されます）`
+            : '曜日を1つ以上選択してください'}
+        </p>
+      )}
+    </div>
+  );
+}
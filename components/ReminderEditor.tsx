@@ -0,0 +1,62 @@
+/**
+ * リマインダー編集コンポーネント
+ *
+ * 期限の何分前に通知するかを複数選択するフォーム部品
+ * タスク追加フォームとタスク詳細パネルの両方で使用します
+ * v1.8.0: 期限の時刻とリマインダー機能を追加
+ */
+
+import { DueUtils } from '@/lib/taskInterfaces';
+
+/**
+ * リマインダー編集コンポーネントのプロパティ
+ */
+interface ReminderEditorProps {
+  value: number[];                        // 選択中のリマインダー（期限の何分前か）
+  onChange: (reminders: number[]) => void; // 変更時のコールバック
+  hasDueTime: boolean;                    // 期限の時刻が設定されているか
+  disabled?: boolean;                     // 期限がない場合などに無効化
+}
+
+/**
+ * リマインダー編集コンポーネント
+ */
+export default function ReminderEditor({ value, onChange, hasDueTime, disabled = false }: ReminderEditorProps) {
+  /**
+   * リマインダーの選択を切り替え
+   */
+  const toggleReminder = (minutes: number) => {
+    onChange(
+      value.includes(minutes)
+        ? value.filter(m => m !== minutes)
+        : DueUtils.normalizeReminders([...value, minutes])
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-1">
+        {DueUtils.REMINDER_PRESETS.map(preset => (
+          <button
+            key={preset.minutes}
+            type="button"
+            onClick={() => toggleReminder(preset.minutes)}
+            disabled={disabled}
+            className={`px-2 py-1 text-xs rounded-full border transition-colors disabled:opacity-50 ${
+              value.includes(preset.minutes)
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            🔔 {preset.label}
+          </button>
+        ))}
+      </div>
+      {disabled ? (
+        <p className="text-xs text-gray-400">リマインダーを使うには期限を設定してください</p>
+      ) : !hasDueTime && value.length > 0 && (
+        <p className="text-xs text-gray-400">時刻が未設定のため、期限日の終わり（23:59）を基準に通知します</p>
+      )}
+    </div>
+  );
+}
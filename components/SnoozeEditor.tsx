@@ -0,0 +1,72 @@
+/**
+ * スヌーズ（開始日）編集コンポーネント
+ *
+ * 明日・来週の月曜日・来月のクイック選択か日付の指定で、タスクを開始日まで既定の表示から隠す
+ * v1.8.0: 開始日（スヌーズ）を追加
+ */
+
+import { SnoozeUtils } from '@/lib/taskInterfaces';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * スヌーズ編集コンポーネントのプロパティ
+ */
+interface SnoozeEditorProps {
+  value?: string;                                // 現在の開始日（YYYY-MM-DD形式）
+  onChange: (startDate: string | null) => void;  // 変更時のコールバック（null で解除）
+}
+
+/**
+ * スヌーズ編集コンポーネント
+ */
+export default function SnoozeEditor({ value, onChange }: SnoozeEditorProps) {
+  const now = Date.now();
+  const snoozed = !!value && value > DateUtils.toDateString(new Date(now));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        {SnoozeUtils.OPTIONS.map(option => {
+          const startDate = SnoozeUtils.getStartDate(option.value, now);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange(startDate)}
+              title={SnoozeUtils.formatStartDate(startDate)}
+              className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                value === startDate
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              💤 {option.label}
+            </button>
+          );
+        })}
+        <input
+          type="date"
+          value={value || ''}
+          min={DateUtils.addDays(DateUtils.toDateString(new Date(now)), 1)}
+          onChange={(e) => onChange(e.target.value || null)}
+          className="text-xs p-1 border rounded"
+          aria-label="開始日"
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            解除
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">
+        {snoozed
+          ? `${SnoozeUtils.formatStartDate(value!)}一覧と期限の警告から隠しています（「💤 スヌーズ中」で確認できます）`
+          : '開始日を設定すると、その日まで一覧と期限の警告から隠します'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/**
+ * サブタスクの階層表示コンポーネント
+ *
+ * 入れ子のサブタスクを字下げして表示し、折りたたみ・展開、字下げ・字上げ、
+ * ドラッグ＆ドロップによる親の付け替え、子サブタスクの追加、タスクへの昇格を行う
+ * 行の上端・下端へのドロップは前後への移動、中央へのドロップはその行の子への移動になる
+ * v1.8.0: サブタスクの入れ子の実装、タスクへの昇格を追加
+ */
+
+import { useState, useMemo } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useDevice } from '@/hooks/useDevice';
+import { EnhancedTask, SubTaskUtils } from '@/lib/taskInterfaces';
+import HighlightedText from './HighlightedText';
+
+/**
+ * サブタスクの階層表示コンポーネントのプロパティ
+ */
+interface SubTaskTreeProps {
+  task: EnhancedTask;
+  searchTerms: string[];                                   // 強調表示する検索語
+  onToggle: (taskId: string, subTaskId: string) => void;   // 完了の切り替え（効果音付き）
+}
+
+type DropPosition = 'before' | 'inside' | 'after';
+
+// 1階層あたりの字下げ幅（rem）
+const INDENT_REM = 1.25;
+
+/**
+ * サブタスクの階層表示コンポーネント
+ */
+export default function SubTaskTree({ task, searchTerms, onToggle }: SubTaskTreeProps) {
+  const { addSubTask, removeSubTask, moveSubTask, promoteSubTask } = useEnhancedTaskStore();
+  const isMobile = useDevice();
+
+  const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string, position: DropPosition } | null>(null);
+  const [addingChildTo, setAddingChildTo] = useState<string | null>(null);
+  const [childText, setChildText] = useState('');
+
+  const nodes = useMemo(
+    () => SubTaskUtils.flattenTree(task.subTasks, collapsedIds),
+    [task.subTasks, collapsedIds]
+  );
+
+  const toggleCollapsed = (subTaskId: string) => {
+    setCollapsedIds(prev => prev.includes(subTaskId) ? prev.filter(id => id !== subTaskId) : [...prev, subTaskId]);
+  };
+
+  /**
+   * 字下げ・字上げ
+   */
+  const handleIndent = (subTaskId: string) => {
+    const placement = SubTaskUtils.getIndentPlacement(task.subTasks, subTaskId);
+    if (!placement) return;
+    // 移動先の親が折りたたまれていると見えなくなるので展開する
+    setCollapsedIds(prev => prev.filter(id => id !== placement.parentId));
+    moveSubTask(task.id, subTaskId, placement.parentId, placement.index);
+  };
+
+  const handleOutdent = (subTaskId: string) => {
+    const placement = SubTaskUtils.getOutdentPlacement(task.subTasks, subTaskId);
+    if (placement) moveSubTask(task.id, subTaskId, placement.parentId, placement.index);
+  };
+
+  /**
+   * 子サブタスクを追加
+   */
+  const handleAddChild = async (parentSubTaskId: string) => {
+    const text = childText.trim();
+    if (!text) return;
+
+    try {
+      await addSubTask({ text, parentTaskId: task.id, parentSubTaskId });
+      setCollapsedIds(prev => prev.filter(id => id !== parentSubTaskId));
+      setChildText('');
+      setAddingChildTo(null);
+    } catch (error) {
+      console.error('サブタスク追加エラー:', error);
+    }
+  };
+
+  /**
+   * ドラッグ中の行のどの位置にいるかを判定（上端・下端の1/4は前後、それ以外は子）
+   */
+  const getDropPosition = (e: React.DragEvent, subTaskId: string): DropPosition | null => {
+    if (!draggingId || draggingId === subTaskId) return null;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    const position: DropPosition = ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'inside';
+
+    const target = task.subTasks.find(st => st.id === subTaskId);
+    if (!target) return null;
+    const parentId = position === 'inside' ? subTaskId : SubTaskUtils.getParentId(task.subTasks, target);
+    return SubTaskUtils.canMove(task.subTasks, draggingId, parentId) ? position : null;
+  };
+
+  /**
+   * サブタスクのドロップ
+   */
+  const handleDrop = (e: React.DragEvent, subTaskId: string) => {
+    e.preventDefault();
+    const position = getDropPosition(e, subTaskId);
+    const movingId = draggingId;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!position || !movingId) return;
+
+    const target = task.subTasks.find(st => st.id === subTaskId)!;
+    if (position === 'inside') {
+      setCollapsedIds(prev => prev.filter(id => id !== subTaskId));
+      moveSubTask(task.id, movingId, subTaskId, SubTaskUtils.getChildren(task.subTasks, subTaskId).length);
+      return;
+    }
+
+    // 兄弟の並びから移動するサブタスク自身を除いた位置に挿入する
+    const parentId = SubTaskUtils.getParentId(task.subTasks, target);
+    const siblings = SubTaskUtils.getChildren(task.subTasks, parentId).filter(st => st.id !== movingId);
+    const index = siblings.findIndex(st => st.id === subTaskId);
+    moveSubTask(task.id, movingId, parentId, position === 'before' ? index : index + 1);
+  };
+
+  return (
+    <ul className="space-y-1">
+      {nodes.map(({ subTask, depth, childCount }) => {
+        const collapsed = collapsedIds.includes(subTask.id);
+        const activeDrop = dropTarget?.id === subTask.id ? dropTarget.position : null;
+        const canIndent = SubTaskUtils.getIndentPlacement(task.subTasks, subTask.id) !== null;
+        const childProgress = childCount > 0 ? SubTaskUtils.calculateSubTreeProgress(task.subTasks, subTask.id) : null;
+
+        return (
+          <li key={subTask.id} style={{ marginLeft: `${depth * INDENT_REM}rem` }}>
+            <div
+              draggable={!isMobile}
+              tabIndex={0}
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', subTask.id);
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(subTask.id);
+              }}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropTarget(null);
+              }}
+              onDragOver={(e) => {
+                const position = getDropPosition(e, subTask.id);
+                if (!position) return;
+                e.preventDefault();
+                setDropTarget({ id: subTask.id, position });
+              }}
+              onDragLeave={() => setDropTarget(prev => prev?.id === subTask.id ? null : prev)}
+              onDrop={(e) => handleDrop(e, subTask.id)}
+              onKeyDown={(e) => {
+                // Tab / Shift+Tab で字下げ・字上げ
+                if (e.key !== 'Tab' || e.target !== e.currentTarget) return;
+                e.preventDefault();
+                if (e.shiftKey) handleOutdent(subTask.id);
+                else handleIndent(subTask.id);
+              }}
+              aria-label={`${subTask.text}（Tabで字下げ、Shift+Tabで字上げ）`}
+              className={`flex items-center bg-white p-2 rounded border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                activeDrop === 'inside' ? 'bg-blue-50 border-blue-400' : ''
+              } ${activeDrop === 'before' ? 'border-t-2 border-t-blue-500' : ''} ${
+                activeDrop === 'after' ? 'border-b-2 border-b-blue-500' : ''
+              } ${draggingId === subTask.id ? 'opacity-50' : ''} ${isMobile ? '' : 'cursor-grab'}`}
+            >
+              {/* 折りたたみ・展開 */}
+              {childCount > 0 ? (
+                <button
+                  onClick={() => toggleCollapsed(subTask.id)}
+                  className="w-4 mr-1 text-xs text-gray-500 hover:text-gray-800"
+                  aria-label={collapsed ? '展開' : '折りたたむ'}
+                >
+                  {collapsed ? '▶' : '▼'}
+                </button>
+              ) : (
+                <span className="w-4 mr-1" />
+              )}
+              <input
+                type="checkbox"
+                checked={subTask.completed}
+                onChange={() => onToggle(task.id, subTask.id)}
+                className="h-4 w-4 text-blue-600 mr-2"
+              />
+              <span className={`flex-1 text-sm ${subTask.completed ? 'line-through text-gray-500' : ''}`}>
+                <HighlightedText text={subTask.text} terms={searchTerms} />
+              </span>
+              {childProgress !== null && (
+                <span className="text-xs text-gray-500 mr-2" title="子サブタスクを含む進捗">
+                  {childProgress}%{collapsed && ` (${childCount})`}
+                </span>
+              )}
+              {subTask.completed && (
+                <span className="text-xs text-green-600 mr-2">✓</span>
+              )}
+              <button
+                onClick={() => handleOutdent(subTask.id)}
+                disabled={depth === 0}
+                className="text-gray-400 hover:text-blue-500 text-xs mr-1 disabled:opacity-30 disabled:hover:text-gray-400"
+                title="字上げ"
+              >
+                ⇤
+              </button>
+              <button
+                onClick={() => handleIndent(subTask.id)}
+                disabled={!canIndent}
+                className="text-gray-400 hover:text-blue-500 text-xs mr-1 disabled:opacity-30 disabled:hover:text-gray-400"
+                title="字下げ"
+              >
+                ⇥
+              </button>
+              {depth + 1 < SubTaskUtils.MAX_DEPTH && (
+                <button
+                  onClick={() => {
+                    setAddingChildTo(addingChildTo === subTask.id ? null : subTask.id);
+                    setChildText('');
+                  }}
+                  className="text-gray-400 hover:text-green-600 text-sm mr-1"
+                  title="子サブタスクを追加"
+                >
+                  ＋
+                </button>
+              )}
+              <button
+                onClick={() => promoteSubTask(task.id, subTask.id)}
+                className="text-gray-400 hover:text-purple-600 text-xs mr-1"
+                title={childCount > 0 ? 'タスクに昇格（子サブタスクも移動）' : 'タスクに昇格'}
+              >
+                ⬆
+              </button>
+              <button
+                onClick={() => removeSubTask(task.id, subTask.id)}
+                className="text-gray-400 hover:text-red-500 text-sm"
+                title={childCount > 0 ? '子サブタスクもまとめて削除' : '削除'}
+              >
+                ×
+              </button>
+            </div>
+
+            {/* 子サブタスクの追加フォーム */}
+            {addingChildTo === subTask.id && (
+              <div className="flex mt-1" style={{ marginLeft: `${INDENT_REM}rem` }}>
+                <input
+                  type="text"
+                  value={childText}
+                  onChange={(e) => setChildText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleAddChild(subTask.id);
+                    if (e.key === 'Escape') setAddingChildTo(null);
+                  }}
+                  placeholder={`「${subTask.text}」の子サブタスク...`}
+                  className="flex-1 text-sm p-1.5 border rounded-l"
+                  autoFocus
+                />
+                <button
+                  onClick={() => handleAddChild(subTask.id)}
+                  className="px-3 py-1 bg-green-500 text-white text-xs rounded-r hover:bg-green-600"
+                >
+                  追加
+                </button>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * タグチップコンポーネント
+ *
+ * タグを色付きの小さなラベルとして表示する
+ * クリックでの絞り込みや、削除ボタンの表示にも対応
+ * v1.8.0: タグ機能の実装
+ */
+
+import { useTagStore } from '@/store/tagStore';
+
+/**
+ * タグチップコンポーネントのプロパティ
+ */
+interface TagChipProps {
+  name: string;                  // タグ名
+  active?: boolean;              // 選択中（絞り込み中）かどうか
+  onClick?: () => void;          // クリック時のコールバック
+  onRemove?: () => void;         // 削除ボタン押下時のコールバック（指定時のみ×を表示）
+}
+
+/**
+ * タグチップコンポーネント
+ */
+export default function TagChip({ name, active = false, onClick, onRemove }: TagChipProps) {
+  const color = useTagStore(state => state.getTagColor(name));
+
+  return (
+    <span
+      onClick={onClick}
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs border ${
+        onClick ? 'cursor-pointer' : ''
+      } ${active ? 'ring-2 ring-offset-1' : ''}`}
+      style={{
+        backgroundColor: `${color}1a`,
+        borderColor: color,
+        color
+      }}
+    >
+      #{name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="ml-1 hover:opacity-70"
+          aria-label={`タグ「${name}」を外す`}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * タグ入力コンポーネント
+ *
+ * 既存タグの候補を表示しながらタスクにタグを付けるための入力欄
+ * Enter・カンマで確定、空欄でのBackspaceで直前のタグを外す
+ * v1.8.0: タグ機能の実装
+ */
+
+import { useState, KeyboardEvent } from 'react';
+import { useTagStore } from '@/store/tagStore';
+import { TagUtils } from '@/lib/taskInterfaces';
+import TagChip from './TagChip';
+
+/**
+ * タグ入力コンポーネントのプロパティ
+ */
+interface TagInputProps {
+  value: string[];                     // 現在のタグ名のリスト
+  onChange: (tags: string[]) => void;  // タグ変更時のコールバック
+  placeholder?: string;
+}
+
+/**
+ * タグ入力コンポーネント
+ */
+export default function TagInput({ value, onChange, placeholder = 'タグを入力（Enterで追加）' }: TagInputProps) {
+  const { tags } = useTagStore();
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  // 入力中の文字列に一致する既存タグの候補
+  const suggestions = TagUtils.suggest(tags, input, value).slice(0, 8);
+  const normalizedInput = TagUtils.normalizeName(input);
+  const isNewTag = normalizedInput && !tags.some(tag => tag.name === normalizedInput);
+
+  /**
+   * タグを追加
+   */
+  const addTag = (name: string) => {
+    const normalized = TagUtils.normalizeName(name);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setInput('');
+  };
+
+  /**
+   * キー入力処理
+   */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',' || e.key === '、') && input.trim()) {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus-within:ring-2 focus-within:ring-blue-500">
+        {value.map(tag => (
+          <TagChip key={tag} name={tag} onRemove={() => onChange(value.filter(t => t !== tag))} />
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setTimeout(() => setFocused(false), 150)}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[6rem] text-sm outline-none py-0.5"
+        />
+      </div>
+
+      {/* 候補リスト */}
+      {focused && (suggestions.length > 0 || isNewTag) && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-48 overflow-y-auto">
+          {suggestions.map(tag => (
+            <li key={tag.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag.name)}
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-100 flex items-center"
+              >
+                <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: tag.color }}></span>
+                {tag.name}
+              </button>
+            </li>
+          ))}
+          {isNewTag && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(input)}
+                className="w-full text-left px-3 py-1.5 text-sm text-blue-600 hover:bg-gray-100"
+              >
+                ＋ 新しいタグ「{normalizedInput}」を作成
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
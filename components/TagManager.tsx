@@ -0,0 +1,176 @@
+/**
+ * タグ管理コンポーネント
+ *
+ * タグの一覧と使用数を表示し、色の変更・名前の変更（統合）・削除を行う
+ * 名前の変更と削除はユーザーの全タスクに一括で反映される
+ * v1.8.0: タグ機能の実装
+ */
+
+import { useState } from 'react';
+import { useTagStore } from '@/store/tagStore';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { TagUtils } from '@/lib/taskInterfaces';
+
+/**
+ * タグ管理コンポーネント
+ */
+export default function TagManager() {
+  const { tags, addTag, updateTagColor, renameTag, removeTag, getTagByName } = useTagStore();
+  const { tasks } = useEnhancedTaskStore();
+
+  const [newTagName, setNewTagName] = useState('');
+  const [newTagColor, setNewTagColor] = useState(TagUtils.COLORS[0]);
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  // タグごとの使用数
+  const tagCounts = tasks.reduce((counts, task) => {
+    (task.tags || []).forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+    return counts;
+  }, {} as { [tag: string]: number });
+
+  /**
+   * 新しいタグを作成
+   */
+  const handleAddTag = async () => {
+    if (!TagUtils.normalizeName(newTagName)) return;
+    await addTag(newTagName, newTagColor);
+    setNewTagName('');
+  };
+
+  /**
+   * タグ名の変更を確定（既存のタグ名なら統合を確認）
+   */
+  const handleRename = async (tagId: string) => {
+    const normalized = TagUtils.normalizeName(editingName);
+    const target = getTagByName(normalized);
+    if (target && target.id !== tagId) {
+      if (!window.confirm(`タグ「${normalized}」は既に存在します。統合しますか？`)) return;
+    }
+    await renameTag(tagId, normalized);
+    setEditingTagId(null);
+  };
+
+  /**
+   * タグを削除
+   */
+  const handleRemove = async (tagId: string, name: string) => {
+    if (!window.confirm(`タグ「${name}」を削除しますか？（${tagCounts[name] || 0}件のタスクから外れます）`)) return;
+    await removeTag(tagId);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* タグ作成フォーム */}
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAddTag();
+          }}
+          placeholder="新しいタグ名"
+          className="flex-1 text-sm p-2 border rounded"
+        />
+        <div className="flex space-x-1">
+          {TagUtils.COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => setNewTagColor(color)}
+              className={`w-5 h-5 rounded-full ${newTagColor === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+              style={{ backgroundColor: color }}
+              aria-label={`色 ${color}`}
+            />
+          ))}
+        </div>
+        <button
+          onClick={handleAddTag}
+          className="px-3 py-2 bg-green-500 text-white text-sm rounded hover:bg-green-600"
+        >
+          作成
+        </button>
+      </div>
+
+      {/* タグ一覧 */}
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2 bg-white rounded border border-dashed">
+          タグがありません
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {tags.map(tag => (
+            <li key={tag.id} className="flex items-center bg-white p-2 rounded border">
+              <span className="inline-block w-3 h-3 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: tag.color }}></span>
+
+              {/* タグ名と色（編集可能） */}
+              {editingTagId === tag.id ? (
+                <div className="flex-1 space-y-1">
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(tag.id);
+                      if (e.key === 'Escape') setEditingTagId(null);
+                    }}
+                    className="w-full text-sm p-1 border rounded"
+                    autoFocus
+                  />
+                  <div className="flex space-x-1">
+                    {TagUtils.COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => updateTagColor(tag.id, color)}
+                        className={`w-4 h-4 rounded-full ${tag.color === color ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+                        style={{ backgroundColor: color }}
+                        aria-label={`色 ${color}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <span className="flex-1 text-sm">#{tag.name}</span>
+              )}
+
+              <span className="text-xs text-gray-500 mx-2">{tagCounts[tag.name] || 0}件</span>
+
+              {editingTagId === tag.id ? (
+                <button
+                  onClick={() => handleRename(tag.id)}
+                  className="px-2 py-1 bg-blue-500 text-white text-xs rounded mr-1"
+                >
+                  保存
+                </button>
+              ) : (
+                <button
+                  onClick={() => {
+                    setEditingTagId(tag.id);
+                    setEditingName(tag.name);
+                  }}
+                  className="text-xs text-blue-500 hover:text-blue-700 mr-2"
+                >
+                  編集
+                </button>
+              )}
+              <button
+                onClick={() => handleRemove(tag.id, tag.name)}
+                className="text-gray-400 hover:text-red-500 text-sm"
+                title="削除"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        既存のタグ名に変更すると、2つのタグが統合されます
+      </p>
+    </div>
+  );
+}
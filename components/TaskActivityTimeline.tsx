@@ -0,0 +1,88 @@
+/**
+ * タスクの変更履歴タイムラインコンポーネント
+ *
+ * タスクの作成から現在までの変更（期限・優先度・完了・サブタスクなど）を新しい順に表示し、
+ * 期限を延ばした回数などの集計を添える
+ * v1.8.0: タスクの変更履歴を追加
+ */
+
+import { useState, useMemo } from 'react';
+import { useProjectStore } from '@/store/projectStore';
+import { EnhancedTask } from '@/lib/taskInterfaces';
+import { TaskActivityLog } from '@/lib/taskActivity';
+
+/**
+ * タスクの変更履歴タイムラインコンポーネントのプロパティ
+ */
+interface TaskActivityTimelineProps {
+  task: EnhancedTask;
+}
+
+// 最初に表示する件数
+const INITIAL_COUNT = 10;
+
+/**
+ * 変更日時の表示
+ */
+const formatTime = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * タスクの変更履歴タイムラインコンポーネント
+ */
+export default function TaskActivityTimeline({ task }: TaskActivityTimelineProps) {
+  const { getProjectById } = useProjectStore();
+  const [showAll, setShowAll] = useState(false);
+
+  const entries = useMemo(() => [...(task.activityLog || [])].reverse(), [task.activityLog]);
+  const summary = useMemo(() => TaskActivityLog.summarize(task.activityLog), [task.activityLog]);
+
+  const getProjectName = (projectId: string) => getProjectById(projectId)?.name || '削除されたプロジェクト';
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-400">変更履歴はまだありません</p>;
+  }
+
+  const visible = showAll ? entries : entries.slice(0, INITIAL_COUNT);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-600">
+        期限の変更 {summary.deadlineChanges}回
+        {summary.deadlinePostponements > 0 && (
+          <span className={summary.deadlinePostponements >= 3 ? 'text-red-600 font-medium' : ''}>
+            （うち延期 {summary.deadlinePostponements}回）
+          </span>
+        )}
+        <span className="ml-2">優先度の変更 {summary.priorityChanges}回</span>
+        {summary.reopenCount > 0 && <span className="ml-2">完了の取り消し {summary.reopenCount}回</span>}
+        {summary.pomodoroCount > 0 && <span className="ml-2">🍅 {summary.pomodoroCount}回</span>}
+      </p>
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-2">
+        {visible.map((entry, index) => (
+          <li key={`${entry.at}-${index}`} className="ml-4">
+            <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-white text-xs">
+              {TaskActivityLog.KINDS[entry.kind]?.icon || '•'}
+            </span>
+            <p className={`text-xs ${TaskActivityLog.isPostponement(entry) ? 'text-orange-700' : 'text-gray-700'}`}>
+              {TaskActivityLog.describe(entry, getProjectName)}
+            </p>
+            <time className="text-[10px] text-gray-400">{formatTime(entry.at)}</time>
+          </li>
+        ))}
+      </ol>
+
+      {entries.length > INITIAL_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="text-xs text-blue-500 hover:text-blue-700"
+        >
+          {showAll ? '最近の履歴だけ表示' : `すべて表示（${entries.length}件）`}
+        </button>
+      )}
+    </div>
+  );
+}
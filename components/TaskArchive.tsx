@@ -0,0 +1,188 @@
+/**
+ * アーカイブ・ゴミ箱コンポーネント
+ *
+ * アーカイブ済みのタスクとゴミ箱のタスクを閲覧し、復元・完全削除を行う
+ * 自動アーカイブまでの日数とゴミ箱の保持日数もここで設定する
+ * v1.8.0: アーカイブ・ゴミ箱機能の実装
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useUserSettingsStore } from '@/store/userSettingsStore';
+import { EnhancedTask, RetentionUtils } from '@/lib/taskInterfaces';
+
+/**
+ * タイムスタンプを日付表示に変換
+ */
+const formatDate = (timestamp?: number | null): string => {
+  if (!timestamp) return '';
+  return new Date(timestamp).toLocaleDateString('ja-JP');
+};
+
+/**
+ * アーカイブ・ゴミ箱コンポーネント
+ */
+export default function TaskArchive() {
+  const { archivedTasks, trashedTasks, restoreTask, removeTask, purgeTask, emptyTrash } = useEnhancedTaskStore();
+  const { retention, updateRetention } = useUserSettingsStore();
+
+  const [view, setView] = useState<'archive' | 'trash'>('archive');
+  const [showSettings, setShowSettings] = useState(false);
+  const [archiveAfterDays, setArchiveAfterDays] = useState(retention.archiveAfterDays);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(retention.trashRetentionDays);
+
+  const now = Date.now();
+  const listedTasks = (view === 'archive' ? archivedTasks : trashedTasks)
+    .slice()
+    .sort((a, b) => view === 'archive'
+      ? (b.archivedAt || 0) - (a.archivedAt || 0)
+      : (b.deletedAt || 0) - (a.deletedAt || 0));
+
+  /**
+   * ゴミ箱のタスクを完全に削除（確認あり）
+   */
+  const handlePurge = (task: EnhancedTask) => {
+    if (!window.confirm(`「${task.text}」を完全に削除します。元に戻せませんがよろしいですか？`)) return;
+    purgeTask(task.id);
+  };
+
+  /**
+   * ゴミ箱を空にする（確認あり）
+   */
+  const handleEmptyTrash = () => {
+    if (!window.confirm(`ゴミ箱の${trashedTasks.length}件のタスクを完全に削除します。よろしいですか？`)) return;
+    emptyTrash();
+  };
+
+  /**
+   * 保持設定を保存
+   */
+  const handleSaveSettings = async () => {
+    await updateRetention({ archiveAfterDays, trashRetentionDays });
+    setShowSettings(false);
+  };
+
+  const tabClass = (selected: boolean) =>
+    `px-3 py-1 text-xs rounded-full border ${
+      selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+    }`;
+
+  return (
+    <div className="space-y-3">
+      {/* 表示切り替え */}
+      <div className="flex items-center gap-2">
+        <button onClick={() => setView('archive')} className={tabClass(view === 'archive')}>
+          🗄️ アーカイブ {archivedTasks.length}
+        </button>
+        <button onClick={() => setView('trash')} className={tabClass(view === 'trash')}>
+          🗑️ ゴミ箱 {trashedTasks.length}
+        </button>
+        <button
+          onClick={() => {
+            setArchiveAfterDays(retention.archiveAfterDays);
+            setTrashRetentionDays(retention.trashRetentionDays);
+            setShowSettings(!showSettings);
+          }}
+          className="text-xs text-blue-500 hover:text-blue-700 ml-auto"
+        >
+          {showSettings ? '設定を閉じる' : '⚙️ 保持設定'}
+        </button>
+      </div>
+
+      {/* 保持設定 */}
+      {showSettings && (
+        <div className="bg-white p-3 rounded border text-xs space-y-2">
+          <label className="flex items-center space-x-2">
+            <span className="w-40 text-gray-700">完了後にアーカイブするまで</span>
+            <input
+              type="number"
+              min={0}
+              value={archiveAfterDays}
+              onChange={(e) => setArchiveAfterDays(parseInt(e.target.value) || 0)}
+              className="w-16 p-1 border rounded"
+            />
+            <span className="text-gray-500">日（0で自動アーカイブしない）</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <span className="w-40 text-gray-700">ゴミ箱に残す期間</span>
+            <input
+              type="number"
+              min={1}
+              value={trashRetentionDays}
+              onChange={(e) => setTrashRetentionDays(parseInt(e.target.value) || 1)}
+              className="w-16 p-1 border rounded"
+            />
+            <span className="text-gray-500">日（経過後に完全に削除）</span>
+          </label>
+          <div className="text-right">
+            <button
+              onClick={handleSaveSettings}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* タスク一覧 */}
+      {listedTasks.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-2 bg-white rounded border border-dashed">
+          {view === 'archive' ? 'アーカイブ済みのタスクはありません' : 'ゴミ箱は空です'}
+        </p>
+      ) : (
+        <ul className="space-y-1 max-h-80 overflow-y-auto">
+          {listedTasks.map(task => (
+            <li key={task.id} className="flex items-center bg-white p-2 rounded border text-sm">
+              <div className="flex-1 min-w-0">
+                <p className={`truncate ${task.completed ? 'line-through text-gray-500' : 'text-gray-800'}`}>
+                  {task.text}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {view === 'archive'
+                    ? `${formatDate(task.completedAt)}に完了 • ${formatDate(task.archivedAt)}にアーカイブ`
+                    : `${formatDate(task.deletedAt)}に削除 • あと${RetentionUtils.getDaysUntilPurge(task, retention, now)}日で完全に削除`}
+                </p>
+              </div>
+              <button
+                onClick={() => restoreTask(task.id)}
+                className="text-xs text-blue-500 hover:text-blue-700 ml-2 whitespace-nowrap"
+              >
+                復元
+              </button>
+              {view === 'archive' ? (
+                <button
+                  onClick={() => removeTask(task.id)}
+                  className="text-xs text-gray-400 hover:text-red-500 ml-2 whitespace-nowrap"
+                >
+                  ゴミ箱へ
+                </button>
+              ) : (
+                <button
+                  onClick={() => handlePurge(task)}
+                  className="text-xs text-red-500 hover:text-red-700 ml-2 whitespace-nowrap"
+                >
+                  完全に削除
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {view === 'trash' && trashedTasks.length > 0 && (
+        <div className="text-right">
+          <button
+            onClick={handleEmptyTrash}
+            className="px-3 py-1 text-xs bg-red-500 text-white rounded hover:bg-red-600"
+          >
+            ゴミ箱を空にする
+          </button>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        アーカイブしたタスクは一覧に表示されませんが、統計には含まれます
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * タスクボードコンポーネント
+ *
+ * タスクを作業状態・優先度・期限の区分ごとの列に並べるカンバン形式の表示
+ * カードをドラッグ＆ドロップで別の列へ移動すると、ストアのアクションを通じて保存される
+ * スマートフォンでは移動先の選択、キーボードでは左右の矢印キーでも移動できる
+ * v1.8.0: ボード表示の実装
+ */
+
+import { useState } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useDevice } from '@/hooks/useDevice';
+import { EnhancedTask, BoardColumnMode, BoardColumn, BoardUtils, DueUtils, SubTaskUtils, TaskStatus } from '@/lib/taskInterfaces';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import TagChip from './TagChip';
+
+/**
+ * タスクボードコンポーネントのプロパティ
+ */
+interface TaskBoardProps {
+  tasks: EnhancedTask[];   // 表示するタスク（絞り込み・並べ替え済み）
+}
+
+// 優先度のバッジの色
+const PRIORITY_CLASSES: { [priority in PriorityLevel]: string } = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+/**
+ * タスクボードコンポーネント
+ */
+export default function TaskBoard({ tasks }: TaskBoardProps) {
+  const { setTaskStatus, setPriority, setDeadline } = useEnhancedTaskStore();
+  const isMobile = useDevice();
+
+  const [mode, setMode] = useState<BoardColumnMode>('status');
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const now = Date.now();
+  const columns = BoardUtils.COLUMNS[mode];
+  const grouped = BoardUtils.groupByColumn(tasks, mode, now);
+
+  /**
+   * タスクを別の列へ移動（列の分け方に応じたストアのアクションで保存）
+   */
+  const moveTask = async (task: EnhancedTask, column: BoardColumn) => {
+    if (!column.droppable || BoardUtils.getColumnId(task, mode, now) === column.id) return;
+
+    switch (mode) {
+      case 'status':
+        await setTaskStatus(task.id, column.id as TaskStatus);
+        break;
+      case 'priority':
+        await setPriority(task.id, column.id as PriorityLevel);
+        break;
+      case 'deadline':
+        // 期限を解除する場合は時刻も解除し、それ以外は時刻を保つ
+        await setDeadline(task.id, BoardUtils.getBucketDeadline(column.id, now), column.id === 'none' ? null : undefined);
+        break;
+    }
+  };
+
+  /**
+   * 左右の矢印キーで隣の列（移動できる列）へ移動
+   */
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: EnhancedTask) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+
+    const currentIndex = columns.findIndex(column => column.id === BoardUtils.getColumnId(task, mode, now));
+    const step = e.key === 'ArrowLeft' ? -1 : 1;
+    for (let i = currentIndex + step; i >= 0 && i < columns.length; i += step) {
+      if (columns[i].droppable) {
+        moveTask(task, columns[i]);
+        return;
+      }
+    }
+  };
+
+  /**
+   * カードのドロップ
+   */
+  const handleDrop = (e: React.DragEvent, column: BoardColumn) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain') || draggingTaskId;
+    const task = tasks.find(t => t.id === taskId);
+    setDraggingTaskId(null);
+    setDropTargetId(null);
+    if (task) moveTask(task, column);
+  };
+
+  return (
+    <div className="p-3">
+      {/* 列の分け方 */}
+      <div className="flex items-center space-x-2 mb-3">
+        <span className="text-sm font-medium text-gray-700">列:</span>
+        {BoardUtils.MODE_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setMode(option.value)}
+            className={`px-3 py-1 text-xs rounded-full border ${
+              mode === option.value
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {mode === 'status' && (
+          <span className="text-xs text-gray-400 ml-auto">完了の列へ移動するとポイントを獲得します</span>
+        )}
+      </div>
+
+      {/* 列 */}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {columns.map(column => (
+          <div
+            key={column.id}
+            onDragOver={(e) => {
+              if (!column.droppable) return;
+              e.preventDefault();
+              setDropTargetId(column.id);
+            }}
+            onDragLeave={() => setDropTargetId(prev => prev === column.id ? null : prev)}
+            onDrop={(e) => handleDrop(e, column)}
+            className={`flex-shrink-0 w-64 rounded-lg p-2 transition-colors ${
+              dropTargetId === column.id ? 'bg-blue-100' : 'bg-gray-100'
+            }`}
+          >
+            <div className="flex items-center justify-between px-1 mb-2">
+              <h3 className="text-sm font-medium text-gray-700">
+                {column.icon} {column.label}
+              </h3>
+              <span className="text-xs text-gray-500">{grouped[column.id].length}</span>
+            </div>
+
+            <ul className="space-y-2 min-h-[3rem]">
+              {grouped[column.id].map(task => {
+                const subTaskProgress = SubTaskUtils.calculateProgress(task.subTasks);
+
+                return (
+                  <li
+                    key={task.id}
+                    draggable={!isMobile}
+                    tabIndex={0}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', task.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingTaskId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingTaskId(null);
+                      setDropTargetId(null);
+                    }}
+                    onKeyDown={(e) => handleCardKeyDown(e, task)}
+                    aria-label={`${task.text}（左右の矢印キーで列を移動）`}
+                    className={`bg-white p-2 rounded shadow-sm border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isMobile ? '' : 'cursor-grab'
+                    } ${draggingTaskId === task.id ? 'opacity-50' : ''}`}
+                  >
+                    <p className={task.completed ? 'line-through text-gray-500' : 'text-gray-900'}>
+                      {task.text}
+                    </p>
+
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                      <span className={`px-1.5 rounded ${PRIORITY_CLASSES[task.priority]}`}>
+                        {task.priority === 'high' ? '高' : task.priority === 'medium' ? '中' : '低'}
+                      </span>
+                      {task.deadline && (
+                        <span className={DueUtils.isOverdue(task, now) ? 'text-red-600' : 'text-gray-500'}>
+                          📅 {DueUtils.formatDue(task)}
+                        </span>
+                      )}
+                      {subTaskProgress.total > 0 && (
+                        <span className="text-gray-500">
+                          📝 {subTaskProgress.completed}/{subTaskProgress.total}
+                        </span>
+                      )}
+                      {(task.tags || []).map(tag => (
+                        <TagChip key={tag} name={tag} />
+                      ))}
+                    </div>
+
+                    {/* スマートフォンでは移動先を選択 */}
+                    {isMobile && (
+                      <select
+                        value={column.id}
+                        onChange={(e) => {
+                          const target = columns.find(c => c.id === e.target.value);
+                          if (target) moveTask(task, target);
+                        }}
+                        className="mt-2 w-full text-xs border rounded p-1"
+                        aria-label="移動先の列"
+                      >
+                        {columns.map(c => (
+                          <option key={c.id} value={c.id} disabled={!c.droppable && c.id !== column.id}>
+                            {c.icon} {c.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * タスクカレンダーコンポーネント
+ *
+ * タスクを期限日に、習慣を実行予定日に並べた月表示・週表示のカレンダー
+ * タスクを別の日へドラッグすると期限を変更する（タップで選んでから日付をタップしても移動できる）
+ * 日ごとの見積もり時間の合計を表示し、予定を詰め込みすぎた日を色で示す
+ * v1.8.0: カレンダー表示の実装
+ */
+
+import { useState, useMemo } from 'react';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useHabitStore } from '@/store/habitStore';
+import { EnhancedTask, DueUtils } from '@/lib/taskInterfaces';
+import { HabitUtils } from '@/lib/habitInterfaces';
+import { DateUtils } from '@/lib/dateUtils';
+import { TaskCalendar, CalendarDay } from '@/lib/taskCalendar';
+
+/**
+ * タスクカレンダーコンポーネントのプロパティ
+ */
+interface TaskCalendarViewProps {
+  tasks: EnhancedTask[];   // 表示するタスク（絞り込み済み、期限のないタスクは表示されない）
+}
+
+const WEEKDAY_LABELS = ['月', '火', '水', '木', '金', '土', '日'];
+
+// 月表示の1日に表示する項目数（超えた分は「+N件」）
+const MONTH_CELL_LIMIT = 3;
+
+// 混み具合ごとの見積もり時間の表示色
+const LOAD_CLASSES = {
+  normal: 'text-gray-400',
+  busy: 'text-orange-500',
+  overloaded: 'text-red-600 font-bold'
+};
+
+/**
+ * タスクカレンダーコンポーネント
+ */
+export default function TaskCalendarView({ tasks }: TaskCalendarViewProps) {
+  const { setDeadline } = useEnhancedTaskStore();
+  const { habits } = useHabitStore();
+
+  const [mode, setMode] = useState<'month' | 'week'>('month');
+  const [focusDate, setFocusDate] = useState(DateUtils.today());
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [dropTargetDate, setDropTargetDate] = useState<string | null>(null);
+  const [pickedTaskId, setPickedTaskId] = useState<string | null>(null);
+
+  const today = DateUtils.today();
+  const focus = DateUtils.parseDateString(focusDate);
+  const focusMonth = focus.getMonth();
+
+  /**
+   * 表示中の期間の日ごとのタスクと習慣
+   */
+  const days = useMemo(() => {
+    const dates = mode === 'month'
+      ? TaskCalendar.getMonthDates(focus.getFullYear(), focusMonth)
+      : TaskCalendar.getWeekDates(focusDate);
+    return TaskCalendar.buildDays(dates, tasks, habits);
+  }, [mode, focusDate, tasks, habits]);
+
+  /**
+   * 前後の月・週へ移動
+   */
+  const shiftPeriod = (direction: 1 | -1) => {
+    if (mode === 'week') {
+      setFocusDate(DateUtils.addDays(focusDate, direction * 7));
+    } else {
+      setFocusDate(DateUtils.toDateString(new Date(focus.getFullYear(), focusMonth + direction, 1)));
+    }
+  };
+
+  /**
+   * タスクの期限を別の日へ移動（時刻は保つ）
+   */
+  const moveTask = async (taskId: string, date: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    setPickedTaskId(null);
+    if (!task || task.deadline === date) return;
+    await setDeadline(taskId, date);
+  };
+
+  /**
+   * タスクのドロップ
+   */
+  const handleDrop = (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData('text/plain') || draggingTaskId;
+    setDraggingTaskId(null);
+    setDropTargetDate(null);
+    if (taskId) moveTask(taskId, date);
+  };
+
+  const periodLabel = mode === 'month'
+    ? `${focus.getFullYear()}年${focusMonth + 1}月`
+    : `${days[0].date.replace(/-/g, '/')} 〜 ${days[6].date.slice(5).replace('-', '/')}`;
+
+  /**
+   * タスクの表示
+   */
+  const renderTask = (task: EnhancedTask) => (
+    <li
+      key={task.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', task.id);
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggingTaskId(task.id);
+      }}
+      onDragEnd={() => {
+        setDraggingTaskId(null);
+        setDropTargetDate(null);
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        setPickedTaskId(pickedTaskId === task.id ? null : task.id);
+      }}
+      title={`${task.text}${task.estimatedMinutes ? `（見積もり${task.estimatedMinutes}分）` : ''}`}
+      className={`truncate px-1 rounded cursor-grab text-xs ${
+        task.completed
+          ? 'bg-gray-100 text-gray-400 line-through'
+          : DueUtils.isOverdue(task)
+            ? 'bg-red-100 text-red-800'
+            : task.priority === 'high'
+              ? 'bg-orange-100 text-orange-800'
+              : 'bg-blue-100 text-blue-800'
+      } ${pickedTaskId === task.id ? 'ring-2 ring-blue-500' : ''} ${draggingTaskId === task.id ? 'opacity-50' : ''}`}
+    >
+      {task.dueTime && <span className="mr-1">{task.dueTime}</span>}
+      {task.text}
+    </li>
+  );
+
+  /**
+   * 1日分のセル
+   */
+  const renderDay = (day: CalendarDay) => {
+    const date = DateUtils.parseDateString(day.date);
+    const outsideMonth = mode === 'month' && date.getMonth() !== focusMonth;
+    const items = mode === 'month' ? day.tasks.slice(0, MONTH_CELL_LIMIT) : day.tasks;
+    const hiddenCount = day.tasks.length - items.length;
+    const loadLevel = TaskCalendar.getLoadLevel(day.estimatedMinutes);
+
+    return (
+      <div
+        key={day.date}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDropTargetDate(day.date);
+        }}
+        onDragLeave={() => setDropTargetDate(prev => prev === day.date ? null : prev)}
+        onDrop={(e) => handleDrop(e, day.date)}
+        onClick={() => pickedTaskId && moveTask(pickedTaskId, day.date)}
+        className={`border-t border-l p-1 ${mode === 'month' ? 'min-h-[6rem]' : 'min-h-[12rem]'} ${
+          dropTargetDate === day.date
+            ? 'bg-blue-50'
+            : loadLevel === 'overloaded'
+              ? 'bg-red-50'
+              : outsideMonth ? 'bg-gray-50' : 'bg-white'
+        } ${pickedTaskId ? 'cursor-pointer' : ''}`}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <span
+            className={`text-xs ${
+              day.date === today
+                ? 'bg-blue-500 text-white rounded-full px-1.5'
+                : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+            }`}
+          >
+            {mode === 'month' ? date.getDate() : `${date.getMonth() + 1}/${date.getDate()}`}
+          </span>
+          {day.estimatedMinutes > 0 && (
+            <span className={`text-xs ${LOAD_CLASSES[loadLevel]}`} title="見積もり時間の合計">
+              ⏱️ {TaskCalendar.formatMinutes(day.estimatedMinutes)}
+            </span>
+          )}
+        </div>
+
+        <ul className="space-y-0.5">
+          {items.map(renderTask)}
+          {hiddenCount > 0 && (
+            <li className="text-xs text-gray-500">+{hiddenCount}件</li>
+          )}
+        </ul>
+
+        {/* 習慣（月表示は件数のみ） */}
+        {day.habits.length > 0 && (
+          mode === 'month' ? (
+            <p className="text-xs text-green-700 mt-0.5" title={day.habits.map(h => h.title).join('、')}>
+              🔄 習慣 {day.habits.length}
+            </p>
+          ) : (
+            <ul className="space-y-0.5 mt-1">
+              {day.habits.map(habit => (
+                <li key={habit.id} className="truncate px-1 rounded text-xs bg-green-50 text-green-800">
+                  {HabitUtils.isCompletedToday(habit, date) ? '✅' : '🔄'}
+                  {habit.reminderTime && <span className="mx-1">{habit.reminderTime}</span>}
+                  {habit.title}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-3">
+      {/* 操作バー */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => shiftPeriod(-1)} className="px-2 py-1 text-sm border rounded hover:bg-gray-100">◀</button>
+          <button onClick={() => setFocusDate(today)} className="px-2 py-1 text-xs border rounded hover:bg-gray-100">今日</button>
+          <button onClick={() => shiftPeriod(1)} className="px-2 py-1 text-sm border rounded hover:bg-gray-100">▶</button>
+          <span className="text-sm font-medium text-gray-700 ml-2">{periodLabel}</span>
+        </div>
+        <div className="flex items-center space-x-1">
+          {(['month', 'week'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 text-xs rounded-full border ${
+                mode === option
+                  ? 'bg-blue-500 text-white border-blue-500'
+                  : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'month' ? '月' : '週'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {pickedTaskId && (
+        <p className="text-xs text-blue-600 mb-2">
+          移動先の日付をタップしてください（もう一度タスクをタップすると取り消し）
+        </p>
+      )}
+
+      {/* カレンダー */}
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-7 min-w-[640px] border-r border-b">
+          {WEEKDAY_LABELS.map((label, index) => (
+            <div
+              key={label}
+              className={`text-center text-xs font-medium py-1 border-t border-l bg-gray-50 ${
+                index === 5 ? 'text-blue-600' : index === 6 ? 'text-red-600' : 'text-gray-600'
+              }`}
+            >
+              {label}
+            </div>
+          ))}
+          {days.map(renderDay)}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">
+        ⏱️ はその日が期限のタスクの見積もり時間の合計です（4時間超で橙、8時間超で赤）
+      </p>
+    </div>
+  );
+}
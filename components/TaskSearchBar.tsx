@@ -0,0 +1,97 @@
+/**
+ * タスク検索バーコンポーネント
+ *
+ * タスク名・メモ・サブタスクの全文検索と、priority: や due: などの演算子を入力する検索欄
+ * v1.8.0: タスク検索機能の実装
+ */
+
+import { useState } from 'react';
+
+/**
+ * 演算子の一覧（ヘルプ表示用）
+ */
+const OPERATOR_HELP = [
+  { example: 'priority:high', description: '優先度（high / medium / low）' },
+  { example: 'due:<7d', description: '7日以内が期限（today / tomorrow / week / overdue / none / 2025-01-31 も可）' },
+  { example: 'tag:仕事', description: 'タグ' },
+  { example: 'project:名前', description: 'プロジェクト' },
+  { example: 'is:overdue', description: '状態（overdue / today / completed / active / blocked / recurring / snoozed）' },
+  { example: 'has:memo', description: '項目あり（memo / subtasks / deadline / time / tags / reminder / estimate）' },
+  { example: '-completed', description: '先頭に「-」で否定（-tag:趣味、-会議 など）' },
+  { example: '"週次 レポート"', description: '空白を含む語をそのまま検索' }
+];
+
+/**
+ * タスク検索バーコンポーネントのプロパティ
+ */
+interface TaskSearchBarProps {
+  value: string;
+  onChange: (query: string) => void;
+  resultCount: number;     // 一致したタスクの件数
+  errors: string[];        // 解釈できなかった条件
+}
+
+/**
+ * タスク検索バーコンポーネント
+ */
+export default function TaskSearchBar({ value, onChange, resultCount, errors }: TaskSearchBarProps) {
+  const [showHelp, setShowHelp] = useState(false);
+
+  return (
+    <div className="px-3 py-2 border-b">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <span className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400 text-sm">🔍</span>
+          <input
+            type="search"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onChange('');
+            }}
+            placeholder="タスク・メモ・サブタスクを検索（例: 企画 priority:high due:<7d）"
+            className="w-full text-sm pl-8 pr-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
+            aria-label="タスクを検索"
+          />
+        </div>
+        <button
+          onClick={() => setShowHelp(!showHelp)}
+          className="text-xs text-blue-500 hover:text-blue-700 whitespace-nowrap"
+          title="検索演算子の一覧"
+        >
+          {showHelp ? 'ヘルプを閉じる' : '❔ 演算子'}
+        </button>
+      </div>
+
+      {value.trim() && (
+        <p className="text-xs text-gray-500 mt-1">
+          {resultCount}件が一致
+          {errors.length > 0 && (
+            <span className="text-orange-600 ml-2">
+              解釈できない条件: {errors.join(' ')}
+            </span>
+          )}
+        </p>
+      )}
+
+      {showHelp && (
+        <ul className="mt-2 bg-gray-50 p-3 rounded text-xs space-y-1">
+          {OPERATOR_HELP.map(item => (
+            <li key={item.example} className="flex">
+              <button
+                onClick={() => onChange(`${value.trim()} ${item.example}`.trim())}
+                className="font-mono text-blue-600 hover:underline w-32 text-left shrink-0"
+              >
+                {item.example}
+              </button>
+              <span className="text-gray-600">{item.description}</span>
+            </li>
+          ))}
+          <li className="text-gray-500 pt-1">
+            全角・半角、カタカナ・ひらがなの違いは区別せず、多少の表記ゆれも一致として扱います
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
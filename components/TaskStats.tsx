@@ -3,11 +3,13 @@
  * 
  * タスクの完了率や優先度別の分布などの統計情報を視覚的に表示
  * 円グラフやバーチャートでタスクの進捗状況を可視化します
+ * v1.8.0: 見積もりと実績の比較レポートを追加
  */
 
 import { useMemo } from 'react';
 import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
 import { motion } from 'framer-motion';
+import EstimateReport from './EstimateReport';
 
 /**
  * タスク統計コンポーネント
@@ -204,6 +206,11 @@ export default function TaskStats() {
           <p className="text-xl font-bold">{stats.dueToday}</p>
         </div>
       </div>
+      
+      {/* 見積もりと実績の比較 */}
+      <div className="mt-4">
+        <EstimateReport />
+      </div>
     </div>
   );
 }
\ No newline at end of file
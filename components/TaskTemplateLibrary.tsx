@@ -0,0 +1,320 @@
+/**
+ * タスクテンプレートライブラリコンポーネント
+ *
+ * 保存したテンプレートの一覧から新しいタスクを作成し、テンプレートの作成・編集・削除を行う
+ * サブタスクは1行1項目のチェックリストとして入力し、行頭の空白2つで1階層字下げする
+ * v1.8.0: タスクテンプレート機能の実装
+ */
+
+import { useState } from 'react';
+import { useTaskTemplateStore } from '@/store/taskTemplateStore';
+import { TaskTemplate } from '@/lib/taskInterfaces';
+import { TaskTemplates, TaskTemplateData } from '@/lib/taskTemplates';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * タスクテンプレートライブラリコンポーネントのプロパティ
+ */
+interface TaskTemplateLibraryProps {
+  projectId?: string;                      // 作成するタスクのプロジェクト
+  onTaskCreated?: (taskId: string) => void;
+}
+
+/**
+ * 編集フォームの入力値
+ */
+interface TemplateForm {
+  name: string;
+  text: string;
+  priority: PriorityLevel;
+  deadlineOffsetDays: string;              // 空欄は期限なし
+  estimatedMinutes: string;
+  memo: string;
+  checklist: string;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  text: '',
+  priority: 'medium',
+  deadlineOffsetDays: '',
+  estimatedMinutes: '',
+  memo: '',
+  checklist: ''
+};
+
+const PRIORITY_LABELS: { [priority in PriorityLevel]: string } = {
+  high: '高',
+  medium: '中',
+  low: '低'
+};
+
+/**
+ * テンプレートを編集フォームの入力値に変換
+ */
+const toForm = (template: TaskTemplate): TemplateForm => ({
+  name: template.name,
+  text: template.text,
+  priority: template.priority,
+  deadlineOffsetDays: typeof template.deadlineOffsetDays === 'number' ? String(template.deadlineOffsetDays) : '',
+  estimatedMinutes: template.estimatedMinutes ? String(template.estimatedMinutes) : '',
+  memo: template.memo || '',
+  checklist: TaskTemplates.formatChecklist(template.subTasks || [])
+});
+
+/**
+ * 編集フォームの入力値をテンプレートの保存データに変換
+ */
+const toData = (form: TemplateForm): TaskTemplateData => {
+  const offset = parseInt(form.deadlineOffsetDays, 10);
+  const estimate = parseInt(form.estimatedMinutes, 10);
+  return {
+    name: form.name.trim() || form.text.trim(),
+    text: form.text.trim(),
+    priority: form.priority,
+    deadlineOffsetDays: Number.isNaN(offset) ? null : Math.max(0, offset),
+    estimatedMinutes: Number.isNaN(estimate) || estimate <= 0 ? null : estimate,
+    memo: form.memo,
+    subTasks: TaskTemplates.parseChecklist(form.checklist)
+  };
+};
+
+/**
+ * タスクテンプレートライブラリコンポーネント
+ */
+export default function TaskTemplateLibrary({ projectId, onTaskCreated }: TaskTemplateLibraryProps) {
+  const { templates, loading, addTemplate, updateTemplate, removeTemplate, createTaskFromTemplate } = useTaskTemplateStore();
+
+  // 編集中のテンプレート（'new' は新規作成）
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [creatingId, setCreatingId] = useState<string | null>(null);
+
+  const today = DateUtils.today();
+
+  const startEdit = (template: TaskTemplate | null) => {
+    setEditingId(template ? template.id : 'new');
+    setForm(template ? toForm(template) : EMPTY_FORM);
+  };
+
+  /**
+   * 編集内容を保存
+   */
+  const handleSave = async () => {
+    if (!form.text.trim()) return;
+    const data = toData(form);
+
+    if (editingId === 'new') {
+      const templateId = await addTemplate(data);
+      if (!templateId) return;
+    } else if (editingId) {
+      await updateTemplate(editingId, data);
+    }
+    setEditingId(null);
+  };
+
+  /**
+   * テンプレートからタスクを作成
+   */
+  const handleUse = async (templateId: string) => {
+    setCreatingId(templateId);
+    const taskId = await createTaskFromTemplate(templateId, projectId);
+    setCreatingId(null);
+    if (taskId) onTaskCreated?.(taskId);
+  };
+
+  const handleRemove = async (template: TaskTemplate) => {
+    if (!window.confirm(`テンプレート「${template.name}」を削除しますか？`)) return;
+    await removeTemplate(template.id);
+  };
+
+  /**
+   * 編集フォーム
+   */
+  const renderForm = () => {
+    const previewDeadline = form.deadlineOffsetDays !== '' && !Number.isNaN(parseInt(form.deadlineOffsetDays, 10))
+      ? DateUtils.addDays(today, Math.max(0, parseInt(form.deadlineOffsetDays, 10)))
+      : undefined;
+    const preview = TaskTemplates.fillPlaceholders(form.text, { today, deadline: previewDeadline });
+
+    return (
+      <div className="bg-white border rounded p-3 space-y-2 text-sm">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="テンプレート名（例: リリース手順）"
+          className="w-full p-2 border rounded"
+        />
+        <div>
+          <input
+            type="text"
+            value={form.text}
+            onChange={(e) => setForm({ ...form, text: e.target.value })}
+            placeholder="タスク名（例: {{date}} リリース作業）"
+            className="w-full p-2 border rounded"
+          />
+          {preview !== form.text && preview.trim() && (
+            <p className="text-xs text-gray-500 mt-1">作成されるタスク名: {preview}</p>
+          )}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-600">
+            優先度
+            <select
+              value={form.priority}
+              onChange={(e) => setForm({ ...form, priority: e.target.value as PriorityLevel })}
+              className="w-full mt-1 p-1.5 border rounded text-sm"
+            >
+              {(['high', 'medium', 'low'] as const).map(p => (
+                <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-600">
+            期限（作成日から）
+            <div className="flex items-center mt-1">
+              <span className="mr-1">+</span>
+              <input
+                type="number"
+                min={0}
+                value={form.deadlineOffsetDays}
+                onChange={(e) => setForm({ ...form, deadlineOffsetDays: e.target.value })}
+                placeholder="なし"
+                className="w-full p-1.5 border rounded text-sm"
+              />
+              <span className="ml-1">日</span>
+            </div>
+          </label>
+          <label className="text-xs text-gray-600">
+            見積もり
+            <div className="flex items-center mt-1">
+              <input
+                type="number"
+                min={0}
+                value={form.estimatedMinutes}
+                onChange={(e) => setForm({ ...form, estimatedMinutes: e.target.value })}
+                placeholder="なし"
+                className="w-full p-1.5 border rounded text-sm"
+              />
+              <span className="ml-1">分</span>
+            </div>
+          </label>
+        </div>
+        <textarea
+          value={form.checklist}
+          onChange={(e) => setForm({ ...form, checklist: e.target.value })}
+          placeholder={'サブタスク（1行に1つ、空白2つで字下げ）\n- 変更履歴を更新\n- ビルド\n  - 本番環境で確認'}
+          rows={5}
+          className="w-full p-2 border rounded font-mono text-xs"
+        />
+        <textarea
+          value={form.memo}
+          onChange={(e) => setForm({ ...form, memo: e.target.value })}
+          placeholder="メモ（任意）"
+          rows={2}
+          className="w-full p-2 border rounded text-xs"
+        />
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer">使えるプレースホルダー</summary>
+          <ul className="mt-1 space-y-0.5">
+            {TaskTemplates.PLACEHOLDERS.map(placeholder => (
+              <li key={placeholder.token}>
+                <code className="bg-gray-100 px-1 rounded">{placeholder.token}</code> {placeholder.description}
+              </li>
+            ))}
+          </ul>
+        </details>
+        <div className="flex justify-end space-x-2">
+          <button
+            type="button"
+            onClick={() => setEditingId(null)}
+            className="px-3 py-1 text-xs border rounded hover:bg-gray-100"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!form.text.trim()}
+            className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">📋 テンプレート</h3>
+        {editingId !== 'new' && (
+          <button
+            type="button"
+            onClick={() => startEdit(null)}
+            className="text-xs text-blue-600 hover:text-blue-800"
+          >
+            ＋ 新しいテンプレート
+          </button>
+        )}
+      </div>
+
+      {editingId === 'new' && renderForm()}
+
+      {loading ? (
+        <p className="text-xs text-gray-400">読み込み中...</p>
+      ) : templates.length === 0 && editingId !== 'new' ? (
+        <p className="text-xs text-gray-400 bg-white p-3 rounded border border-dashed">
+          テンプレートがありません。タスクの詳細から「テンプレートとして保存」するか、新しく作成してください
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {templates.map(template => (
+            <li key={template.id}>
+              {editingId === template.id ? renderForm() : (
+                <div className="flex items-center bg-white border rounded p-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">{template.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {TaskTemplates.instantiate(template).text}
+                      <span className="ml-2">優先度{PRIORITY_LABELS[template.priority]}</span>
+                      {typeof template.deadlineOffsetDays === 'number' && <span className="ml-2">📅 +{template.deadlineOffsetDays}日</span>}
+                      {template.estimatedMinutes ? <span className="ml-2">⏱️ {template.estimatedMinutes}分</span> : null}
+                      {(template.subTasks || []).length > 0 && <span className="ml-2">📝 {template.subTasks.length}件</span>}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleUse(template.id)}
+                    disabled={creatingId === template.id}
+                    className="px-2 py-1 text-xs bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 ml-2"
+                  >
+                    {creatingId === template.id ? '作成中...' : '使う'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEdit(template)}
+                    className="text-xs text-blue-500 hover:text-blue-700 ml-2"
+                  >
+                    編集
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(template)}
+                    className="text-gray-400 hover:text-red-500 text-sm ml-2"
+                    aria-label="削除"
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
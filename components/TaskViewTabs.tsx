@@ -0,0 +1,172 @@
+/**
+ * 保存ビュータブコンポーネント
+ *
+ * 組み込みビュー（今日・期限切れ・今週・高優先度）と固定表示した保存ビューをタブとして表示し、
+ * 現在の検索条件・並べ替え・グループ表示を新しいビューとして保存・管理する
+ * v1.8.0: 保存ビュー機能の実装
+ */
+
+import { useState } from 'react';
+import { useTaskViewStore, TaskViewData } from '@/store/taskViewStore';
+import { TaskViewUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 保存ビュータブコンポーネントのプロパティ
+ */
+interface TaskViewTabsProps {
+  counts: { [viewId: string]: number };   // ビューごとのタスク数
+  totalCount: number;                     // 全タスク数
+  current: TaskViewData;                  // 現在の表示条件（保存用、name は未使用）
+  sortLabel: string;                      // 現在の並べ替えの表示名（順序を含む）
+}
+
+/**
+ * 保存ビュータブコンポーネント
+ */
+export default function TaskViewTabs({ counts, totalCount, current, sortLabel }: TaskViewTabsProps) {
+  const { views, activeViewId, setActiveViewId, addView, updateView, setViewPinned, removeView } = useTaskViewStore();
+
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [showManager, setShowManager] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+
+  const pinnedViews = views.filter(view => view.pinned);
+
+  /**
+   * 現在の表示条件を新しいビューとして保存
+   */
+  const handleSave = async () => {
+    if (!newViewName.trim()) return;
+    const viewId = await addView({ ...current, name: newViewName });
+    if (viewId) {
+      setActiveViewId(viewId);
+      setNewViewName('');
+      setShowSaveForm(false);
+    }
+  };
+
+  /**
+   * 保存ビューを削除（確認あり）
+   */
+  const handleRemove = (viewId: string, name: string) => {
+    if (!window.confirm(`ビュー「${name}」を削除しますか？`)) return;
+    removeView(viewId);
+  };
+
+  const tabClass = (selected: boolean) =>
+    `flex items-center px-3 py-1 text-xs rounded-full border whitespace-nowrap ${
+      selected ? 'bg-blue-500 text-white border-blue-500' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-100'
+    }`;
+
+  const countClass = (selected: boolean) =>
+    `ml-1 px-1.5 rounded-full ${selected ? 'bg-blue-400' : 'bg-gray-100 text-gray-500'}`;
+
+  return (
+    <div className="px-3 py-2 border-b">
+      {/* ビュータブ */}
+      <div className="flex items-center gap-1 overflow-x-auto pb-1">
+        <button onClick={() => setActiveViewId(null)} className={tabClass(activeViewId === null)}>
+          すべて
+          <span className={countClass(activeViewId === null)}>{totalCount}</span>
+        </button>
+        {TaskViewUtils.BUILT_IN_VIEWS.map(view => (
+          <button key={view.id} onClick={() => setActiveViewId(view.id)} className={tabClass(activeViewId === view.id)}>
+            {view.icon} {view.name}
+            <span className={countClass(activeViewId === view.id)}>{counts[view.id] ?? 0}</span>
+          </button>
+        ))}
+        {pinnedViews.map(view => (
+          <button key={view.id} onClick={() => setActiveViewId(view.id)} className={tabClass(activeViewId === view.id)}>
+            📌 {view.name}
+            <span className={countClass(activeViewId === view.id)}>{counts[view.id] ?? 0}</span>
+          </button>
+        ))}
+        <button
+          onClick={() => {
+            setShowSaveForm(!showSaveForm);
+            setShowManager(false);
+          }}
+          className="text-xs text-blue-500 hover:text-blue-700 ml-1 whitespace-nowrap"
+          title="現在の検索条件・並べ替え・グループ表示をビューとして保存"
+        >
+          ＋ ビューを保存
+        </button>
+        {views.length > 0 && (
+          <button
+            onClick={() => {
+              setShowManager(!showManager);
+              setShowSaveForm(false);
+            }}
+            className="text-xs text-gray-500 hover:text-gray-700 ml-1 whitespace-nowrap"
+          >
+            {showManager ? '閉じる' : '⚙️ 管理'}
+          </button>
+        )}
+      </div>
+
+      {/* 保存フォーム */}
+      {showSaveForm && (
+        <div className="mt-2 bg-gray-50 p-3 rounded text-xs space-y-2">
+          <p className="text-gray-600">
+            検索: <span className="font-mono">{current.query || '（なし）'}</span>
+            {' • '}並べ替え: {sortLabel}
+            {' • '}グループ: {TaskViewUtils.GROUPING_OPTIONS.find(option => option.value === current.grouping)?.label}
+          </p>
+          <div className="flex">
+            <input
+              type="text"
+              value={newViewName}
+              onChange={(e) => setNewViewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+              placeholder="ビュー名（例: 今週の仕事）"
+              className="flex-1 p-1 border rounded-l"
+              autoFocus
+            />
+            <button
+              onClick={handleSave}
+              disabled={!newViewName.trim()}
+              className="px-3 py-1 bg-blue-500 text-white rounded-r hover:bg-blue-600 disabled:opacity-50"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* ビュー管理 */}
+      {showManager && (
+        <ul className="mt-2 bg-gray-50 p-3 rounded text-xs space-y-1">
+          {views.map(view => (
+            <li key={view.id} className="flex items-center bg-white p-2 rounded border">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-800 truncate">{view.name}</p>
+                <p className="text-gray-400 font-mono truncate">{view.query || '（検索条件なし）'}</p>
+              </div>
+              <button
+                onClick={() => setViewPinned(view.id, !view.pinned)}
+                className="text-blue-500 hover:text-blue-700 ml-2 whitespace-nowrap"
+              >
+                {view.pinned ? '固定を外す' : '📌 固定'}
+              </button>
+              <button
+                onClick={() => updateView(view.id, { query: current.query, sortConfig: current.sortConfig, grouping: current.grouping })}
+                className="text-blue-500 hover:text-blue-700 ml-2 whitespace-nowrap"
+                title="現在の検索条件・並べ替え・グループ表示で上書き"
+              >
+                現在の条件で上書き
+              </button>
+              <button
+                onClick={() => handleRemove(view.id, view.name)}
+                className="text-gray-400 hover:text-red-500 ml-2"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
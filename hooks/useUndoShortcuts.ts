@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { useHistoryStore } from "@/store/historyStore";
+
+/**
+ * 元に戻す（Ctrl+Z）・やり直し（Ctrl+Shift+Z / Ctrl+Y）のキーボードショートカットを登録
+ * 入力欄の編集中はブラウザ標準の取り消しを優先する
+ */
+export function useUndoShortcuts() {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const { undo, redo } = useHistoryStore.getState();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { MarkdownParser } from '@/lib/markdown';
+
+describe('MarkdownParser.sanitizeUrl', () => {
+  it('http・https・mailto のリンクを許可する', () => {
+    expect(MarkdownParser.sanitizeUrl('https://example.com/path?q=1')).toBe('https://example.com/path?q=1');
+    expect(MarkdownParser.sanitizeUrl('HTTP://example.com')).toBe('HTTP://example.com');
+    expect(MarkdownParser.sanitizeUrl('mailto:user@example.com')).toBe('mailto:user@example.com');
+  });
+
+  it('許可しないスキームと相対パスは null を返す', () => {
+    expect(MarkdownParser.sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(MarkdownParser.sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(MarkdownParser.sanitizeUrl('vbscript:msgbox')).toBeNull();
+    expect(MarkdownParser.sanitizeUrl('/relative/path')).toBeNull();
+  });
+
+  it('制御文字や空白を挟んだスキームも判定する', () => {
+    expect(MarkdownParser.sanitizeUrl('java\nscript:alert(1)')).toBeNull();
+    expect(MarkdownParser.sanitizeUrl(' \tjavascript:alert(1)')).toBeNull();
+    expect(MarkdownParser.sanitizeUrl('java\u0000script:alert(1)')).toBeNull();
+  });
+});
+
+describe('MarkdownParser.parseInline', () => {
+  it('許可しないリンクは文字として残す', () => {
+    expect(MarkdownParser.parseInline('[押す](javascript:alert(1))')).toEqual([
+      { type: 'text', text: '[押す](javascript:alert(1))' }
+    ]);
+  });
+});
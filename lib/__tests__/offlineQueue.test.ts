@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { OfflineQueue, QueuedWrite, QueuedOperation, DELETED_FIELD, incrementField } from '@/lib/offlineQueue';
+import { createTask } from './taskFactory';
+
+let nextId = 1;
+const createWrite = (timestamp: number, operations: QueuedOperation[]): QueuedWrite => ({
+  id: nextId++,
+  userId: 'user-1',
+  operations,
+  timestamp
+});
+
+describe('OfflineQueue.applyWrites', () => {
+  it('サーバーより新しいフィールドの変更だけを反映する', () => {
+    const task = createTask({
+      id: 'a',
+      text: 'サーバーの名前',
+      priority: 'low',
+      fieldUpdatedAt: { text: 200, priority: 50 }
+    });
+    const write = createWrite(100, [
+      { type: 'update', taskId: 'a', data: { text: '古い名前', priority: 'high' } }
+    ]);
+
+    const [result] = OfflineQueue.applyWrites([task], [write]);
+
+    expect(result.text).toBe('サーバーの名前');
+    expect(result.priority).toBe('high');
+  });
+
+  it('削除を表す値はフィールドを取り除く', () => {
+    const task = createTask({ id: 'a', projectId: 'p1' });
+    const write = createWrite(100, [
+      { type: 'update', taskId: 'a', data: { projectId: DELETED_FIELD } }
+    ]);
+
+    const [result] = OfflineQueue.applyWrites([task], [write]);
+
+    expect('projectId' in result).toBe(false);
+  });
+
+  it('加算は更新日時にかかわらず重ね、サーバーに反映済みの加算は重ねない', () => {
+    const task = createTask({ id: 'a', actualMinutes: 30, fieldUpdatedAt: { actualMinutes: 500 } });
+    const sent = createWrite(100, [{ type: 'update', taskId: 'a', data: { actualMinutes: incrementField(25) } }]);
+    const pending = createWrite(200, [{ type: 'update', taskId: 'a', data: { actualMinutes: incrementField(5) } }]);
+
+    expect(OfflineQueue.applyWrites([task], [sent, pending])[0].actualMinutes).toBe(60);
+
+    const synced = { ...task, actualMinutes: 55, appliedIncrements: { [sent.id]: 100 } };
+    expect(OfflineQueue.applyWrites([synced], [sent, pending])[0].actualMinutes).toBe(60);
+  });
+
+  it('書き込みを追加順に適用し、後の書き込みが勝つ', () => {
+    const task = createTask({ id: 'a' });
+    const writes = [
+      createWrite(100, [{ type: 'update', taskId: 'a', data: { priority: 'high' } }]),
+      createWrite(200, [{ type: 'update', taskId: 'a', data: { priority: 'low' } }])
+    ];
+
+    expect(OfflineQueue.applyWrites([task], writes)[0].priority).toBe('low');
+  });
+
+  it('作成は既存のタスクを上書きせず、削除は一覧から取り除く', () => {
+    const task = createTask({ id: 'a', text: '既存' });
+    const writes = [
+      createWrite(100, [
+        { type: 'set', taskId: 'a', data: { text: '再送された作成' } },
+        { type: 'set', taskId: 'b', data: { text: '新規' } }
+      ]),
+      createWrite(200, [{ type: 'delete', taskId: 'a' }])
+    ];
+
+    const result = OfflineQueue.applyWrites([task], writes);
+
+    expect(result.map(t => [t.id, t.text])).toEqual([['b', '新規']]);
+  });
+
+  it('元のタスク一覧を書き換えない', () => {
+    const task = createTask({ id: 'a', priority: 'low' });
+    const write = createWrite(100, [{ type: 'update', taskId: 'a', data: { priority: 'high' } }]);
+
+    OfflineQueue.applyWrites([task], [write]);
+
+    expect(task.priority).toBe('low');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { QuickAddParser } from '@/lib/quickAddParser';
+
+// 2025-10-15（水曜日）を基準日とする
+const today = new Date(2025, 9, 15);
+
+describe('QuickAddParser.parse', () => {
+  it('記法を読み取り、タスク名から取り除く', () => {
+    const parsed = QuickAddParser.parse('明日までに企画書提出 #仕事 !高 ~45分 - 目次作成 - 図表', today);
+
+    expect(parsed).toEqual({
+      text: '企画書提出',
+      deadline: '2025-10-16',
+      deadlineLabel: '明日',
+      priority: 'high',
+      tags: ['仕事'],
+      estimatedMinutes: 45,
+      subTasks: ['目次作成', '図表']
+    });
+  });
+
+  it('相対日付を基準日から求める', () => {
+    expect(QuickAddParser.parse('買い物 3日後', today).deadline).toBe('2025-10-18');
+    expect(QuickAddParser.parse('買い物 2週間後', today).deadline).toBe('2025-10-29');
+    expect(QuickAddParser.parse('請求書 月末', today).deadline).toBe('2025-10-31');
+    expect(QuickAddParser.parse('請求書 来月末', today).deadline).toBe('2025-11-30');
+  });
+
+  it('曜日を今日以降の日付と、月曜始まりの週の日付に解決する', () => {
+    expect(QuickAddParser.parse('会議 金曜', today).deadline).toBe('2025-10-17');
+    expect(QuickAddParser.parse('会議 水曜日', today).deadline).toBe('2025-10-15');
+    expect(QuickAddParser.parse('会議 来週月曜', today).deadline).toBe('2025-10-20');
+    expect(QuickAddParser.parse('会議 再来週の日曜', today).deadline).toBe('2025-11-02');
+    expect(QuickAddParser.parse('金曜日までに報告', today)).toMatchObject({ text: '報告', deadline: '2025-10-17', deadlineLabel: '金曜日' });
+  });
+
+  it('語の一部の曜日・月末・日付は期限として扱わない', () => {
+    ['日曜大工の材料を買う', '月末処理の手順書', '明日香に連絡'].forEach(input => {
+      const parsed = QuickAddParser.parse(input, today);
+
+      expect(parsed.deadline).toBeUndefined();
+      expect(parsed.text).toBe(input);
+    });
+    expect(QuickAddParser.parse('日曜大工 金曜', today).deadline).toBe('2025-10-17');
+    expect(QuickAddParser.parse('月末処理の手順書 明日中に', today)).toMatchObject({ text: '月末処理の手順書', deadline: '2025-10-16' });
+  });
+
+  it('年を省略した月日は今日以降で最も近い日付にする', () => {
+    expect(QuickAddParser.parse('申請 10月20日', today).deadline).toBe('2025-10-20');
+    expect(QuickAddParser.parse('申請 1/10', today).deadline).toBe('2026-01-10');
+    expect(QuickAddParser.parse('申請 2025-12-01', today).deadline).toBe('2025-12-01');
+  });
+
+  it('存在しない日付は期限として扱わない', () => {
+    const parsed = QuickAddParser.parse('申請 2月30日', today);
+
+    expect(parsed.deadline).toBeUndefined();
+    expect(parsed.text).toBe('申請 2月30日');
+  });
+
+  it('時間と分を組み合わせた見積もり時間を分に換算する', () => {
+    expect(QuickAddParser.parse('資料作成 ~1時間30分', today).estimatedMinutes).toBe(90);
+    expect(QuickAddParser.parse('資料作成 ~2h', today).estimatedMinutes).toBe(120);
+    expect(QuickAddParser.parse('資料作成 ~90m', today).estimatedMinutes).toBe(90);
+  });
+
+  it('記法のない入力はそのままタスク名にする', () => {
+    const parsed = QuickAddParser.parse('牛乳を買う', today);
+
+    expect(parsed.text).toBe('牛乳を買う');
+    expect(QuickAddParser.hasRecognizedTokens(parsed)).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import { EnhancedTask } from '@/lib/taskInterfaces';
+
+/**
+ * テスト用のタスクを作成（省略した項目は既定値）
+ */
+export const createTask = (overrides: Partial<EnhancedTask> & { id: string }): EnhancedTask => ({
+  text: overrides.id,
+  completed: false,
+  userId: 'user-1',
+  order: 1,
+  priority: 'medium',
+  createdAt: 0,
+  subTasks: [],
+  ...overrides
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { DependencyUtils, TaskUtils } from '@/lib/taskInterfaces';
+import { createTask } from './taskFactory';
+
+describe('DependencyUtils.wouldCreateCycle', () => {
+  // c は b を、b は a を待っている
+  const tasks = [
+    createTask({ id: 'a' }),
+    createTask({ id: 'b', blockedBy: ['a'] }),
+    createTask({ id: 'c', blockedBy: ['b'] })
+  ];
+
+  it('自分自身への依存は循環とみなす', () => {
+    expect(DependencyUtils.wouldCreateCycle('a', 'a', tasks)).toBe(true);
+  });
+
+  it('ブロッカーから辿って戻ってくる依存は循環とみなす', () => {
+    expect(DependencyUtils.wouldCreateCycle('a', 'b', tasks)).toBe(true);
+    expect(DependencyUtils.wouldCreateCycle('a', 'c', tasks)).toBe(true);
+  });
+
+  it('循環しない依存は追加できる', () => {
+    expect(DependencyUtils.wouldCreateCycle('c', 'a', tasks)).toBe(false);
+    expect(DependencyUtils.wouldCreateCycle('a', 'd', tasks)).toBe(false);
+  });
+
+  it('既存の依存が循環していても停止する', () => {
+    const cyclic = [
+      createTask({ id: 'x', blockedBy: ['y'] }),
+      createTask({ id: 'y', blockedBy: ['x'] })
+    ];
+
+    expect(DependencyUtils.wouldCreateCycle('z', 'x', cyclic)).toBe(false);
+  });
+});
+
+describe('TaskUtils.sortTasks', () => {
+  const ids = (tasks: { id: string }[]) => tasks.map(task => task.id);
+
+  it('前の条件で並びが決まらないタスクを次の条件で比べる', () => {
+    const tasks = [
+      createTask({ id: 'a', deadline: '2025-10-20', priority: 'low', createdAt: 1 }),
+      createTask({ id: 'b', deadline: '2025-10-20', priority: 'high', createdAt: 2 }),
+      createTask({ id: 'c', deadline: '2025-10-18', priority: 'low', createdAt: 3 }),
+      createTask({ id: 'd', deadline: '2025-10-20', priority: 'high', createdAt: 4 })
+    ];
+
+    const sorted = TaskUtils.sortTasks(tasks, {
+      sortBy: 'deadline',
+      sortOrder: 'asc',
+      thenBy: [
+        { sortBy: 'priority', sortOrder: 'asc' },
+        { sortBy: 'created', sortOrder: 'asc' }
+      ]
+    });
+
+    expect(ids(sorted)).toEqual(['c', 'd', 'b', 'a']);
+  });
+
+  it('期限なしのタスクは昇順・降順にかかわらず指定した位置に置く', () => {
+    const tasks = [
+      createTask({ id: 'none' }),
+      createTask({ id: 'early', deadline: '2025-10-18' }),
+      createTask({ id: 'late', deadline: '2025-10-20' })
+    ];
+
+    expect(ids(TaskUtils.sortTasks(tasks, { sortBy: 'deadline', sortOrder: 'desc' })))
+      .toEqual(['late', 'early', 'none']);
+    expect(ids(TaskUtils.sortTasks(tasks, { sortBy: 'deadline', sortOrder: 'asc', noDeadline: 'first' })))
+      .toEqual(['none', 'early', 'late']);
+  });
+
+  it('手動の並び順は表示順序の小さい順に並べ、同じ順序は作成順にする', () => {
+    const tasks = [
+      createTask({ id: 'a', order: 2, createdAt: 1 }),
+      createTask({ id: 'b', order: 1.5, createdAt: 2 }),
+      createTask({ id: 'c', order: 2, createdAt: 3 })
+    ];
+
+    expect(ids(TaskUtils.sortTasks(tasks, { sortBy: 'manual', sortOrder: 'desc' })))
+      .toEqual(['b', 'a', 'c']);
+  });
+
+  it('元の配列を並べ替えない', () => {
+    const tasks = [createTask({ id: 'a', priority: 'low' }), createTask({ id: 'b', priority: 'high' })];
+
+    TaskUtils.sortTasks(tasks, TaskUtils.DEFAULT_SORT_CONFIG);
+
+    expect(ids(tasks)).toEqual(['a', 'b']);
+  });
+});
+
+describe('TaskUtils.getMoveOrders', () => {
+  const tasks = [
+    createTask({ id: 'a', order: 1 }),
+    createTask({ id: 'b', order: 2 }),
+    createTask({ id: 'c', order: 3 })
+  ];
+
+  it('前後のタスクの中間の順序を移動したタスクだけに設定する', () => {
+    expect(TaskUtils.getMoveOrders(tasks, 'c', 1)).toEqual([{ taskId: 'c', order: 1.5 }]);
+  });
+
+  it('先頭と末尾へは隣のタスクの前後の順序を設定する', () => {
+    expect(TaskUtils.getMoveOrders(tasks, 'c', 0)).toEqual([{ taskId: 'c', order: 0 }]);
+    expect(TaskUtils.getMoveOrders(tasks, 'a', 2)).toEqual([{ taskId: 'a', order: 4 }]);
+  });
+
+  it('位置が変わらない移動と、一覧にないタスクは変更しない', () => {
+    expect(TaskUtils.getMoveOrders(tasks, 'b', 1)).toEqual([]);
+    expect(TaskUtils.getMoveOrders(tasks, 'x', 0)).toEqual([]);
+  });
+
+  it('中間の値がない場合は並び全体の順序を振り直す', () => {
+    const sameOrder = [
+      createTask({ id: 'a', order: 1 }),
+      createTask({ id: 'b', order: 1 }),
+      createTask({ id: 'c', order: 1 })
+    ];
+
+    expect(TaskUtils.getMoveOrders(sameOrder, 'c', 1)).toEqual([
+      { taskId: 'c', order: 2 },
+      { taskId: 'b', order: 3 }
+    ]);
+  });
+});
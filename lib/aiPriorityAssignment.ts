@@ -3,6 +3,7 @@
  * 
  * タスクの内容に基づいて優先度を判定するAI機能
  * テキスト解析によってタスクの重要度を推測します
+ * v1.8.0: 期限の時刻を考慮した優先度計算に対応、重要度と緊急度を個別のスコアとして計算
  */
 
 // 優先度レベルの型定義
@@ -52,17 +53,31 @@ export async function suggestPriority(taskText: string): Promise<PriorityLevel>
 }
 
 /**
- * タスクの優先度を計算する詳細なアルゴリズム
- * 複数の要素（締め切り、重要性など）を考慮した優先度スコアを算出
+ * 重要度と緊急度のスコア（どちらも0-100）
+ */
+export interface PriorityScores {
+  importance: number;   // 重要度（タスクの内容から判定、50が標準）
+  urgency: number;      // 緊急度（期限までの近さから判定、期限なしは0）
+}
+
+// 緊急度のスコアと、優先度を求めるときの加点
+const URGENCY_LEVELS = {
+  overdue: { score: 100, bonus: 30 },   // 期限切れ・数時間以内に締め切り
+  today: { score: 85, bonus: 25 },      // 今日が期限
+  tomorrow: { score: 70, bonus: 20 },   // 明日が期限
+  soon: { score: 55, bonus: 15 },       // 3日以内が期限
+  week: { score: 40, bonus: 10 },       // 1週間以内が期限
+  later: { score: 20, bonus: 0 },       // それより先
+  none: { score: 0, bonus: 0 }          // 期限なし
+};
+
+/**
+ * タスクの内容から重要度を計算する
  * 
  * @param taskText タスクのテキスト
- * @param deadline 締め切り（オプション）
- * @returns 優先度レベル
+ * @returns 重要度（0-100）
  */
-export function calculateDetailedPriority(
-  taskText: string,
-  deadline?: string
-): PriorityLevel {
+export function calculateImportanceScore(taskText: string): number {
   let score = 50; // デフォルトスコア（0-100）
   const text = taskText.toLowerCase();
   
@@ -76,22 +91,94 @@ export function calculateDetailedPriority(
   // テキスト内容に基づく減点
   if (text.includes('自己啓発') || text.includes('趣味')) score -= 15;
   if (text.includes('いつか') || text.includes('暇なとき')) score -= 20;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+/**
+ * 締め切りまでの近さから緊急度を計算する
+ * 
+ * @param deadline 締め切り（オプション、YYYY-MM-DD形式）
+ * @param dueTime 締め切りの時刻（オプション、HH:mm形式）
+ * @param now 基準日時（オプション）
+ * @returns 緊急度（0-100）
+ */
+export function calculateUrgencyScore(
+  deadline?: string,
+  dueTime?: string,
+  now: Date = new Date()
+): number {
+  if (!deadline) return URGENCY_LEVELS.none.score;
+
+  // 期限日はローカル時刻で扱い、時刻がなければ期限日の終わりを締め切りとする
+  const [year, month, day] = deadline.split('-').map(Number);
+  const dueDate = new Date(year, month - 1, day);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const daysUntilDue = Math.round((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
   
-  // 締め切りに基づく加点
-  if (deadline) {
-    const today = new Date();
-    const dueDate = new Date(deadline);
-    const daysUntilDue = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-    
-    if (daysUntilDue < 0) score += 30; // 期限切れ
-    else if (daysUntilDue === 0) score += 25; // 今日が期限
-    else if (daysUntilDue === 1) score += 20; // 明日が期限
-    else if (daysUntilDue <= 3) score += 15; // 3日以内が期限
-    else if (daysUntilDue <= 7) score += 10; // 1週間以内が期限
+  const timeMatch = dueTime?.match(/^(\d{2}):(\d{2})$/);
+  if (timeMatch) {
+    dueDate.setHours(Number(timeMatch[1]), Number(timeMatch[2]), 0, 0);
+  } else {
+    dueDate.setHours(23, 59, 59, 999);
   }
+  const hoursUntilDue = (dueDate.getTime() - now.getTime()) / (1000 * 60 * 60);
   
+  if (hoursUntilDue < 0) return URGENCY_LEVELS.overdue.score; // 期限切れ（時刻を過ぎた場合も含む）
+  if (timeMatch && hoursUntilDue <= 3) return URGENCY_LEVELS.overdue.score; // 数時間以内に締め切り
+  if (daysUntilDue === 0) return URGENCY_LEVELS.today.score;
+  if (daysUntilDue === 1) return URGENCY_LEVELS.tomorrow.score;
+  if (daysUntilDue <= 3) return URGENCY_LEVELS.soon.score;
+  if (daysUntilDue <= 7) return URGENCY_LEVELS.week.score;
+  return URGENCY_LEVELS.later.score;
+}
+
+/**
+ * 重要度と緊急度を計算する
+ */
+export function calculatePriorityScores(
+  taskText: string,
+  deadline?: string,
+  dueTime?: string,
+  now: Date = new Date()
+): PriorityScores {
+  return {
+    importance: calculateImportanceScore(taskText),
+    urgency: calculateUrgencyScore(deadline, dueTime, now)
+  };
+}
+
+/**
+ * 重要度と緊急度から優先度レベルを求める
+ * 重要度に緊急度に応じた加点をしたスコアで判定する
+ */
+export function scoresToPriority(importance: number, urgency: number): PriorityLevel {
+  const level = Object.values(URGENCY_LEVELS).find(l => urgency >= l.score) || URGENCY_LEVELS.none;
+  const score = importance + level.bonus;
+
   // スコアを優先度レベルに変換
   if (score >= 70) return 'high';
   if (score >= 40) return 'medium';
   return 'low';
-}
\ No newline at end of file
+}
+
+/**
+ * タスクの優先度を計算する詳細なアルゴリズム
+ * 複数の要素（締め切り、重要性など）を考慮した優先度スコアを算出
+ * 重要度と緊急度は calculatePriorityScores で個別に求められる
+ * 
+ * @param taskText タスクのテキスト
+ * @param deadline 締め切り（オプション、YYYY-MM-DD形式）
+ * @param dueTime 締め切りの時刻（オプション、HH:mm形式）
+ * @param now 基準日時（オプション）
+ * @returns 優先度レベル
+ */
+export function calculateDetailedPriority(
+  taskText: string,
+  deadline?: string,
+  dueTime?: string,
+  now: Date = new Date()
+): PriorityLevel {
+  const { importance, urgency } = calculatePriorityScores(taskText, deadline, dueTime, now);
+  return scoresToPriority(importance, urgency);
+}
@@ -0,0 +1,61 @@
+/**
+ * 日付ユーティリティ
+ *
+ * タスクの期限（YYYY-MM-DD形式）を扱うための日付計算をまとめたモジュール
+ * ローカルタイムゾーン基準で日付文字列の生成・解析・加算を行います
+ */
+
+/**
+ * 日付ユーティリティクラス
+ */
+export class DateUtils {
+  /**
+   * Date を YYYY-MM-DD 形式の文字列に変換（ローカル時刻基準）
+   */
+  static toDateString(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
+  /**
+   * YYYY-MM-DD 形式の文字列をローカル時刻の Date に変換
+   */
+  static parseDateString(dateString: string): Date {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * 今日の日付を YYYY-MM-DD 形式で取得
+   */
+  static today(): string {
+    return DateUtils.toDateString(new Date());
+  }
+
+  /**
+   * 日付文字列に日数を加算
+   */
+  static addDays(dateString: string, days: number): string {
+    const date = DateUtils.parseDateString(dateString);
+    date.setDate(date.getDate() + days);
+    return DateUtils.toDateString(date);
+  }
+
+  /**
+   * 指定した月の日数を取得（month は 0 始まり）
+   */
+  static getDaysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+  }
+
+  /**
+   * 2つの日付文字列の差（日数）を計算（to - from）
+   */
+  static diffDays(from: string, to: string): number {
+    const fromDate = DateUtils.parseDateString(from);
+    const toDate = DateUtils.parseDateString(to);
+    return Math.round((toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24));
+  }
+}
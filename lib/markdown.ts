@@ -0,0 +1,485 @@
+/**
+ * タスクメモのマークダウン解析
+ *
+ * メモのマークダウン（見出し・リスト・チェックリスト・コード・引用・リンク・表）を構文木に変換するモジュール
+ * 描画はReact要素として行い、HTMLとして埋め込まないため、メモに書かれたタグはそのまま文字として表示される
+ * リンクは http・https・mailto のみを許可する
+ * チェックリストの行（- [ ] / - [x]）とサブタスクの同期もこのモジュールで扱う
+ * v1.8.0: メモのマークダウン表示とチェックリストの同期を追加
+ */
+
+import { SubTask, SubTaskUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 行内の要素
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'break' }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+/**
+ * リストの項目
+ */
+export interface MarkdownListItem {
+  line: number;                  // メモの何行目か（0始まり、チェックボックスの切り替えに使う）
+  checked: boolean | null;       // チェックボックス（nullはチェックボックスなし）
+  children: MarkdownInline[];
+  sublists: MarkdownBlock[];     // 入れ子のリスト
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+/**
+ * ブロック要素
+ */
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+/**
+ * メモのチェックリストの1行
+ */
+export interface ChecklistItem {
+  line: number;                  // メモの何行目か（0始まり）
+  depth: number;                 // 字下げの深さ
+  checked: boolean;
+  text: string;
+}
+
+/**
+ * 解析中の行（引用の中でも元の行番号を保つ）
+ */
+interface SourceLine {
+  text: string;
+  line: number;
+}
+
+const FENCE_PATTERN = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING_PATTERN = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_PATTERN = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const CHECKLIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+\[([ xX])\]\s+(.*)$/;
+
+// 行内要素: エスケープ・コード・リンク・URL・太字・取り消し線・斜体
+const INLINE_PATTERN = /\\([\\`*_~[\]()#+\-.!|>])|(`+)([\s\S]+?)\2|\[([^\]]+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)|(https?:\/\/[^\s<>]*[^\s<>.,:;"'!?)\]])|\*\*([\s\S]+?)\*\*|__([\s\S]+?)__|~~([\s\S]+?)~~|\*([^*\s](?:[\s\S]*?[^*\s])?)\*|_([^_\s](?:[\s\S]*?[^_\s])?)_/g;
+
+// リストの1階層あたりの字下げ（空白の数）
+const LIST_INDENT = 2;
+
+/**
+ * 字下げの幅（タブは空白4つとして数える）
+ */
+const getIndent = (text: string): number => {
+  return (text.match(/^[ \t]*/)?.[0] || '').replace(/\t/g, '    ').length;
+};
+
+/**
+ * マークダウンの解析
+ */
+export class MarkdownParser {
+  /**
+   * マークダウンをブロック要素の並びに変換
+   */
+  static parse(source: string): MarkdownBlock[] {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n').map((text, line) => ({ text, line }));
+    return MarkdownParser.parseBlocks(lines);
+  }
+
+  /**
+   * リンク先を検証（許可しないスキームはnull）
+   */
+  static sanitizeUrl(href: string): string | null {
+    // 制御文字や空白を挟んだ「java\nscript:」のような書き方も判定できるように除去してから調べる
+    const normalized = href.replace(/[\u0000- \u007F]/g, '');
+    return /^(https?:\/\/|mailto:)/i.test(normalized) ? normalized : null;
+  }
+
+  /**
+   * 行内要素を解析
+   */
+  static parseInline(text: string): MarkdownInline[] {
+    const result: MarkdownInline[] = [];
+    const pushText = (value: string) => {
+      if (!value) return;
+      const last = result[result.length - 1];
+      if (last && last.type === 'text') {
+        last.text += value;
+      } else {
+        result.push({ type: 'text', text: value });
+      }
+    };
+
+    const pattern = new RegExp(INLINE_PATTERN.source, 'g');
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      pushText(text.slice(lastIndex, match.index));
+      lastIndex = pattern.lastIndex;
+
+      const [whole, escaped, , code, linkText, href, url, strong, strongAlt, del, em, emAlt] = match;
+      if (escaped !== undefined) {
+        pushText(escaped);
+      } else if (code !== undefined) {
+        result.push({ type: 'code', text: code.trim() || code });
+      } else if (linkText !== undefined) {
+        const safeHref = MarkdownParser.sanitizeUrl(href);
+        if (safeHref) {
+          result.push({ type: 'link', href: safeHref, children: MarkdownParser.parseInline(linkText) });
+        } else {
+          // 許可しないリンクは文字として表示する
+          pushText(whole);
+        }
+      } else if (url !== undefined) {
+        result.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+      } else if (strong !== undefined || strongAlt !== undefined) {
+        result.push({ type: 'strong', children: MarkdownParser.parseInline(strong ?? strongAlt) });
+      } else if (del !== undefined) {
+        result.push({ type: 'del', children: MarkdownParser.parseInline(del) });
+      } else if (em !== undefined || emAlt !== undefined) {
+        result.push({ type: 'em', children: MarkdownParser.parseInline(em ?? emAlt) });
+      }
+    }
+
+    pushText(text.slice(lastIndex));
+    return result;
+  }
+
+  /**
+   * 行の並びをブロック要素に変換
+   */
+  private static parseBlocks(lines: SourceLine[]): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const { text } = lines[i];
+
+      if (!text.trim()) {
+        i++;
+        continue;
+      }
+
+      // コードブロック
+      const fence = text.match(FENCE_PATTERN);
+      if (fence) {
+        const codeLines: string[] = [];
+        i++;
+        while (i < lines.length && !(lines[i].text.trim().startsWith(fence[1]) && FENCE_PATTERN.test(lines[i].text))) {
+          codeLines.push(lines[i].text);
+          i++;
+        }
+        i++; // 閉じる記号（なければ末尾まで）
+        blocks.push({ type: 'code', lang: fence[2], text: codeLines.join('\n') });
+        continue;
+      }
+
+      // 見出し
+      const heading = text.match(HEADING_PATTERN);
+      if (heading) {
+        blocks.push({ type: 'heading', level: heading[1].length, children: MarkdownParser.parseInline(heading[2]) });
+        i++;
+        continue;
+      }
+
+      // 区切り線（リストより先に判定する）
+      if (RULE_PATTERN.test(text)) {
+        blocks.push({ type: 'rule' });
+        i++;
+        continue;
+      }
+
+      // 引用
+      if (QUOTE_PATTERN.test(text)) {
+        const quoteLines: SourceLine[] = [];
+        while (i < lines.length && QUOTE_PATTERN.test(lines[i].text)) {
+          quoteLines.push({ text: lines[i].text.match(QUOTE_PATTERN)![1], line: lines[i].line });
+          i++;
+        }
+        blocks.push({ type: 'quote', children: MarkdownParser.parseBlocks(quoteLines) });
+        continue;
+      }
+
+      // リスト
+      if (LIST_PATTERN.test(text)) {
+        const { block, next } = MarkdownParser.parseList(lines, i, getIndent(text));
+        blocks.push(block);
+        i = next;
+        continue;
+      }
+
+      // 表（見出し行の次が区切り行）
+      if (text.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_PATTERN.test(lines[i + 1].text) && lines[i + 1].text.includes('-')) {
+        const { block, next } = MarkdownParser.parseTable(lines, i);
+        blocks.push(block);
+        i = next;
+        continue;
+      }
+
+      // 段落（改行はそのまま改行として表示する）
+      const paragraph: MarkdownInline[] = [];
+      while (i < lines.length && lines[i].text.trim() && !MarkdownParser.startsBlock(lines, i)) {
+        if (paragraph.length > 0) paragraph.push({ type: 'break' });
+        paragraph.push(...MarkdownParser.parseInline(lines[i].text.trim()));
+        i++;
+      }
+      blocks.push({ type: 'paragraph', children: paragraph });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 段落を終えて別のブロックが始まる行か
+   */
+  private static startsBlock(lines: SourceLine[], index: number): boolean {
+    const { text } = lines[index];
+    return FENCE_PATTERN.test(text) || HEADING_PATTERN.test(text) || RULE_PATTERN.test(text) ||
+      QUOTE_PATTERN.test(text) || LIST_PATTERN.test(text);
+  }
+
+  /**
+   * リストを解析（字下げの深い項目は入れ子のリストにする）
+   */
+  private static parseList(lines: SourceLine[], start: number, baseIndent: number): { block: MarkdownBlock; next: number } {
+    const first = lines[start].text.match(LIST_PATTERN)!;
+    const ordered = /\d/.test(first[2]);
+    const items: MarkdownListItem[] = [];
+    let i = start;
+
+    while (i < lines.length) {
+      const { text, line } = lines[i];
+
+      // 空行を挟んでも、次の行が同じリストの続きなら続ける
+      if (!text.trim()) {
+        const nextLine = lines[i + 1];
+        if (nextLine && LIST_PATTERN.test(nextLine.text) && getIndent(nextLine.text) >= baseIndent) {
+          i++;
+          continue;
+        }
+        break;
+      }
+
+      const indent = getIndent(text);
+      const match = text.match(LIST_PATTERN);
+
+      if (match && indent >= baseIndent + LIST_INDENT && items.length > 0) {
+        // 入れ子のリスト
+        const { block, next } = MarkdownParser.parseList(lines, i, indent);
+        items[items.length - 1].sublists.push(block);
+        i = next;
+        continue;
+      }
+
+      if (match && indent >= baseIndent - 1 && /\d/.test(match[2]) === ordered) {
+        const task = match[3].match(TASK_PATTERN);
+        items.push({
+          line,
+          checked: task ? task[1] !== ' ' : null,
+          children: MarkdownParser.parseInline(task ? task[2] : match[3]),
+          sublists: []
+        });
+        i++;
+        continue;
+      }
+
+      // 字下げした続きの行は直前の項目に含める
+      if (!match && indent > baseIndent && items.length > 0 && !MarkdownParser.startsBlock(lines, i)) {
+        const item = items[items.length - 1];
+        item.children.push({ type: 'break' }, ...MarkdownParser.parseInline(text.trim()));
+        i++;
+        continue;
+      }
+
+      break;
+    }
+
+    return {
+      block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items },
+      next: i
+    };
+  }
+
+  /**
+   * 表を解析
+   */
+  private static parseTable(lines: SourceLine[], start: number): { block: MarkdownBlock; next: number } {
+    const splitRow = (text: string): string[] => {
+      let row = text.trim();
+      if (row.startsWith('|')) row = row.slice(1);
+      if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+      // 「\|」は区切りではなく文字として扱う
+      return row.replace(/\\\|/g, '\u0000').split('|').map(cell => cell.trim().replace(/\u0000/g, '|'));
+    };
+
+    const header = splitRow(lines[start].text);
+    const align: TableAlign[] = splitRow(lines[start + 1].text).map(cell => {
+      const left = cell.startsWith(':');
+      const right = cell.endsWith(':');
+      if (left && right) return 'center';
+      if (right) return 'right';
+      if (left) return 'left';
+      return null;
+    });
+
+    const rows: MarkdownInline[][][] = [];
+    let i = start + 2;
+    while (i < lines.length && lines[i].text.trim() && lines[i].text.includes('|')) {
+      const cells = splitRow(lines[i].text);
+      rows.push(header.map((_, column) => MarkdownParser.parseInline(cells[column] || '')));
+      i++;
+    }
+
+    return {
+      block: {
+        type: 'table',
+        align: header.map((_, column) => align[column] ?? null),
+        header: header.map(cell => MarkdownParser.parseInline(cell)),
+        rows
+      },
+      next: i
+    };
+  }
+}
+
+/**
+ * メモのチェックリストとサブタスクの同期
+ * サブタスクとは内容の文字列で対応づける
+ */
+export class MemoChecklist {
+  /**
+   * メモのチェックリストの行を取得（コードブロックの中は除く）
+   */
+  static getItems(memo: string): ChecklistItem[] {
+    const items: ChecklistItem[] = [];
+    let inFence = false;
+
+    memo.replace(/\r\n?/g, '\n').split('\n').forEach((text, line) => {
+      if (FENCE_PATTERN.test(text)) {
+        inFence = !inFence;
+        return;
+      }
+      if (inFence) return;
+
+      const match = text.match(CHECKLIST_PATTERN);
+      if (match && match[4].trim()) {
+        items.push({
+          line,
+          depth: Math.floor(getIndent(match[1]) / LIST_INDENT),
+          checked: match[3] !== ' ',
+          text: match[4].trim()
+        });
+      }
+    });
+
+    return items;
+  }
+
+  /**
+   * 指定した行のチェックボックスを切り替えたメモを取得
+   */
+  static toggleLine(memo: string, line: number): string {
+    const lines = memo.replace(/\r\n?/g, '\n').split('\n');
+    const match = lines[line]?.match(CHECKLIST_PATTERN);
+    if (!match) return memo;
+
+    lines[line] = lines[line].replace(/\[([ xX])\]/, match[3] === ' ' ? '[x]' : '[ ]');
+    return lines.join('\n');
+  }
+
+  /**
+   * メモの行に対応するサブタスクを取得
+   */
+  static findSubTask(memo: string, line: number, subTasks: SubTask[]): SubTask | undefined {
+    const item = MemoChecklist.getItems(memo).find(i => i.line === line);
+    return item ? subTasks.find(subTask => subTask.text.trim() === item.text) : undefined;
+  }
+
+  /**
+   * サブタスクの状態をメモのチェックリストへ反映
+   * 対応する行のチェックを合わせ、削除したサブタスクの行を除き、メモにないサブタスクを末尾に追加する
+   */
+  static applySubTasks(memo: string, subTasks: SubTask[], removedTexts: string[] = []): string {
+    const lines = memo.replace(/\r\n?/g, '\n').split('\n');
+    const items = MemoChecklist.getItems(memo);
+    const byText = new Map(subTasks.map(subTask => [subTask.text.trim(), subTask] as const));
+    const removed = new Set(removedTexts.map(text => text.trim()).filter(text => !byText.has(text)));
+    const removedLines = new Set<number>();
+
+    items.forEach(item => {
+      const subTask = byText.get(item.text);
+      if (subTask) {
+        lines[item.line] = lines[item.line].replace(/\[([ xX])\]/, subTask.completed ? '[x]' : '[ ]');
+      } else if (removed.has(item.text)) {
+        removedLines.add(item.line);
+      }
+    });
+
+    const listedTexts = new Set(items.map(item => item.text));
+    const missing = SubTaskUtils.flattenTree(subTasks)
+      .filter(node => !listedTexts.has(node.subTask.text.trim()))
+      .map(node => `${' '.repeat(node.depth * LIST_INDENT)}- [${node.subTask.completed ? 'x' : ' '}] ${node.subTask.text.trim()}`);
+
+    const result = lines.filter((_, line) => !removedLines.has(line));
+    if (missing.length > 0) {
+      // 末尾の空行を詰めてから、空行1つを挟んで追加する
+      while (result.length > 0 && !result[result.length - 1].trim()) result.pop();
+      if (result.length > 0) result.push('');
+      result.push(...missing);
+    }
+    return result.join('\n');
+  }
+
+  /**
+   * メモのチェックリストをサブタスクへ反映するための変更を求める
+   * @param previousMemo 編集前のメモ（編集で消した行のサブタスクを削除対象にする）
+   * @returns additions: 追加するサブタスク（親はメモ上で直前にある浅い行の内容）、toggles: 完了状態を切り替えるサブタスクのID、removals: 削除するサブタスクのID
+   */
+  static getChanges(memo: string, subTasks: SubTask[], previousMemo?: string): {
+    additions: { text: string; completed: boolean; parentText: string | null }[];
+    toggles: string[];
+    removals: string[];
+  } {
+    const items = MemoChecklist.getItems(memo);
+    const additions: { text: string; completed: boolean; parentText: string | null }[] = [];
+    const toggles: string[] = [];
+    const listedTexts = new Set(items.map(item => item.text));
+    const removedTexts = new Set(
+      previousMemo === undefined ? [] : MemoChecklist.getItems(previousMemo).map(item => item.text).filter(text => !listedTexts.has(text))
+    );
+    const removals = subTasks.filter(subTask => removedTexts.has(subTask.text.trim())).map(subTask => subTask.id);
+    const known = new Set(subTasks.map(subTask => subTask.text.trim()));
+
+    items.forEach((item, index) => {
+      const subTask = subTasks.find(st => st.text.trim() === item.text);
+      if (subTask) {
+        if (subTask.completed !== item.checked && !toggles.includes(subTask.id)) toggles.push(subTask.id);
+        return;
+      }
+      if (known.has(item.text)) return; // 同じ内容の行が複数ある場合は1つだけ追加する
+      known.add(item.text);
+
+      let parentText: string | null = null;
+      for (let i = index - 1; i >= 0; i--) {
+        if (items[i].depth < item.depth) {
+          parentText = items[i].text;
+          break;
+        }
+      }
+      additions.push({ text: item.text, completed: item.checked, parentText });
+    });
+
+    return { additions, toggles, removals };
+  }
+}
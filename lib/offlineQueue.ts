@@ -0,0 +1,234 @@
+/**
+ * オフライン書き込みキュー
+ *
+ * タスクへの変更をIndexedDBに順番に保存し、オンライン復帰時に再送するためのモジュール
+ * 同じ変更を複数回送っても結果が変わらない（冪等な）書き込みだけを扱うため、
+ * 送信済みかどうか分からない変更は安全に再送できます（数値の加算は送信済みの印をタスクに残して重複を防ぐ）
+ * v1.8.0: オフラインファーストの書き込みキューを追加
+ */
+
+import { EnhancedTask } from '@/lib/taskInterfaces';
+
+/**
+ * キューに積む書き込みの種類
+ * - set: ドキュメントの新規作成（クライアント側で採番したIDを使用）
+ * - update: フィールドの部分更新
+ * - delete: ドキュメントの削除
+ */
+export type QueuedWriteType = 'set' | 'update' | 'delete';
+
+/**
+ * タスクへの書き込み内容（update では DELETED_FIELD でフィールドを削除し、数値フィールドは incrementField で加算する）
+ */
+export type TaskWriteData = {
+  [K in keyof EnhancedTask]?: EnhancedTask[K] | DeletedField | (NonNullable<EnhancedTask[K]> extends number ? FieldIncrement : never);
+};
+
+/**
+ * 1つのタスクに対する書き込み操作
+ */
+export interface QueuedOperation {
+  type: QueuedWriteType;
+  taskId: string;                       // 対象タスクのID
+  data?: TaskWriteData;                 // set: ドキュメント全体 / update: 変更したフィールド
+}
+
+/**
+ * キューに積まれた書き込み
+ * 複数の操作を含む場合は1回のバッチ書き込みとして送信する
+ */
+export interface QueuedWrite {
+  id: number;                           // IndexedDBのキー（追加順に増加する番号）
+  userId: string;                       // 書き込みを行ったユーザーID
+  operations: QueuedOperation[];        // 書き込み操作のリスト
+  timestamp: number;                    // 変更日時（フィールド単位の後勝ち判定に使用）
+  failedAttempts?: number;              // オフライン以外の理由で送信に失敗した回数
+}
+
+/**
+ * フィールド削除を表す値（IndexedDBに保存できるよう Firestore の deleteField() の代わりに使う）
+ */
+export const DELETED_FIELD = { __deleted: true } as const;
+
+export type DeletedField = typeof DELETED_FIELD;
+
+/**
+ * フィールド削除を表す値かどうかを判定
+ */
+export const isDeletedField = (value: unknown): value is DeletedField => {
+  return !!value && typeof value === 'object' && (value as { __deleted?: unknown }).__deleted === true;
+};
+
+/**
+ * 数値フィールドへの加算を表す値（他の端末と同時に加算しても失われないよう、Firestore の increment() で送る）
+ */
+export interface FieldIncrement {
+  __increment: number;
+}
+
+/**
+ * 数値フィールドへの加算を表す値を作成
+ */
+export const incrementField = (amount: number): FieldIncrement => ({ __increment: amount });
+
+/**
+ * 数値フィールドへの加算を表す値かどうかを判定
+ */
+export const isFieldIncrement = (value: unknown): value is FieldIncrement => {
+  return !!value && typeof value === 'object' && typeof (value as { __increment?: unknown }).__increment === 'number';
+};
+
+const DB_NAME = 'shinchokudou-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'taskWrites';
+
+/**
+ * IndexedDBを開く
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDBが利用できません'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * オブジェクトストアに対する1回の操作を実行
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      database.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      database.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+// 同じミリ秒内の書き込みを順序付けるための連番
+let lastIssuedId = 0;
+
+/**
+ * オフライン書き込みキュー
+ */
+export class OfflineQueue {
+  /**
+   * 追加順に増加する書き込みIDを発行
+   */
+  static createId(): number {
+    lastIssuedId = Math.max(lastIssuedId + 1, Date.now() * 1000);
+    return lastIssuedId;
+  }
+
+  /**
+   * 書き込みをキューの末尾に追加
+   */
+  static async enqueue(write: QueuedWrite): Promise<void> {
+    await runRequest('readwrite', store => store.put(write));
+  }
+
+  /**
+   * 指定ユーザーの書き込みを追加順に取得
+   */
+  static async getAll(userId: string): Promise<QueuedWrite[]> {
+    const writes = await runRequest<QueuedWrite[]>('readonly', store => store.getAll());
+    return writes
+      .filter(write => write.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * 送信済みの書き込みをキューから削除
+   */
+  static async remove(id: number): Promise<void> {
+    await runRequest('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * 書き込みが指定したタスクを対象に含むかどうか
+   */
+  static touchesTask(write: QueuedWrite, taskId: string): boolean {
+    return write.operations.some(operation => operation.taskId === taskId);
+  }
+
+  /**
+   * 書き込みをタスク一覧に適用した結果を返す
+   * 更新はフィールドごとに、サーバー側の更新日時（fieldUpdatedAt）より新しい場合のみ反映する
+   */
+  static applyWrites(tasks: EnhancedTask[], writes: QueuedWrite[]): EnhancedTask[] {
+    let result = [...tasks];
+
+    writes.forEach(write => write.operations.forEach(operation => {
+      const index = result.findIndex(task => task.id === operation.taskId);
+
+      switch (operation.type) {
+        case 'set':
+          if (index === -1) {
+            result.push({ id: operation.taskId, ...operation.data } as EnhancedTask);
+          }
+          break;
+        case 'update': {
+          if (index === -1) break;
+          const task = result[index];
+          const data = operation.data || {};
+          // 加算は後勝ちの対象外とし、サーバーに反映済みの加算は重ねない
+          const incremented = task.appliedIncrements?.[write.id] !== undefined;
+          result[index] = OfflineQueue.applyChanges(task, data, field =>
+            isFieldIncrement(data[field]) ? !incremented : write.timestamp >= (task.fieldUpdatedAt?.[field] || 0)
+          );
+          break;
+        }
+        case 'delete':
+          result = result.filter(task => task.id !== operation.taskId);
+          break;
+      }
+    }));
+
+    return result;
+  }
+
+  /**
+   * タスクに書き込み内容を適用した結果を返す（元のタスクは変更しない）
+   * @param shouldApply フィールドごとに適用するかどうか（省略時はすべて適用）
+   */
+  static applyChanges(
+    task: EnhancedTask,
+    data: TaskWriteData,
+    shouldApply: (field: keyof EnhancedTask) => boolean = () => true
+  ): EnhancedTask {
+    const result: Partial<Record<keyof EnhancedTask, unknown>> = { ...task };
+    (Object.keys(data) as (keyof EnhancedTask)[]).forEach(field => {
+      if (!shouldApply(field)) return;
+      const value = data[field];
+      if (isDeletedField(value)) {
+        delete result[field];
+      } else if (isFieldIncrement(value)) {
+        result[field] = (Number(result[field]) || 0) + value.__increment;
+      } else {
+        result[field] = value;
+      }
+    });
+    return result as EnhancedTask;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * クイック追加パーサー
+ *
+ * 「明日までに企画書提出 #仕事 !高 ~45分 - 目次作成 - 図表」のような1行の入力から
+ * タスク名・期限・優先度・タグ・見積もり時間・サブタスクを読み取るモジュール
+ *
+ * 記法:
+ * - 期限: 今日 / 明日 / 明後日 / 3日後 / 2週間後 / 金曜 / 来週金曜 / 月末 / 10月20日 / 10/20 / 2025-10-20（「まで」「までに」は省略可）
+ * - 優先度: !高 / !中 / !低（!high / !h なども可）
+ * - タグ: #タグ名
+ * - 見積もり時間: ~45分 / ~1時間30分 / ~90m / ~2h
+ * - サブタスク: 「 - 」で区切った2つ目以降の項目
+ */
+
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * クイック追加の解析結果
+ */
+export interface ParsedQuickAdd {
+  text: string;               // 記法を取り除いたタスク名
+  deadline?: string;          // 期限（YYYY-MM-DD形式）
+  deadlineLabel?: string;     // 期限として認識した元の表現
+  priority?: PriorityLevel;   // 優先度
+  tags: string[];             // タグ名のリスト
+  estimatedMinutes?: number;  // 見積もり時間（分）
+  subTasks: string[];         // サブタスク名のリスト
+}
+
+/**
+ * 期限表現のパターン定義
+ */
+interface DatePattern {
+  regex: RegExp;
+  resolve: (match: RegExpExecArray, today: Date) => string | null;
+}
+
+// 曜日名（日曜始まり、Date.getDay() と同じ並び）
+const WEEKDAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+// 優先度の表記
+const PRIORITY_ALIASES: { [alias: string]: PriorityLevel } = {
+  '高': 'high', 'high': 'high', 'h': 'high',
+  '中': 'medium', 'medium': 'medium', 'm': 'medium',
+  '低': 'low', 'low': 'low', 'l': 'low'
+};
+
+/**
+ * 年月日から期限文字列を作成（存在しない日付は null）
+ */
+const toValidDateString = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return DateUtils.toDateString(date);
+};
+
+/**
+ * 年を省略した月日を、今日以降で最も近い日付に解決
+ */
+const resolveMonthDay = (month: number, day: number, today: Date): string | null => {
+  const todayString = DateUtils.toDateString(today);
+  const thisYear = toValidDateString(today.getFullYear(), month, day);
+  if (thisYear && thisYear >= todayString) return thisYear;
+  return toValidDateString(today.getFullYear() + 1, month, day);
+};
+
+/**
+ * 曜日指定を日付に解決
+ * 週の指定がない場合は今日以降で最初のその曜日、
+ * 「今週・来週・再来週」の場合は月曜始まりの週の中のその曜日
+ */
+const resolveWeekday = (weekLabel: string | undefined, weekdayName: string, today: Date): string => {
+  const weekday = WEEKDAY_NAMES.indexOf(weekdayName);
+  const todayString = DateUtils.toDateString(today);
+
+  if (!weekLabel) {
+    return DateUtils.addDays(todayString, (weekday - today.getDay() + 7) % 7);
+  }
+
+  const weekOffset = weekLabel === '今週' ? 0 : weekLabel === '来週' ? 1 : 2;
+  const monday = DateUtils.addDays(todayString, -((today.getDay() + 6) % 7));
+  return DateUtils.addDays(monday, weekOffset * 7 + (weekday + 6) % 7);
+};
+
+/**
+ * 認識する期限表現（長い表現を先に判定する）
+ */
+const DATE_PATTERNS: DatePattern[] = [
+  {
+    // ISO形式・スラッシュ区切りの年月日
+    regex: /(\d{4})[-/](\d{1,2})[-/](\d{1,2})/,
+    resolve: (m) => toValidDateString(Number(m[1]), Number(m[2]), Number(m[3]))
+  },
+  {
+    // 10月20日
+    regex: /(\d{1,2})月(\d{1,2})日/,
+    resolve: (m, today) => resolveMonthDay(Number(m[1]), Number(m[2]), today)
+  },
+  {
+    // 10/20
+    regex: /(\d{1,2})\/(\d{1,2})(?![\d/])/,
+    resolve: (m, today) => {
+      // 年月日の一部（2025/10/20 の 10/20 など）は対象外
+      if (m.index > 0 && /[\d/]/.test(m.input[m.index - 1])) return null;
+      return resolveMonthDay(Number(m[1]), Number(m[2]), today);
+    }
+  },
+  {
+    // 3日後・2週間後
+    regex: /(\d+)(日|週間)後/,
+    resolve: (m, today) => DateUtils.addDays(DateUtils.toDateString(today), Number(m[1]) * (m[2] === '日' ? 1 : 7))
+  },
+  {
+    // 来週金曜・金曜日（「日曜大工」などの語の一部は対象外にするため、前後を空白か助詞で区切る）
+    regex: /\s(今週|来週|再来週)?の?([日月火水木金土])曜日?(?=\s|までに|まで|迄|中|に)/,
+    resolve: (m, today) => resolveWeekday(m[1], m[2], today)
+  },
+  {
+    // 今月末・月末・来月末（「月末処理」などの語の一部は対象外）
+    regex: /\s(今月末|来月末|月末)(?=\s|までに|まで|迄|中|に)/,
+    resolve: (m, today) => {
+      const monthOffset = m[1] === '来月末' ? 1 : 0;
+      return DateUtils.toDateString(new Date(today.getFullYear(), today.getMonth() + monthOffset + 1, 0));
+    }
+  },
+  {
+    // 今日・明日・明後日（「明日香」などの語の一部は対象外）
+    regex: /\s(今日|本日|明日|あした|明後日|あさって)(?=\s|までに|まで|迄|中|に)/,
+    resolve: (m, today) => {
+      const offsets: { [word: string]: number } = {
+        '今日': 0, '本日': 0, '明日': 1, 'あした': 1, '明後日': 2, 'あさって': 2
+      };
+      return DateUtils.addDays(DateUtils.toDateString(today), offsets[m[1]]);
+    }
+  }
+];
+
+/**
+ * クイック追加パーサー
+ */
+export class QuickAddParser {
+  /**
+   * 入力文字列を解析
+   * @param input ユーザーの入力
+   * @param today 相対日付の基準日（省略時は現在日時）
+   */
+  static parse(input: string, today: Date = new Date()): ParsedQuickAdd {
+    // 「 - 」区切りでタスク名とサブタスクに分割
+    const [main, ...subTaskParts] = input.split(/\s+[-－]\s+/);
+    const subTasks = subTaskParts
+      .map(part => part.replace(/^[-－]\s*/, '').trim())
+      .filter(Boolean);
+
+    let text = ` ${main || ''} `;
+
+    // タグ
+    const tags: string[] = [];
+    text = text.replace(/\s[#＃]([^\s#＃!！~〜～]+)/g, (_, tag: string) => {
+      if (!tags.includes(tag)) tags.push(tag);
+      return ' ';
+    });
+
+    // 優先度
+    let priority: PriorityLevel | undefined;
+    text = text.replace(/\s[!！](高|中|低|high|medium|low|h|m|l)(?=\s)/gi, (_, alias: string) => {
+      priority = PRIORITY_ALIASES[alias.toLowerCase()];
+      return ' ';
+    });
+
+    // 見積もり時間
+    let estimatedMinutes: number | undefined;
+    text = text.replace(
+      /\s[~〜～](?:(\d+(?:\.\d+)?)(?:時間|h))?(?:(\d+)(?:分|m|min))?(?=\s)/gi,
+      (match, hours?: string, minutes?: string) => {
+        if (!hours && !minutes) return match;
+        const total = Math.round(Number(hours || 0) * 60 + Number(minutes || 0));
+        if (total > 0) estimatedMinutes = total;
+        return ' ';
+      }
+    );
+
+    // 期限（最初に現れた表現を採用）
+    const deadlineResult = QuickAddParser.extractDeadline(text, today);
+    if (deadlineResult) {
+      text = deadlineResult.rest;
+    }
+
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      deadline: deadlineResult?.deadline,
+      deadlineLabel: deadlineResult?.label,
+      priority,
+      tags,
+      estimatedMinutes,
+      subTasks
+    };
+  }
+
+  /**
+   * 解析結果に記法から読み取った項目が含まれるかどうか
+   */
+  static hasRecognizedTokens(parsed: ParsedQuickAdd): boolean {
+    return !!(
+      parsed.deadline ||
+      parsed.priority ||
+      parsed.estimatedMinutes ||
+      parsed.tags.length > 0 ||
+      parsed.subTasks.length > 0
+    );
+  }
+
+  /**
+   * 文字列から期限表現を探し、日付と残りの文字列を返す
+   * 期限表現に続く「までに」「中に」などの助詞も取り除く
+   */
+  private static extractDeadline(
+    text: string,
+    today: Date
+  ): { deadline: string; label: string; rest: string } | null {
+    let earliest: { index: number; length: number; deadline: string; label: string } | null = null;
+
+    for (const pattern of DATE_PATTERNS) {
+      const match = pattern.regex.exec(text);
+      if (!match) continue;
+      if (earliest && match.index >= earliest.index) continue;
+
+      const deadline = pattern.resolve(match, today);
+      if (!deadline) continue;
+
+      earliest = { index: match.index, length: match[0].length, deadline, label: match[0].trim() };
+    }
+
+    if (!earliest) return null;
+
+    const before = text.slice(0, earliest.index);
+    const after = text.slice(earliest.index + earliest.length).replace(/^(までに|まで|迄に|迄|中に|中|に)/, '');
+
+    return {
+      deadline: earliest.deadline,
+      label: earliest.label,
+      rest: `${before} ${after}`
+    };
+  }
+}
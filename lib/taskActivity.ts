@@ -0,0 +1,275 @@
+/**
+ * タスクの変更履歴
+ *
+ * タスクへの書き込み内容と変更前のタスクを比べて、作成・内容の変更・期限の変更・優先度の変更・完了・再開・
+ * サブタスクの変更などの履歴を求めるモジュール
+ * 履歴はタスクのドキュメントに保存し、期限を何回延ばしたかなどの集計にも使う
+ * v1.8.0: タスクの変更履歴を追加
+ */
+
+import { EnhancedTask, SubTask, SubTaskUtils, TaskActivity, TaskActivityKind, DueUtils, RecurrenceUtils } from '@/lib/taskInterfaces';
+import { TaskWriteData, isDeletedField, isFieldIncrement } from '@/lib/offlineQueue';
+
+/**
+ * 変更履歴の集計
+ */
+export interface TaskActivitySummary {
+  deadlineChanges: number;       // 期限を変更した回数
+  deadlinePostponements: number; // そのうち期限を延ばした回数
+  priorityChanges: number;       // 優先度を変更した回数
+  reopenCount: number;           // 完了を取り消した回数
+  pomodoroCount: number;         // ポモドーロを開始した回数
+}
+
+const PRIORITY_LABELS: { [priority: string]: string } = {
+  high: '高',
+  medium: '中',
+  low: '低'
+};
+
+const STATUS_LABELS: { [status: string]: string } = {
+  todo: '未着手',
+  inProgress: '進行中',
+  done: '完了'
+};
+
+/**
+ * 変更履歴の値を比較用に揃える（未設定・削除・空文字と、文字列・数値・真偽値以外はnull）
+ */
+const normalize = (value: unknown): string | number | boolean | null => {
+  if (typeof value === 'string') return value === '' ? null : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return null;
+};
+
+/**
+ * タスクの変更履歴
+ */
+export class TaskActivityLog {
+  // タスク1件あたりに保存する履歴の上限
+  static readonly MAX_ENTRIES = 200;
+
+  // 種類ごとの表示
+  static readonly KINDS: { [kind in TaskActivityKind]: { icon: string; label: string } } = {
+    created: { icon: '🆕', label: '作成' },
+    text: { icon: '✏️', label: '内容の変更' },
+    deadline: { icon: '📅', label: '期限の変更' },
+    priority: { icon: '⚡', label: '優先度の変更' },
+    completed: { icon: '✅', label: '完了' },
+    reopened: { icon: '↩️', label: '完了の取り消し' },
+    status: { icon: '🔄', label: '作業状態の変更' },
+    memo: { icon: '📄', label: 'メモの更新' },
+    estimate: { icon: '⏱️', label: '見積もりの変更' },
+    actual: { icon: '⏲️', label: '実績時間の記録' },
+    tags: { icon: '🏷️', label: 'タグの変更' },
+    project: { icon: '📁', label: 'プロジェクトの変更' },
+    recurrence: { icon: '🔁', label: '繰り返しの変更' },
+    dependencies: { icon: '🔗', label: '依存関係の変更' },
+    subtask_added: { icon: '➕', label: 'サブタスクの追加' },
+    subtask_removed: { icon: '➖', label: 'サブタスクの削除' },
+    subtask_completed: { icon: '☑️', label: 'サブタスクの完了' },
+    subtask_reopened: { icon: '⬜', label: 'サブタスクの完了取り消し' },
+    subtask_edited: { icon: '✏️', label: 'サブタスクの変更' },
+    subtask_moved: { icon: '↕️', label: 'サブタスクの移動' },
+    archived: { icon: '📦', label: 'アーカイブ' },
+    unarchived: { icon: '📤', label: 'アーカイブから戻す' },
+    trashed: { icon: '🗑️', label: 'ゴミ箱へ移動' },
+    restored: { icon: '♻️', label: '復元' },
+    pomodoro_started: { icon: '🍅', label: 'ポモドーロ開始' },
+    start_date: { icon: '💤', label: '開始日の変更' }
+  };
+
+  /**
+   * 変更前のタスクと書き込む変更内容から履歴を求める
+   * @param changes 更新するフィールド（DELETED_FIELD はフィールドの削除）
+   */
+  static diff(before: EnhancedTask, changes: TaskWriteData, at: number = Date.now()): TaskActivity[] {
+    const entries: TaskActivity[] = [];
+    const has = (field: keyof EnhancedTask) => Object.prototype.hasOwnProperty.call(changes, field);
+    const after = (field: keyof EnhancedTask) => {
+      const value = has(field) ? changes[field] : before[field];
+      return normalize(isFieldIncrement(value) ? (Number(before[field]) || 0) + value.__increment : value);
+    };
+    const push = (kind: TaskActivityKind, from?: TaskActivity['from'], to?: TaskActivity['to'], detail?: string) => {
+      entries.push({
+        kind,
+        at,
+        ...(from !== undefined ? { from } : {}),
+        ...(to !== undefined ? { to } : {}),
+        ...(detail ? { detail } : {})
+      });
+    };
+
+    if (has('text') && after('text') !== normalize(before.text)) {
+      push('text', normalize(before.text), after('text'));
+    }
+
+    if (has('deadline') || has('dueTime')) {
+      const from = normalize(DueUtils.formatDue(before));
+      const to = normalize(DueUtils.formatDue({
+        deadline: (after('deadline') as string | null) || undefined,
+        dueTime: (after('dueTime') as string | null) || undefined
+      }));
+      if (from !== to) push('deadline', from, to);
+    }
+
+    if (has('startDate') && after('startDate') !== normalize(before.startDate)) {
+      push('start_date', normalize(before.startDate), after('startDate'));
+    }
+
+    if (has('priority') && after('priority') !== normalize(before.priority)) {
+      push('priority', normalize(before.priority), after('priority'));
+    }
+
+    const completionChanged = has('completed') && !!after('completed') !== !!before.completed;
+    if (completionChanged) {
+      push(after('completed') ? 'completed' : 'reopened');
+    }
+
+    // 完了・再開に伴う作業状態の変更は重ねて記録しない
+    if (has('status') && !completionChanged && (after('status') || 'todo') !== (before.status || 'todo')) {
+      push('status', before.status || 'todo', after('status') || 'todo');
+    }
+
+    if (has('memo') && after('memo') !== normalize(before.memo)) {
+      push('memo');
+    }
+
+    if (has('estimatedMinutes') && after('estimatedMinutes') !== normalize(before.estimatedMinutes)) {
+      push('estimate', normalize(before.estimatedMinutes), after('estimatedMinutes'));
+    }
+
+    if (has('actualMinutes') && after('actualMinutes') !== normalize(before.actualMinutes)) {
+      push('actual', normalize(before.actualMinutes), after('actualMinutes'));
+    }
+
+    if (has('tags')) {
+      const from = (before.tags || []).join(', ');
+      const to = (isDeletedField(changes.tags) ? [] : changes.tags || []).join(', ');
+      if (from !== to) push('tags', normalize(from), normalize(to));
+    }
+
+    if (has('projectId') && after('projectId') !== normalize(before.projectId)) {
+      push('project', normalize(before.projectId), after('projectId'));
+    }
+
+    if (has('recurrence')) {
+      const from = before.recurrence ? RecurrenceUtils.describe(before.recurrence) : null;
+      const to = changes.recurrence && !isDeletedField(changes.recurrence) ? RecurrenceUtils.describe(changes.recurrence) : null;
+      if (from !== to) push('recurrence', from, to);
+    }
+
+    if (has('blockedBy')) {
+      const from = before.blockedBy || [];
+      const to: string[] = isDeletedField(changes.blockedBy) ? [] : changes.blockedBy || [];
+      if (from.length !== to.length || from.some(id => !to.includes(id))) push('dependencies', from.length, to.length);
+    }
+
+    if (has('subTasks')) {
+      const subTasks = isDeletedField(changes.subTasks) ? [] : changes.subTasks || [];
+      entries.push(...TaskActivityLog.diffSubTasks(before.subTasks || [], subTasks, at));
+    }
+
+    if (has('archivedAt') && !!after('archivedAt') !== !!before.archivedAt) {
+      push(after('archivedAt') ? 'archived' : 'unarchived');
+    }
+
+    if (has('deletedAt') && !!after('deletedAt') !== !!before.deletedAt) {
+      push(after('deletedAt') ? 'trashed' : 'restored');
+    }
+
+    return entries;
+  }
+
+  /**
+   * サブタスクの変更を履歴にする（並び順だけの変更は記録しない）
+   */
+  static diffSubTasks(before: SubTask[], after: SubTask[], at: number = Date.now()): TaskActivity[] {
+    const entries: TaskActivity[] = [];
+    const beforeById = new Map(before.map(subTask => [subTask.id, subTask] as const));
+    const afterIds = new Set(after.map(subTask => subTask.id));
+
+    after.forEach(subTask => {
+      const previous = beforeById.get(subTask.id);
+      if (!previous) {
+        entries.push({ kind: 'subtask_added', at, detail: subTask.text });
+        return;
+      }
+      if (previous.text !== subTask.text) {
+        entries.push({ kind: 'subtask_edited', at, from: previous.text, to: subTask.text });
+      }
+      if (previous.completed !== subTask.completed) {
+        entries.push({ kind: subTask.completed ? 'subtask_completed' : 'subtask_reopened', at, detail: subTask.text });
+      }
+      if (SubTaskUtils.getParentId(before, previous) !== SubTaskUtils.getParentId(after, subTask)) {
+        entries.push({ kind: 'subtask_moved', at, detail: subTask.text });
+      }
+    });
+
+    before.filter(subTask => !afterIds.has(subTask.id)).forEach(subTask => {
+      entries.push({ kind: 'subtask_removed', at, detail: subTask.text });
+    });
+
+    return entries;
+  }
+
+  /**
+   * 履歴に追加（上限を超えた分は古いものから削除）
+   */
+  static append(log: TaskActivity[] | undefined, entries: TaskActivity[]): TaskActivity[] {
+    return [...(log || []), ...entries].slice(-TaskActivityLog.MAX_ENTRIES);
+  }
+
+  /**
+   * 履歴の説明文
+   * @param getProjectName プロジェクトIDから名前を求める関数
+   */
+  static describe(entry: TaskActivity, getProjectName: (projectId: string) => string = id => id): string {
+    const { label } = TaskActivityLog.KINDS[entry.kind] || { label: entry.kind };
+    const format = (value: TaskActivity['from']): string => {
+      if (value === null || value === undefined) return 'なし';
+      switch (entry.kind) {
+        case 'priority': return PRIORITY_LABELS[String(value)] || String(value);
+        case 'status': return STATUS_LABELS[String(value)] || String(value);
+        case 'estimate':
+        case 'actual': return `${value}分`;
+        case 'project': return getProjectName(String(value));
+        case 'dependencies': return `${value}件`;
+        default: return String(value);
+      }
+    };
+
+    if (entry.kind === 'memo') return label;
+    if (entry.detail) return `${label}: ${entry.detail}`;
+    if (entry.from !== undefined || entry.to !== undefined) {
+      return `${label}: ${format(entry.from)} → ${format(entry.to)}`;
+    }
+    return label;
+  }
+
+  /**
+   * 期限を延ばした変更か（期限を外した場合は含めない）
+   */
+  static isPostponement(entry: TaskActivity): boolean {
+    if (entry.kind !== 'deadline' || typeof entry.from !== 'string' || typeof entry.to !== 'string') return false;
+
+    const toDue = (value: string) => DueUtils.getDueAt({ deadline: value.slice(0, 10), dueTime: value.slice(11) || undefined });
+    const from = toDue(entry.from);
+    const to = toDue(entry.to);
+    return from !== null && to !== null && to > from;
+  }
+
+  /**
+   * 履歴を集計
+   */
+  static summarize(log: TaskActivity[] | undefined): TaskActivitySummary {
+    const entries = log || [];
+    return {
+      deadlineChanges: entries.filter(entry => entry.kind === 'deadline').length,
+      deadlinePostponements: entries.filter(TaskActivityLog.isPostponement).length,
+      priorityChanges: entries.filter(entry => entry.kind === 'priority').length,
+      reopenCount: entries.filter(entry => entry.kind === 'reopened').length,
+      pomodoroCount: entries.filter(entry => entry.kind === 'pomodoro_started').length
+    };
+  }
+}
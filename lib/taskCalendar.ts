@@ -0,0 +1,113 @@
+/**
+ * タスクカレンダーの日付計算
+ *
+ * 月表示・週表示のカレンダーに並べる日付を求め、
+ * 日ごとのタスク（期限日）と習慣（実行予定日）、見積もり時間の合計をまとめるモジュール
+ * 週は月曜日始まりで扱います
+ * v1.8.0: カレンダー表示の実装
+ */
+
+import { EnhancedTask } from '@/lib/taskInterfaces';
+import { Habit, HabitUtils } from '@/lib/habitInterfaces';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * カレンダーの1日分
+ */
+export interface CalendarDay {
+  date: string;                  // YYYY-MM-DD形式
+  tasks: EnhancedTask[];         // この日が期限のタスク（時刻順、時刻なしは最後）
+  habits: Habit[];               // この日に実行予定の習慣
+  estimatedMinutes: number;      // タスクの見積もり時間の合計（分）
+}
+
+/**
+ * 1日の見積もり時間の目安（分）
+ */
+export const DAILY_LOAD_THRESHOLDS = {
+  busy: 4 * 60,                  // これを超えると混雑
+  overloaded: 8 * 60             // これを超えると過負荷
+};
+
+/**
+ * タスクカレンダーの日付計算
+ */
+export class TaskCalendar {
+  /**
+   * 指定日を含む週の月曜日を取得
+   */
+  static getWeekStart(date: string): string {
+    const day = DateUtils.parseDateString(date).getDay();
+    return DateUtils.addDays(date, -((day + 6) % 7));
+  }
+
+  /**
+   * 指定日を含む週の7日間を取得
+   */
+  static getWeekDates(date: string): string[] {
+    const start = TaskCalendar.getWeekStart(date);
+    return Array.from({ length: 7 }, (_, i) => DateUtils.addDays(start, i));
+  }
+
+  /**
+   * 月表示に並べる日付を取得（前後の月の日付を含む週単位）
+   */
+  static getMonthDates(year: number, month: number): string[] {
+    const first = DateUtils.toDateString(new Date(year, month, 1));
+    const last = DateUtils.toDateString(new Date(year, month, DateUtils.getDaysInMonth(year, month)));
+    const start = TaskCalendar.getWeekStart(first);
+    const end = DateUtils.addDays(TaskCalendar.getWeekStart(last), 6);
+    return Array.from({ length: DateUtils.diffDays(start, end) + 1 }, (_, i) => DateUtils.addDays(start, i));
+  }
+
+  /**
+   * 日付ごとにタスクと習慣を振り分ける
+   * 習慣は作成日以降で、HabitUtils.shouldExecuteToday が実行日と判定する日に表示する
+   */
+  static buildDays(dates: string[], tasks: EnhancedTask[], habits: Habit[]): CalendarDay[] {
+    const tasksByDate = new Map<string, EnhancedTask[]>();
+    tasks.forEach(task => {
+      if (!task.deadline) return;
+      const dayTasks = tasksByDate.get(task.deadline) || [];
+      dayTasks.push(task);
+      tasksByDate.set(task.deadline, dayTasks);
+    });
+
+    return dates.map(date => {
+      const dayTasks = (tasksByDate.get(date) || [])
+        .slice()
+        .sort((a, b) => (a.dueTime || '99:99').localeCompare(b.dueTime || '99:99'));
+      const day = DateUtils.parseDateString(date);
+      const dayHabits = habits.filter(habit =>
+        DateUtils.toDateString(new Date(habit.createdAt)) <= date &&
+        HabitUtils.shouldExecuteToday(habit, day)
+      );
+
+      return {
+        date,
+        tasks: dayTasks,
+        habits: dayHabits,
+        estimatedMinutes: dayTasks.reduce((total, task) => total + (task.estimatedMinutes || 0), 0)
+      };
+    });
+  }
+
+  /**
+   * 見積もり時間の合計から1日の混み具合を判定
+   */
+  static getLoadLevel(estimatedMinutes: number): 'normal' | 'busy' | 'overloaded' {
+    if (estimatedMinutes > DAILY_LOAD_THRESHOLDS.overloaded) return 'overloaded';
+    if (estimatedMinutes > DAILY_LOAD_THRESHOLDS.busy) return 'busy';
+    return 'normal';
+  }
+
+  /**
+   * 分を「2時間30分」のような表示に変換
+   */
+  static formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest}分`;
+    return rest === 0 ? `${hours}時間` : `${hours}時間${rest}分`;
+  }
+}
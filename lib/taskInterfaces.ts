@@ -3,9 +3,11 @@
  * 
  * サブタスクとメモ機能を含む拡張されたタスクの型定義
  * v1.6.0: タスクソート機能の型定義を追加
+ * v1.8.0: タスク管理機能の拡充に伴う型定義とユーティリティを追加
  */
 
-import { PriorityLevel } from './aiPriorityAssignment';
+import { PriorityLevel, PriorityScores, calculateImportanceScore, calculateUrgencyScore, calculateDetailedPriority } from './aiPriorityAssignment';
+import { DateUtils } from './dateUtils';
 
 /**
  * サブタスクのインターフェース
@@ -15,8 +17,29 @@ export interface SubTask {
   text: string;                  // サブタスクの内容
   completed: boolean;            // 完了状態
   completedAt?: number | null;   // 完了日時のタイムスタンプ
-  order: number;                 // 表示順序
+  order: number;                 // 表示順序（同じ親を持つサブタスクの中での順序）
   createdAt: number;             // 作成日時のタイムスタンプ
+  parentId?: string | null;      // 親サブタスクのID（未設定はタスク直下）
+}
+
+/**
+ * 繰り返しの種類
+ * - daily: N日ごと
+ * - weekly: 指定した曜日ごと
+ * - monthly: 毎月の指定日、または月末の最終営業日
+ * - afterCompletion: 完了してからN日後
+ */
+export type RecurrenceType = 'daily' | 'weekly' | 'monthly' | 'afterCompletion';
+
+/**
+ * 繰り返しルール
+ */
+export interface RecurrenceRule {
+  type: RecurrenceType;
+  interval?: number;             // 間隔（daily / afterCompletion で使用、デフォルト1）
+  weekdays?: number[];           // 対象曜日（weekly で使用、0=日曜日）
+  monthDay?: number;             // 対象日（monthly で使用、1-31）
+  lastBusinessDay?: boolean;     // 月末の最終営業日（monthly で使用、monthDay より優先）
 }
 
 /**
@@ -27,25 +50,277 @@ export interface EnhancedTask {
   text: string;                  // タスクの内容
   completed: boolean;            // 完了状態
   completedAt?: number | null;   // 完了日時のタイムスタンプ
+  status?: TaskStatus;           // 作業状態（未設定は todo、完了済みかどうかは completed で判定）
   userId: string;                // 所有ユーザーID
   deadline?: string;             // 期限（YYYY-MM-DD形式）
-  order: number;                 // 表示順序
+  dueTime?: string;              // 期限の時刻（HH:mm形式、未設定なら期限日の終わり）
+  reminders?: number[];          // リマインダー（期限の何分前に通知するか）
+  startDate?: string;            // 開始日（YYYY-MM-DD形式、この日まではスヌーズ中として既定の表示から隠す）
+  order: number;                 // 表示順序（手動の並べ替えでは前後のタスクの中間の値を使うため小数になる）
   priority: PriorityLevel;       // 優先度（high/medium/low）
+  importance?: number;           // 重要度（0-100、未設定なら優先度から求める）
+  urgency?: number;              // 緊急度（0-100、未設定なら期限から求める）
+  priorityManual?: boolean;      // 優先度を手動で設定した（自動調整の対象外）
+  autoPriorityChange?: AutoPriorityChange; // 自動で変更した優先度（承認・取り消しするまで残す）
   createdAt?: number;            // 作成日時のタイムスタンプ
   scheduledForDeletion?: boolean; // 削除予定フラグ
   
   // 新機能
   memo?: string;                 // メモ（マークダウン対応）
+  memoChecklistSync?: boolean;   // メモのチェックリスト（- [ ] の行）をサブタスクと同期する
   subTasks: SubTask[];           // サブタスクのリスト
   subTasksCount?: number;        // サブタスクの総数（パフォーマンス用）
   completedSubTasksCount?: number; // 完了済みサブタスクの数（パフォーマンス用）
+  promotedFromTaskId?: string;   // サブタスクから昇格した場合の元の親タスクのID
+  mergedIntoTaskId?: string;     // 他のタスクのサブタスクへ統合した場合の統合先タスクのID（統合後はゴミ箱へ移動）
   
   // 統計情報
   estimatedMinutes?: number;     // 見積もり時間（分）
   actualMinutes?: number;        // 実際にかかった時間（分）
   
-  // タグ機能（将来拡張）
-  tags?: string[];               // タグのリスト
+  // タグ機能
+  tags?: string[];               // タグ名のリスト（TaskTag.name を参照）
+  
+  // 繰り返し機能
+  recurrence?: RecurrenceRule;   // 繰り返しルール（シリーズの現在の回のみが保持）
+  seriesId?: string;             // 繰り返しシリーズのID（最初の回のタスクID）
+  nextOccurrenceId?: string;     // 完了時に生成された次の回のタスクID
+  
+  // 依存関係
+  blockedBy?: string[];          // このタスクの前に完了すべきタスクのIDリスト
+  
+  // プロジェクト
+  projectId?: string;            // 所属するプロジェクトのID（未設定なら未分類）
+  
+  // アーカイブ・ゴミ箱
+  archivedAt?: number;           // アーカイブした日時（完了済みタスクを一覧から隠す）
+  deletedAt?: number;            // ゴミ箱へ移動した日時（保持期間の経過後に完全に削除）
+  
+  // 変更履歴
+  activityLog?: TaskActivity[];  // タスクへの変更の記録（古い順、上限を超えた分は古いものから削除）
+  
+  // 同期
+  fieldUpdatedAt?: { [field: string]: number }; // フィールドごとの最終更新日時（オフライン同期の後勝ち判定用）
+  appliedIncrements?: { [writeId: string]: number }; // 送信済みの加算の書き込みIDと日時（再送時に重ねて加算しないための印）
+}
+
+/**
+ * タスクの変更の種類
+ */
+export type TaskActivityKind =
+  | 'created'
+  | 'text'
+  | 'deadline'
+  | 'priority'
+  | 'completed'
+  | 'reopened'
+  | 'status'
+  | 'memo'
+  | 'estimate'
+  | 'actual'
+  | 'tags'
+  | 'project'
+  | 'recurrence'
+  | 'dependencies'
+  | 'subtask_added'
+  | 'subtask_removed'
+  | 'subtask_completed'
+  | 'subtask_reopened'
+  | 'subtask_edited'
+  | 'subtask_moved'
+  | 'archived'
+  | 'unarchived'
+  | 'trashed'
+  | 'restored'
+  | 'pomodoro_started'
+  | 'start_date';
+
+/**
+ * タスクの変更履歴の1件
+ */
+export interface TaskActivity {
+  kind: TaskActivityKind;
+  at: number;                            // 変更日時のタイムスタンプ
+  from?: string | number | boolean | null; // 変更前の値（値を持たない変更では省略）
+  to?: string | number | boolean | null;   // 変更後の値
+  detail?: string;                       // 補足（サブタスクの内容など）
+}
+
+/**
+ * タスク作成時の追加オプション
+ */
+export interface CreateTaskOptions {
+  dueTime?: string;
+  reminders?: number[];
+  estimatedMinutes?: number;
+  recurrence?: RecurrenceRule;
+  tags?: string[];
+  projectId?: string;
+  subTasks?: SubTask[];          // 最初から持たせるサブタスク（テンプレートから作成する場合など）
+  priorityManual?: boolean;      // 作成時に優先度を明示的に選んだ（自動調整の対象外にする）
+}
+
+/**
+ * タグ定義のインターフェース（taskTags コレクション）
+ */
+export interface TaskTag {
+  id: string;                    // タグのユニークID
+  userId: string;                // 所有ユーザーID
+  name: string;                  // タグ名（ユーザー内で一意）
+  color: string;                 // 表示色（#RRGGBB形式）
+  createdAt: number;             // 作成日時のタイムスタンプ
+}
+
+/**
+ * プロジェクト定義のインターフェース（projects コレクション）
+ */
+export interface TaskProject {
+  id: string;                    // プロジェクトのユニークID
+  userId: string;                // 所有ユーザーID
+  name: string;                  // プロジェクト名
+  color: string;                 // 表示色（#RRGGBB形式）
+  icon: string;                  // アイコン（絵文字）
+  archived: boolean;             // アーカイブ済みかどうか
+  createdAt: number;             // 作成日時のタイムスタンプ
+}
+
+/**
+ * プロジェクト別のタスク集計
+ */
+export interface ProjectTaskStats {
+  total: number;                 // タスク数
+  completed: number;             // 完了済みタスク数
+  estimatedMinutes: number;      // 見積もり時間の合計（分）
+}
+
+/**
+ * 完了済みタスクのアーカイブとゴミ箱の保持設定（ユーザーごと）
+ */
+export interface TaskRetentionSettings {
+  archiveAfterDays: number;      // 完了からアーカイブするまでの日数（0 は自動アーカイブしない）
+  trashRetentionDays: number;    // ゴミ箱に残す日数（経過後に完全に削除）
+}
+
+/**
+ * 優先度の自動調整の設定
+ */
+export interface PriorityEscalationSettings {
+  enabled: boolean;              // 期限が近づいたタスクの優先度を自動で上げる
+  overrideManual: boolean;       // 手動で設定した優先度も上げる
+}
+
+/**
+ * スヌーズの選択肢（明日・来週の月曜日・来月1日まで）
+ */
+export type SnoozeOption = 'tomorrow' | 'nextMonday' | 'nextMonth';
+
+/**
+ * 自動で変更した優先度
+ */
+export interface AutoPriorityChange {
+  from: PriorityLevel;           // 自動調整の前の優先度（続けて上がった場合も最初の値）
+  to: PriorityLevel;
+  at: number;                    // 変更日時のタイムスタンプ
+}
+
+/**
+ * タスクの作業状態（done は completed と連動）
+ */
+export type TaskStatus = 'todo' | 'inProgress' | 'done';
+
+/**
+ * 重要度と緊急度のマトリクスの区分
+ * do: 重要かつ緊急 / schedule: 重要だが緊急でない / delegate: 緊急だが重要でない / eliminate: どちらでもない
+ */
+export type EisenhowerQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+/**
+ * マトリクスの区分の定義
+ */
+export interface EisenhowerQuadrantInfo {
+  id: EisenhowerQuadrant;
+  label: string;
+  description: string;
+  icon: string;
+  important: boolean;
+  urgent: boolean;
+}
+
+/**
+ * ボード表示の列の分け方
+ */
+export type BoardColumnMode = 'status' | 'priority' | 'deadline';
+
+/**
+ * ボード表示の列
+ */
+export interface BoardColumn {
+  id: string;                    // 列のID（作業状態・優先度・期限の区分）
+  label: string;
+  icon: string;
+  droppable: boolean;            // カードを移動できるかどうか
+}
+
+/**
+ * タスク一覧のグループ表示
+ */
+export type TaskGrouping = 'none' | 'tag' | 'project' | 'priority';
+
+/**
+ * 組み込みビューのタスクの取得元
+ */
+export type BuiltInTaskViewSource = 'today' | 'overdue' | 'week' | 'highPriority' | 'snoozed';
+
+/**
+ * 保存ビューのインターフェース（taskViews コレクション）
+ */
+export interface SavedTaskView {
+  id: string;                    // ビューのユニークID
+  userId: string;                // 所有ユーザーID
+  name: string;                  // ビュー名
+  query: string;                 // 検索クエリ（演算子を含む）
+  sortConfig: TaskSortConfig;    // 並べ替え
+  grouping: TaskGrouping;        // グループ表示
+  pinned: boolean;               // タブとして表示するかどうか
+  createdAt: number;             // 作成日時のタイムスタンプ
+}
+
+/**
+ * テンプレートのサブタスク（表示順に並べ、階層は深さで表す）
+ */
+export interface TemplateSubTask {
+  text: string;                  // サブタスクの内容（プレースホルダーを含められる）
+  depth: number;                 // 階層の深さ（タスク直下は0）
+}
+
+/**
+ * タスクテンプレートのインターフェース（taskTemplates コレクション）
+ */
+export interface TaskTemplate {
+  id: string;                    // テンプレートのユニークID
+  userId: string;                // 所有ユーザーID
+  name: string;                  // テンプレート名
+  text: string;                  // タスク名（{{date}} などのプレースホルダーを含められる）
+  priority: PriorityLevel;       // 既定の優先度
+  deadlineOffsetDays?: number | null; // 作成日から期限までの日数（未設定なら期限なし）
+  estimatedMinutes?: number | null; // 見積もり時間（分）
+  memo?: string;                 // メモ（プレースホルダーを含められる）
+  subTasks: TemplateSubTask[];   // サブタスクのチェックリスト
+  createdAt: number;             // 作成日時のタイムスタンプ
+  lastUsedAt?: number;           // 最後にタスクを作成した日時
+}
+
+/**
+ * 組み込みビューのインターフェース
+ */
+export interface BuiltInTaskView {
+  id: string;
+  name: string;
+  icon: string;
+  source: BuiltInTaskViewSource; // タスクの取得元
+  query: string;                 // 取得元のタスクにさらに適用する検索クエリ
+  sortConfig: TaskSortConfig;
+  grouping: TaskGrouping;
 }
 
 /**
@@ -54,6 +329,7 @@ export interface EnhancedTask {
 export interface CreateSubTaskData {
   text: string;
   parentTaskId: string;
+  parentSubTaskId?: string | null;   // 親サブタスクのID（入れ子にする場合）
 }
 
 /**
@@ -101,6 +377,21 @@ export interface TaskAnalytics {
   tasksWithSubTasks: number;
   estimatedTotalMinutes: number;
   actualTotalMinutes: number;
+  tagCounts: { [tag: string]: number }; // タグ別のタスク数
+  projectStats: { [projectId: string]: ProjectTaskStats }; // プロジェクト別の集計（未分類は ProjectUtils.UNASSIGNED）
+}
+
+/**
+ * 見積もり時間と実績時間の比較（タスク・優先度・タグごと）
+ */
+export interface EstimateComparison {
+  key: string;                   // タスクID・優先度・タグ名
+  label: string;                 // 表示名
+  taskCount: number;             // 集計したタスク数
+  estimatedMinutes: number;      // 見積もり時間の合計（分）
+  actualMinutes: number;         // 実績時間の合計（分）
+  ratio: number;                 // 実績 ÷ 見積もり（1 より大きいと見積もりより時間がかかっている）
+  accuracy: number;              // 見積もり精度の平均（0〜100%、TaskUtils.calculateTimeAccuracy）
 }
 
 /**
@@ -111,7 +402,7 @@ export type SubTaskFilter = 'all' | 'active' | 'completed';
 /**
  * 🔥 追加: タスクのソート条件
  */
-export type TaskSortBy = 'created' | 'deadline' | 'priority' | 'progress' | 'alphabetical';
+export type TaskSortBy = 'created' | 'deadline' | 'priority' | 'progress' | 'alphabetical' | 'tag' | 'ready' | 'manual';
 
 /**
  * 🔥 追加: ソート順序
@@ -119,28 +410,284 @@ export type TaskSortBy = 'created' | 'deadline' | 'priority' | 'progress' | 'alp
 export type SortOrder = 'asc' | 'desc';
 
 /**
- * 🔥 追加: ソート設定
+ * 並べ替えの条件と順序の組
  */
-export interface TaskSortConfig {
+export interface TaskSortKey {
   sortBy: TaskSortBy;
   sortOrder: SortOrder;
 }
 
+/**
+ * 期限なしのタスクを置く位置
+ */
+export type NoDeadlinePlacement = 'first' | 'last';
+
+/**
+ * 🔥 追加: ソート設定
+ */
+export interface TaskSortConfig {
+  sortBy: TaskSortBy;            // 第1条件
+  sortOrder: SortOrder;          // 第1条件の順序
+  thenBy?: TaskSortKey[];        // 第2条件以降（前の条件で並びが決まらないタスクを順に比べる）
+  noDeadline?: NoDeadlinePlacement; // 期限で比べるとき期限なしのタスクを置く位置（未設定は最後）
+}
+
+/**
+ * 階層表示用に展開したサブタスク
+ */
+export interface SubTaskTreeNode {
+  subTask: SubTask;
+  depth: number;                 // 階層の深さ（タスク直下は0）
+  childCount: number;            // 子サブタスクの数
+}
+
+/**
+ * サブタスクの移動先
+ */
+export interface SubTaskPlacement {
+  parentId: string | null;       // 移動先の親サブタスクのID（nullはタスク直下）
+  index: number;                 // 移動先の兄弟の中での位置
+}
+
 /**
  * サブタスクユーティリティ関数
+ * サブタスクはフラットな配列のまま parentId で親子関係を持つ
  */
 export class SubTaskUtils {
+  /**
+   * 入れ子にできる階層の数（タスク直下を含む）
+   */
+  static readonly MAX_DEPTH = 4;
+
   /**
    * サブタスクの進捗を計算
+   * 件数はすべての階層を数え、進捗率は子を持つサブタスクの進捗を子から再帰的に積み上げる
    */
   static calculateProgress(subTasks: SubTask[]): SubTaskProgress {
     const total = subTasks.length;
     const completed = subTasks.filter(subTask => subTask.completed).length;
-    const progress = total > 0 ? Math.round((completed / total) * 100) : 0;
+    const roots = SubTaskUtils.getChildren(subTasks, null);
+    const progress = roots.length > 0
+      ? Math.round(roots.reduce((sum, root) => sum + SubTaskUtils.calculateNodeProgress(subTasks, root), 0) / roots.length)
+      : 0;
     
     return { total, completed, progress };
   }
 
+  /**
+   * 子サブタスクを含む1つのサブタスクの進捗率（0-100）
+   */
+  static calculateSubTreeProgress(subTasks: SubTask[], subTaskId: string): number {
+    const subTask = subTasks.find(st => st.id === subTaskId);
+    return subTask ? Math.round(SubTaskUtils.calculateNodeProgress(subTasks, subTask)) : 0;
+  }
+
+  /**
+   * 1つのサブタスクの進捗率（完了済みは100、子を持つ場合は子の進捗の平均）
+   */
+  private static calculateNodeProgress(subTasks: SubTask[], subTask: SubTask): number {
+    if (subTask.completed) return 100;
+    const children = SubTaskUtils.getChildren(subTasks, subTask.id);
+    if (children.length === 0) return 0;
+    return children.reduce((sum, child) => sum + SubTaskUtils.calculateNodeProgress(subTasks, child), 0) / children.length;
+  }
+
+  /**
+   * 親サブタスクのIDを取得（親が存在しない場合はタスク直下として扱う）
+   */
+  static getParentId(subTasks: SubTask[], subTask: SubTask): string | null {
+    if (!subTask.parentId || subTask.parentId === subTask.id) return null;
+    return subTasks.some(st => st.id === subTask.parentId) ? subTask.parentId : null;
+  }
+
+  /**
+   * 指定した親の直下のサブタスクを順序どおりに取得
+   */
+  static getChildren(subTasks: SubTask[], parentId: string | null): SubTask[] {
+    return SubTaskUtils.sortByOrder(
+      subTasks.filter(subTask => SubTaskUtils.getParentId(subTasks, subTask) === parentId)
+    );
+  }
+
+  /**
+   * 子孫サブタスクのIDをすべて取得
+   */
+  static getDescendantIds(subTasks: SubTask[], subTaskId: string): string[] {
+    const result: string[] = [];
+    const visit = (parentId: string) => {
+      SubTaskUtils.getChildren(subTasks, parentId).forEach(child => {
+        if (result.includes(child.id)) return;
+        result.push(child.id);
+        visit(child.id);
+      });
+    };
+    visit(subTaskId);
+    return result;
+  }
+
+  /**
+   * サブタスクの階層の深さ（タスク直下は0）
+   */
+  static getDepth(subTasks: SubTask[], subTaskId: string): number {
+    let depth = 0;
+    let current = subTasks.find(st => st.id === subTaskId);
+    const visited = new Set<string>();
+    while (current) {
+      const parentId = SubTaskUtils.getParentId(subTasks, current);
+      if (!parentId || visited.has(parentId)) break;
+      visited.add(parentId);
+      depth++;
+      current = subTasks.find(st => st.id === parentId);
+    }
+    return depth;
+  }
+
+  /**
+   * サブタスクの下にある階層の数（子がなければ0）
+   */
+  static getSubtreeHeight(subTasks: SubTask[], subTaskId: string): number {
+    const children = SubTaskUtils.getChildren(subTasks, subTaskId);
+    if (children.length === 0) return 0;
+    return 1 + Math.max(...children.map(child => SubTaskUtils.getSubtreeHeight(subTasks, child.id)));
+  }
+
+  /**
+   * 階層表示の順に展開（折りたたんだサブタスクの子孫は含めない）
+   */
+  static flattenTree(subTasks: SubTask[], collapsedIds: string[] = []): SubTaskTreeNode[] {
+    const result: SubTaskTreeNode[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+      SubTaskUtils.getChildren(subTasks, parentId).forEach(subTask => {
+        const childCount = SubTaskUtils.getChildren(subTasks, subTask.id).length;
+        result.push({ subTask, depth, childCount });
+        if (childCount > 0 && !collapsedIds.includes(subTask.id)) {
+          visit(subTask.id, depth + 1);
+        }
+      });
+    };
+    visit(null, 0);
+    return result;
+  }
+
+  /**
+   * サブタスクを指定した親の下へ移動できるか（自身や子孫の下には移動できず、階層の上限を超えない）
+   */
+  static canMove(subTasks: SubTask[], subTaskId: string, newParentId: string | null): boolean {
+    if (newParentId === null) return true;
+    if (newParentId === subTaskId) return false;
+    if (SubTaskUtils.getDescendantIds(subTasks, subTaskId).includes(newParentId)) return false;
+    if (!subTasks.some(st => st.id === newParentId)) return false;
+
+    const depth = SubTaskUtils.getDepth(subTasks, newParentId) + 1 + SubTaskUtils.getSubtreeHeight(subTasks, subTaskId);
+    return depth < SubTaskUtils.MAX_DEPTH;
+  }
+
+  /**
+   * サブタスクを別の親の指定位置へ移動した一覧を取得
+   * 移動元と移動先の兄弟の順序は振り直す
+   */
+  static moveSubTask(subTasks: SubTask[], subTaskId: string, newParentId: string | null, index: number): SubTask[] {
+    const target = subTasks.find(st => st.id === subTaskId);
+    if (!target || !SubTaskUtils.canMove(subTasks, subTaskId, newParentId)) return subTasks;
+
+    const oldParentId = SubTaskUtils.getParentId(subTasks, target);
+    const siblings = SubTaskUtils.getChildren(subTasks, newParentId).filter(st => st.id !== subTaskId);
+    siblings.splice(Math.max(0, Math.min(index, siblings.length)), 0, target);
+
+    const newOrders = new Map<string, number>();
+    siblings.forEach((subTask, i) => newOrders.set(subTask.id, i + 1));
+    if (oldParentId !== newParentId) {
+      SubTaskUtils.getChildren(subTasks, oldParentId)
+        .filter(st => st.id !== subTaskId)
+        .forEach((subTask, i) => newOrders.set(subTask.id, i + 1));
+    }
+
+    return subTasks.map(subTask => {
+      const order = newOrders.get(subTask.id);
+      if (subTask.id === subTaskId) return { ...subTask, parentId: newParentId, order: order! };
+      return order !== undefined && order !== subTask.order ? { ...subTask, order } : subTask;
+    });
+  }
+
+  /**
+   * 字下げ（直前の兄弟の子の末尾へ移動）の移動先を取得
+   * @returns 字下げできない場合はnull
+   */
+  static getIndentPlacement(subTasks: SubTask[], subTaskId: string): SubTaskPlacement | null {
+    const target = subTasks.find(st => st.id === subTaskId);
+    if (!target) return null;
+
+    const siblings = SubTaskUtils.getChildren(subTasks, SubTaskUtils.getParentId(subTasks, target));
+    const index = siblings.findIndex(st => st.id === subTaskId);
+    if (index <= 0) return null;
+
+    const newParent = siblings[index - 1];
+    if (!SubTaskUtils.canMove(subTasks, subTaskId, newParent.id)) return null;
+    return { parentId: newParent.id, index: SubTaskUtils.getChildren(subTasks, newParent.id).length };
+  }
+
+  /**
+   * 字上げ（親の直後へ移動）の移動先を取得
+   * @returns タスク直下のサブタスクの場合はnull
+   */
+  static getOutdentPlacement(subTasks: SubTask[], subTaskId: string): SubTaskPlacement | null {
+    const target = subTasks.find(st => st.id === subTaskId);
+    if (!target) return null;
+
+    const parentId = SubTaskUtils.getParentId(subTasks, target);
+    if (!parentId) return null;
+
+    const parent = subTasks.find(st => st.id === parentId)!;
+    const grandParentId = SubTaskUtils.getParentId(subTasks, parent);
+    const index = SubTaskUtils.getChildren(subTasks, grandParentId).findIndex(st => st.id === parentId);
+    return { parentId: grandParentId, index: index + 1 };
+  }
+
+  /**
+   * サブタスクの子孫を切り出す（直下の子はタスク直下になる）
+   * @returns detached: 切り出した子孫、remaining: サブタスク自身と子孫を除いた残り
+   */
+  static detachSubTree(subTasks: SubTask[], subTaskId: string): { detached: SubTask[]; remaining: SubTask[] } {
+    const descendantIds = SubTaskUtils.getDescendantIds(subTasks, subTaskId);
+    const detached = subTasks
+      .filter(st => descendantIds.includes(st.id))
+      .map(st => st.parentId === subTaskId ? { ...st, parentId: null } : st);
+
+    return {
+      detached: SubTaskUtils.normalizeOrder(detached),
+      remaining: SubTaskUtils.removeWithDescendants(subTasks, subTaskId)
+    };
+  }
+
+  /**
+   * サブタスクの階層の数（サブタスクがなければ0）
+   */
+  static getLevelCount(subTasks: SubTask[]): number {
+    const roots = SubTaskUtils.getChildren(subTasks, null);
+    if (roots.length === 0) return 0;
+    return 1 + Math.max(...roots.map(root => SubTaskUtils.getSubtreeHeight(subTasks, root.id)));
+  }
+
+  /**
+   * サブタスクを子孫ごと削除し、残った兄弟の順序を振り直す
+   */
+  static removeWithDescendants(subTasks: SubTask[], subTaskId: string): SubTask[] {
+    const removedIds = [subTaskId, ...SubTaskUtils.getDescendantIds(subTasks, subTaskId)];
+    return SubTaskUtils.normalizeOrder(subTasks.filter(st => !removedIds.includes(st.id)));
+  }
+
+  /**
+   * 同じ親を持つサブタスクごとに順序を1から振り直す
+   */
+  static normalizeOrder(subTasks: SubTask[]): SubTask[] {
+    const newOrders = new Map<string, number>();
+    const parentIds = new Set(subTasks.map(st => SubTaskUtils.getParentId(subTasks, st)));
+    parentIds.forEach(parentId => {
+      SubTaskUtils.getChildren(subTasks, parentId).forEach((subTask, i) => newOrders.set(subTask.id, i + 1));
+    });
+    return subTasks.map(subTask => ({ ...subTask, order: newOrders.get(subTask.id) ?? subTask.order }));
+  }
+
   /**
    * 新しいサブタスクのIDを生成
    */
@@ -182,128 +729,1202 @@ export class SubTaskUtils {
 }
 
 /**
- * タスクユーティリティ関数
+ * タグユーティリティ関数
  */
-export class TaskUtils {
+export class TagUtils {
   /**
-   * タスクの完了状態を判定（メインタスクとサブタスクを考慮）
+   * タグの色の選択肢
    */
-  static isTaskFullyCompleted(task: EnhancedTask): boolean {
-    if (!task.completed) return false;
-    if (task.subTasks.length === 0) return true;
-    return task.subTasks.every(subTask => subTask.completed);
-  }
+  static readonly COLORS = [
+    '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+    '#3b82f6', '#6366f1', '#a855f7', '#ec4899', '#6b7280'
+  ];
 
   /**
-   * タスクの総進捗を計算（メインタスク + サブタスク）
+   * タグ名を正規化（前後の空白と先頭の#を除去）
    */
-  static calculateTotalProgress(task: EnhancedTask): number {
-    if (task.subTasks.length === 0) {
-      return task.completed ? 100 : 0;
-    }
-
-    const subTaskProgress = SubTaskUtils.calculateProgress(task.subTasks);
-    const mainTaskWeight = 0.3; // メインタスクの重み
-    const subTaskWeight = 0.7;  // サブタスクの重み
-
-    const mainProgress = task.completed ? 100 : 0;
-    return Math.round(mainProgress * mainTaskWeight + subTaskProgress.progress * subTaskWeight);
+  static normalizeName(name: string): string {
+    return name.trim().replace(/^#+/, '').trim();
   }
 
   /**
-   * 見積もり時間の精度を計算
+   * タグ名からデフォルトの色を決定（同じ名前には常に同じ色）
    */
-  static calculateTimeAccuracy(task: EnhancedTask): number | null {
-    if (!task.estimatedMinutes || !task.actualMinutes) return null;
-    
-    const accuracy = 100 - Math.abs(task.estimatedMinutes - task.actualMinutes) / task.estimatedMinutes * 100;
-    return Math.max(0, Math.round(accuracy));
+  static getDefaultColor(name: string): string {
+    let hash = 0;
+    for (let i = 0; i < name.length; i++) {
+      hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+    }
+    return TagUtils.COLORS[hash % TagUtils.COLORS.length];
   }
 
   /**
-   * タスクの複雑度を計算
+   * 入力中の文字列に一致するタグを候補として取得
    */
-  static calculateComplexity(task: EnhancedTask): 'simple' | 'medium' | 'complex' {
-    let score = 0;
-    
-    // サブタスクの数
-    if (task.subTasks.length > 5) score += 2;
-    else if (task.subTasks.length > 2) score += 1;
-    
-    // メモの長さ
-    if (task.memo && task.memo.length > 200) score += 2;
-    else if (task.memo && task.memo.length > 50) score += 1;
-    
-    // 見積もり時間
-    if (task.estimatedMinutes && task.estimatedMinutes > 120) score += 2;
-    else if (task.estimatedMinutes && task.estimatedMinutes > 60) score += 1;
-    
-    // 優先度
-    if (task.priority === 'high') score += 1;
-    
-    if (score >= 4) return 'complex';
-    if (score >= 2) return 'medium';
-    return 'simple';
+  static suggest(tags: TaskTag[], input: string, exclude: string[] = []): TaskTag[] {
+    const keyword = TagUtils.normalizeName(input).toLowerCase();
+    return tags
+      .filter(tag => !exclude.includes(tag.name))
+      .filter(tag => !keyword || tag.name.toLowerCase().includes(keyword))
+      .sort((a, b) => {
+        // 前方一致を優先
+        const aPrefix = a.name.toLowerCase().startsWith(keyword) ? 0 : 1;
+        const bPrefix = b.name.toLowerCase().startsWith(keyword) ? 0 : 1;
+        return aPrefix - bPrefix || a.name.localeCompare(b.name, 'ja');
+      });
   }
 
   /**
-   * 🔥 追加: タスクをソートする関数
+   * タスクのタグ一覧からタグ名を置き換え（重複は除去）
    */
-  static sortTasks(tasks: EnhancedTask[], sortConfig: TaskSortConfig): EnhancedTask[] {
-    const { sortBy, sortOrder } = sortConfig;
-    
-    const sorted = [...tasks].sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortBy) {
-        case 'priority':
-          // 優先度: high(3) > medium(2) > low(1)
-          const priorityOrder = { 'high': 3, 'medium': 2, 'low': 1 };
-          comparison = priorityOrder[b.priority] - priorityOrder[a.priority];
-          break;
-          
-        case 'deadline':
-          // 期限: 近い順（期限なしは最後）
-          if (!a.deadline && !b.deadline) comparison = 0;
-          else if (!a.deadline) comparison = 1;
-          else if (!b.deadline) comparison = -1;
-          else comparison = new Date(a.deadline).getTime() - new Date(b.deadline).getTime();
-          break;
-          
-        case 'created':
-          // 作成日: 新しい順
-          comparison = (b.createdAt || 0) - (a.createdAt || 0);
-          break;
-          
-        case 'progress':
-          // 進捗: 高い順
-          const progressA = TaskUtils.calculateTotalProgress(a);
-          const progressB = TaskUtils.calculateTotalProgress(b);
-          comparison = progressB - progressA;
-          break;
-          
-        case 'alphabetical':
-          // あいうえお順
-          comparison = a.text.localeCompare(b.text, 'ja');
-          break;
-          
-        default:
-          comparison = 0;
-      }
-      
-      // ソート順序を適用
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
-    
-    return sorted;
+  static replaceTag(tags: string[], from: string, to: string): string[] {
+    return Array.from(new Set(tags.map(tag => (tag === from ? to : tag))));
   }
 
   /**
-   * 🔥 追加: 期限の緊急度を計算
+   * タスクのグループ化キー（先頭のタグ、タグなしは空文字）
+   */
+  static getPrimaryTag(task: EnhancedTask): string {
+    if (!task.tags || task.tags.length === 0) return '';
+    return [...task.tags].sort((a, b) => a.localeCompare(b, 'ja'))[0];
+  }
+}
+
+/**
+ * プロジェクトのユーティリティ関数
+ */
+export class ProjectUtils {
+  // 未分類タスクを表すキー（絞り込み・集計用）
+  static readonly UNASSIGNED = 'none';
+
+  // 選択可能なアイコン
+  static readonly ICONS = ['📁', '💼', '🏠', '📚', '💡', '🎯', '🛒', '💪', '✈️', '🎨'];
+
+  /**
+   * タスクの集計キー（プロジェクトID、未分類なら UNASSIGNED）を取得
+   */
+  static getProjectKey(task: EnhancedTask): string {
+    return task.projectId || ProjectUtils.UNASSIGNED;
+  }
+
+  /**
+   * プロジェクト別にタスクを集計
+   */
+  static calculateStats(tasks: EnhancedTask[]): { [projectId: string]: ProjectTaskStats } {
+    return tasks.reduce((stats, task) => {
+      const key = ProjectUtils.getProjectKey(task);
+      const current = stats[key] || { total: 0, completed: 0, estimatedMinutes: 0 };
+      stats[key] = {
+        total: current.total + 1,
+        completed: current.completed + (task.completed ? 1 : 0),
+        estimatedMinutes: current.estimatedMinutes + (task.estimatedMinutes || 0)
+      };
+      return stats;
+    }, {} as { [projectId: string]: ProjectTaskStats });
+  }
+}
+
+/**
+ * 見積もりと実績の比較のユーティリティ関数
+ * 見積もり時間と実績時間の両方があるタスクだけを集計する
+ */
+export class EstimateReportUtils {
+  /**
+   * 集計対象のタスク（見積もりと実績の両方がある）を取得
+   */
+  static getMeasuredTasks(tasks: EnhancedTask[]): EnhancedTask[] {
+    return tasks.filter(task => !!task.estimatedMinutes && !!task.actualMinutes);
+  }
+
+  /**
+   * タスクごとの比較（見積もりとの差が大きい順）
+   */
+  static byTask(tasks: EnhancedTask[]): EstimateComparison[] {
+    return EstimateReportUtils.getMeasuredTasks(tasks)
+      .map(task => EstimateReportUtils.summarize(task.id, task.text, [task]))
+      .sort((a, b) => Math.abs(b.ratio - 1) - Math.abs(a.ratio - 1));
+  }
+
+  /**
+   * 優先度ごとの比較
+   */
+  static byPriority(tasks: EnhancedTask[]): EstimateComparison[] {
+    const measured = EstimateReportUtils.getMeasuredTasks(tasks);
+    const labels: { [priority in PriorityLevel]: string } = { high: '高優先度', medium: '中優先度', low: '低優先度' };
+
+    return (['high', 'medium', 'low'] as PriorityLevel[])
+      .map(priority => EstimateReportUtils.summarize(priority, labels[priority], measured.filter(task => task.priority === priority)))
+      .filter(comparison => comparison.taskCount > 0);
+  }
+
+  /**
+   * タグごとの比較（複数のタグを持つタスクはそれぞれのタグで集計、タスク数の多い順）
+   */
+  static byTag(tasks: EnhancedTask[]): EstimateComparison[] {
+    const tasksByTag = new Map<string, EnhancedTask[]>();
+    EstimateReportUtils.getMeasuredTasks(tasks).forEach(task => {
+      const tags = task.tags && task.tags.length > 0 ? task.tags : [''];
+      tags.forEach(tag => tasksByTag.set(tag, [...(tasksByTag.get(tag) || []), task]));
+    });
+
+    return Array.from(tasksByTag.entries())
+      .map(([tag, tagTasks]) => EstimateReportUtils.summarize(tag, tag || 'タグなし', tagTasks))
+      .sort((a, b) => b.taskCount - a.taskCount || a.label.localeCompare(b.label, 'ja'));
+  }
+
+  /**
+   * タスクの集まりの見積もりと実績を集計
+   */
+  private static summarize(key: string, label: string, tasks: EnhancedTask[]): EstimateComparison {
+    const estimatedMinutes = tasks.reduce((sum, task) => sum + (task.estimatedMinutes || 0), 0);
+    const actualMinutes = tasks.reduce((sum, task) => sum + (task.actualMinutes || 0), 0);
+    const accuracies = tasks.map(task => TaskUtils.calculateTimeAccuracy(task) || 0);
+
+    return {
+      key,
+      label,
+      taskCount: tasks.length,
+      estimatedMinutes,
+      actualMinutes,
+      ratio: estimatedMinutes > 0 ? actualMinutes / estimatedMinutes : 0,
+      accuracy: accuracies.length > 0 ? Math.round(accuracies.reduce((sum, a) => sum + a, 0) / accuracies.length) : 0
+    };
+  }
+}
+
+/**
+ * ボード表示のユーティリティ関数
+ */
+export class BoardUtils {
+  // 列の分け方の選択肢
+  static readonly MODE_OPTIONS: { value: BoardColumnMode; label: string }[] = [
+    { value: 'status', label: '作業状態' },
+    { value: 'priority', label: '優先度' },
+    { value: 'deadline', label: '期限' }
+  ];
+
+  // 列の定義
+  static readonly COLUMNS: { [mode in BoardColumnMode]: BoardColumn[] } = {
+    status: [
+      { id: 'todo', label: '未着手', icon: '📝', droppable: true },
+      { id: 'inProgress', label: '進行中', icon: '🔄', droppable: true },
+      { id: 'done', label: '完了', icon: '✅', droppable: true }
+    ],
+    priority: [
+      { id: 'high', label: '高', icon: '🔥', droppable: true },
+      { id: 'medium', label: '中', icon: '⚡', droppable: true },
+      { id: 'low', label: '低', icon: '🌱', droppable: true }
+    ],
+    deadline: [
+      { id: 'overdue', label: '期限切れ', icon: '⚠️', droppable: false },
+      { id: 'today', label: '今日', icon: '📅', droppable: true },
+      { id: 'tomorrow', label: '明日', icon: '🌅', droppable: true },
+      { id: 'week', label: '7日以内', icon: '🗓️', droppable: true },
+      { id: 'later', label: 'それ以降', icon: '🔭', droppable: true },
+      { id: 'none', label: '期限なし', icon: '➖', droppable: true }
+    ]
+  };
+
+  // 期限の列へ移動したときに設定する期限（今日からの日数）
+  private static readonly BUCKET_OFFSETS: { [bucket: string]: number } = {
+    today: 0,
+    tomorrow: 1,
+    week: 7,
+    later: 14
+  };
+
+  /**
+   * タスクの作業状態を取得（完了済みなら done）
+   */
+  static getStatus(task: EnhancedTask): TaskStatus {
+    if (task.completed) return 'done';
+    return task.status === 'inProgress' ? 'inProgress' : 'todo';
+  }
+
+  /**
+   * タスクが属する列のIDを取得
+   */
+  static getColumnId(task: EnhancedTask, mode: BoardColumnMode, now: number = Date.now()): string {
+    switch (mode) {
+      case 'status': return BoardUtils.getStatus(task);
+      case 'priority': return task.priority;
+      case 'deadline': return BoardUtils.getDeadlineBucket(task, now);
+    }
+  }
+
+  /**
+   * 期限の区分を取得（完了済みで期限日を過ぎたものも期限切れの列に入れる）
+   */
+  static getDeadlineBucket(task: EnhancedTask, now: number = Date.now()): string {
+    if (!task.deadline) return 'none';
+    if (DueUtils.isOverdue(task, now)) return 'overdue';
+
+    const today = DateUtils.toDateString(new Date(now));
+    if (task.deadline < today) return 'overdue';
+    if (task.deadline === today) return 'today';
+    if (task.deadline === DateUtils.addDays(today, 1)) return 'tomorrow';
+    if (task.deadline <= DateUtils.addDays(today, BoardUtils.BUCKET_OFFSETS.week)) return 'week';
+    return 'later';
+  }
+
+  /**
+   * 期限の列へ移動したときに設定する期限（'' は期限を解除）
+   */
+  static getBucketDeadline(bucket: string, now: number = Date.now()): string {
+    const offset = BoardUtils.BUCKET_OFFSETS[bucket];
+    if (offset === undefined) return '';
+    return DateUtils.addDays(DateUtils.toDateString(new Date(now)), offset);
+  }
+
+  /**
+   * タスクを列ごとに振り分け
+   */
+  static groupByColumn(tasks: EnhancedTask[], mode: BoardColumnMode, now: number = Date.now()): { [columnId: string]: EnhancedTask[] } {
+    const grouped: { [columnId: string]: EnhancedTask[] } = {};
+    BoardUtils.COLUMNS[mode].forEach(column => {
+      grouped[column.id] = [];
+    });
+    tasks.forEach(task => {
+      grouped[BoardUtils.getColumnId(task, mode, now)]?.push(task);
+    });
+    return grouped;
+  }
+}
+
+/**
+ * 重要度と緊急度のマトリクスのユーティリティ関数
+ */
+export class EisenhowerUtils {
+  // この値以上なら重要・緊急として扱う
+  static readonly IMPORTANCE_THRESHOLD = 50;
+  static readonly URGENCY_THRESHOLD = 55;
+
+  // 区分の定義（表示順は左上・右上・左下・右下）
+  static readonly QUADRANTS: EisenhowerQuadrantInfo[] = [
+    { id: 'do', label: '今すぐやる', description: '重要かつ緊急', icon: '🔥', important: true, urgent: true },
+    { id: 'schedule', label: '計画する', description: '重要だが緊急ではない', icon: '🗓️', important: true, urgent: false },
+    { id: 'delegate', label: '任せる', description: '緊急だが重要ではない', icon: '🤝', important: false, urgent: true },
+    { id: 'eliminate', label: 'やめる', description: '重要でも緊急でもない', icon: '🗑️', important: false, urgent: false }
+  ];
+
+  // 重要度が未設定のタスクで優先度から求める重要度
+  private static readonly PRIORITY_IMPORTANCE: { [priority in PriorityLevel]: number } = {
+    high: 70,
+    medium: 50,
+    low: 30
+  };
+
+  // 区分を移動したときに、境界の反対側にあるスコアを置き換える値
+  private static readonly MOVED_SCORES = {
+    important: 60,
+    unimportant: 30,
+    urgent: 85,
+    notUrgent: 20
+  };
+
+  /**
+   * タスクの重要度と緊急度を取得（未設定のスコアは優先度・期限から求める）
+   */
+  static getScores(task: EnhancedTask, now: number = Date.now()): PriorityScores {
+    return {
+      importance: typeof task.importance === 'number' ? task.importance : EisenhowerUtils.PRIORITY_IMPORTANCE[task.priority],
+      urgency: typeof task.urgency === 'number' ? task.urgency : calculateUrgencyScore(task.deadline, task.dueTime, new Date(now))
+    };
+  }
+
+  /**
+   * スコアの区分を取得
+   */
+  static getQuadrantForScores(scores: PriorityScores): EisenhowerQuadrant {
+    const important = scores.importance >= EisenhowerUtils.IMPORTANCE_THRESHOLD;
+    const urgent = scores.urgency >= EisenhowerUtils.URGENCY_THRESHOLD;
+    if (important) return urgent ? 'do' : 'schedule';
+    return urgent ? 'delegate' : 'eliminate';
+  }
+
+  /**
+   * タスクの区分を取得
+   */
+  static getQuadrant(task: EnhancedTask, now: number = Date.now()): EisenhowerQuadrant {
+    return EisenhowerUtils.getQuadrantForScores(EisenhowerUtils.getScores(task, now));
+  }
+
+  /**
+   * 区分へ移動したときのスコア（境界の同じ側にあるスコアはそのまま保つ）
+   */
+  static getScoresForQuadrant(task: EnhancedTask, quadrant: EisenhowerQuadrant, now: number = Date.now()): PriorityScores {
+    const info = EisenhowerUtils.QUADRANTS.find(q => q.id === quadrant)!;
+    const { importance, urgency } = EisenhowerUtils.getScores(task, now);
+    const isImportant = importance >= EisenhowerUtils.IMPORTANCE_THRESHOLD;
+    const isUrgent = urgency >= EisenhowerUtils.URGENCY_THRESHOLD;
+
+    return {
+      importance: info.important === isImportant
+        ? importance
+        : info.important ? EisenhowerUtils.MOVED_SCORES.important : EisenhowerUtils.MOVED_SCORES.unimportant,
+      urgency: info.urgent === isUrgent
+        ? urgency
+        : info.urgent ? EisenhowerUtils.MOVED_SCORES.urgent : EisenhowerUtils.MOVED_SCORES.notUrgent
+    };
+  }
+
+  /**
+   * 手動で選んだ優先度に合わせて重要度を調整（高なら70以上、低なら30以下、中なら40〜60）
+   */
+  static alignImportance(importance: number, priority: PriorityLevel): number {
+    switch (priority) {
+      case 'high': return Math.max(importance, 70);
+      case 'low': return Math.min(importance, 30);
+      default: return Math.max(40, Math.min(60, importance));
+    }
+  }
+
+  /**
+   * 新しいタスクの重要度と緊急度（重要度は内容から求め、選んだ優先度に合わせる）
+   */
+  static createScores(text: string, priority: PriorityLevel, deadline?: string, dueTime?: string, now: number = Date.now()): PriorityScores {
+    return {
+      importance: EisenhowerUtils.alignImportance(calculateImportanceScore(text), priority),
+      urgency: calculateUrgencyScore(deadline, dueTime, new Date(now))
+    };
+  }
+
+  /**
+   * タスクを区分ごとに分ける
+   */
+  static groupByQuadrant(tasks: EnhancedTask[], now: number = Date.now()): { [quadrant in EisenhowerQuadrant]: EnhancedTask[] } {
+    const grouped: { [quadrant in EisenhowerQuadrant]: EnhancedTask[] } = { do: [], schedule: [], delegate: [], eliminate: [] };
+    tasks.forEach(task => grouped[EisenhowerUtils.getQuadrant(task, now)].push(task));
+    return grouped;
+  }
+}
+
+/**
+ * 優先度の自動調整のユーティリティ関数
+ */
+export class PriorityEscalationUtils {
+  static readonly DEFAULT_SETTINGS: PriorityEscalationSettings = {
+    enabled: true,
+    overrideManual: false
+  };
+
+  private static readonly RANK: { [priority in PriorityLevel]: number } = {
+    low: 0,
+    medium: 1,
+    high: 2
+  };
+
+  /**
+   * 期限の近さから求め直した優先度が今より高ければ、その優先度を返す（上げるだけで下げない）
+   */
+  static getEscalatedPriority(task: EnhancedTask, settings: PriorityEscalationSettings, now: number = Date.now()): PriorityLevel | null {
+    if (!settings.enabled || task.completed || !task.deadline) return null;
+    // スヌーズ中のタスクは開始日まで見直さない
+    if (SnoozeUtils.isSnoozed(task, now)) return null;
+    if (task.priorityManual && !settings.overrideManual) return null;
+
+    const recalculated = calculateDetailedPriority(task.text, task.deadline, task.dueTime, new Date(now));
+    return PriorityEscalationUtils.RANK[recalculated] > PriorityEscalationUtils.RANK[task.priority] ? recalculated : null;
+  }
+
+  /**
+   * 自動で変更した優先度の確認待ちのタスク（新しい変更順）
+   */
+  static getPendingChanges(tasks: EnhancedTask[]): EnhancedTask[] {
+    return tasks
+      .filter(task => !!task.autoPriorityChange && !task.completed)
+      .sort((a, b) => b.autoPriorityChange!.at - a.autoPriorityChange!.at);
+  }
+}
+
+/**
+ * 開始日（スヌーズ）のユーティリティ関数
+ */
+export class SnoozeUtils {
+  // スヌーズの選択肢
+  static readonly OPTIONS: { value: SnoozeOption; label: string }[] = [
+    { value: 'tomorrow', label: '明日' },
+    { value: 'nextMonday', label: '来週の月曜日' },
+    { value: 'nextMonth', label: '来月' }
+  ];
+
+  /**
+   * スヌーズの選択肢から開始日を求める（YYYY-MM-DD形式）
+   */
+  static getStartDate(option: SnoozeOption, now: number = Date.now()): string {
+    const today = DateUtils.toDateString(new Date(now));
+    switch (option) {
+      case 'tomorrow':
+        return DateUtils.addDays(today, 1);
+      case 'nextMonday': {
+        // 今日が月曜日なら翌週の月曜日
+        const daysUntilMonday = (8 - new Date(now).getDay()) % 7 || 7;
+        return DateUtils.addDays(today, daysUntilMonday);
+      }
+      case 'nextMonth': {
+        const date = new Date(now);
+        return DateUtils.toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 1));
+      }
+    }
+  }
+
+  /**
+   * スヌーズ中か（開始日が明日以降の未完了タスク）
+   */
+  static isSnoozed(task: EnhancedTask, now: number = Date.now()): boolean {
+    return !task.completed && !!task.startDate && task.startDate > DateUtils.toDateString(new Date(now));
+  }
+
+  /**
+   * 開始日の表示（例: 1/31（金）まで）
+   */
+  static formatStartDate(startDate: string): string {
+    const date = DateUtils.parseDateString(startDate);
+    const weekday = ['日', '月', '火', '水', '木', '金', '土'][date.getDay()];
+    return `${date.getMonth() + 1}/${date.getDate()}（${weekday}）まで`;
+  }
+}
+
+/**
+ * 保存ビュー・グループ表示のユーティリティ関数
+ */
+export class TaskViewUtils {
+  // 組み込みビュー（常にタブとして表示）
+  static readonly BUILT_IN_VIEWS: BuiltInTaskView[] = [
+    { id: 'builtin-today', name: '今日', icon: '📅', source: 'today', query: '', sortConfig: { sortBy: 'deadline', sortOrder: 'asc' }, grouping: 'none' },
+    { id: 'builtin-overdue', name: '期限切れ', icon: '⚠️', source: 'overdue', query: '', sortConfig: { sortBy: 'deadline', sortOrder: 'asc' }, grouping: 'none' },
+    { id: 'builtin-week', name: '今週', icon: '🗓️', source: 'week', query: '', sortConfig: { sortBy: 'deadline', sortOrder: 'asc' }, grouping: 'none' },
+    { id: 'builtin-high', name: '高優先度', icon: '🔥', source: 'highPriority', query: '-completed', sortConfig: { sortBy: 'deadline', sortOrder: 'asc' }, grouping: 'project' },
+    { id: 'builtin-snoozed', name: 'スヌーズ中', icon: '💤', source: 'snoozed', query: '', sortConfig: { sortBy: 'deadline', sortOrder: 'asc' }, grouping: 'none' }
+  ];
+
+  // グループ表示の選択肢
+  static readonly GROUPING_OPTIONS: { value: TaskGrouping; label: string }[] = [
+    { value: 'none', label: 'なし' },
+    { value: 'tag', label: 'タグ' },
+    { value: 'project', label: 'プロジェクト' },
+    { value: 'priority', label: '優先度' }
+  ];
+
+  /**
+   * 今週の終わり（日曜日）までの日数を取得
+   */
+  static getDaysUntilEndOfWeek(now: number = Date.now()): number {
+    return (7 - new Date(now).getDay()) % 7;
+  }
+
+  /**
+   * グループ表示でのタスクの所属グループのキーを取得
+   */
+  static getGroupKey(task: EnhancedTask, grouping: TaskGrouping): string {
+    switch (grouping) {
+      case 'tag': return TagUtils.getPrimaryTag(task);
+      case 'project': return ProjectUtils.getProjectKey(task);
+      case 'priority': return task.priority;
+      default: return '';
+    }
+  }
+
+  /**
+   * グループの順に並べ替え（グループ内は元の並び順を保つ）
+   * タグは名前順、プロジェクトは作成順で、タグなし・未分類は最後
+   */
+  static sortByGroup(tasks: EnhancedTask[], grouping: TaskGrouping, projects: TaskProject[]): EnhancedTask[] {
+    if (grouping === 'none') return tasks;
+
+    let orderedKeys: string[];
+    if (grouping === 'priority') {
+      orderedKeys = ['high', 'medium', 'low'];
+    } else if (grouping === 'project') {
+      orderedKeys = [...projects.map(project => project.id), ProjectUtils.UNASSIGNED];
+    } else {
+      const tags = Array.from(new Set(tasks.map(task => TagUtils.getPrimaryTag(task))))
+        .filter(tag => tag !== '')
+        .sort((a, b) => a.localeCompare(b, 'ja'));
+      orderedKeys = [...tags, ''];
+    }
+
+    const rank = new Map(orderedKeys.map((key, index) => [key, index]));
+    const getRank = (task: EnhancedTask) => rank.get(TaskViewUtils.getGroupKey(task, grouping)) ?? orderedKeys.length;
+    return [...tasks].sort((a, b) => getRank(a) - getRank(b));
+  }
+}
+
+/**
+ * リマインダーの選択肢
+ */
+export interface ReminderPreset {
+  minutes: number;               // 期限の何分前か
+  label: string;
+}
+
+/**
+ * 期限日時・リマインダーのユーティリティ関数
+ */
+export class DueUtils {
+  static readonly REMINDER_PRESETS: ReminderPreset[] = [
+    { minutes: 0, label: '期限の時刻' },
+    { minutes: 5, label: '5分前' },
+    { minutes: 15, label: '15分前' },
+    { minutes: 30, label: '30分前' },
+    { minutes: 60, label: '1時間前' },
+    { minutes: 180, label: '3時間前' },
+    { minutes: 24 * 60, label: '1日前' },
+    { minutes: 2 * 24 * 60, label: '2日前' },
+    { minutes: 7 * 24 * 60, label: '1週間前' }
+  ];
+
+  /**
+   * HH:mm 形式の時刻かどうかを判定
+   */
+  static isValidTime(time: string | undefined | null): time is string {
+    if (!time) return false;
+    const match = time.match(/^(\d{2}):(\d{2})$/);
+    return !!match && Number(match[1]) < 24 && Number(match[2]) < 60;
+  }
+
+  /**
+   * 期限日時のタイムスタンプを取得（時刻未設定なら期限日の終わり、期限なしは null）
+   */
+  static getDueAt(task: Pick<EnhancedTask, 'deadline' | 'dueTime'>): number | null {
+    if (!task.deadline) return null;
+
+    const date = DateUtils.parseDateString(task.deadline);
+    if (DueUtils.isValidTime(task.dueTime)) {
+      const [hours, minutes] = (task.dueTime as string).split(':').map(Number);
+      date.setHours(hours, minutes, 0, 0);
+    } else {
+      date.setHours(23, 59, 59, 999);
+    }
+    return date.getTime();
+  }
+
+  /**
+   * 期限を過ぎているかどうか（完了済みは対象外）
+   */
+  static isOverdue(task: EnhancedTask, now: number = Date.now()): boolean {
+    const dueAt = DueUtils.getDueAt(task);
+    return !task.completed && dueAt !== null && dueAt < now;
+  }
+
+  /**
+   * 今日が期限で、まだ期限の時刻を過ぎていないかどうか
+   */
+  static isDueToday(task: EnhancedTask, now: number = Date.now()): boolean {
+    return !task.completed &&
+      task.deadline === DateUtils.toDateString(new Date(now)) &&
+      !DueUtils.isOverdue(task, now);
+  }
+
+  /**
+   * 指定した日数以内に期限を迎えるかどうか（期限切れは含まない）
+   */
+  static isDueWithin(task: EnhancedTask, days: number, now: number = Date.now()): boolean {
+    const dueAt = DueUtils.getDueAt(task);
+    if (task.completed || dueAt === null || dueAt < now) return false;
+
+    // 日数は暦日で数える（N日後の終わりまで）
+    const limit = DateUtils.parseDateString(DateUtils.addDays(DateUtils.toDateString(new Date(now)), days));
+    limit.setHours(23, 59, 59, 999);
+    return dueAt <= limit.getTime();
+  }
+
+  /**
+   * 期限の表示文字列（例: 2025-01-31 15:00）
+   */
+  static formatDue(task: Pick<EnhancedTask, 'deadline' | 'dueTime'>): string {
+    if (!task.deadline) return '';
+    return DueUtils.isValidTime(task.dueTime) ? `${task.deadline} ${task.dueTime}` : task.deadline;
+  }
+
+  /**
+   * リマインダーの説明文を取得
+   */
+  static describeReminder(minutes: number): string {
+    const preset = DueUtils.REMINDER_PRESETS.find(p => p.minutes === minutes);
+    if (preset) return preset.label;
+    if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}日前`;
+    if (minutes % 60 === 0) return `${minutes / 60}時間前`;
+    return `${minutes}分前`;
+  }
+
+  /**
+   * リマインダーの通知日時を取得（期限なしは null）
+   */
+  static getReminderAt(task: EnhancedTask, minutesBefore: number): number | null {
+    const dueAt = DueUtils.getDueAt(task);
+    return dueAt === null ? null : dueAt - minutesBefore * 60 * 1000;
+  }
+
+  /**
+   * リマインダーを正規化（重複を除き、期限に遠い順に並べる）
+   */
+  static normalizeReminders(reminders: number[]): number[] {
+    return Array.from(new Set(reminders.filter(minutes => Number.isFinite(minutes) && minutes >= 0)))
+      .sort((a, b) => b - a);
+  }
+}
+
+/**
+ * アーカイブ・ゴミ箱のユーティリティ関数
+ */
+export class RetentionUtils {
+  static readonly DEFAULT_SETTINGS: TaskRetentionSettings = {
+    archiveAfterDays: 7,
+    trashRetentionDays: 30
+  };
+
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * ゴミ箱にあるタスクかどうか
+   */
+  static isTrashed(task: EnhancedTask): boolean {
+    return !!task.deletedAt;
+  }
+
+  /**
+   * アーカイブ済み（ゴミ箱にはない）タスクかどうか
+   */
+  static isArchived(task: EnhancedTask): boolean {
+    return !!task.archivedAt && !task.deletedAt;
+  }
+
+  /**
+   * 自動アーカイブの対象かどうか
+   * 繰り返しルールを保持しているタスク（シリーズ定義）はアーカイブしない
+   */
+  static shouldArchive(task: EnhancedTask, settings: TaskRetentionSettings, now: number): boolean {
+    if (settings.archiveAfterDays <= 0) return false;
+    return task.completed &&
+      !!task.completedAt &&
+      !!task.scheduledForDeletion &&
+      !task.archivedAt &&
+      !task.deletedAt &&
+      !task.recurrence &&
+      now - task.completedAt > settings.archiveAfterDays * RetentionUtils.DAY_MS;
+  }
+
+  /**
+   * ゴミ箱の保持期間が経過したかどうか
+   */
+  static shouldPurge(task: EnhancedTask, settings: TaskRetentionSettings, now: number): boolean {
+    return !!task.deletedAt && now - task.deletedAt > settings.trashRetentionDays * RetentionUtils.DAY_MS;
+  }
+
+  /**
+   * 完了済みタスクが自動アーカイブされるまでの日数（自動アーカイブしない場合は null）
+   */
+  static getDaysUntilArchive(task: EnhancedTask, settings: TaskRetentionSettings, now: number): number | null {
+    if (!task.completed || !task.completedAt || settings.archiveAfterDays <= 0 || task.recurrence) return null;
+    const elapsedDays = Math.floor((now - task.completedAt) / RetentionUtils.DAY_MS);
+    return Math.max(0, settings.archiveAfterDays - elapsedDays);
+  }
+
+  /**
+   * ゴミ箱のタスクが完全に削除されるまでの日数
+   */
+  static getDaysUntilPurge(task: EnhancedTask, settings: TaskRetentionSettings, now: number): number {
+    if (!task.deletedAt) return settings.trashRetentionDays;
+    const elapsedDays = Math.floor((now - task.deletedAt) / RetentionUtils.DAY_MS);
+    return Math.max(0, settings.trashRetentionDays - elapsedDays);
+  }
+}
+
+/**
+ * タスク間の依存関係（ブロック関係）のユーティリティ関数
+ */
+export class DependencyUtils {
+  /**
+   * タスクをブロックしている未完了のタスクを取得
+   */
+  static getOpenBlockers(task: EnhancedTask, tasks: EnhancedTask[]): EnhancedTask[] {
+    const blockerIds = task.blockedBy || [];
+    return tasks.filter(t => blockerIds.includes(t.id) && !t.completed);
+  }
+
+  /**
+   * 未完了のブロッカーがあるかどうかを判定
+   */
+  static isBlocked(task: EnhancedTask, tasks: EnhancedTask[]): boolean {
+    return DependencyUtils.getOpenBlockers(task, tasks).length > 0;
+  }
+
+  /**
+   * このタスクがブロックしているタスク（逆方向の関係）を取得
+   */
+  static getBlockedTasks(taskId: string, tasks: EnhancedTask[]): EnhancedTask[] {
+    return tasks.filter(t => t.blockedBy?.includes(taskId));
+  }
+
+  /**
+   * 「taskId は blockerId にブロックされる」関係を追加すると循環するかどうかを判定
+   * blockerId から blockedBy を辿って taskId に到達できれば循環となる
+   */
+  static wouldCreateCycle(taskId: string, blockerId: string, tasks: EnhancedTask[]): boolean {
+    if (taskId === blockerId) return true;
+
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const visited = new Set<string>();
+    const stack = [blockerId];
+
+    while (stack.length > 0) {
+      const currentId = stack.pop() as string;
+      if (currentId === taskId) return true;
+      if (visited.has(currentId)) continue;
+      visited.add(currentId);
+
+      const current = taskMap.get(currentId);
+      (current?.blockedBy || []).forEach(id => stack.push(id));
+    }
+
+    return false;
+  }
+
+  /**
+   * 「着手可能順」に並べる（トポロジカルソート）
+   * 未完了のブロッカーがないタスクから順に、同じ段階では重要度スコアの高い順に並べる
+   * 一覧外の未完了タスクにブロックされているタスクと完了済みタスクは末尾に置く
+   * @param tasks 並べ替えるタスク
+   * @param allTasks ブロッカーの完了状態を判定するための全タスク（省略時は tasks）
+   */
+  static sortByReadiness(tasks: EnhancedTask[], allTasks: EnhancedTask[] = tasks): EnhancedTask[] {
+    const openTasks = tasks.filter(t => !t.completed);
+    const completedTasks = tasks.filter(t => t.completed);
+    const openIds = new Set(openTasks.map(t => t.id));
+    const byScore = (a: EnhancedTask, b: EnhancedTask) =>
+      TaskUtils.calculateImportanceScore(b) - TaskUtils.calculateImportanceScore(a);
+
+    // 一覧内の未完了ブロッカーの数（入次数）を計算し、一覧外のブロッカーがあるタスクは除外
+    const inDegree = new Map<string, number>();
+    const externallyBlocked = new Set<string>();
+    openTasks.forEach(task => {
+      const openBlockers = DependencyUtils.getOpenBlockers(task, allTasks);
+      if (openBlockers.some(blocker => !openIds.has(blocker.id))) {
+        externallyBlocked.add(task.id);
+      }
+      inDegree.set(task.id, openBlockers.filter(blocker => openIds.has(blocker.id)).length);
+    });
+
+    const result: EnhancedTask[] = [];
+    let ready = openTasks
+      .filter(t => inDegree.get(t.id) === 0 && !externallyBlocked.has(t.id))
+      .sort(byScore);
+
+    while (ready.length > 0) {
+      const current = ready.shift() as EnhancedTask;
+      result.push(current);
+
+      // ブロックが解除されたタスクを次の候補に加える
+      const unlocked = DependencyUtils.getBlockedTasks(current.id, openTasks).filter(t => {
+        const remaining = (inDegree.get(t.id) || 0) - 1;
+        inDegree.set(t.id, remaining);
+        return remaining === 0 && !externallyBlocked.has(t.id);
+      });
+      ready = [...ready, ...unlocked].sort(byScore);
+    }
+
+    // 一覧外にブロックされたタスク（と万一の循環）は末尾に
+    const remaining = openTasks.filter(t => !result.includes(t)).sort(byScore);
+    return [...result, ...remaining, ...completedTasks];
+  }
+}
+
+/**
+ * 繰り返しルールのユーティリティ関数
+ */
+export class RecurrenceUtils {
+  /**
+   * 曜日の表示名
+   */
+  static readonly WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+  /**
+   * ルールが有効かどうかを判定
+   */
+  static isValid(rule: RecurrenceRule): boolean {
+    switch (rule.type) {
+      case 'daily':
+      case 'afterCompletion':
+        return (rule.interval ?? 1) >= 1;
+      case 'weekly':
+        return !!rule.weekdays && rule.weekdays.length > 0;
+      case 'monthly':
+        return !!rule.lastBusinessDay || (!!rule.monthDay && rule.monthDay >= 1 && rule.monthDay <= 31);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 指定した月の最終営業日（土日を除く最終日）を取得
+   */
+  static getLastBusinessDay(year: number, month: number): Date {
+    const date = new Date(year, month, DateUtils.getDaysInMonth(year, month));
+    while (date.getDay() === 0 || date.getDay() === 6) {
+      date.setDate(date.getDate() - 1);
+    }
+    return date;
+  }
+
+  /**
+   * 指定した月における繰り返し対象日を取得（月末を超える日付は月末に丸める）
+   */
+  private static getMonthlyDate(rule: RecurrenceRule, year: number, month: number): Date {
+    if (rule.lastBusinessDay) {
+      return RecurrenceUtils.getLastBusinessDay(year, month);
+    }
+    const day = Math.min(rule.monthDay || 1, DateUtils.getDaysInMonth(year, month));
+    return new Date(year, month, day);
+  }
+
+  /**
+   * 基準日の次の回の日付を計算（基準日より後の最初の該当日）
+   */
+  private static advance(rule: RecurrenceRule, baseDate: string): string {
+    const interval = Math.max(1, rule.interval ?? 1);
+
+    switch (rule.type) {
+      case 'daily':
+      case 'afterCompletion':
+        return DateUtils.addDays(baseDate, interval);
+
+      case 'weekly': {
+        const weekdays = rule.weekdays || [];
+        for (let offset = 1; offset <= 7; offset++) {
+          const candidate = DateUtils.addDays(baseDate, offset);
+          if (weekdays.includes(DateUtils.parseDateString(candidate).getDay())) {
+            return candidate;
+          }
+        }
+        return DateUtils.addDays(baseDate, 7);
+      }
+
+      case 'monthly': {
+        const base = DateUtils.parseDateString(baseDate);
+        const sameMonth = RecurrenceUtils.getMonthlyDate(rule, base.getFullYear(), base.getMonth());
+        if (sameMonth > base) {
+          return DateUtils.toDateString(sameMonth);
+        }
+        const nextMonth = new Date(base.getFullYear(), base.getMonth() + 1, 1);
+        return DateUtils.toDateString(
+          RecurrenceUtils.getMonthlyDate(rule, nextMonth.getFullYear(), nextMonth.getMonth())
+        );
+      }
+
+      default:
+        return DateUtils.addDays(baseDate, 1);
+    }
+  }
+
+  /**
+   * 次の回の期限を計算
+   * 完了後N日の場合は完了日を、それ以外は現在の期限（なければ今日）を基準にし、
+   * 過去の日付にならないよう今日より後になるまで進める
+   */
+  static getNextDeadline(rule: RecurrenceRule, currentDeadline: string | undefined, completedAt: number = Date.now()): string {
+    const today = DateUtils.today();
+
+    if (rule.type === 'afterCompletion') {
+      return RecurrenceUtils.advance(rule, DateUtils.toDateString(new Date(completedAt)));
+    }
+
+    let next = RecurrenceUtils.advance(rule, currentDeadline || today);
+    while (next <= today) {
+      next = RecurrenceUtils.advance(rule, next);
+    }
+    return next;
+  }
+
+  /**
+   * 次の回のサブタスクを生成（完了状態をリセット）
+   */
+  static resetSubTasks(subTasks: SubTask[]): SubTask[] {
+    const now = Date.now();
+    // 親子関係を保つため、新しいIDへの対応表を先に作る
+    const newIds = new Map(subTasks.map(subTask => [subTask.id, SubTaskUtils.generateSubTaskId()]));
+    return SubTaskUtils.normalizeOrder(subTasks.map(subTask => {
+      const parentId = SubTaskUtils.getParentId(subTasks, subTask);
+      return {
+        id: newIds.get(subTask.id)!,
+        text: subTask.text,
+        completed: false,
+        completedAt: null,
+        order: subTask.order,
+        createdAt: now,
+        parentId: parentId ? newIds.get(parentId)! : null
+      };
+    }));
+  }
+
+  /**
+   * ルールの説明文を取得
+   */
+  static describe(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval ?? 1);
+
+    switch (rule.type) {
+      case 'daily':
+        return interval === 1 ? '毎日' : `${interval}日ごと`;
+      case 'weekly':
+        return `毎週 ${[...(rule.weekdays || [])]
+          .sort((a, b) => a - b)
+          .map(day => RecurrenceUtils.WEEKDAY_LABELS[day])
+          .join('・')}`;
+      case 'monthly':
+        return rule.lastBusinessDay ? '毎月 最終営業日' : `毎月 ${rule.monthDay}日`;
+      case 'afterCompletion':
+        return `完了から${interval}日後`;
+      default:
+        return '';
+    }
+  }
+}
+
+/**
+ * タスクユーティリティ関数
+ */
+export class TaskUtils {
+  // 既定の並べ替え
+  static readonly DEFAULT_SORT_CONFIG: TaskSortConfig = {
+    sortBy: 'priority',
+    sortOrder: 'desc',
+    thenBy: [],
+    noDeadline: 'last'
+  };
+
+  // 並べ替えに使える条件の数の上限（第1条件を含む）
+  static readonly MAX_SORT_KEYS = 4;
+
+  /**
+   * タスクの完了状態を判定（メインタスクとサブタスクを考慮）
+   */
+  static isTaskFullyCompleted(task: EnhancedTask): boolean {
+    if (!task.completed) return false;
+    if (task.subTasks.length === 0) return true;
+    return task.subTasks.every(subTask => subTask.completed);
+  }
+
+  /**
+   * タスクの総進捗を計算（メインタスク + サブタスク）
+   * 入れ子のサブタスクは子の進捗を親へ積み上げて計算する
+   */
+  static calculateTotalProgress(task: EnhancedTask): number {
+    if (task.subTasks.length === 0) {
+      return task.completed ? 100 : 0;
+    }
+
+    const subTaskProgress = SubTaskUtils.calculateProgress(task.subTasks);
+    const mainTaskWeight = 0.3; // メインタスクの重み
+    const subTaskWeight = 0.7;  // サブタスクの重み
+
+    const mainProgress = task.completed ? 100 : 0;
+    return Math.round(mainProgress * mainTaskWeight + subTaskProgress.progress * subTaskWeight);
+  }
+
+  /**
+   * 見積もり時間の精度を計算
+   */
+  static calculateTimeAccuracy(task: EnhancedTask): number | null {
+    if (!task.estimatedMinutes || !task.actualMinutes) return null;
+    
+    const accuracy = 100 - Math.abs(task.estimatedMinutes - task.actualMinutes) / task.estimatedMinutes * 100;
+    return Math.max(0, Math.round(accuracy));
+  }
+
+  /**
+   * タスクの複雑度を計算
+   */
+  static calculateComplexity(task: EnhancedTask): 'simple' | 'medium' | 'complex' {
+    let score = 0;
+    
+    // サブタスクの数
+    if (task.subTasks.length > 5) score += 2;
+    else if (task.subTasks.length > 2) score += 1;
+    
+    // メモの長さ
+    if (task.memo && task.memo.length > 200) score += 2;
+    else if (task.memo && task.memo.length > 50) score += 1;
+    
+    // 見積もり時間
+    if (task.estimatedMinutes && task.estimatedMinutes > 120) score += 2;
+    else if (task.estimatedMinutes && task.estimatedMinutes > 60) score += 1;
+    
+    // 優先度
+    if (task.priority === 'high') score += 1;
+    
+    if (score >= 4) return 'complex';
+    if (score >= 2) return 'medium';
+    return 'simple';
+  }
+
+  /**
+   * ソート設定を整える（保存データの欠けた項目を補い、重複した条件と上限を超えた条件を除く）
+   * 着手可能順と手動の並び順はそれだけで並びが決まるため、第2条件以降を持たない
+   */
+  static normalizeSortConfig(config: Partial<TaskSortConfig> | undefined): TaskSortConfig {
+    const sortBy = config?.sortBy || TaskUtils.DEFAULT_SORT_CONFIG.sortBy;
+    const usedKeys: TaskSortBy[] = [sortBy];
+    const thenBy = sortBy === 'ready' || sortBy === 'manual'
+      ? []
+      : (config?.thenBy || []).filter(key => {
+          if (key.sortBy === 'ready' || usedKeys.includes(key.sortBy)) return false;
+          usedKeys.push(key.sortBy);
+          return true;
+        }).slice(0, TaskUtils.MAX_SORT_KEYS - 1).map(key => ({ sortBy: key.sortBy, sortOrder: key.sortOrder || 'asc' }));
+
+    return {
+      sortBy,
+      sortOrder: config?.sortOrder || TaskUtils.DEFAULT_SORT_CONFIG.sortOrder,
+      thenBy,
+      noDeadline: config?.noDeadline === 'first' ? 'first' : 'last'
+    };
+  }
+
+  /**
+   * 並べ替えの条件を優先順に取得
+   */
+  static getSortKeys(sortConfig: TaskSortConfig): TaskSortKey[] {
+    const config = TaskUtils.normalizeSortConfig(sortConfig);
+    return [{ sortBy: config.sortBy, sortOrder: config.sortOrder }, ...(config.thenBy || [])];
+  }
+
+  /**
+   * 1つの条件でタスクを比較
+   * 期限なしのタスクの位置は昇順・降順にかかわらず noDeadline に従う
+   */
+  static compareTasks(a: EnhancedTask, b: EnhancedTask, key: TaskSortKey, noDeadline: NoDeadlinePlacement = 'last'): number {
+    let comparison = 0;
+    
+    switch (key.sortBy) {
+      case 'priority':
+        // 優先度: high(3) > medium(2) > low(1)
+        const priorityOrder = { 'high': 3, 'medium': 2, 'low': 1 };
+        comparison = priorityOrder[b.priority] - priorityOrder[a.priority];
+        break;
+        
+      case 'deadline':
+        // 期限: 近い順（期限なしは指定した位置）
+        if (!a.deadline && !b.deadline) return 0;
+        if (!a.deadline || !b.deadline) return (!a.deadline ? 1 : -1) * (noDeadline === 'first' ? -1 : 1);
+        comparison = (DueUtils.getDueAt(a) as number) - (DueUtils.getDueAt(b) as number);
+        break;
+        
+      case 'created':
+        // 作成日: 新しい順
+        comparison = (b.createdAt || 0) - (a.createdAt || 0);
+        break;
+        
+      case 'progress':
+        // 進捗: 高い順
+        const progressA = TaskUtils.calculateTotalProgress(a);
+        const progressB = TaskUtils.calculateTotalProgress(b);
+        comparison = progressB - progressA;
+        break;
+        
+      case 'alphabetical':
+        // あいうえお順
+        comparison = a.text.localeCompare(b.text, 'ja');
+        break;
+        
+      case 'tag':
+        // タグ: タグ名のあいうえお順（タグなしは最後）
+        const tagA = TagUtils.getPrimaryTag(a);
+        const tagB = TagUtils.getPrimaryTag(b);
+        if (!tagA && !tagB) comparison = 0;
+        else if (!tagA) comparison = 1;
+        else if (!tagB) comparison = -1;
+        else comparison = tagA.localeCompare(tagB, 'ja');
+        break;
+        
+      case 'manual':
+        // 手動の並び順は昇順・降順を適用しない
+        return a.order - b.order;
+        
+      default:
+        comparison = 0;
+    }
+    
+    // ソート順序を適用
+    return key.sortOrder === 'asc' ? comparison : -comparison;
+  }
+
+  /**
+   * 🔥 追加: タスクをソート（条件を優先順に比べ、最初に差が出た条件で並べる）
+   */
+  static sortTasks(tasks: EnhancedTask[], sortConfig: TaskSortConfig): EnhancedTask[] {
+    // 着手可能順は依存関係から順序が決まるため、昇順・降順は適用しない
+    if (sortConfig.sortBy === 'ready') {
+      return DependencyUtils.sortByReadiness(tasks);
+    }
+    
+    const keys = TaskUtils.getSortKeys(sortConfig);
+    const noDeadline = sortConfig.noDeadline || 'last';
+    
+    // 手動の並び順で同じ順序のタスクは作成順
+    if (sortConfig.sortBy === 'manual') {
+      keys.push({ sortBy: 'created', sortOrder: 'desc' });
+    }
+    
+    return [...tasks].sort((a, b) => {
+      for (const key of keys) {
+        const comparison = TaskUtils.compareTasks(a, b, key, noDeadline);
+        if (comparison !== 0) return comparison;
+      }
+      return 0;
+    });
+  }
+
+  /**
+   * 新しいタスクの表示順序（既存のタスクの最後）
+   */
+  static getNextOrder(tasks: EnhancedTask[]): number {
+    return tasks.reduce((max, task) => Math.max(max, task.order || 0), 0) + 1;
+  }
+
+  /**
+   * 手動の並び順でタスクを指定した位置へ移動したときの表示順序の変更を求める
+   * 前後のタスクの中間の値を使うため、通常は移動したタスクだけを書き換える
+   * 前後の順序が同じなどで中間の値がない場合だけ、並び全体の順序を振り直す
+   * @param orderedTasks 手動の並び順で表示中のタスク
+   * @param index 移動するタスクを除いた並びでの挿入位置
+   * @returns 表示順序が変わるタスクのIDと新しい順序
+   */
+  static getMoveOrders(orderedTasks: EnhancedTask[], taskId: string, index: number): { taskId: string; order: number }[] {
+    const currentIndex = orderedTasks.findIndex(task => task.id === taskId);
+    if (currentIndex === -1) return [];
+
+    const moving = orderedTasks[currentIndex];
+    const others = orderedTasks.filter(task => task.id !== taskId);
+    const position = Math.max(0, Math.min(index, others.length));
+    if (position === currentIndex) return [];
+
+    const before = others[position - 1];
+    const after = others[position];
+    const order = before && after
+      ? (before.order + after.order) / 2
+      : before ? before.order + 1 : after.order - 1;
+
+    if ((!before || order > before.order) && (!after || order < after.order)) {
+      return [{ taskId, order }];
+    }
+
+    const changes: { taskId: string; order: number }[] = [];
+    [...others.slice(0, position), moving, ...others.slice(position)].forEach((task, i) => {
+      if (task.order !== i + 1) changes.push({ taskId: task.id, order: i + 1 });
+    });
+    return changes;
+  }
+
+  /**
+   * 🔥 追加: 期限の緊急度を計算
    */
   static getDeadlineUrgency(task: EnhancedTask): 'overdue' | 'today' | 'soon' | 'normal' | 'none' {
     if (!task.deadline) return 'none';
     
+    // 時刻が設定されている場合は時刻を過ぎた時点で期限切れ
+    if (DueUtils.isOverdue(task)) return 'overdue';
+    
     const today = new Date();
     today.setHours(0, 0, 0, 0);
     
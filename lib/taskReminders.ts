@@ -0,0 +1,95 @@
+/**
+ * タスクのリマインダー判定
+ *
+ * 期限日時とリマインダー設定から通知すべきリマインダーを求め、
+ * 同じリマインダーを二重に通知しないよう通知済みの記録をlocalStorageに保存するモジュール
+ * v1.8.0: 期限の時刻とリマインダー機能を追加
+ */
+
+import { EnhancedTask, DueUtils } from '@/lib/taskInterfaces';
+
+/**
+ * 通知するリマインダー
+ */
+export interface DueReminder {
+  key: string;                   // 通知済み判定用のキー（期限が変わると別のキーになる）
+  task: EnhancedTask;
+  minutesBefore: number;         // 期限の何分前のリマインダーか
+  remindAt: number;              // 通知予定日時
+}
+
+const STORAGE_KEY = 'shinchokudou-fired-reminders';
+
+// 通知予定から大きく遅れたリマインダーは通知しない（長時間オフラインだった場合など）
+const MAX_DELAY_MS = 12 * 60 * 60 * 1000;
+
+// 通知済みの記録を保持する期間
+const RECORD_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 通知済みの記録を読み込む
+ */
+const loadFiredRecords = (): { [key: string]: number } => {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 通知済みの記録を保存（古い記録は削除）
+ */
+const saveFiredRecords = (records: { [key: string]: number }, now: number) => {
+  if (typeof localStorage === 'undefined') return;
+  const recent: { [key: string]: number } = {};
+  Object.entries(records).forEach(([key, firedAt]) => {
+    if (now - firedAt < RECORD_RETENTION_MS) recent[key] = firedAt;
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+};
+
+/**
+ * タスクのリマインダー判定
+ */
+export class TaskReminders {
+  /**
+   * 通知時刻を迎えた未通知のリマインダーを取得し、通知済みとして記録する
+   */
+  static takeDueReminders(tasks: EnhancedTask[], now: number = Date.now()): DueReminder[] {
+    const records = loadFiredRecords();
+    const dueReminders: DueReminder[] = [];
+
+    tasks.forEach(task => {
+      if (task.completed || !task.reminders || task.reminders.length === 0) return;
+      const dueAt = DueUtils.getDueAt(task);
+      if (dueAt === null) return;
+
+      task.reminders.forEach(minutesBefore => {
+        const remindAt = dueAt - minutesBefore * 60 * 1000;
+        const key = `${task.id}:${dueAt}:${minutesBefore}`;
+        if (records[key] || remindAt > now || now - remindAt > MAX_DELAY_MS) return;
+
+        records[key] = now;
+        dueReminders.push({ key, task, minutesBefore, remindAt });
+      });
+    });
+
+    if (dueReminders.length > 0) {
+      saveFiredRecords(records, now);
+    }
+    return dueReminders;
+  }
+
+  /**
+   * 次に通知するリマインダーの日時を取得（なければ null）
+   */
+  static getNextReminderAt(task: EnhancedTask, now: number = Date.now()): number | null {
+    if (task.completed) return null;
+    const upcoming = (task.reminders || [])
+      .map(minutesBefore => DueUtils.getReminderAt(task, minutesBefore))
+      .filter((remindAt): remindAt is number => remindAt !== null && remindAt > now);
+    return upcoming.length > 0 ? Math.min(...upcoming) : null;
+  }
+}
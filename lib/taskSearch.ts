@@ -0,0 +1,554 @@
+/**
+ * タスク検索モジュール
+ *
+ * タスク名・メモ・サブタスクを対象にした全文検索と、検索クエリの演算子を扱うモジュール
+ * 全角・半角やカタカナ・ひらがなの違いを吸収し、文字の2-gramによるあいまい一致で検索します
+ * 索引はメモリ上に保持し、タスクの変更に合わせて差分だけを更新します
+ *
+ * クエリの例:
+ *   企画書 priority:high due:<7d tag:仕事 is:overdue has:memo -completed
+ * - 演算子の前に「-」を付けると否定（-tag:趣味）
+ * - 「-completed」のように状態名だけを否定した場合は is: の否定として扱う
+ * v1.8.0: タスク検索機能の実装
+ */
+
+import { EnhancedTask, TaskProject, DueUtils, DependencyUtils, TaskUtils, SnoozeUtils } from '@/lib/taskInterfaces';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * 検索条件の種類
+ */
+export type SearchTermKind = 'text' | 'priority' | 'due' | 'tag' | 'project' | 'is' | 'has';
+
+/**
+ * 検索条件
+ */
+export interface SearchTerm {
+  kind: SearchTermKind;
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * 解析済みの検索クエリ
+ */
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  textTerms: string[];       // ハイライト対象の検索語（否定を除く）
+  errors: string[];          // 解釈できなかった条件
+}
+
+/**
+ * 演算子の評価に使う情報
+ */
+export interface SearchContext {
+  allTasks: EnhancedTask[];  // ブロック判定用の全タスク
+  projects: TaskProject[];   // project: の名前解決用
+  now: number;
+}
+
+/**
+ * 検索結果
+ */
+export interface TaskSearchResult {
+  task: EnhancedTask;
+  score: number;             // 検索語との一致度（検索語がない場合は 0）
+}
+
+/**
+ * ハイライト表示用の文字列の区間
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// 状態名（is: の値、および「-completed」のような否定の省略形）
+const STATE_NAMES = ['overdue', 'today', 'completed', 'done', 'active', 'open', 'blocked', 'recurring', 'snoozed'];
+
+// has: で指定できる項目
+const HAS_NAMES = ['memo', 'subtasks', 'subtask', 'deadline', 'due', 'time', 'tags', 'tag', 'reminder', 'estimate', 'project'];
+
+// 優先度の別名
+const PRIORITY_ALIASES: { [alias: string]: PriorityLevel } = {
+  high: 'high', h: 'high', '高': 'high',
+  medium: 'medium', m: 'medium', '中': 'medium',
+  low: 'low', l: 'low', '低': 'low'
+};
+
+// あいまい一致で必要な2-gramの一致率（2-gramが2つ以下の短い語は全て一致が必要）
+const FUZZY_THRESHOLD = 0.5;
+
+/**
+ * 検索用に文字列を正規化
+ * 全角英数・半角カナを統一（NFKC）し、小文字化とカタカナのひらがな化を行う
+ */
+export const normalizeForSearch = (text: string): string => {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+};
+
+/**
+ * 正規化した文字列から索引用のgram（1文字と2文字）を生成
+ */
+const toGrams = (normalized: string): string[] => {
+  const grams = new Set<string>();
+  // 行をまたいだ2-gramは作らない（タスク名とメモの境目などで誤って一致しないように）
+  normalized.split('\n').forEach(line => {
+    const chars = Array.from(line.replace(/\s+/g, ''));
+    chars.forEach(char => grams.add(char));
+    for (let i = 0; i < chars.length - 1; i++) {
+      grams.add(chars[i] + chars[i + 1]);
+    }
+  });
+  return Array.from(grams);
+};
+
+/**
+ * 検索語の照合に使う2-gram（1文字の検索語はその文字）
+ */
+const toQueryGrams = (normalized: string): string[] => {
+  const chars = Array.from(normalized.replace(/\s+/g, ''));
+  if (chars.length <= 1) return chars;
+  const grams = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.add(chars[i] + chars[i + 1]);
+  }
+  return Array.from(grams);
+};
+
+/**
+ * タスクの検索対象テキスト（タスク名・メモ・サブタスク）
+ */
+const getSearchableTexts = (task: EnhancedTask): string[] => {
+  return [task.text, task.memo || '', ...(task.subTasks || []).map(subTask => subTask.text)];
+};
+
+/**
+ * 検索クエリの解析
+ */
+export class SearchQueryParser {
+  /**
+   * クエリ文字列を検索条件に分解（"..." で空白を含む語を指定できる）
+   */
+  static parse(input: string): ParsedSearchQuery {
+    const terms: SearchTerm[] = [];
+    const errors: string[] = [];
+    const tokens = input.match(/-?(?:[^\s:"]+:)?"[^"]*"|\S+/g) || [];
+
+    tokens.forEach(rawToken => {
+      let token = rawToken;
+      const negated = token.startsWith('-') && token.length > 1;
+      if (negated) token = token.slice(1);
+
+      const operatorMatch = token.match(/^([a-z]+):(.+)$/i);
+      if (operatorMatch) {
+        const kind = operatorMatch[1].toLowerCase();
+        const value = operatorMatch[2].replace(/^"|"$/g, '');
+
+        switch (kind) {
+          case 'priority':
+          case 'p':
+            if (PRIORITY_ALIASES[value.toLowerCase()]) {
+              terms.push({ kind: 'priority', value: PRIORITY_ALIASES[value.toLowerCase()], negated });
+            } else {
+              errors.push(rawToken);
+            }
+            return;
+          case 'due':
+            if (SearchQueryParser.isValidDueValue(value)) {
+              terms.push({ kind: 'due', value: value.toLowerCase(), negated });
+            } else {
+              errors.push(rawToken);
+            }
+            return;
+          case 'tag':
+          case 'project':
+            terms.push({ kind, value, negated });
+            return;
+          case 'is':
+            if (STATE_NAMES.includes(value.toLowerCase())) {
+              terms.push({ kind: 'is', value: value.toLowerCase(), negated });
+            } else {
+              errors.push(rawToken);
+            }
+            return;
+          case 'has':
+            if (HAS_NAMES.includes(value.toLowerCase())) {
+              terms.push({ kind: 'has', value: value.toLowerCase(), negated });
+            } else {
+              errors.push(rawToken);
+            }
+            return;
+        }
+      }
+
+      // 「-completed」のように状態名だけを否定した場合は is: の否定
+      if (negated && STATE_NAMES.includes(token.toLowerCase())) {
+        terms.push({ kind: 'is', value: token.toLowerCase(), negated: true });
+        return;
+      }
+
+      const text = token.replace(/^"|"$/g, '').trim();
+      if (text) {
+        terms.push({ kind: 'text', value: text, negated });
+      }
+    });
+
+    return {
+      terms,
+      textTerms: terms.filter(term => term.kind === 'text' && !term.negated).map(term => term.value),
+      errors
+    };
+  }
+
+  /**
+   * due: の値が解釈できるかどうか
+   */
+  private static isValidDueValue(value: string): boolean {
+    return /^(today|tomorrow|overdue|none|week)$/i.test(value) ||
+      /^(<=?|>=?)?\d+[dw]$/i.test(value) ||
+      /^(<=?|>=?)?\d{4}-\d{2}-\d{2}$/.test(value);
+  }
+}
+
+/**
+ * 演算子の条件を評価
+ */
+const matchesOperator = (task: EnhancedTask, term: SearchTerm, context: SearchContext): boolean => {
+  const { value } = term;
+
+  switch (term.kind) {
+    case 'priority':
+      return task.priority === value;
+
+    case 'tag': {
+      const normalizedValue = normalizeForSearch(value);
+      return (task.tags || []).some(tag => normalizeForSearch(tag) === normalizedValue);
+    }
+
+    case 'project': {
+      const normalizedValue = normalizeForSearch(value);
+      const project = context.projects.find(p => p.id === task.projectId);
+      return !!project && normalizeForSearch(project.name).includes(normalizedValue);
+    }
+
+    case 'is':
+      switch (value) {
+        case 'overdue': return DueUtils.isOverdue(task, context.now);
+        case 'today': return DueUtils.isDueToday(task, context.now);
+        case 'completed':
+        case 'done': return task.completed;
+        case 'active':
+        case 'open': return !task.completed;
+        case 'blocked': return !task.completed && DependencyUtils.isBlocked(task, context.allTasks);
+        case 'recurring': return !!task.recurrence;
+        case 'snoozed': return SnoozeUtils.isSnoozed(task, context.now);
+        default: return false;
+      }
+
+    case 'has':
+      switch (value) {
+        case 'memo': return !!task.memo && task.memo.trim().length > 0;
+        case 'subtask':
+        case 'subtasks': return (task.subTasks || []).length > 0;
+        case 'deadline':
+        case 'due': return !!task.deadline;
+        case 'time': return !!task.deadline && DueUtils.isValidTime(task.dueTime);
+        case 'tag':
+        case 'tags': return (task.tags || []).length > 0;
+        case 'reminder': return !!task.deadline && (task.reminders || []).length > 0;
+        case 'estimate': return !!task.estimatedMinutes;
+        case 'project': return !!task.projectId;
+        default: return false;
+      }
+
+    case 'due':
+      return matchesDue(task, value, context.now);
+
+    default:
+      return true;
+  }
+};
+
+/**
+ * due: の条件を評価
+ * - today / tomorrow / week / overdue / none
+ * - <7d, >3d, <=2w: 今日からN日（週）後の終わりを基準に比較
+ * - 2025-01-31, <2025-01-31: 日付を基準に比較
+ */
+const matchesDue = (task: EnhancedTask, value: string, now: number): boolean => {
+  const dueAt = DueUtils.getDueAt(task);
+  if (value === 'none') return dueAt === null;
+  if (dueAt === null) return false;
+
+  const today = DateUtils.toDateString(new Date(now));
+  switch (value) {
+    case 'overdue': return DueUtils.isOverdue(task, now);
+    case 'today': return task.deadline === today;
+    case 'tomorrow': return task.deadline === DateUtils.addDays(today, 1);
+    case 'week': return DueUtils.isDueWithin(task, 7, now) || DueUtils.isOverdue(task, now);
+  }
+
+  const match = value.match(/^(<=?|>=?)?(.+)$/) as RegExpMatchArray;
+  const operator = match[1] || '=';
+  const target = match[2];
+
+  // 比較対象の日付（期限日単位で比較する）
+  let targetDate: string;
+  const relativeMatch = target.match(/^(\d+)([dw])$/);
+  if (relativeMatch) {
+    const days = Number(relativeMatch[1]) * (relativeMatch[2] === 'w' ? 7 : 1);
+    targetDate = DateUtils.addDays(today, days);
+    // 「<7d」は7日以内（期限切れを含む）
+    if (operator === '=') return task.deadline === targetDate;
+  } else {
+    targetDate = target;
+  }
+
+  const deadline = task.deadline as string;
+  switch (operator) {
+    case '<': return relativeMatch ? deadline <= targetDate : deadline < targetDate;
+    case '<=': return deadline <= targetDate;
+    case '>': return deadline > targetDate;
+    case '>=': return deadline >= targetDate;
+    default: return deadline === targetDate;
+  }
+};
+
+/**
+ * 索引に登録したタスクの情報
+ */
+interface IndexedDocument {
+  signature: string;         // 検索対象テキストの内容（変更検知用）
+  normalized: string;        // 正規化した検索対象テキスト
+  grams: string[];
+}
+
+/**
+ * タスク検索の索引（メモリ上の転置索引）
+ */
+export class TaskSearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+
+  /**
+   * タスク一覧と索引を同期（検索対象テキストが変わったタスクだけを再登録）
+   */
+  sync(tasks: EnhancedTask[]): void {
+    const currentIds = new Set<string>();
+
+    tasks.forEach(task => {
+      currentIds.add(task.id);
+      const signature = getSearchableTexts(task).join('\n');
+      const existing = this.documents.get(task.id);
+      if (existing && existing.signature === signature) return;
+
+      if (existing) this.removeDocument(task.id, existing);
+      const normalized = normalizeForSearch(signature);
+      const document = { signature, normalized, grams: toGrams(normalized) };
+      this.documents.set(task.id, document);
+      document.grams.forEach(gram => {
+        let taskIds = this.postings.get(gram);
+        if (!taskIds) {
+          taskIds = new Set();
+          this.postings.set(gram, taskIds);
+        }
+        taskIds.add(task.id);
+      });
+    });
+
+    // 削除されたタスクを索引から外す
+    Array.from(this.documents.entries()).forEach(([taskId, document]) => {
+      if (!currentIds.has(taskId)) this.removeDocument(taskId, document);
+    });
+  }
+
+  /**
+   * 索引をクリア
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+  }
+
+  /**
+   * 検索語に一致するタスクと一致度を取得
+   * 部分一致は高い一致度、2-gramの一定割合が含まれる場合はあいまい一致として扱う
+   */
+  matchText(term: string): Map<string, number> {
+    const normalizedTerm = normalizeForSearch(term);
+    const grams = toQueryGrams(normalizedTerm);
+    const scores = new Map<string, number>();
+    if (grams.length === 0) return scores;
+
+    // 2-gramごとの出現数を数えて候補を絞り込む
+    const hits = new Map<string, number>();
+    grams.forEach(gram => {
+      this.postings.get(gram)?.forEach(taskId => {
+        hits.set(taskId, (hits.get(taskId) || 0) + 1);
+      });
+    });
+
+    const required = grams.length <= 2 ? grams.length : Math.ceil(grams.length * FUZZY_THRESHOLD);
+    hits.forEach((count, taskId) => {
+      if (count < required) return;
+      const document = this.documents.get(taskId);
+      if (!document) return;
+      const exact = document.normalized.includes(normalizedTerm);
+      scores.set(taskId, (exact ? 1 : 0) + count / grams.length);
+    });
+
+    return scores;
+  }
+
+  /**
+   * 検索対象テキストに検索語がそのまま含まれるかどうか（否定条件用）
+   */
+  containsText(taskId: string, term: string): boolean {
+    const document = this.documents.get(taskId);
+    return !!document && document.normalized.includes(normalizeForSearch(term));
+  }
+
+  /**
+   * 検索クエリでタスクを絞り込み、一致度の高い順に並べて返す
+   */
+  search(query: ParsedSearchQuery, tasks: EnhancedTask[], context: SearchContext): TaskSearchResult[] {
+    const textMatches = query.terms
+      .filter(term => term.kind === 'text' && !term.negated)
+      .map(term => this.matchText(term.value));
+
+    const results: TaskSearchResult[] = [];
+    tasks.forEach(task => {
+      let score = 0;
+
+      for (const matches of textMatches) {
+        const termScore = matches.get(task.id);
+        if (termScore === undefined) return;
+        score += termScore;
+      }
+
+      for (const term of query.terms) {
+        if (term.kind === 'text') {
+          if (term.negated && this.containsText(task.id, term.value)) return;
+          continue;
+        }
+        if (matchesOperator(task, term, context) === term.negated) return;
+      }
+
+      results.push({ task, score });
+    });
+
+    return results.sort((a, b) =>
+      b.score - a.score || TaskUtils.calculateImportanceScore(b.task) - TaskUtils.calculateImportanceScore(a.task)
+    );
+  }
+
+  /**
+   * タスクを索引から外す
+   */
+  private removeDocument(taskId: string, document: IndexedDocument): void {
+    document.grams.forEach(gram => {
+      const taskIds = this.postings.get(gram);
+      if (!taskIds) return;
+      taskIds.delete(taskId);
+      if (taskIds.size === 0) this.postings.delete(gram);
+    });
+    this.documents.delete(taskId);
+  }
+}
+
+/**
+ * 検索語の一致箇所のハイライト
+ */
+export class SearchHighlighter {
+  /**
+   * 文字列を検索語の一致箇所とそれ以外の区間に分割
+   * 部分一致がない検索語は、2-gramが一致した箇所をハイライトする
+   */
+  static getSegments(text: string, terms: string[]): HighlightSegment[] {
+    // 半角カナの濁点・半濁点や結合文字は直前の文字とまとめて扱う
+    const chars = text.match(/[\s\S][\uFF9E\uFF9F\u3099\u309A]*/g) || [];
+    if (terms.length === 0 || chars.length === 0) return [{ text, match: false }];
+
+    // 1文字ずつ正規化し、正規化後の位置から元の文字の位置を引けるようにする
+    const normalizedChars: string[] = [];
+    const sourceIndex: number[] = [];
+    chars.forEach((char, index) => {
+      Array.from(normalizeForSearch(char)).forEach(normalizedChar => {
+        normalizedChars.push(normalizedChar);
+        sourceIndex.push(index);
+      });
+    });
+    const normalized = normalizedChars.join('');
+    const marked = new Array<boolean>(chars.length).fill(false);
+
+    // 正規化後の文字列の位置（UTF-16単位）から、一致した元の文字に印を付ける
+    const markRange = (position: number, matchedText: string) => {
+      const start = Array.from(normalized.slice(0, position)).length;
+      const end = start + Array.from(matchedText).length;
+      for (let i = start; i < end && i < sourceIndex.length; i++) {
+        marked[sourceIndex[i]] = true;
+      }
+    };
+
+    terms.forEach(term => {
+      const normalizedTerm = normalizeForSearch(term);
+      const termLength = Array.from(normalizedTerm).length;
+      if (termLength === 0) return;
+
+      let found = false;
+      let position = normalized.indexOf(normalizedTerm);
+      while (position !== -1) {
+        found = true;
+        markRange(position, normalizedTerm);
+        position = normalized.indexOf(normalizedTerm, position + normalizedTerm.length);
+      }
+
+      // あいまい一致の場合は一致した2-gramをハイライト
+      if (!found && termLength > 1) {
+        toQueryGrams(normalizedTerm).forEach(gram => {
+          let gramPosition = normalized.indexOf(gram);
+          while (gramPosition !== -1) {
+            markRange(gramPosition, gram);
+            gramPosition = normalized.indexOf(gram, gramPosition + gram.length);
+          }
+        });
+      }
+    });
+
+    // 連続する同じ状態の文字をまとめる
+    const segments: HighlightSegment[] = [];
+    chars.forEach((char, index) => {
+      const last = segments[segments.length - 1];
+      if (last && last.match === marked[index]) {
+        last.text += char;
+      } else {
+        segments.push({ text: char, match: marked[index] });
+      }
+    });
+    return segments;
+  }
+
+  /**
+   * 検索語を含む部分の前後を切り出した抜粋を取得（一致しなければ null）
+   */
+  static getSnippet(text: string, terms: string[], radius: number = 20): string | null {
+    const normalized = normalizeForSearch(text);
+    for (const term of terms) {
+      const position = normalized.indexOf(normalizeForSearch(term));
+      if (position === -1) continue;
+
+      const start = Math.max(0, position - radius);
+      const end = Math.min(text.length, position + term.length + radius);
+      return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+    }
+    return null;
+  }
+}
+
+// アプリ全体で共有するタスク検索の索引（タスクストアの onSnapshot で同期）
+export const taskSearchIndex = new TaskSearchIndex();
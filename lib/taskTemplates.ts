@@ -0,0 +1,183 @@
+/**
+ * タスクテンプレートの変換
+ *
+ * 既存のタスクからテンプレートを作り、テンプレートから新しいタスクの内容を組み立てるモジュール
+ * タスク名・メモ・サブタスクの {{date}} などのプレースホルダーは、タスクを作成した日の値に置き換える
+ * v1.8.0: タスクテンプレート機能の実装
+ */
+
+import { EnhancedTask, SubTask, SubTaskUtils, TaskTemplate, TemplateSubTask } from '@/lib/taskInterfaces';
+import { PriorityLevel } from '@/lib/aiPriorityAssignment';
+import { DateUtils } from '@/lib/dateUtils';
+
+/**
+ * テンプレートの作成・更新データ
+ */
+export interface TaskTemplateData {
+  name: string;
+  text: string;
+  priority: PriorityLevel;
+  deadlineOffsetDays: number | null;
+  estimatedMinutes?: number | null;
+  memo?: string;
+  subTasks: TemplateSubTask[];
+}
+
+/**
+ * テンプレートから組み立てたタスクの内容
+ */
+export interface TemplateInstance {
+  text: string;
+  deadline?: string;
+  priority: PriorityLevel;
+  memo?: string;
+  estimatedMinutes?: number;
+  subTasks: SubTask[];
+}
+
+/**
+ * プレースホルダーの置き換えに使う日付
+ */
+interface PlaceholderContext {
+  today: string;                 // タスクを作成する日（YYYY-MM-DD形式）
+  deadline?: string;             // テンプレートから求めた期限
+}
+
+const WEEKDAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+// {{date}}・{{date+3}}・{{deadline}} などの書式
+const PLACEHOLDER_PATTERN = /\{\{\s*(date|deadline|weekday|month|year)\s*(?:([+-])\s*(\d+))?\s*\}\}/g;
+
+// チェックリストの1階層あたりの字下げ（空白の数）
+const CHECKLIST_INDENT = 2;
+
+/**
+ * タスクテンプレートの変換
+ */
+export class TaskTemplates {
+  /**
+   * 使えるプレースホルダーの説明
+   */
+  static readonly PLACEHOLDERS = [
+    { token: '{{date}}', description: '作成日（例: 2025-06-01）' },
+    { token: '{{date+7}}', description: '作成日から7日後（- で前の日）' },
+    { token: '{{deadline}}', description: '期限（期限がなければ空）' },
+    { token: '{{weekday}}', description: '作成日の曜日（例: 月）' },
+    { token: '{{month}}', description: '作成日の月（例: 6）' },
+    { token: '{{year}}', description: '作成日の年（例: 2025）' }
+  ];
+
+  /**
+   * テキスト中のプレースホルダーを置き換える（認識できない書式はそのまま残す）
+   */
+  static fillPlaceholders(text: string, context: PlaceholderContext): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match, name: string, sign?: string, amount?: string) => {
+      const offset = sign && amount ? Number(amount) * (sign === '-' ? -1 : 1) : 0;
+      const base = name === 'deadline' ? context.deadline : context.today;
+      if (!base) return '';
+
+      const date = DateUtils.addDays(base, offset);
+      const parsed = DateUtils.parseDateString(date);
+      switch (name) {
+        case 'weekday': return WEEKDAY_NAMES[parsed.getDay()];
+        case 'month': return String(parsed.getMonth() + 1);
+        case 'year': return String(parsed.getFullYear());
+        default: return date;
+      }
+    });
+  }
+
+  /**
+   * 既存のタスクからテンプレートの内容を作成
+   * 期限は作成日から期限までの日数として保存し、サブタスクの完了状態は引き継がない
+   */
+  static fromTask(task: EnhancedTask, now: number = Date.now()): TaskTemplateData {
+    const baseDate = DateUtils.toDateString(new Date(task.createdAt || now));
+
+    return {
+      name: task.text,
+      text: task.text,
+      priority: task.priority,
+      deadlineOffsetDays: task.deadline ? Math.max(0, DateUtils.diffDays(baseDate, task.deadline)) : null,
+      ...(task.estimatedMinutes ? { estimatedMinutes: task.estimatedMinutes } : {}),
+      ...(task.memo ? { memo: task.memo } : {}),
+      subTasks: SubTaskUtils.flattenTree(task.subTasks).map(node => ({
+        text: node.subTask.text,
+        depth: node.depth
+      }))
+    };
+  }
+
+  /**
+   * テンプレートから新しいタスクの内容を組み立てる
+   */
+  static instantiate(template: TaskTemplate, now: number = Date.now()): TemplateInstance {
+    const today = DateUtils.toDateString(new Date(now));
+    const deadline = typeof template.deadlineOffsetDays === 'number'
+      ? DateUtils.addDays(today, template.deadlineOffsetDays)
+      : undefined;
+    const context = { today, deadline };
+
+    return {
+      text: TaskTemplates.fillPlaceholders(template.text, context).trim() || template.name,
+      deadline,
+      priority: template.priority,
+      memo: template.memo ? TaskTemplates.fillPlaceholders(template.memo, context) : undefined,
+      estimatedMinutes: template.estimatedMinutes || undefined,
+      subTasks: TaskTemplates.toSubTasks(
+        (template.subTasks || []).map(item => ({ ...item, text: TaskTemplates.fillPlaceholders(item.text, context) })),
+        now
+      )
+    };
+  }
+
+  /**
+   * テンプレートのサブタスクを親子関係つきのサブタスクに変換
+   * 深さが前の項目より2段以上深い場合や上限を超える場合は詰めて扱う
+   */
+  static toSubTasks(items: TemplateSubTask[], now: number = Date.now()): SubTask[] {
+    const result: SubTask[] = [];
+    const ancestors: string[] = [];  // 深さごとの直近のサブタスクID
+
+    items.filter(item => item.text.trim()).forEach(item => {
+      const depth = Math.max(0, Math.min(item.depth, ancestors.length, SubTaskUtils.MAX_DEPTH - 1));
+      const parentId = depth > 0 ? ancestors[depth - 1] : null;
+      const subTask: SubTask = {
+        id: SubTaskUtils.generateSubTaskId(),
+        text: item.text.trim(),
+        completed: false,
+        completedAt: null,
+        order: result.filter(st => st.parentId === parentId).length + 1,
+        createdAt: now,
+        parentId
+      };
+      result.push(subTask);
+      ancestors.length = depth;
+      ancestors.push(subTask.id);
+    });
+
+    return result;
+  }
+
+  /**
+   * 字下げしたテキスト（1行1項目、先頭の「- 」は省略可）をテンプレートのサブタスクに変換
+   */
+  static parseChecklist(text: string): TemplateSubTask[] {
+    return text.split('\n')
+      .map(line => {
+        const indent = (line.match(/^[ \t　]*/)?.[0] || '').replace(/\t/g, ' '.repeat(CHECKLIST_INDENT)).length;
+        return {
+          text: line.trim().replace(/^[-*・]\s*(\[[ xX]\]\s*)?/, '').trim(),
+          depth: Math.floor(indent / CHECKLIST_INDENT)
+        };
+      })
+      .filter(item => item.text);
+  }
+
+  /**
+   * テンプレートのサブタスクを字下げしたテキストに変換
+   */
+  static formatChecklist(items: TemplateSubTask[]): string {
+    return items.map(item => `${' '.repeat(item.depth * CHECKLIST_INDENT)}- ${item.text}`).join('\n');
+  }
+}
@@ -18,6 +18,30 @@ export const clearAllUserData = async (userId: string | null = null) => {
     const taskStore = useEnhancedTaskStore.getState();
     taskStore.clearTasks();
     
+    // タグストアのクリア
+    const { useTagStore } = await import('@/store/tagStore');
+    useTagStore.getState().clearTags();
+    
+    // プロジェクトストアのクリア
+    const { useProjectStore } = await import('@/store/projectStore');
+    useProjectStore.getState().clearProjects();
+    
+    // 保存ビューのクリア
+    const { useTaskViewStore } = await import('@/store/taskViewStore');
+    useTaskViewStore.getState().clearViews();
+    
+    // タスクテンプレートのクリア
+    const { useTaskTemplateStore } = await import('@/store/taskTemplateStore');
+    useTaskTemplateStore.getState().clearTemplates();
+    
+    // ユーザー設定のクリア
+    const { useUserSettingsStore } = await import('@/store/userSettingsStore');
+    useUserSettingsStore.getState().clearSettings();
+    
+    // 操作履歴のクリア（他のユーザーの操作を元に戻せないようにする）
+    const { useHistoryStore } = await import('@/store/historyStore');
+    useHistoryStore.getState().clearHistory();
+    
     // ポイントストアは自動的にユーザー変更を検出するため、手動クリア不要
     
     // ゲームセンターストアのクリア
@@ -14,8 +14,14 @@ import { useGameCenterStore } from "@/store/gameCenterStore";
 import { useThemeStore } from "@/store/themeStore";
 import { useShopStore } from "@/store/shopStore";
 import { useHabitStore } from "@/store/habitStore";
+import { useTagStore } from "@/store/tagStore";
+import { useProjectStore } from "@/store/projectStore";
+import { useUserSettingsStore } from "@/store/userSettingsStore";
+import { useTaskViewStore } from "@/store/taskViewStore";
+import { useTaskTemplateStore } from "@/store/taskTemplateStore";
 import { useAuthStore } from "@/store/auth";
 import { useDevice } from "@/hooks/useDevice";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
 import Head from "next/head";
 
 // コンポーネントのインポート
@@ -55,9 +61,15 @@ export default function Home() {
   const { loadGameHistory, loadGameStats } = useGameCenterStore();
   const { loadShopItems, loadUserPurchases } = useShopStore();
   const { loadHabits } = useHabitStore();
+  const { loadTags } = useTagStore();
+  const { loadProjects } = useProjectStore();
+  const { loadSettings } = useUserSettingsStore();
+  const { loadViews } = useTaskViewStore();
+  const { loadTemplates } = useTaskTemplateStore();
   const { getActiveBackground, isUsingGradient } = useThemeStore();
   const { user } = useAuthStore();
   const isMobile = useDevice();
+  useUndoShortcuts();
   const [mounted, setMounted] = useState(false);
   const [dataInitialized, setDataInitialized] = useState(false);
   const [currentTab, setCurrentTab] = useState<'tasks' | 'habits' | 'games' | 'shop'>('tasks');
@@ -72,8 +84,13 @@ export default function Home() {
     if (user && !dataInitialized) {
       const initializeData = async () => {
         try {
-          // 基本データをロード
+          // 基本データをロード（保持設定はタスクの自動アーカイブより先に読み込む）
+          loadSettings();
           await loadTasks();
+          await loadTags();
+          await loadProjects();
+          loadViews();
+          loadTemplates();
           await loadUserPoints();
           
           // ゲームセンターデータをロード
@@ -102,7 +119,7 @@ export default function Home() {
         setDataInitialized(false);
       }
     };
-  }, [user, dataInitialized, loadTasks, loadUserPoints, loadGameHistory, loadGameStats, loadShopItems, loadUserPurchases, loadHabits]);
+  }, [user, dataInitialized, loadTasks, loadUserPoints, loadGameHistory, loadGameStats, loadShopItems, loadUserPurchases, loadHabits, loadTags, loadProjects, loadSettings, loadViews, loadTemplates]);
 
   // テーマの動的適用
   useEffect(() => {
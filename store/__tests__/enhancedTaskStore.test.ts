@@ -0,0 +1,338 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { User } from 'firebase/auth';
+import { firestore } from './firestoreMock';
+import { useAuthStore } from '@/store/auth';
+import { useEnhancedTaskStore } from '@/store/enhancedTaskStore';
+import { useTagStore } from '@/store/tagStore';
+import { useProjectStore } from '@/store/projectStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { useUserSettingsStore } from '@/store/userSettingsStore';
+import { usePointStore } from '@/store/pointStore';
+import { useFeedbackStore } from '@/store/feedbackStore';
+import { PriorityEscalationUtils, SubTask } from '@/lib/taskInterfaces';
+
+vi.mock('@/lib/firebase', () => ({ db: {}, auth: {} }));
+vi.mock('firebase/firestore', async () => (await import('./firestoreMock')).firestoreModule);
+vi.mock('firebase/auth', async (importOriginal) => ({
+  ...await importOriginal<typeof import('firebase/auth')>(),
+  onAuthStateChanged: () => () => {}
+}));
+
+const USER_ID = 'user-1';
+
+/**
+ * Firestoreのタスクを用意して読み込む
+ */
+const loadTasks = (docs: { [id: string]: object }) => {
+  firestore.reset(docs);
+  useEnhancedTaskStore.setState({ pendingWrites: [] });
+  useEnhancedTaskStore.getState().loadTasks();
+};
+
+/**
+ * 同期待ちの書き込みがなくなるまで待つ
+ */
+const waitForSync = () => vi.waitFor(() => {
+  if (useEnhancedTaskStore.getState().pendingWrites.length > 0) throw new Error('同期待ち');
+}, { timeout: 5000 });
+
+const taskDoc = (overrides: object = {}) => ({
+  text: 'タスク',
+  completed: false,
+  userId: USER_ID,
+  order: 1,
+  priority: 'medium',
+  createdAt: 0,
+  subTasks: [],
+  ...overrides
+});
+
+beforeEach(() => {
+  // テスト環境にはIndexedDB・localStorageがないため、それに伴うログは表示しない
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  useAuthStore.setState({ user: { uid: USER_ID } as User });
+  useHistoryStore.getState().clearHistory();
+});
+
+/**
+ * 直前の操作を取り消して同期を待つ
+ */
+const undo = async () => {
+  await useHistoryStore.getState().undo();
+  await waitForSync();
+};
+
+describe('タスクの追加', () => {
+  it('作成時に選んだ優先度は手動設定として保存する', async () => {
+    loadTasks({});
+    const store = useEnhancedTaskStore.getState();
+
+    const manualId = await store.addTask('企画書提出', '2025-10-16', 'low', '', { priorityManual: true });
+    const suggestedId = await store.addTask('企画書提出', '2025-10-16', 'low');
+    await waitForSync();
+
+    expect(firestore.docs.get(manualId)?.priorityManual).toBe(true);
+    expect(firestore.docs.get(suggestedId)?.priorityManual).toBeUndefined();
+  });
+});
+
+describe('同期の失敗', () => {
+  it('送信に失敗した書き込みはキューに残して再送し、上限まで失敗したら取り消したことを知らせる', async () => {
+    loadTasks({ 'task-1': taskDoc() });
+    firestore.failingCommits = 1;
+
+    await useEnhancedTaskStore.getState().setTaskTags('task-1', ['仕事']);
+    await vi.waitFor(() => expect(useEnhancedTaskStore.getState().pendingWrites[0]?.failedAttempts).toBe(1));
+    expect(useEnhancedTaskStore.getState().tasks[0].tags).toEqual(['仕事']);
+
+    await useEnhancedTaskStore.getState().flushPendingWrites();
+    expect(firestore.docs.get('task-1')?.tags).toEqual(['仕事']);
+
+    firestore.failingCommits = 3;
+    await useEnhancedTaskStore.getState().setTaskTags('task-1', ['私用']);
+    await vi.waitFor(() => expect(useEnhancedTaskStore.getState().pendingWrites[0]?.failedAttempts).toBe(1));
+    await useEnhancedTaskStore.getState().flushPendingWrites();
+    await useEnhancedTaskStore.getState().flushPendingWrites();
+
+    expect(useEnhancedTaskStore.getState().pendingWrites).toHaveLength(0);
+    expect(useEnhancedTaskStore.getState().tasks[0].tags).toEqual(['仕事']);
+    expect(useFeedbackStore.getState().message).toBe('同期できなかった変更を取り消しました（1件のタスク）');
+  });
+});
+
+describe('実績時間の記録', () => {
+  it('同時に加算した作業時間を、他の端末の記録も含めてすべて残す', async () => {
+    loadTasks({ 'task-1': taskDoc({ actualMinutes: 10 }) });
+    // 読み込み後に他の端末が25分を記録した
+    firestore.docs.set('task-1', { ...firestore.docs.get('task-1'), actualMinutes: 35 });
+
+    const store = useEnhancedTaskStore.getState();
+    await Promise.all([store.addActualMinutes('task-1', 25), store.addActualMinutes('task-1', 5)]);
+    await waitForSync();
+
+    expect(firestore.docs.get('task-1')?.actualMinutes).toBe(65);
+    expect(useEnhancedTaskStore.getState().tasks[0].actualMinutes).toBe(65);
+  });
+
+  it('送信済みの加算を再送しても重ねて加算しない', async () => {
+    loadTasks({ 'task-1': taskDoc({ actualMinutes: 10 }) });
+
+    await useEnhancedTaskStore.getState().addActualMinutes('task-1', 25);
+    const [write] = useEnhancedTaskStore.getState().pendingWrites;
+    await waitForSync();
+
+    useEnhancedTaskStore.setState({ pendingWrites: [write] });
+    await useEnhancedTaskStore.getState().flushPendingWrites();
+
+    expect(firestore.docs.get('task-1')?.actualMinutes).toBe(35);
+  });
+});
+
+describe('優先度の自動調整', () => {
+  beforeEach(() => {
+    // 日付だけを進める（書き込みの同期はタイマーで待つため、タイマーは実時間のまま）
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    useUserSettingsStore.setState({ loaded: false, priorityEscalation: PriorityEscalationUtils.DEFAULT_SETTINGS });
+  });
+
+  it('設定を保存していないユーザーでも、期限が近づいたタスクの優先度を上げる（手動で設定したものは除く）', async () => {
+    vi.setSystemTime(new Date(2025, 9, 1, 9));
+    useUserSettingsStore.setState({ loaded: true });
+    loadTasks({
+      'auto': taskDoc({ priority: 'medium', deadline: '2025-12-20', urgency: 1 }),
+      'manual': taskDoc({ priority: 'medium', deadline: '2025-12-20', urgency: 1, priorityManual: true })
+    });
+    await waitForSync();
+    expect(firestore.docs.get('auto')?.priority).toBe('medium');
+
+    // 期限の当日に日付が変わってから見直す
+    vi.setSystemTime(new Date(2025, 11, 20, 9));
+    await useEnhancedTaskStore.getState().reevaluatePriorities();
+    await waitForSync();
+
+    expect(firestore.docs.get('auto')).toMatchObject({ priority: 'high', autoPriorityChange: { from: 'medium', to: 'high' } });
+    expect(firestore.docs.get('manual')).toMatchObject({ priority: 'medium', urgency: 1 });
+
+    // 値が変わらなければ見直し直しても書き込まない
+    const commitCount = firestore.commits.length;
+    await useEnhancedTaskStore.getState().reevaluatePriorities(true);
+    await waitForSync();
+    expect(firestore.commits).toHaveLength(commitCount);
+  });
+
+  it('自動調整を無効にしている場合は書き込まない', async () => {
+    vi.setSystemTime(new Date(2025, 11, 20, 9));
+    useUserSettingsStore.setState({ loaded: true, priorityEscalation: { enabled: false, overrideManual: false } });
+    loadTasks({ 'auto': taskDoc({ priority: 'medium', deadline: '2025-12-20', urgency: 1 }) });
+
+    await useEnhancedTaskStore.getState().reevaluatePriorities(true);
+    await waitForSync();
+
+    expect(firestore.commits).toHaveLength(0);
+    expect(firestore.docs.get('auto')?.priority).toBe('medium');
+  });
+});
+
+describe('メモのチェックリストの同期', () => {
+  it('メモの編集をサブタスクへ1回の書き込みで反映し、1回で元に戻せる', async () => {
+    loadTasks({
+      'task-1': taskDoc({
+        memoChecklistSync: true,
+        memo: '- [ ] 調査',
+        subTasks: [{ id: 'st-1', text: '調査', completed: false, order: 1, createdAt: 0, parentId: null }]
+      })
+    });
+    const addPoints = vi.spyOn(usePointStore.getState(), 'addPoints');
+
+    await useEnhancedTaskStore.getState().updateTaskMemo('task-1', '- [x] 調査\n- [ ] 構成\n  - [x] 目次\n- [ ] 執筆');
+    await waitForSync();
+
+    const task = firestore.docs.get('task-1');
+    expect(task?.subTasks.map((st: SubTask) => [st.text, st.completed])).toEqual([
+      ['調査', true], ['構成', false], ['目次', true], ['執筆', false]
+    ]);
+    expect(task?.subTasks.find((st: SubTask) => st.text === '目次')?.parentId)
+      .toBe(task?.subTasks.find((st: SubTask) => st.text === '構成')?.id);
+    expect(task?.completedSubTasksCount).toBe(2);
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    expect(addPoints).not.toHaveBeenCalled();
+
+    await undo();
+
+    expect(firestore.docs.get('task-1')).toMatchObject({ memo: '- [ ] 調査', subTasks: [{ id: 'st-1', completed: false }] });
+  });
+});
+
+describe('タグの書き換え', () => {
+  it('500件を超えるタスクの書き換えを、並行に読み込んでから上限以内のバッチに分けて送信する', async () => {
+    const docs: { [id: string]: object } = {};
+    for (let i = 0; i < 1200; i++) {
+      docs[`task-${i}`] = taskDoc({ tags: ['仕事', '急ぎ'] });
+    }
+    loadTasks(docs);
+    useTagStore.setState({ tags: [{ id: 'tag-1', userId: USER_ID, name: '仕事', color: '#888888', createdAt: 0 }] });
+
+    await useTagStore.getState().renameTag('tag-1', '業務');
+    await waitForSync();
+
+    expect(firestore.commits).toEqual([500, 500, 200]);
+    expect(firestore.maxConcurrentReads).toBe(1200);
+    expect(Array.from(firestore.docs.values()).every(doc => doc.tags.join() === '業務,急ぎ')).toBe(true);
+  });
+});
+
+describe('プロジェクトの削除', () => {
+  it('所属タスクをゴミ箱へ移動し、他のタスクからの依存関係の参照を取り除く', async () => {
+    loadTasks({
+      'in-project': taskDoc({ projectId: 'project-1' }),
+      'blocked': taskDoc({ blockedBy: ['in-project', 'other'] }),
+      'other': taskDoc()
+    });
+    useProjectStore.setState({
+      projects: [{ id: 'project-1', userId: USER_ID, name: '仕事', color: '#888888', icon: '📁', archived: false, createdAt: 0 }]
+    });
+
+    await useProjectStore.getState().removeProject('project-1', { type: 'delete' });
+    await waitForSync();
+
+    expect(firestore.docs.get('in-project')?.deletedAt).toEqual(expect.any(Number));
+    expect(firestore.docs.get('blocked')?.blockedBy).toEqual(['other']);
+    expect(useEnhancedTaskStore.getState().trashedTasks.map(task => task.id)).toEqual(['in-project']);
+  });
+});
+
+describe('変更履歴', () => {
+  it('1件のタスクのタグ・プロジェクト・依存関係の変更を履歴に残す', async () => {
+    loadTasks({
+      'task-1': taskDoc({ tags: ['仕事'] }),
+      'task-2': taskDoc()
+    });
+    const store = useEnhancedTaskStore.getState();
+
+    await store.setTaskTags('task-1', ['仕事', '急ぎ']);
+    await store.setTaskProject('task-1', 'project-1');
+    await store.addDependency('task-1', 'task-2');
+    await waitForSync();
+
+    const activityLog = firestore.docs.get('task-1')?.activityLog ?? [];
+    expect(activityLog.map((entry: { kind: string }) => entry.kind)).toEqual(['tags', 'project', 'dependencies']);
+    expect(useEnhancedTaskStore.getState().tasks.find(task => task.id === 'task-1')?.activityLog).toHaveLength(3);
+  });
+});
+
+describe('元に戻す', () => {
+  it('タスクのタグ・プロジェクト・依存関係の変更を元に戻せる', async () => {
+    loadTasks({
+      'task-1': taskDoc({ tags: ['仕事'] }),
+      'task-2': taskDoc()
+    });
+    const store = useEnhancedTaskStore.getState();
+
+    await store.setTaskTags('task-1', ['私用']);
+    await store.setTaskProject('task-1', 'project-1');
+    await store.addDependency('task-1', 'task-2');
+    await waitForSync();
+    expect(firestore.docs.get('task-1')).toMatchObject({ tags: ['私用'], projectId: 'project-1', blockedBy: ['task-2'] });
+
+    await undo();
+    await undo();
+    await undo();
+
+    const task = firestore.docs.get('task-1');
+    expect(task?.tags).toEqual(['仕事']);
+    expect(task?.projectId).toBeUndefined();
+    expect(task?.blockedBy).toBeUndefined();
+  });
+
+  it('タグの統合をタスクの書き換えと合わせて1回で元に戻せる', async () => {
+    loadTasks({
+      'task-1': taskDoc({ tags: ['仕事'] }),
+      'task-2': taskDoc({ tags: ['仕事', '業務'] })
+    });
+    const workTag = { id: 'tag-1', userId: USER_ID, name: '仕事', color: '#888888', createdAt: 0 };
+    useTagStore.setState({ tags: [workTag, { ...workTag, id: 'tag-2', name: '業務' }] });
+
+    await useTagStore.getState().renameTag('tag-1', '業務');
+    await waitForSync();
+    expect(firestore.docs.get('task-2')?.tags).toEqual(['業務']);
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+
+    await undo();
+
+    expect(firestore.docs.get('task-1')?.tags).toEqual(['仕事']);
+    expect(firestore.docs.get('task-2')?.tags).toEqual(['仕事', '業務']);
+    expect(firestore.otherWrites.at(-1)).toEqual({
+      type: 'set',
+      id: 'tag-1',
+      data: { userId: USER_ID, name: '仕事', color: '#888888', createdAt: 0 }
+    });
+  });
+
+  it('プロジェクトの削除を所属タスクの移動と合わせて元に戻せる', async () => {
+    loadTasks({ 'task-1': taskDoc({ projectId: 'project-1' }) });
+    useProjectStore.setState({
+      projects: [{ id: 'project-1', userId: USER_ID, name: '仕事', color: '#888888', icon: '📁', archived: false, createdAt: 0 }]
+    });
+
+    await useProjectStore.getState().removeProject('project-1', { type: 'move', moveTo: null });
+    await waitForSync();
+    expect(firestore.docs.get('task-1')?.projectId).toBeUndefined();
+
+    await undo();
+
+    expect(firestore.docs.get('task-1')?.projectId).toBe('project-1');
+    expect(firestore.otherWrites.at(-1)).toMatchObject({ type: 'set', id: 'project-1', data: { name: '仕事' } });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * テスト用のFirestoreの代わり
+ *
+ * enhancedTasks のドキュメントをメモリ上に保持し、バッチ書き込みの内容を反映して
+ * リアルタイムリスナーへ通知する（送信したバッチごとの書き込み数も記録する）
+ * タグ・プロジェクトなど他のコレクションへの書き込みは内容だけを記録する
+ * ドキュメントの読み込みは非同期に応答し、同時に読み込んだ最大の数を記録する
+ * failingCommits に回数を指定すると、その回数だけバッチ書き込みを権限エラーで失敗させる
+ */
+
+type DocumentData = { [field: string]: any };
+type Snapshot = { docs: { id: string; data: () => DocumentData }[] };
+
+// deleteField() の代わりに使う値
+const DELETE_FIELD = { __deleteField: true };
+
+// increment() の代わりに使う値
+type Increment = { __incrementBy: number };
+const isIncrement = (value: unknown): value is Increment =>
+  typeof value === 'object' && value !== null && '__incrementBy' in value;
+
+export const firestore = {
+  docs: new Map<string, DocumentData>(),
+  commits: [] as number[],
+  otherWrites: [] as { type: 'set' | 'update' | 'delete'; id: string; data?: DocumentData }[],
+  activeReads: 0,
+  maxConcurrentReads: 0,
+  failingCommits: 0,
+  listener: null as ((snapshot: Snapshot) => void) | null,
+
+  /**
+   * ドキュメントと送信の記録を初期化
+   */
+  reset(docs: { [id: string]: DocumentData } = {}) {
+    firestore.docs = new Map(Object.entries(docs));
+    firestore.commits = [];
+    firestore.otherWrites = [];
+    firestore.maxConcurrentReads = 0;
+    firestore.failingCommits = 0;
+    firestore.listener = null;
+  }
+};
+
+const notify = () => {
+  firestore.listener?.({
+    docs: Array.from(firestore.docs, ([id, data]) => ({ id, data: () => data }))
+  });
+};
+
+/**
+ * 「fieldUpdatedAt.tags」のようなドット区切りのフィールドを含む更新を適用
+ */
+const applyUpdate = (data: DocumentData, updates: DocumentData): DocumentData => {
+  const result = structuredClone(data);
+  Object.entries(updates).forEach(([path, value]) => {
+    const keys = path.split('.');
+    const last = keys.pop() as string;
+    const target = keys.reduce((object, key) => (object[key] = object[key] || {}), result);
+    if (value === DELETE_FIELD) {
+      delete target[last];
+    } else if (isIncrement(value)) {
+      target[last] = (target[last] || 0) + value.__incrementBy;
+    } else {
+      target[last] = value;
+    }
+  });
+  return result;
+};
+
+let generatedId = 0;
+
+/**
+ * firebase/firestore の代わりに使う関数
+ */
+export const firestoreModule = {
+  collection: (_db: unknown, name: string) => ({ name }),
+  doc: (_parent: unknown, _collection?: string, id?: string) => ({ id: id || `generated-${++generatedId}` }),
+  query: (collection: { name: string }) => collection,
+  where: () => ({}),
+  deleteField: () => DELETE_FIELD,
+  increment: (amount: number): Increment => ({ __incrementBy: amount }),
+
+  onSnapshot: (source: { name: string }, next: (snapshot: Snapshot) => void) => {
+    if (source.name !== 'enhancedTasks') return () => {};
+    firestore.listener = next;
+    notify();
+    return () => {
+      firestore.listener = null;
+    };
+  },
+
+  getDoc: async (ref: { id: string }) => {
+    firestore.activeReads++;
+    firestore.maxConcurrentReads = Math.max(firestore.maxConcurrentReads, firestore.activeReads);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    firestore.activeReads--;
+
+    const data = firestore.docs.get(ref.id);
+    return { exists: () => data !== undefined, data: () => data };
+  },
+
+  addDoc: async () => ({ id: `generated-${++generatedId}` }),
+  setDoc: async (ref: { id: string }, data: DocumentData) => {
+    firestore.otherWrites.push({ type: 'set', id: ref.id, data });
+  },
+  updateDoc: async (ref: { id: string }, data: DocumentData) => {
+    firestore.otherWrites.push({ type: 'update', id: ref.id, data });
+  },
+  deleteDoc: async (ref: { id: string }) => {
+    firestore.otherWrites.push({ type: 'delete', id: ref.id });
+  },
+
+  writeBatch: () => {
+    const writes: ((docs: Map<string, DocumentData>) => void)[] = [];
+    const batch = {
+      set: (ref: { id: string }, data: DocumentData) => {
+        writes.push(docs => docs.set(ref.id, structuredClone(data)));
+        return batch;
+      },
+      update: (ref: { id: string }, updates: DocumentData) => {
+        writes.push(docs => docs.set(ref.id, applyUpdate(docs.get(ref.id) || {}, updates)));
+        return batch;
+      },
+      delete: (ref: { id: string }) => {
+        writes.push(docs => docs.delete(ref.id));
+        return batch;
+      },
+      commit: async () => {
+        if (firestore.failingCommits > 0) {
+          firestore.failingCommits--;
+          throw Object.assign(new Error('権限がありません'), { code: 'permission-denied' });
+        }
+        writes.forEach(write => write(firestore.docs));
+        firestore.commits.push(writes.length);
+        notify();
+      }
+    };
+    return batch;
+  }
+};
@@ -3,6 +3,7 @@
  * 
  * サブタスク、メモ、ポイント機能を含む拡張されたタスク管理
  * v1.6.0: タスクソート機能とゲーム中ポモドーロ継続機能を追加
+ * v1.8.0: タスク管理機能の拡充（タグ・プロジェクト・依存関係・繰り返し・オフライン同期・元に戻す・一括操作など）
  */
 
 import { create } from "zustand";
@@ -12,20 +13,30 @@ import {
   collection, 
   doc, 
   addDoc, 
-  updateDoc, 
+  setDoc,
   deleteDoc, 
   query, 
   where, 
   getDocs, 
   writeBatch,
+  WriteBatch,
   onSnapshot,
-  getDoc
+  getDoc,
+  deleteField,
+  increment,
+  DocumentData
 } from "firebase/firestore";
 import { useAuthStore } from "@/store/auth";
 import { usePointStore } from "@/store/pointStore";
 import { useFeedbackStore } from "@/store/feedbackStore";
 import { usePomodoroStore } from "@/store/pomodoroStore";
-import { PriorityLevel } from "@/lib/aiPriorityAssignment";
+import { useTagStore } from "@/store/tagStore";
+import { useHistoryStore, UNDO_ACTION } from "@/store/historyStore";
+import { useProjectStore, ProjectTaskDisposition } from "@/store/projectStore";
+import { useUserSettingsStore } from "@/store/userSettingsStore";
+import { PriorityLevel, scoresToPriority, calculateUrgencyScore } from "@/lib/aiPriorityAssignment";
+import { DateUtils } from "@/lib/dateUtils";
+import { OfflineQueue, QueuedWrite, QueuedOperation, QueuedWriteType, TaskWriteData, DELETED_FIELD, isDeletedField, incrementField, isFieldIncrement } from "@/lib/offlineQueue";
 import { 
   EnhancedTask, 
   SubTask, 
@@ -38,30 +49,91 @@ import {
   SubTaskFilter,
   TaskSortBy,
   SortOrder,
-  TaskSortConfig
+  TaskSortConfig,
+  CreateTaskOptions,
+  RecurrenceRule,
+  RecurrenceUtils,
+  TagUtils,
+  DependencyUtils,
+  ProjectUtils,
+  RetentionUtils,
+  DueUtils,
+  TaskStatus,
+  BoardUtils,
+  EisenhowerUtils,
+  EisenhowerQuadrant,
+  PriorityEscalationUtils,
+  SnoozeUtils
 } from "@/lib/taskInterfaces";
+import { TaskReminders, DueReminder } from "@/lib/taskReminders";
+import { taskSearchIndex } from "@/lib/taskSearch";
+import { MemoChecklist } from "@/lib/markdown";
+import { TaskActivityLog } from "@/lib/taskActivity";
 
 /**
  * 拡張タスクストアの状態とアクション定義
  */
 interface EnhancedTaskState {
-  tasks: EnhancedTask[];
+  tasks: EnhancedTask[];                 // 表示中のタスク（アーカイブ・ゴミ箱を除く）
+  archivedTasks: EnhancedTask[];         // アーカイブ済みのタスク
+  trashedTasks: EnhancedTask[];          // ゴミ箱のタスク
   loading: boolean;
   unsubscribe: (() => void) | null;
   
+  // オフライン同期待ちの書き込み（追加順）
+  pendingWrites: QueuedWrite[];
+  
   // 🔥 追加: ソート設定
   sortConfig: TaskSortConfig;
   setSortConfig: (config: TaskSortConfig) => void;
   
   // 基本のタスク操作
   loadTasks: () => void;
-  addTask: (text: string, deadline?: string, priority?: PriorityLevel, memo?: string) => Promise<string>;
+  addTask: (text: string, deadline?: string, priority?: PriorityLevel, memo?: string, options?: CreateTaskOptions) => Promise<string>;
   removeTask: (taskId: string) => Promise<void>;
   toggleCompleteTask: (taskId: string) => Promise<void>;
-  setDeadline: (taskId: string, deadline: string) => Promise<void>;
+  setTaskStatus: (taskId: string, status: TaskStatus) => Promise<void>;
+  setDeadline: (taskId: string, deadline: string, dueTime?: string | null) => Promise<void>;
+  setReminders: (taskId: string, reminders: number[]) => Promise<void>;
+  setStartDate: (taskId: string, startDate: string | null) => Promise<void>;
   setPriority: (taskId: string, priority: PriorityLevel) => Promise<void>;
+  setEisenhowerQuadrant: (taskId: string, quadrant: EisenhowerQuadrant) => Promise<void>;
+  
+  // 優先度の自動調整
+  reevaluatePriorities: (force?: boolean) => Promise<void>;
+  acceptPriorityChanges: (taskIds: string[]) => Promise<void>;
+  revertPriorityChanges: (taskIds: string[]) => Promise<void>;
   updateTaskMemo: (taskId: string, memo: string) => Promise<void>;
+  setMemoChecklistSync: (taskId: string, enabled: boolean) => Promise<void>;
+  syncMemoChecklist: (taskId: string, previousMemo?: string) => Promise<void>;
   setEstimatedTime: (taskId: string, minutes: number) => Promise<void>;
+  addActualMinutes: (taskId: string, minutes: number) => Promise<void>;
+  setRecurrence: (taskId: string, rule: RecurrenceRule | null) => Promise<void>;
+  setTaskTags: (taskId: string, tags: string[]) => Promise<void>;
+  setTaskProject: (taskId: string, projectId: string | null) => Promise<void>;
+  
+  // 依存関係
+  addDependency: (taskId: string, blockerId: string) => Promise<boolean>;
+  removeDependency: (taskId: string, blockerId: string) => Promise<void>;
+  
+  // 一括操作（それぞれ1回のバッチ書き込みで反映）
+  bulkCompleteTasks: (taskIds: string[], completed: boolean) => Promise<void>;
+  bulkRemoveTasks: (taskIds: string[]) => Promise<void>;
+  bulkSetPriority: (taskIds: string[], priority: PriorityLevel) => Promise<void>;
+  bulkSetDeadline: (taskIds: string[], deadline: string) => Promise<void>;
+  bulkShiftDeadline: (taskIds: string[], days: number) => Promise<void>;
+  bulkAddTag: (taskIds: string[], tag: string) => Promise<void>;
+  bulkMoveToProject: (taskIds: string[], projectId: string | null) => Promise<void>;
+
+  // タグ・プロジェクトの変更に伴う書き換え（アーカイブ・ゴミ箱のタスクも対象）
+  replaceTaskTag: (tag: string, replacement: string | null) => Promise<number>;
+  releaseProjectTasks: (projectId: string, disposition: ProjectTaskDisposition) => Promise<number>;
+
+  // アーカイブ・ゴミ箱
+  archiveTask: (taskId: string) => Promise<void>;
+  restoreTask: (taskId: string) => Promise<void>;
+  purgeTask: (taskId: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
   
   // サブタスク操作
   addSubTask: (data: CreateSubTaskData) => Promise<string>;
@@ -69,10 +141,18 @@ interface EnhancedTaskState {
   removeSubTask: (taskId: string, subTaskId: string) => Promise<void>;
   toggleCompleteSubTask: (taskId: string, subTaskId: string) => Promise<void>;
   reorderSubTasks: (taskId: string, newOrder: string[]) => Promise<void>;
+  moveTask: (taskId: string, orderedTaskIds: string[], index: number) => Promise<void>;
+  moveSubTask: (taskId: string, subTaskId: string, newParentId: string | null, index: number) => Promise<void>;
+  promoteSubTask: (taskId: string, subTaskId: string) => Promise<string | null>;
+  mergeTaskIntoTask: (taskId: string, targetTaskId: string) => Promise<void>;
   
   // ポモドーロ連携
   startPomodoro: (taskId: string) => void;
   
+  // オフライン同期
+  flushPendingWrites: () => Promise<void>;
+  isTaskPending: (taskId: string) => boolean;
+  
   // 🔥 追加: ソート・フィルター機能
   getSortedTasks: (filter?: SubTaskFilter) => EnhancedTask[];
   getTasksByFilter: (filter: SubTaskFilter) => EnhancedTask[];
@@ -80,17 +160,18 @@ interface EnhancedTaskState {
   getOverdueTasks: () => EnhancedTask[];
   getTasksDueToday: () => EnhancedTask[];
   getTasksDueSoon: (days?: number) => EnhancedTask[];
+  getTasksByTag: (tag: string) => EnhancedTask[];
+  getTasksByProject: (projectId: string | null) => EnhancedTask[];
+  getBlockedTasks: () => EnhancedTask[];
+  getSnoozedTasks: () => EnhancedTask[];
   
   // ユーティリティ
   getTaskById: (taskId: string) => EnhancedTask | undefined;
   getTaskAnalytics: () => TaskAnalytics;
   clearTasks: () => void;
-  checkAndDeleteCompletedTasks: () => Promise<void>;
+  checkAndArchiveCompletedTasks: () => Promise<void>;
 }
 
-// 1週間のミリ秒数
-const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
-
 /**
  * タスク完了時の効果音を再生
  */
@@ -120,6 +201,473 @@ const playSubTaskCompletionSound = () => {
   }
 };
 
+// Firestoreから受け取った最新のタスク（同期待ちの書き込みを適用する前の状態）
+let serverTasks: EnhancedTask[] = [];
+
+// 同期処理の実行中フラグ（二重実行を防止）
+let flushing = false;
+
+// Firestoreの1回のバッチ書き込みに含められる書き込みの上限
+const MAX_BATCH_WRITES = 500;
+
+// オフライン以外の理由で失敗した書き込みを送り直す回数の上限と、送り直すまでの間隔（失敗回数に比例）
+const MAX_SEND_ATTEMPTS = 3;
+const SEND_RETRY_DELAY = 30 * 1000;
+
+// 送信済みの加算の印を残す期間（これより前の印は次の加算の送信時に削除する）
+const APPLIED_INCREMENT_RETENTION = 30 * 24 * 60 * 60 * 1000;
+
+// 優先度を最後に見直した日（ユーザーごと、YYYY-MM-DD形式）を保存するキー
+const PRIORITY_REEVALUATION_KEY = 'shinchokudou-priority-reevaluated';
+
+// この起動で優先度を見直したユーザー（起動時には日付にかかわらず1回見直す）
+let reevaluatedUserId: string | null = null;
+
+/**
+ * ブラウザ通知の許可をリクエスト（未確認の場合のみ）
+ */
+const requestNotificationPermission = () => {
+  if (typeof window !== 'undefined' && "Notification" in window && Notification.permission === "default") {
+    Notification.requestPermission();
+  }
+};
+
+/**
+ * リマインダーをブラウザ通知とフィードバックで知らせる
+ * 通知はタブがバックグラウンドにあっても表示される
+ */
+const showTaskReminder = (reminder: DueReminder) => {
+  const { task, minutesBefore } = reminder;
+  const timing = minutesBefore === 0 ? '期限になりました' : `期限の${DueUtils.describeReminder(minutesBefore)}です`;
+
+  try {
+    if ("Notification" in window && Notification.permission === "granted") {
+      new Notification(`⏰ ${task.text}`, {
+        body: `${timing}（期限: ${DueUtils.formatDue(task)}）`,
+        icon: "/favicon.ico",
+        tag: reminder.key
+      });
+    }
+  } catch (error) {
+    console.error("リマインダー通知エラー:", error);
+  }
+
+  const feedbackStore = useFeedbackStore.getState();
+  feedbackStore.setMessage(`⏰ 「${task.text}」の${timing}`);
+};
+
+/**
+ * サーバーのタスクに同期待ちの書き込みを重ねて表示用のタスク一覧を更新
+ */
+const refreshTasks = () => {
+  const { pendingWrites } = useEnhancedTaskStore.getState();
+  const allTasks = OfflineQueue.applyWrites(serverTasks, pendingWrites).map(task => ({
+    ...task,
+    subTasks: task.subTasks || [],
+    subTasksCount: task.subTasks?.length || 0,
+    completedSubTasksCount: task.subTasks?.filter((st: SubTask) => st.completed).length || 0
+  }));
+
+  // 検索索引は変更のあったタスクだけを更新する
+  taskSearchIndex.sync(allTasks);
+
+  // アーカイブ・ゴミ箱のタスクは通常の一覧から分ける
+  useEnhancedTaskStore.setState({
+    tasks: allTasks.filter(task => !task.archivedAt && !task.deletedAt),
+    archivedTasks: allTasks.filter(RetentionUtils.isArchived),
+    trashedTasks: allTasks.filter(RetentionUtils.isTrashed)
+  });
+};
+
+/**
+ * 書き込み操作に変更履歴の追記を加える
+ * 変更前のタスクと比べて履歴を求めるため、どの操作から書き込んでも履歴が残る
+ * 元に戻す・やり直しも新しい変更として記録し、変更履歴を直接書き込む操作はそのまま送る
+ */
+const withActivityLog = (operations: QueuedOperation[], at: number): QueuedOperation[] => {
+  const { tasks, archivedTasks, trashedTasks } = useEnhancedTaskStore.getState();
+  const current = new Map<string, EnhancedTask>(
+    [...tasks, ...archivedTasks, ...trashedTasks].map(task => [task.id, task] as const)
+  );
+
+  return operations.map(operation => {
+    const task = current.get(operation.taskId);
+
+    if (operation.type === 'delete') {
+      current.delete(operation.taskId);
+      return operation;
+    }
+    if (!operation.data) return operation;
+
+    let data = operation.data;
+    if (operation.type === 'set') {
+      // 完全に削除したタスクを戻す場合は、保存していた履歴に復元を追記する
+      if (!task) {
+        const activityLog = isDeletedField(data.activityLog) ? undefined : data.activityLog;
+        const entry = { kind: activityLog ? 'restored' as const : 'created' as const, at };
+        data = { ...data, activityLog: TaskActivityLog.append(activityLog, [entry]) };
+      }
+    } else if (task && !('activityLog' in data)) {
+      const entries = TaskActivityLog.diff(task, data, at);
+      if (entries.length > 0) {
+        data = { ...data, activityLog: TaskActivityLog.append(task.activityLog, entries) };
+      }
+    }
+
+    // 同じ書き込みで同じタスクを続けて変更する場合に備えて、変更後の状態を保持する
+    const base = operation.type === 'set' || !task ? { id: operation.taskId } as EnhancedTask : task;
+    current.set(operation.taskId, OfflineQueue.applyChanges(base, data));
+
+    return data === operation.data ? operation : { ...operation, data };
+  });
+};
+
+/**
+ * 書き込み操作をローカルの状態に即時反映し、IndexedDBのキューに積んで同期を開始
+ * 複数の操作は1回のバッチ書き込みとして送信される
+ * IndexedDBが使えない環境ではメモリ上のキューのみで同期する
+ */
+const queueOperations = async (operations: QueuedOperation[]): Promise<void> => {
+  const user = useAuthStore.getState().user;
+  if (!user) throw new Error("ユーザーがログインしていません");
+  if (operations.length === 0) return;
+
+  const timestamp = Date.now();
+  const write: QueuedWrite = {
+    id: OfflineQueue.createId(),
+    userId: user.uid,
+    operations: withActivityLog(operations, timestamp),
+    timestamp
+  };
+
+  // 楽観的にローカルの状態へ反映
+  useEnhancedTaskStore.setState(state => ({ pendingWrites: [...state.pendingWrites, write] }));
+  refreshTasks();
+
+  try {
+    await OfflineQueue.enqueue(write);
+  } catch (error) {
+    console.error("オフラインキューへの保存エラー:", error);
+  }
+
+  useEnhancedTaskStore.getState().flushPendingWrites();
+};
+
+/**
+ * 1つのタスクへの書き込みをキューに積む
+ */
+const queueWrite = (type: QueuedWriteType, taskId: string, data?: TaskWriteData): Promise<void> => {
+  return queueOperations([{ type, taskId, ...(data ? { data } : {}) }]);
+};
+
+/**
+ * オフライン状態による失敗かどうかを判定（再送対象）
+ */
+const isOfflineError = (error: unknown): boolean => {
+  const code = typeof error === 'object' && error !== null && 'code' in error ? error.code : undefined;
+  return code === 'unavailable' ||
+    (typeof navigator !== 'undefined' && !navigator.onLine);
+};
+
+/**
+ * キューの書き込み1件をFirestoreへバッチ書き込みとして送信
+ * 更新はサーバー側のフィールド更新日時と比較し、新しいフィールドだけを書き込む（フィールド単位の後勝ち）
+ * 比較に使うドキュメントは送信前にまとめて並行に読み込み、同じ書き込みの中での作成・削除はその結果に反映して扱う
+ * 加算は後勝ちの対象にせず increment() で送り、書き込みIDの印を同じバッチで残して再送時に重ねない
+ * 書き込みの上限を超える場合は複数のバッチに分けて順に送信する
+ * 途中のバッチで失敗しても、各操作は冪等なため書き込み全体の再送で同じ結果になる
+ */
+const sendWrite = async (write: QueuedWrite): Promise<void> => {
+  const batches: WriteBatch[] = [];
+  let batchWrites = MAX_BATCH_WRITES;
+
+  // 上限に達したら次のバッチへ分ける
+  const getBatch = (): WriteBatch => {
+    if (batchWrites >= MAX_BATCH_WRITES) {
+      batches.push(writeBatch(db));
+      batchWrites = 0;
+    }
+    batchWrites++;
+    return batches[batches.length - 1];
+  };
+
+  // タスクごとのサーバー側のドキュメント（null は存在しないタスク）
+  const readTaskIds = Array.from(new Set(
+    write.operations.filter(operation => operation.type !== 'delete').map(operation => operation.taskId)
+  ));
+  const snapshots = await Promise.all(readTaskIds.map(taskId => getDoc(doc(db, "enhancedTasks", taskId))));
+  const serverDocs = new Map<string, DocumentData | null>(
+    readTaskIds.map((taskId, i) => [taskId, snapshots[i].exists() ? snapshots[i].data() || {} : null])
+  );
+
+  for (const operation of write.operations) {
+    const taskRef = doc(db, "enhancedTasks", operation.taskId);
+    const serverDoc = serverDocs.get(operation.taskId);
+
+    switch (operation.type) {
+      case 'set': {
+        // 再送時に他の端末の更新を上書きしないよう、存在しない場合のみ作成
+        if (serverDoc) break;
+
+        const fieldUpdatedAt: { [field: string]: number } = {};
+        Object.keys(operation.data || {}).forEach(field => {
+          fieldUpdatedAt[field] = write.timestamp;
+        });
+        getBatch().set(taskRef, { ...operation.data, fieldUpdatedAt });
+        serverDocs.set(operation.taskId, { fieldUpdatedAt });
+        break;
+      }
+      case 'update': {
+        if (!serverDoc) break;
+
+        const updatedAt: { [field: string]: number } = serverDoc.fieldUpdatedAt || {};
+        const appliedIncrements: { [writeId: string]: number } = serverDoc.appliedIncrements || {};
+        const updates: DocumentData = {};
+        Object.entries(operation.data || {}).forEach(([field, value]) => {
+          if (isFieldIncrement(value)) {
+            if (appliedIncrements[write.id] !== undefined) return;
+            updates[field] = increment(value.__increment);
+            updates[`appliedIncrements.${write.id}`] = write.timestamp;
+            Object.entries(appliedIncrements).forEach(([writeId, at]) => {
+              if (write.timestamp - at > APPLIED_INCREMENT_RETENTION) updates[`appliedIncrements.${writeId}`] = deleteField();
+            });
+            return;
+          }
+          if (write.timestamp < (updatedAt[field] || 0)) return;
+          updates[field] = isDeletedField(value) ? deleteField() : value;
+          updates[`fieldUpdatedAt.${field}`] = write.timestamp;
+        });
+
+        if (Object.keys(updates).length > 0) {
+          getBatch().update(taskRef, updates);
+        }
+        break;
+      }
+      case 'delete':
+        getBatch().delete(taskRef);
+        serverDocs.set(operation.taskId, null);
+        break;
+    }
+  }
+
+  for (const batch of batches) {
+    await batch.commit();
+  }
+};
+
+/**
+ * 変更するフィールドの変更前の値を取得（未設定だったフィールドは削除として扱う）
+ */
+const getPreviousValues = (task: EnhancedTask, changes: TaskWriteData): TaskWriteData => {
+  const previous: Partial<Record<keyof EnhancedTask, unknown>> = {};
+  (Object.keys(changes) as (keyof EnhancedTask)[]).forEach(field => {
+    previous[field] = task[field] === undefined ? DELETED_FIELD : task[field];
+  });
+  return previous as TaskWriteData;
+};
+
+/**
+ * タスクのフィールド変更を「元に戻す」履歴に記録
+ */
+const recordFieldChange = (task: EnhancedTask, label: string, changes: TaskWriteData) => {
+  const previous = getPreviousValues(task, changes);
+
+  useHistoryStore.getState().record({
+    label,
+    undo: () => queueWrite('update', task.id, previous),
+    redo: () => queueWrite('update', task.id, changes)
+  });
+};
+
+/**
+ * メモのチェックリストを同期するタスクなら、サブタスクの変更にメモの更新を加える
+ * @param removedTexts 削除したサブタスクの内容（メモから該当する行を除く）
+ */
+const withMemoChecklist = <T extends { subTasks: SubTask[] }>(
+  task: EnhancedTask,
+  changes: T,
+  removedTexts: string[] = []
+): T & { memo?: string } => {
+  if (!task.memoChecklistSync) return changes;
+
+  const memo = MemoChecklist.applySubTasks(task.memo || '', changes.subTasks, removedTexts);
+  return memo === (task.memo || '') ? changes : { ...changes, memo };
+};
+
+/**
+ * 複数タスクのフィールドを1回のバッチ書き込みで変更し、まとめて「元に戻す」履歴に記録
+ * @param getChanges タスクごとの変更内容（変更しないタスクは null）
+ * @returns 変更したタスクの数
+ */
+const queueBulkFieldChange = async (
+  tasks: EnhancedTask[],
+  label: (count: number) => string,
+  getChanges: (task: EnhancedTask) => TaskWriteData | null
+): Promise<number> => {
+  const operations: QueuedOperation[] = [];
+  const revertOperations: QueuedOperation[] = [];
+
+  tasks.forEach(task => {
+    const changes = getChanges(task);
+    if (!changes) return;
+    operations.push({ type: 'update', taskId: task.id, data: changes });
+    revertOperations.push({ type: 'update', taskId: task.id, data: getPreviousValues(task, changes) });
+  });
+
+  if (operations.length === 0) return 0;
+
+  await queueOperations(operations);
+  useHistoryStore.getState().record({
+    label: label(operations.length),
+    undo: () => queueOperations(revertOperations),
+    redo: () => queueOperations(operations)
+  });
+
+  return operations.length;
+};
+
+/**
+ * タスクをゴミ箱へ移動する書き込み操作と、それを元に戻す書き込み操作を作成
+ * ゴミ箱へ移動しないタスクからは、移動するタスクへの依存関係の参照を取り除く
+ */
+const createTrashOperations = (
+  targets: EnhancedTask[],
+  tasks: EnhancedTask[]
+): { operations: QueuedOperation[]; revertOperations: QueuedOperation[] } => {
+  const targetIds = targets.map(task => task.id);
+  const deletedAt = Date.now();
+  const referencingTasks = tasks.filter(task =>
+    !targetIds.includes(task.id) &&
+    (task.blockedBy || []).some(id => targetIds.includes(id))
+  );
+
+  return {
+    operations: [
+      ...targetIds.map(taskId => ({ type: 'update' as const, taskId, data: { deletedAt } })),
+      ...referencingTasks.map(task => ({
+        type: 'update' as const,
+        taskId: task.id,
+        data: { blockedBy: (task.blockedBy || []).filter(id => !targetIds.includes(id)) }
+      }))
+    ],
+    revertOperations: [
+      ...targetIds.map(taskId => ({ type: 'update' as const, taskId, data: { deletedAt: DELETED_FIELD } })),
+      ...referencingTasks.map(task => ({
+        type: 'update' as const,
+        taskId: task.id,
+        data: { blockedBy: task.blockedBy || [] }
+      }))
+    ]
+  };
+};
+
+/**
+ * 繰り返しタスクの次の回を生成する書き込み操作を作成
+ * 繰り返しルールは次の回へ移し、完了したタスクには次の回のIDを記録する
+ */
+const createNextOccurrenceOperations = (
+  task: EnhancedTask,
+  completedAt: number
+): { operations: QueuedOperation[]; nextDeadline: string } | null => {
+  if (!task.recurrence) return null;
+
+  const nextDeadline = RecurrenceUtils.getNextDeadline(task.recurrence, task.deadline, completedAt);
+  const subTasks = RecurrenceUtils.resetSubTasks(task.subTasks);
+
+  const nextTask: Omit<EnhancedTask, 'id'> = {
+    text: task.text,
+    completed: false,
+    completedAt: null,
+    userId: task.userId,
+    deadline: nextDeadline,
+    order: task.order,
+    priority: task.priority,
+    createdAt: Date.now(),
+    scheduledForDeletion: false,
+    subTasks,
+    subTasksCount: subTasks.length,
+    completedSubTasksCount: 0,
+    recurrence: task.recurrence,
+    seriesId: task.seriesId || task.id
+  };
+
+  // 条件付きでフィールドを引き継ぐ（undefinedを避ける）
+  if (task.memo) nextTask.memo = task.memo;
+  if (task.dueTime) nextTask.dueTime = task.dueTime;
+  if (task.reminders && task.reminders.length > 0) nextTask.reminders = task.reminders;
+  if (task.estimatedMinutes) nextTask.estimatedMinutes = task.estimatedMinutes;
+  if (task.tags && task.tags.length > 0) nextTask.tags = task.tags;
+  if (task.projectId) nextTask.projectId = task.projectId;
+
+  const nextTaskId = doc(collection(db, "enhancedTasks")).id;
+
+  return {
+    nextDeadline,
+    operations: [
+      { type: 'set', taskId: nextTaskId, data: nextTask },
+      // シリーズ定義を次の回へ移す
+      {
+        type: 'update',
+        taskId: task.id,
+        data: {
+          recurrence: DELETED_FIELD,
+          seriesId: nextTask.seriesId,
+          nextOccurrenceId: nextTaskId
+        }
+      }
+    ]
+  };
+};
+
+/**
+ * 繰り返しタスクの次の回を生成
+ * @returns 次の回の期限（生成に失敗した場合は null）
+ */
+const spawnNextOccurrence = async (task: EnhancedTask, completedAt: number): Promise<string | null> => {
+  const nextOccurrence = createNextOccurrenceOperations(task, completedAt);
+  if (!nextOccurrence) return null;
+
+  try {
+    await queueOperations(nextOccurrence.operations);
+    return nextOccurrence.nextDeadline;
+  } catch (error) {
+    console.error("繰り返しタスク生成エラー:", error);
+    return null;
+  }
+};
+
+/**
+ * 生成済みの次の回を削除して繰り返しルールを元のタスクへ戻す書き込み操作を作成
+ * 次の回が既に完了している場合は何もしない
+ */
+const createCancelOccurrenceOperations = (task: EnhancedTask, tasks: EnhancedTask[]): QueuedOperation[] => {
+  const nextTask = tasks.find(t => t.id === task.nextOccurrenceId);
+  if (!nextTask || nextTask.completed) return [];
+
+  return [
+    { type: 'delete', taskId: nextTask.id },
+    {
+      type: 'update',
+      taskId: task.id,
+      data: {
+        recurrence: nextTask.recurrence || DELETED_FIELD,
+        nextOccurrenceId: DELETED_FIELD
+      }
+    }
+  ];
+};
+
+/**
+ * 完了取り消し時に、生成済みの次の回を削除して繰り返しルールを元のタスクへ戻す
+ */
+const cancelNextOccurrence = async (task: EnhancedTask, tasks: EnhancedTask[]): Promise<void> => {
+  try {
+    await queueOperations(createCancelOccurrenceOperations(task, tasks));
+  } catch (error) {
+    console.error("繰り返しタスク取り消しエラー:", error);
+  }
+};
+
 /**
  * 拡張タスク管理Zustandストア（永続化対応）
  */
@@ -127,20 +675,22 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
   persist(
     (set, get) => ({
       tasks: [],
+      archivedTasks: [],
+      trashedTasks: [],
       loading: true,
       unsubscribe: null,
+      pendingWrites: [],
       
       // 🔥 追加: デフォルトソート設定
-      sortConfig: {
-        sortBy: 'priority',
-        sortOrder: 'desc'
-      },
+      sortConfig: TaskUtils.DEFAULT_SORT_CONFIG,
       
       /**
-       * 🔥 追加: ソート設定を更新
+       * 🔥 追加: ソート設定を更新（ユーザー設定にも保存して端末間で共有する）
        */
       setSortConfig: (config) => {
-        set({ sortConfig: config });
+        const sortConfig = TaskUtils.normalizeSortConfig(config);
+        set({ sortConfig });
+        useUserSettingsStore.getState().updateTaskSort(sortConfig);
       },
 
       /**
@@ -158,12 +708,25 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         // ユーザーがログインしていない場合
         if (!user) {
           console.log("ユーザーがログインしていないため、タスクを取得できません");
-          set({ tasks: [], loading: false, unsubscribe: null });
+          set({ tasks: [], archivedTasks: [], trashedTasks: [], loading: false, unsubscribe: null });
           return;
         }
         
         set({ loading: true });
         
+        // 前回のセッションで同期できなかった書き込みを読み込んで再送
+        OfflineQueue.getAll(user.uid)
+          .then(storedWrites => {
+            const { pendingWrites } = get();
+            const knownIds = new Set(pendingWrites.map(write => write.id));
+            const merged = [...pendingWrites, ...storedWrites.filter(write => !knownIds.has(write.id))]
+              .sort((a, b) => a.id - b.id);
+            set({ pendingWrites: merged });
+            refreshTasks();
+            get().flushPendingWrites();
+          })
+          .catch(error => console.error("オフラインキューの読み込みエラー:", error));
+        
         try {
           console.log(`Firestoreからユーザー ${user.uid} のタスクを監視開始`);
           const q = query(collection(db, "enhancedTasks"), where("userId", "==", user.uid));
@@ -171,22 +734,22 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           // リアルタイムリスナーを設定
           const unsubscribeListener = onSnapshot(q, 
             (snapshot) => {
-              const tasks = snapshot.docs.map((doc) => {
-                const data = doc.data();
-                return {
-                  id: doc.id,
-                  ...data,
-                  subTasks: data.subTasks || [],
-                  subTasksCount: data.subTasks?.length || 0,
-                  completedSubTasksCount: data.subTasks?.filter((st: SubTask) => st.completed).length || 0
-                };
-              }) as EnhancedTask[];
+              serverTasks = snapshot.docs.map((doc) => ({
+                id: doc.id,
+                ...doc.data()
+              })) as EnhancedTask[];
+              
+              console.log("Firestoreから拡張タスク取得成功:", serverTasks.length, "件");
+              
+              // 同期待ちの書き込みをフィールド単位の後勝ちで重ねる
+              refreshTasks();
+              set({ loading: false });
               
-              console.log("Firestoreから拡張タスク取得成功:", tasks.length, "件");
-              set({ tasks, loading: false });
+              // タスクを読み込んだ後、完了済みで古いタスクのアーカイブとゴミ箱の整理
+              get().checkAndArchiveCompletedTasks();
               
-              // タスクを読み込んだ後、完了済みで古いタスクの削除チェック
-              get().checkAndDeleteCompletedTasks();
+              // 期限が近づいたタスクの優先度の見直し（1日1回）
+              get().reevaluatePriorities();
             },
             (error) => {
               console.error("Firestoreの監視エラー:", error);
@@ -222,18 +785,21 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
       /**
        * 新しいタスクを追加
        */
-      addTask: async (text, deadline, priority = 'medium', memo = '') => {
+      addTask: async (text, deadline, priority = 'medium', memo = '', options = {}) => {
         const user = useAuthStore.getState().user;
         if (!user) throw new Error("ユーザーがログインしていません");
 
         const tasks = get().tasks;
-        const newTask: any = {
+        // オフラインでも作成できるようクライアント側でIDを採番
+        const taskId = doc(collection(db, "enhancedTasks")).id;
+        const newTask: Omit<EnhancedTask, 'id'> = {
           text,
           completed: false,
           completedAt: null,
           userId: user.uid,
-          order: tasks.length + 1,
+          order: TaskUtils.getNextOrder(tasks),
           priority,
+          ...EisenhowerUtils.createScores(text, priority, deadline?.trim() || undefined, options.dueTime),
           createdAt: Date.now(),
           scheduledForDeletion: false,
           subTasks: [],
@@ -244,20 +810,66 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         // 条件付きでフィールドを追加（undefinedを避ける）
         if (deadline && deadline.trim()) {
           newTask.deadline = deadline;
+          
+          // 時刻とリマインダーは期限がある場合のみ設定
+          if (DueUtils.isValidTime(options.dueTime)) {
+            newTask.dueTime = options.dueTime;
+          }
+          const reminders = DueUtils.normalizeReminders(options.reminders || []);
+          if (reminders.length > 0) {
+            newTask.reminders = reminders;
+            requestNotificationPermission();
+          }
         }
         
         if (memo && memo.trim()) {
           newTask.memo = memo;
         }
+        
+        if (options.estimatedMinutes && options.estimatedMinutes > 0) {
+          newTask.estimatedMinutes = options.estimatedMinutes;
+        }
+        
+        if (options.recurrence && RecurrenceUtils.isValid(options.recurrence)) {
+          newTask.recurrence = options.recurrence;
+        }
+        
+        if (options.projectId) {
+          newTask.projectId = options.projectId;
+        }
+        
+        if (options.priorityManual) {
+          newTask.priorityManual = true;
+        }
+        
+        if (options.subTasks && options.subTasks.length > 0) {
+          newTask.subTasks = options.subTasks;
+          newTask.subTasksCount = options.subTasks.length;
+          newTask.completedSubTasksCount = options.subTasks.filter(st => st.completed).length;
+        }
+        
+        const tags = Array.from(new Set((options.tags || []).map(TagUtils.normalizeName).filter(Boolean)));
+        if (tags.length > 0) {
+          newTask.tags = tags;
+          // 未登録のタグを作成（オフライン時にタスクの追加を待たせない）
+          useTagStore.getState().ensureTags(tags)
+            .catch(error => console.error("タグ作成エラー:", error));
+        }
 
         try {
-          const docRef = await addDoc(collection(db, "enhancedTasks"), newTask);
+          await queueWrite('set', taskId, newTask);
+          
+          useHistoryStore.getState().record({
+            label: `タスク「${text}」の追加`,
+            undo: () => queueWrite('delete', taskId),
+            redo: () => queueWrite('set', taskId, newTask)
+          });
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`タスク「${text}」を追加しました`);
+          feedbackStore.setMessage(`タスク「${text}」を追加しました`, UNDO_ACTION);
           
-          return docRef.id;
+          return taskId;
         } catch (error) {
           console.error("タスク追加エラー:", error);
           
@@ -269,18 +881,26 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
       },
 
       /**
-       * タスクを削除
+       * タスクをゴミ箱へ移動（保持期間内は復元できる）
        */
       removeTask: async (taskId) => {
-        const task = get().tasks.find(t => t.id === taskId);
+        const { tasks, archivedTasks } = get();
+        const task = [...tasks, ...archivedTasks].find(t => t.id === taskId);
         if (!task) return;
         
         try {
-          await deleteDoc(doc(db, "enhancedTasks", taskId));
+          const { operations, revertOperations } = createTrashOperations([task], tasks);
+          await queueOperations(operations);
+          
+          useHistoryStore.getState().record({
+            label: `タスク「${task.text}」の削除`,
+            undo: () => queueOperations(revertOperations),
+            redo: () => queueOperations(operations)
+          });
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`タスク「${task.text}」を削除しました`);
+          feedbackStore.setMessage(`タスク「${task.text}」をゴミ箱へ移動しました`, UNDO_ACTION);
           
         } catch (error) {
           console.error("タスク削除エラー:", error);
@@ -301,14 +921,30 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         const newCompleted = !task.completed;
         const completedAt = newCompleted ? Date.now() : null;
         
+        // 未完了のブロッカーが残っている場合は警告を添える（完了自体は妨げない）
+        const openBlockers = newCompleted ? DependencyUtils.getOpenBlockers(task, get().tasks) : [];
+        const blockerWarning = openBlockers.length > 0
+          ? ` ⚠️ 先に完了すべきタスクが残っています: ${openBlockers.map(t => `「${t.text}」`).join('、')}`
+          : '';
+        
         try {
           // 完了状態、完了日時、削除予定フラグを更新
-          await updateDoc(doc(db, "enhancedTasks", taskId), { 
+          await queueWrite('update', taskId, { 
             completed: newCompleted, 
             completedAt, 
             scheduledForDeletion: newCompleted 
           });
           
+          // 元に戻す・やり直しは再度切り替えることで、ポイントの付与・減算も取り消す
+          const toggleAgain = async () => {
+            await get().toggleCompleteTask(taskId);
+          };
+          useHistoryStore.getState().record({
+            label: `タスク「${task.text}」の${newCompleted ? '完了' : '完了取り消し'}`,
+            undo: toggleAgain,
+            redo: toggleAgain
+          });
+          
           // タスクが完了に変更された場合
           if (newCompleted) {
             // 効果音を再生
@@ -318,10 +954,25 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
             const pointStore = usePointStore.getState();
             const pointsAwarded = await pointStore.awardTaskCompletionPoints(taskId, task.text, task.priority);
             
+            // 繰り返しタスクの場合は次の回を生成
+            const nextDeadline = task.recurrence
+              ? await spawnNextOccurrence(task, completedAt as number)
+              : null;
+            
             // フィードバック表示
             const feedbackStore = useFeedbackStore.getState();
-            feedbackStore.setMessage(`🎉 タスク「${task.text}」を完了！ +${pointsAwarded}ポイント獲得！`);
+            feedbackStore.setMessage(
+              `🎉 タスク「${task.text}」を完了！ +${pointsAwarded}ポイント獲得！` +
+              (nextDeadline ? ` 🔁 次回: ${nextDeadline}` : '') +
+              blockerWarning,
+              UNDO_ACTION
+            );
           } else {
+            // 繰り返しタスクの場合は生成済みの次の回を取り消す
+            if (task.nextOccurrenceId) {
+              await cancelNextOccurrence(task, get().tasks);
+            }
+            
             // タスクが完了から未完了に変更された場合（取り消し）
             const pointStore = usePointStore.getState();
             const pointsRevoked = await pointStore.revokeTaskCompletionPoints(taskId, task.text);
@@ -329,11 +980,11 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
             if (pointsRevoked > 0) {
               // フィードバック表示
               const feedbackStore = useFeedbackStore.getState();
-              feedbackStore.setMessage(`📤 タスク完了を取り消しました。${pointsRevoked}ポイント減算`);
+              feedbackStore.setMessage(`📤 タスク完了を取り消しました。${pointsRevoked}ポイント減算`, UNDO_ACTION);
             } else {
               // フィードバック表示
               const feedbackStore = useFeedbackStore.getState();
-              feedbackStore.setMessage(`📝 タスク「${task.text}」を未完了に戻しました`);
+              feedbackStore.setMessage(`📝 タスク「${task.text}」を未完了に戻しました`, UNDO_ACTION);
             }
           }
         } catch (error) {
@@ -346,168 +997,1105 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
       },
 
       /**
-       * タスクの期限を設定
+       * タスクの作業状態（未着手・進行中・完了）を変更
+       * 完了・未完了が切り替わる場合はポイントの付与・減算を含めて toggleCompleteTask に任せる
        */
-      setDeadline: async (taskId, deadline) => {
+      setTaskStatus: async (taskId, status) => {
         const task = get().tasks.find((t) => t.id === taskId);
-        if (!task) return;
+        if (!task || BoardUtils.getStatus(task) === status) return;
 
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), { deadline });
+          if (status === 'done') {
+            await get().toggleCompleteTask(taskId);
+            return;
+          }
+          
+          // 完了済みから戻す場合は、先に戻し先の状態を記録してから未完了にする
+          // （元に戻す・やり直しは完了の切り替えとして記録され、戻し先の状態は保たれる）
+          if (task.completed) {
+            if (task.status !== status) {
+              await queueWrite('update', taskId, { status });
+            }
+            await get().toggleCompleteTask(taskId);
+            return;
+          }
+          
+          await queueWrite('update', taskId, { status });
+          recordFieldChange(task, `タスク「${task.text}」の作業状態変更`, { status });
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`タスク「${task.text}」の期限を設定しました`);
+          feedbackStore.setMessage(
+            status === 'inProgress'
+              ? `🔄 タスク「${task.text}」に着手しました`
+              : `📝 タスク「${task.text}」を未着手に戻しました`,
+            UNDO_ACTION
+          );
         } catch (error) {
-          console.error("期限設定エラー:", error);
+          console.error("作業状態変更エラー:", error);
           
           // エラーをフィードバックで表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage("期限の設定に失敗しました");
+          feedbackStore.setMessage("作業状態の変更に失敗しました");
         }
       },
 
       /**
-       * タスクの優先度を設定
+       * タスクの期限を設定（dueTime を省略した場合は時刻を変更しない、null で時刻を解除）
        */
-      setPriority: async (taskId, priority) => {
+      setDeadline: async (taskId, deadline, dueTime) => {
         const task = get().tasks.find((t) => t.id === taskId);
         if (!task) return;
 
+        const changes: TaskWriteData = { deadline };
+        if (dueTime !== undefined) {
+          changes.dueTime = DueUtils.isValidTime(dueTime) ? dueTime : DELETED_FIELD;
+        }
+        // 緊急度は新しい期限から求め直す
+        const nextDueTime = dueTime === undefined ? task.dueTime : (DueUtils.isValidTime(dueTime) ? dueTime : undefined);
+        changes.urgency = calculateUrgencyScore(deadline || undefined, nextDueTime || undefined);
+
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), { priority });
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の期限変更`, changes);
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`タスク「${task.text}」の優先度を「${priority}」に設定しました`);
+          feedbackStore.setMessage(`タスク「${task.text}」の期限を設定しました`, UNDO_ACTION);
         } catch (error) {
-          console.error("優先度設定エラー:", error);
+          console.error("期限設定エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("期限の設定に失敗しました");
         }
       },
 
       /**
-       * タスクのメモを更新
+       * タスクの開始日を設定（開始日まではスヌーズ中として既定の表示から隠す、null で解除）
        */
-      updateTaskMemo: async (taskId, memo) => {
+      setStartDate: async (taskId, startDate) => {
         const task = get().tasks.find((t) => t.id === taskId);
         if (!task) return;
 
+        const changes = { startDate: startDate || DELETED_FIELD };
+
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), { memo });
-          
-          // フィードバック表示
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の開始日変更`, changes);
+
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage("メモを更新しました");
+          feedbackStore.setMessage(
+            startDate && SnoozeUtils.isSnoozed({ ...task, startDate })
+              ? `💤 タスク「${task.text}」を${SnoozeUtils.formatStartDate(startDate)}スヌーズしました`
+              : `タスク「${task.text}」のスヌーズを解除しました`,
+            UNDO_ACTION
+          );
         } catch (error) {
-          console.error("メモ更新エラー:", error);
-          
-          // エラーをフィードバックで表示
+          console.error("開始日設定エラー:", error);
+
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage("メモの更新に失敗しました");
+          feedbackStore.setMessage("開始日の設定に失敗しました");
         }
       },
 
       /**
-       * タスクの見積もり時間を設定
+       * タスクのリマインダーを設定（期限の何分前に通知するかのリスト）
        */
-      setEstimatedTime: async (taskId, minutes) => {
+      setReminders: async (taskId, reminders) => {
         const task = get().tasks.find((t) => t.id === taskId);
         if (!task) return;
 
+        const normalizedReminders = DueUtils.normalizeReminders(reminders);
+        const changes = { reminders: normalizedReminders.length > 0 ? normalizedReminders : DELETED_FIELD };
+
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), { estimatedMinutes: minutes });
-          
-          // フィードバック表示
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」のリマインダー変更`, changes);
+
+          if (normalizedReminders.length > 0) {
+            requestNotificationPermission();
+          }
+
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`見積もり時間を${minutes}分に設定しました`);
+          feedbackStore.setMessage(
+            normalizedReminders.length > 0
+              ? `リマインダーを設定しました（${normalizedReminders.map(DueUtils.describeReminder).join('、')}）`
+              : 'リマインダーを解除しました',
+            UNDO_ACTION
+          );
         } catch (error) {
-          console.error("見積もり時間設定エラー:", error);
+          console.error("リマインダー設定エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("リマインダーの設定に失敗しました");
         }
       },
 
       /**
-       * サブタスクを追加
+       * タスクの優先度を設定
        */
-      addSubTask: async (data) => {
-        const task = get().tasks.find((t) => t.id === data.parentTaskId);
-        if (!task) throw new Error("親タスクが見つかりません");
+      setPriority: async (taskId, priority) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
 
-        const newSubTask: SubTask = {
-          id: SubTaskUtils.generateSubTaskId(),
-          text: data.text,
-          completed: false,
-          order: task.subTasks.length + 1,
-          createdAt: Date.now()
+        // 重要度は選んだ優先度に合わせ、手動で設定した優先度として自動調整の対象から外す
+        const changes = {
+          priority,
+          importance: EisenhowerUtils.alignImportance(EisenhowerUtils.getScores(task).importance, priority),
+          priorityManual: true,
+          autoPriorityChange: DELETED_FIELD
         };
 
-        const updatedSubTasks = [...task.subTasks, newSubTask];
-
         try {
-          await updateDoc(doc(db, "enhancedTasks", data.parentTaskId), {
-            subTasks: updatedSubTasks,
-            subTasksCount: updatedSubTasks.length,
-            completedSubTasksCount: updatedSubTasks.filter(st => st.completed).length
-          });
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の優先度変更`, changes);
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`サブタスク「${data.text}」を追加しました`);
-          
-          return newSubTask.id;
+          feedbackStore.setMessage(`タスク「${task.text}」の優先度を「${priority}」に設定しました`, UNDO_ACTION);
         } catch (error) {
-          console.error("サブタスク追加エラー:", error);
-          throw error;
+          console.error("優先度設定エラー:", error);
         }
       },
 
       /**
-       * サブタスクを更新
+       * タスクをマトリクスの区分へ移動（重要度・緊急度と、そこから求めた優先度を更新）
        */
-      updateSubTask: async (taskId, subTaskId, data) => {
+      setEisenhowerQuadrant: async (taskId, quadrant) => {
         const task = get().tasks.find((t) => t.id === taskId);
-        if (!task) return;
+        if (!task || EisenhowerUtils.getQuadrant(task) === quadrant) return;
 
-        const updatedSubTasks = task.subTasks.map(subTask => {
-          if (subTask.id === subTaskId) {
-            return {
-              ...subTask,
-              ...data,
-              ...(data.completed !== undefined && data.completed ? { completedAt: Date.now() } : {})
-            };
-          }
-          return subTask;
-        });
+        const scores = EisenhowerUtils.getScoresForQuadrant(task, quadrant);
+        const changes = {
+          importance: scores.importance,
+          urgency: scores.urgency,
+          priority: scoresToPriority(scores.importance, scores.urgency),
+          priorityManual: true,
+          autoPriorityChange: DELETED_FIELD
+        };
+        const label = EisenhowerUtils.QUADRANTS.find(q => q.id === quadrant)?.label;
 
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), {
-            subTasks: updatedSubTasks,
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の「${label}」への移動`, changes);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`タスク「${task.text}」を「${label}」に移動しました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("マトリクスの区分変更エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの移動に失敗しました");
+        }
+      },
+
+      /**
+       * 未完了のタスクの優先度を期限の近さから見直す（起動時と、その後は1日1回）
+       * 求め直した優先度が今より高い場合だけ上げ、手動で設定した優先度は設定で許可した場合だけ上げる
+       * 自動で上げた優先度は、承認するか取り消すまで確認待ちとしてタスクに残す
+       * @param force 今日すでに見直していても実行する
+       */
+      reevaluatePriorities: async (force = false) => {
+        const user = useAuthStore.getState().user;
+        const { priorityEscalation, loaded } = useUserSettingsStore.getState();
+        
+        // タスクと設定の読み込み前と、自動調整を無効にしている場合は処理しない
+        if (!user || !loaded || get().loading || !priorityEscalation.enabled) return;
+
+        const today = DateUtils.today();
+        const storageKey = `${PRIORITY_REEVALUATION_KEY}-${user.uid}`;
+        if (!force && reevaluatedUserId === user.uid && localStorage.getItem(storageKey) === today) return;
+        reevaluatedUserId = user.uid;
+        try {
+          localStorage.setItem(storageKey, today);
+        } catch (error) {
+          console.error("優先度の見直し日の保存エラー:", error);
+        }
+
+        const now = Date.now();
+        const operations: QueuedOperation[] = [];
+        let escalatedCount = 0;
+
+        get().tasks.filter(task => !task.completed).forEach(task => {
+          const changes: TaskWriteData = {};
+
+          // 緊急度は期限が近づくにつれて上げる（手動で動かしたタスクは優先度と同じく設定に従う）
+          // 緊急度を保存していないタスクは表示時に求めるため、上がる場合だけ書き込む
+          if (task.deadline && (!task.priorityManual || priorityEscalation.overrideManual)) {
+            const urgency = calculateUrgencyScore(task.deadline, task.dueTime, new Date(now));
+            if (task.urgency !== undefined && urgency > task.urgency) changes.urgency = urgency;
+          }
+
+          const priority = PriorityEscalationUtils.getEscalatedPriority(task, priorityEscalation, now);
+          if (priority && priority !== task.priority) {
+            changes.priority = priority;
+            changes.autoPriorityChange = { from: task.autoPriorityChange?.from || task.priority, to: priority, at: now };
+            escalatedCount++;
+          }
+
+          if (Object.keys(changes).length > 0) {
+            operations.push({ type: 'update', taskId: task.id, data: changes });
+          }
+        });
+
+        if (operations.length === 0) return;
+
+        try {
+          // 自動の変更は確認待ちの一覧から取り消すため「元に戻す」履歴には記録しない
+          await queueOperations(operations);
+
+          if (escalatedCount > 0) {
+            const feedbackStore = useFeedbackStore.getState();
+            feedbackStore.setMessage(`⚡ 期限が近づいた${escalatedCount}件のタスクの優先度が変更されました`);
+          }
+        } catch (error) {
+          console.error("優先度の見直しエラー:", error);
+        }
+      },
+
+      /**
+       * 自動で変更した優先度を承認（確認待ちから外す）
+       */
+      acceptPriorityChanges: async (taskIds) => {
+        const operations: QueuedOperation[] = get().tasks
+          .filter(task => taskIds.includes(task.id) && task.autoPriorityChange)
+          .map(task => ({ type: 'update', taskId: task.id, data: { autoPriorityChange: DELETED_FIELD } }));
+        if (operations.length === 0) return;
+
+        try {
+          await queueOperations(operations);
+        } catch (error) {
+          console.error("優先度の変更の承認エラー:", error);
+        }
+      },
+
+      /**
+       * 自動で変更した優先度を元に戻す（戻した優先度は手動で設定したものとして扱う）
+       */
+      revertPriorityChanges: async (taskIds) => {
+        const targets = get().tasks.filter(task => taskIds.includes(task.id) && task.autoPriorityChange);
+
+        try {
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクの優先度の自動変更の取り消し`,
+            task => ({
+              priority: task.autoPriorityChange!.from,
+              priorityManual: true,
+              autoPriorityChange: DELETED_FIELD
+            })
+          );
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`${count}件のタスクの優先度を元に戻しました`, count > 0 ? UNDO_ACTION : undefined);
+        } catch (error) {
+          console.error("優先度の変更の取り消しエラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("優先度を元に戻せませんでした");
+        }
+      },
+
+      /**
+       * タスクのメモを更新
+       */
+      updateTaskMemo: async (taskId, memo) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const label = `タスク「${task.text}」のメモ更新`;
+
+        try {
+          // メモの更新とサブタスクへの反映を1つの操作として「元に戻す」履歴に記録する
+          await useHistoryStore.getState().group(label, async () => {
+            await queueWrite('update', taskId, { memo });
+            recordFieldChange(task, label, { memo });
+            
+            // フィードバック表示
+            const feedbackStore = useFeedbackStore.getState();
+            feedbackStore.setMessage("メモを更新しました", UNDO_ACTION);
+
+            // チェックリストの追加・チェックをサブタスクへ反映
+            if (task.memoChecklistSync) {
+              await get().syncMemoChecklist(taskId, task.memo || '');
+            }
+          });
+        } catch (error) {
+          console.error("メモ更新エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("メモの更新に失敗しました");
+        }
+      },
+
+      /**
+       * メモのチェックリストとサブタスクの同期を切り替え（有効にした時点で一度同期する）
+       */
+      setMemoChecklistSync: async (taskId, enabled) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const label = `タスク「${task.text}」のチェックリスト同期の${enabled ? '有効化' : '無効化'}`;
+
+        try {
+          await useHistoryStore.getState().group(label, async () => {
+            const changes = { memoChecklistSync: enabled };
+            await queueWrite('update', taskId, changes);
+            recordFieldChange(task, label, changes);
+
+            if (enabled) {
+              await get().syncMemoChecklist(taskId);
+            } else {
+              const feedbackStore = useFeedbackStore.getState();
+              feedbackStore.setMessage("メモのチェックリストの同期を解除しました", UNDO_ACTION);
+            }
+          });
+        } catch (error) {
+          console.error("チェックリスト同期の設定エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("チェックリスト同期の設定に失敗しました");
+        }
+      },
+
+      /**
+       * メモのチェックリストとサブタスクを双方向に同期
+       * メモにしかない行はサブタスクとして追加し、チェックの違う行はサブタスクの完了状態を切り替え、
+       * 編集で消した行のサブタスクは削除し、メモにないサブタスクはメモの末尾に追加する
+       * @param previousMemo 編集前のメモ（省略した場合は削除を行わない）
+       */
+      syncMemoChecklist: async (taskId, previousMemo) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const { additions, toggles, removals } = MemoChecklist.getChanges(task.memo || '', task.subTasks, previousMemo);
+        const now = Date.now();
+
+        // 削除・追加・完了状態の切り替えをまとめて反映したサブタスクを作り、1回で書き込む
+        let subTasks = task.subTasks;
+        removals.forEach(subTaskId => {
+          subTasks = SubTaskUtils.removeWithDescendants(subTasks, subTaskId);
+        });
+        const removedTexts = task.subTasks
+          .filter(st => !subTasks.some(remaining => remaining.id === st.id))
+          .map(st => st.text);
+
+        // 前に追加したサブタスクを親として参照できるよう、メモの順に追加する
+        additions.forEach(addition => {
+          const parent = addition.parentText
+            ? subTasks.find(st => st.text.trim() === addition.parentText)
+            : undefined;
+          const parentId = parent && SubTaskUtils.getDepth(subTasks, parent.id) + 1 < SubTaskUtils.MAX_DEPTH ? parent.id : null;
+          subTasks = [...subTasks, {
+            id: SubTaskUtils.generateSubTaskId(),
+            text: addition.text,
+            completed: addition.completed,
+            completedAt: addition.completed ? now : null,
+            order: SubTaskUtils.getChildren(subTasks, parentId).length + 1,
+            createdAt: now,
+            parentId
+          }];
+        });
+
+        // 削除した親と一緒に消えたサブタスクは切り替えない
+        // メモの編集による完了はサブタスクの完了ポイントの付与・減算の対象にしない
+        const toggled = toggles.filter(id => subTasks.some(st => st.id === id));
+        subTasks = subTasks.map(st => toggled.includes(st.id)
+          ? { ...st, completed: !st.completed, completedAt: st.completed ? null : now }
+          : st
+        );
+
+        // メモにないサブタスクはメモへ追加する
+        const changes = withMemoChecklist(task, {
+          subTasks,
+          subTasksCount: subTasks.length,
+          completedSubTasksCount: subTasks.filter(st => st.completed).length
+        }, removedTexts);
+        if (additions.length === 0 && toggled.length === 0 && removals.length === 0 && changes.memo === undefined) return;
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」のメモとサブタスクの同期`, changes);
+
+          if (additions.length > 0 || toggled.length > 0 || removals.length > 0) {
+            const feedbackStore = useFeedbackStore.getState();
+            feedbackStore.setMessage(
+              `メモのチェックリストを同期しました（追加${additions.length}件・更新${toggled.length}件・削除${removals.length}件）`,
+              UNDO_ACTION
+            );
+          }
+        } catch (error) {
+          console.error("チェックリスト同期エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("メモのチェックリストの同期に失敗しました");
+        }
+      },
+
+      /**
+       * タスクの実績時間に作業時間を加算（ポモドーロの作業時間を自動記録する）
+       * 自動記録のため「元に戻す」履歴には記録しない
+       */
+      addActualMinutes: async (taskId, minutes) => {
+        const { tasks, archivedTasks } = get();
+        const task = [...tasks, ...archivedTasks].find((t) => t.id === taskId);
+        if (!task || minutes <= 0) return;
+
+        try {
+          // 他の端末やポモドーロの記録と同時に加算しても失われないよう、合計ではなく加算として送る
+          await queueWrite('update', taskId, { actualMinutes: incrementField(minutes) });
+        } catch (error) {
+          console.error("実績時間の記録エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("作業時間の記録に失敗しました");
+        }
+      },
+
+      /**
+       * タスクの見積もり時間を設定
+       */
+      setEstimatedTime: async (taskId, minutes) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const changes = { estimatedMinutes: minutes };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の見積もり時間変更`, changes);
+          
+          // フィードバック表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`見積もり時間を${minutes}分に設定しました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("見積もり時間設定エラー:", error);
+        }
+      },
+
+      /**
+       * タスクの繰り返しルールを設定（null で解除）
+       */
+      setRecurrence: async (taskId, rule) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        if (rule && !RecurrenceUtils.isValid(rule)) {
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("繰り返しルールが正しくありません");
+          return;
+        }
+
+        const changes = { recurrence: rule || DELETED_FIELD };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の繰り返し変更`, changes);
+          
+          // フィードバック表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(
+            rule
+              ? `タスク「${task.text}」を「${RecurrenceUtils.describe(rule)}」で繰り返します`
+              : `タスク「${task.text}」の繰り返しを解除しました`,
+            UNDO_ACTION
+          );
+        } catch (error) {
+          console.error("繰り返し設定エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("繰り返しの設定に失敗しました");
+        }
+      },
+
+      /**
+       * タスクのタグを設定
+       */
+      setTaskTags: async (taskId, tags) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const normalizedTags = Array.from(new Set(tags.map(TagUtils.normalizeName).filter(Boolean)));
+        const changes = { tags: normalizedTags };
+
+        try {
+          // 未登録のタグを作成（オフライン時にタスクの更新を待たせない）
+          useTagStore.getState().ensureTags(normalizedTags)
+            .catch(error => console.error("タグ作成エラー:", error));
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」のタグ変更`, changes);
+        } catch (error) {
+          console.error("タグ設定エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タグの設定に失敗しました");
+        }
+      },
+
+      /**
+       * タスクの所属プロジェクトを設定（null で未分類に戻す）
+       */
+      setTaskProject: async (taskId, projectId) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const changes = { projectId: projectId || DELETED_FIELD };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」のプロジェクト変更`, changes);
+        } catch (error) {
+          console.error("プロジェクト設定エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("プロジェクトの設定に失敗しました");
+        }
+      },
+
+      /**
+       * 依存関係を追加（taskId は blockerId の完了後に着手する）
+       * 循環する依存関係は追加しない
+       * @returns 追加できた場合は true
+       */
+      addDependency: async (taskId, blockerId) => {
+        const { tasks } = get();
+        const task = tasks.find((t) => t.id === taskId);
+        const blocker = tasks.find((t) => t.id === blockerId);
+        if (!task || !blocker) return false;
+        if (task.blockedBy?.includes(blockerId)) return true;
+
+        const feedbackStore = useFeedbackStore.getState();
+
+        if (DependencyUtils.wouldCreateCycle(taskId, blockerId, tasks)) {
+          feedbackStore.setMessage(`「${blocker.text}」は既に「${task.text}」の完了を待っているため、依存関係を追加できません`);
+          return false;
+        }
+
+        const changes = { blockedBy: [...(task.blockedBy || []), blockerId] };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の依存関係の追加`, changes);
+          feedbackStore.setMessage(`「${task.text}」は「${blocker.text}」の完了待ちになりました`, UNDO_ACTION);
+          return true;
+        } catch (error) {
+          console.error("依存関係追加エラー:", error);
+          
+          // エラーをフィードバックで表示
+          feedbackStore.setMessage("依存関係の追加に失敗しました");
+          return false;
+        }
+      },
+
+      /**
+       * 依存関係を削除
+       */
+      removeDependency: async (taskId, blockerId) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task || !task.blockedBy?.includes(blockerId)) return;
+
+        const changes = { blockedBy: task.blockedBy.filter(id => id !== blockerId) };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の依存関係の削除`, changes);
+        } catch (error) {
+          console.error("依存関係削除エラー:", error);
+          
+          // エラーをフィードバックで表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("依存関係の削除に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクの完了状態をまとめて変更
+       * ポイントの付与・減算とフィードバックも1回にまとめる
+       */
+      bulkCompleteTasks: async (taskIds, completed) => {
+        const { tasks } = get();
+        const targets = tasks.filter(task => taskIds.includes(task.id) && task.completed !== completed);
+        if (targets.length === 0) return;
+
+        const completedAt = completed ? Date.now() : null;
+        const operations: QueuedOperation[] = [];
+        let spawnedCount = 0;
+
+        targets.forEach(task => {
+          operations.push({
+            type: 'update',
+            taskId: task.id,
+            data: { completed, completedAt, scheduledForDeletion: completed }
+          });
+
+          // 繰り返しタスクは次の回の生成・取り消しも同じバッチで行う
+          if (completed) {
+            const nextOccurrence = createNextOccurrenceOperations(task, completedAt as number);
+            if (nextOccurrence) {
+              operations.push(...nextOccurrence.operations);
+              spawnedCount++;
+            }
+          } else {
+            operations.push(...createCancelOccurrenceOperations(task, tasks));
+          }
+        });
+
+        try {
+          await queueOperations(operations);
+
+          const targetIds = targets.map(task => task.id);
+          useHistoryStore.getState().record({
+            label: `${targets.length}件のタスクの${completed ? '完了' : '完了取り消し'}`,
+            undo: () => get().bulkCompleteTasks(targetIds, !completed),
+            redo: () => get().bulkCompleteTasks(targetIds, completed)
+          });
+
+          const pointStore = usePointStore.getState();
+          const feedbackStore = useFeedbackStore.getState();
+
+          if (completed) {
+            playTaskCompletionSound();
+
+            const pointsAwarded = await pointStore.awardBulkTaskCompletionPoints(targets);
+            feedbackStore.setMessage(
+              `🎉 ${targets.length}件のタスクを完了！ +${pointsAwarded}ポイント獲得！` +
+              (spawnedCount > 0 ? ` 🔁 ${spawnedCount}件の次回を作成` : ''),
+              UNDO_ACTION
+            );
+          } else {
+            const pointsRevoked = await pointStore.revokeBulkTaskCompletionPoints(targets);
+            feedbackStore.setMessage(
+              `📝 ${targets.length}件のタスクを未完了に戻しました` +
+              (pointsRevoked > 0 ? `。${pointsRevoked}ポイント減算` : ''),
+              UNDO_ACTION
+            );
+          }
+        } catch (error) {
+          console.error("一括完了エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスク状態の一括変更に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクをまとめてゴミ箱へ移動
+       */
+      bulkRemoveTasks: async (taskIds) => {
+        const { tasks } = get();
+        const targets = tasks.filter(task => taskIds.includes(task.id));
+        if (targets.length === 0) return;
+
+        try {
+          const { operations, revertOperations } = createTrashOperations(targets, tasks);
+          await queueOperations(operations);
+
+          useHistoryStore.getState().record({
+            label: `${targets.length}件のタスクの削除`,
+            undo: () => queueOperations(revertOperations),
+            redo: () => queueOperations(operations)
+          });
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`${targets.length}件のタスクをゴミ箱へ移動しました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("一括削除エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの一括削除に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクの優先度をまとめて設定
+       */
+      bulkSetPriority: async (taskIds, priority) => {
+        const targets = get().tasks.filter(task => taskIds.includes(task.id));
+
+        try {
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクの優先度変更`,
+            task => task.priority === priority ? null : {
+              priority,
+              importance: EisenhowerUtils.alignImportance(EisenhowerUtils.getScores(task).importance, priority),
+              priorityManual: true,
+              autoPriorityChange: DELETED_FIELD
+            }
+          );
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`${count}件のタスクの優先度を「${priority}」に設定しました`, count > 0 ? UNDO_ACTION : undefined);
+        } catch (error) {
+          console.error("一括優先度設定エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("優先度の一括設定に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクの期限をまとめて設定
+       */
+      bulkSetDeadline: async (taskIds, deadline) => {
+        const targets = get().tasks.filter(task => taskIds.includes(task.id));
+
+        try {
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクの期限変更`,
+            task => task.deadline === deadline ? null : { deadline, urgency: calculateUrgencyScore(deadline, task.dueTime) }
+          );
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`${count}件のタスクの期限を${deadline}に設定しました`, count > 0 ? UNDO_ACTION : undefined);
+        } catch (error) {
+          console.error("一括期限設定エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("期限の一括設定に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクの期限をまとめて指定日数ずらす（期限のないタスクは対象外）
+       */
+      bulkShiftDeadline: async (taskIds, days) => {
+        if (days === 0) return;
+        const targets = get().tasks.filter(task => taskIds.includes(task.id));
+
+        try {
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクの期限変更`,
+            task => {
+              if (!task.deadline) return null;
+              const deadline = DateUtils.addDays(task.deadline, days);
+              return { deadline, urgency: calculateUrgencyScore(deadline, task.dueTime) };
+            }
+          );
+
+          const skippedCount = targets.length - count;
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(
+            `${count}件のタスクの期限を${Math.abs(days)}日${days > 0 ? '後ろ' : '前'}にずらしました` +
+            (skippedCount > 0 ? `（期限なし${skippedCount}件は対象外）` : ''),
+            count > 0 ? UNDO_ACTION : undefined
+          );
+        } catch (error) {
+          console.error("一括期限変更エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("期限の一括変更に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクにまとめてタグを追加
+       */
+      bulkAddTag: async (taskIds, tag) => {
+        const tagName = TagUtils.normalizeName(tag);
+        if (!tagName) return;
+        const targets = get().tasks.filter(task => taskIds.includes(task.id));
+
+        try {
+          // 未登録のタグを作成（オフライン時に一括操作を待たせない）
+          useTagStore.getState().ensureTags([tagName])
+            .catch(error => console.error("タグ作成エラー:", error));
+
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクへのタグ追加`,
+            task => task.tags?.includes(tagName) ? null : { tags: [...(task.tags || []), tagName] }
+          );
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`${count}件のタスクにタグ「${tagName}」を追加しました`, count > 0 ? UNDO_ACTION : undefined);
+        } catch (error) {
+          console.error("一括タグ追加エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タグの一括追加に失敗しました");
+        }
+      },
+
+      /**
+       * 複数タスクをまとめて別のプロジェクトへ移動（null で未分類に戻す）
+       */
+      bulkMoveToProject: async (taskIds, projectId) => {
+        const targets = get().tasks.filter(task => taskIds.includes(task.id));
+
+        try {
+          const count = await queueBulkFieldChange(
+            targets,
+            count => `${count}件のタスクのプロジェクト移動`,
+            task => (task.projectId || null) === projectId
+              ? null
+              : { projectId: projectId || DELETED_FIELD }
+          );
+
+          const project = useProjectStore.getState().getProjectById(projectId || undefined);
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(
+            `${count}件のタスクを${project ? `「${project.name}」` : '未分類'}に移動しました`,
+            count > 0 ? UNDO_ACTION : undefined
+          );
+        } catch (error) {
+          console.error("一括プロジェクト移動エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("プロジェクトの一括移動に失敗しました");
+        }
+      },
+
+      /**
+       * 全タスクのタグを置き換える（null で取り除く、置き換え先が既にあるタスクでは重複させない）
+       * タグ名の変更・統合・削除から呼び出し、フィードバックは呼び出し元で表示する
+       * @returns 変更したタスクの数
+       */
+      replaceTaskTag: async (tag, replacement) => {
+        const { tasks, archivedTasks, trashedTasks } = get();
+
+        return queueBulkFieldChange(
+          [...tasks, ...archivedTasks, ...trashedTasks],
+          count => `${count}件のタスクのタグ「${tag}」の${replacement ? '置き換え' : '削除'}`,
+          task => !task.tags?.includes(tag) ? null : {
+            tags: replacement
+              ? TagUtils.replaceTag(task.tags, tag, replacement)
+              : task.tags.filter(t => t !== tag)
+          }
+        );
+      },
+
+      /**
+       * 削除するプロジェクトの所属タスクを、別のプロジェクト（または未分類）へ移動するかゴミ箱へ移動する
+       * ゴミ箱へ移動する場合は、他のタスクからの依存関係の参照も取り除く
+       * フィードバックは呼び出し元で表示する
+       * @returns 対象のタスクの数
+       */
+      releaseProjectTasks: async (projectId, disposition) => {
+        const { tasks, archivedTasks, trashedTasks } = get();
+        const allTasks = [...tasks, ...archivedTasks, ...trashedTasks];
+
+        if (disposition.type === 'delete') {
+          // ゴミ箱のタスクはそのまま保持期間の経過後に削除する
+          const targets = [...tasks, ...archivedTasks].filter(task => task.projectId === projectId);
+          if (targets.length === 0) return 0;
+
+          const { operations, revertOperations } = createTrashOperations(targets, allTasks);
+          await queueOperations(operations);
+          useHistoryStore.getState().record({
+            label: `${targets.length}件のタスクの削除`,
+            undo: () => queueOperations(revertOperations),
+            redo: () => queueOperations(operations)
+          });
+          return targets.length;
+        }
+
+        return queueBulkFieldChange(
+          allTasks.filter(task => task.projectId === projectId),
+          count => `${count}件のタスクのプロジェクト移動`,
+          () => ({ projectId: disposition.moveTo || DELETED_FIELD })
+        );
+      },
+
+      /**
+       * 完了済みタスクをアーカイブ（一覧から隠すが、分析には含める）
+       */
+      archiveTask: async (taskId) => {
+        const task = get().tasks.find(t => t.id === taskId);
+        if (!task || !task.completed) return;
+
+        const changes = { archivedAt: Date.now() };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」のアーカイブ`, changes);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`タスク「${task.text}」をアーカイブしました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("アーカイブエラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクのアーカイブに失敗しました");
+        }
+      },
+
+      /**
+       * アーカイブ・ゴミ箱のタスクを一覧に戻す
+       */
+      restoreTask: async (taskId) => {
+        const { archivedTasks, trashedTasks } = get();
+        const task = [...archivedTasks, ...trashedTasks].find(t => t.id === taskId);
+        if (!task) return;
+
+        // ゴミ箱から戻す場合はアーカイブ状態も解除して一覧に表示する
+        const changes = { archivedAt: DELETED_FIELD, deletedAt: DELETED_FIELD };
+
+        try {
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `タスク「${task.text}」の復元`, changes);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`タスク「${task.text}」を復元しました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("タスク復元エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの復元に失敗しました");
+        }
+      },
+
+      /**
+       * ゴミ箱のタスクを完全に削除（元に戻せない）
+       */
+      purgeTask: async (taskId) => {
+        const task = get().trashedTasks.find(t => t.id === taskId);
+        if (!task) return;
+
+        try {
+          await queueWrite('delete', taskId);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`タスク「${task.text}」を完全に削除しました`);
+        } catch (error) {
+          console.error("タスク完全削除エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの完全削除に失敗しました");
+        }
+      },
+
+      /**
+       * ゴミ箱を空にする（元に戻せない）
+       */
+      emptyTrash: async () => {
+        const { trashedTasks } = get();
+        if (trashedTasks.length === 0) return;
+
+        try {
+          await queueOperations(trashedTasks.map(task => ({ type: 'delete' as const, taskId: task.id })));
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`ゴミ箱の${trashedTasks.length}件のタスクを完全に削除しました`);
+        } catch (error) {
+          console.error("ゴミ箱を空にする処理のエラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("ゴミ箱を空にできませんでした");
+        }
+      },
+
+      /**
+       * サブタスクを追加
+       */
+      addSubTask: async (data) => {
+        const task = get().tasks.find((t) => t.id === data.parentTaskId);
+        if (!task) throw new Error("親タスクが見つかりません");
+
+        const parentSubTaskId = data.parentSubTaskId || null;
+        if (parentSubTaskId) {
+          if (!task.subTasks.some(st => st.id === parentSubTaskId)) throw new Error("親サブタスクが見つかりません");
+          if (SubTaskUtils.getDepth(task.subTasks, parentSubTaskId) + 1 >= SubTaskUtils.MAX_DEPTH) {
+            throw new Error(`サブタスクは${SubTaskUtils.MAX_DEPTH}階層までです`);
+          }
+        }
+
+        const newSubTask: SubTask = {
+          id: SubTaskUtils.generateSubTaskId(),
+          text: data.text,
+          completed: false,
+          order: SubTaskUtils.getChildren(task.subTasks, parentSubTaskId).length + 1,
+          createdAt: Date.now(),
+          parentId: parentSubTaskId
+        };
+
+        const updatedSubTasks = [...task.subTasks, newSubTask];
+
+        try {
+          const changes = withMemoChecklist(task, {
+            subTasks: updatedSubTasks,
+            subTasksCount: updatedSubTasks.length,
             completedSubTasksCount: updatedSubTasks.filter(st => st.completed).length
           });
+          await queueWrite('update', data.parentTaskId, changes);
+          recordFieldChange(task, `サブタスク「${data.text}」の追加`, changes);
+          
+          // フィードバック表示
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`サブタスク「${data.text}」を追加しました`, UNDO_ACTION);
+          
+          return newSubTask.id;
+        } catch (error) {
+          console.error("サブタスク追加エラー:", error);
+          throw error;
+        }
+      },
+
+      /**
+       * サブタスクを更新
+       */
+      updateSubTask: async (taskId, subTaskId, data) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const updatedSubTasks = task.subTasks.map(subTask => {
+          if (subTask.id === subTaskId) {
+            return {
+              ...subTask,
+              ...data,
+              ...(data.completed !== undefined && data.completed ? { completedAt: Date.now() } : {})
+            };
+          }
+          return subTask;
+        });
+
+        try {
+          // 内容を変更した場合は、メモの元の内容の行を新しい内容に置き換える
+          const previousText = task.subTasks.find(st => st.id === subTaskId)?.text;
+          const changes = withMemoChecklist(task, {
+            subTasks: updatedSubTasks,
+            completedSubTasksCount: updatedSubTasks.filter(st => st.completed).length
+          }, data.text !== undefined && previousText !== undefined && previousText !== data.text ? [previousText] : []);
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, "サブタスクの更新", changes);
         } catch (error) {
           console.error("サブタスク更新エラー:", error);
         }
       },
 
       /**
-       * サブタスクを削除
+       * サブタスクを削除（子孫のサブタスクもまとめて削除）
        */
       removeSubTask: async (taskId, subTaskId) => {
         const task = get().tasks.find((t) => t.id === taskId);
         if (!task) return;
 
         const subTask = task.subTasks.find(st => st.id === subTaskId);
-        const updatedSubTasks = task.subTasks.filter(st => st.id !== subTaskId);
+        const updatedSubTasks = SubTaskUtils.removeWithDescendants(task.subTasks, subTaskId);
+        const removedTexts = task.subTasks
+          .filter(st => !updatedSubTasks.some(remaining => remaining.id === st.id))
+          .map(st => st.text);
 
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), {
-            subTasks: SubTaskUtils.reorderSubTasks(updatedSubTasks),
+          const changes = withMemoChecklist(task, {
+            subTasks: updatedSubTasks,
             subTasksCount: updatedSubTasks.length,
             completedSubTasksCount: updatedSubTasks.filter(st => st.completed).length
-          });
+          }, removedTexts);
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `サブタスク「${subTask?.text}」の削除`, changes);
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`サブタスク「${subTask?.text}」を削除しました`);
+          feedbackStore.setMessage(`サブタスク「${subTask?.text}」を削除しました`, UNDO_ACTION);
         } catch (error) {
           console.error("サブタスク削除エラー:", error);
         }
@@ -525,8 +2113,20 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
 
         const newCompleted = !subTask.completed;
         
-        // サブタスクの状態を更新
-        await get().updateSubTask(taskId, subTaskId, { completed: newCompleted });
+        // サブタスクの状態を更新（履歴には切り替え操作として記録する）
+        await useHistoryStore.getState().withoutRecording(() =>
+          get().updateSubTask(taskId, subTaskId, { completed: newCompleted })
+        );
+        
+        // 元に戻す・やり直しは再度切り替えることで、ポイントの付与・減算も取り消す
+        const toggleAgain = async () => {
+          await get().toggleCompleteSubTask(taskId, subTaskId);
+        };
+        useHistoryStore.getState().record({
+          label: `サブタスク「${subTask.text}」の${newCompleted ? '完了' : '完了取り消し'}`,
+          undo: toggleAgain,
+          redo: toggleAgain
+        });
         
         if (newCompleted) {
           // サブタスク完了時の効果音
@@ -538,7 +2138,7 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           
           // フィードバック表示
           const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`✅ サブタスク完了！ +3ポイント`);
+          feedbackStore.setMessage(`✅ サブタスク完了！ +3ポイント`, UNDO_ACTION);
         } else {
           // サブタスク完了取り消し時
           const pointStore = usePointStore.getState();
@@ -547,11 +2147,11 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           if (pointsRevoked > 0) {
             // フィードバック表示
             const feedbackStore = useFeedbackStore.getState();
-            feedbackStore.setMessage(`📤 サブタスク取り消し: ${pointsRevoked}ポイント減算`);
+            feedbackStore.setMessage(`📤 サブタスク取り消し: ${pointsRevoked}ポイント減算`, UNDO_ACTION);
           } else {
             // フィードバック表示
             const feedbackStore = useFeedbackStore.getState();
-            feedbackStore.setMessage(`📝 サブタスクを未完了に戻しました`);
+            feedbackStore.setMessage(`📝 サブタスクを未完了に戻しました`, UNDO_ACTION);
           }
         }
       },
@@ -572,14 +2172,229 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         }).filter(Boolean) as SubTask[];
 
         try {
-          await updateDoc(doc(db, "enhancedTasks", taskId), {
+          await queueWrite('update', taskId, {
             subTasks: reorderedSubTasks
           });
+          recordFieldChange(task, "サブタスクの並べ替え", { subTasks: reorderedSubTasks });
         } catch (error) {
           console.error("サブタスク順序変更エラー:", error);
         }
       },
 
+      /**
+       * 手動の並び順でタスクを指定した位置へ移動
+       * @param orderedTaskIds 表示中のタスクIDの並び（手動の並び順）
+       * @param index 移動するタスクを除いた並びでの挿入位置
+       */
+      moveTask: async (taskId, orderedTaskIds, index) => {
+        const tasks = get().tasks;
+        const orderedTasks = orderedTaskIds
+          .map(id => tasks.find(task => task.id === id))
+          .filter(Boolean) as EnhancedTask[];
+        const newOrders = new Map(TaskUtils.getMoveOrders(orderedTasks, taskId, index).map(change => [change.taskId, change.order]));
+        if (newOrders.size === 0) return;
+
+        try {
+          await queueBulkFieldChange(
+            orderedTasks.filter(task => newOrders.has(task.id)),
+            () => "タスクの並べ替え",
+            task => ({ order: newOrders.get(task.id) })
+          );
+        } catch (error) {
+          console.error("タスク順序変更エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの並べ替えに失敗しました");
+        }
+      },
+
+      /**
+       * サブタスクを別の親の下（nullはタスク直下）の指定位置へ移動
+       * 自身や子孫の下への移動、階層の上限を超える移動は行わない
+       */
+      moveSubTask: async (taskId, subTaskId, newParentId, index) => {
+        const task = get().tasks.find((t) => t.id === taskId);
+        if (!task) return;
+
+        const subTask = task.subTasks.find(st => st.id === subTaskId);
+        if (!subTask) return;
+
+        if (!SubTaskUtils.canMove(task.subTasks, subTaskId, newParentId)) {
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`サブタスクは${SubTaskUtils.MAX_DEPTH}階層まで、自身の下には移動できません`);
+          return;
+        }
+
+        const movedSubTasks = SubTaskUtils.moveSubTask(task.subTasks, subTaskId, newParentId, index);
+
+        try {
+          const changes = { subTasks: movedSubTasks };
+          await queueWrite('update', taskId, changes);
+          recordFieldChange(task, `サブタスク「${subTask.text}」の移動`, changes);
+        } catch (error) {
+          console.error("サブタスク移動エラー:", error);
+        }
+      },
+
+      /**
+       * サブタスクを独立したタスクへ昇格（子孫のサブタスクは新しいタスクのサブタスクになる）
+       * 完了状態と完了ポイントの履歴は新しいタスクへ引き継ぐ
+       * @returns 新しいタスクのID
+       */
+      promoteSubTask: async (taskId, subTaskId) => {
+        const user = useAuthStore.getState().user;
+        const { tasks } = get();
+        const task = tasks.find((t) => t.id === taskId);
+        const subTask = task?.subTasks.find(st => st.id === subTaskId);
+        if (!user || !task || !subTask) return null;
+
+        const { detached, remaining } = SubTaskUtils.detachSubTree(task.subTasks, subTaskId);
+        const newTaskId = doc(collection(db, "enhancedTasks")).id;
+        const newTask: Omit<EnhancedTask, 'id'> = {
+          text: subTask.text,
+          completed: subTask.completed,
+          completedAt: subTask.completed ? (subTask.completedAt || Date.now()) : null,
+          userId: user.uid,
+          order: TaskUtils.getNextOrder(tasks),
+          priority: task.priority,
+          createdAt: Date.now(),
+          scheduledForDeletion: false,
+          subTasks: detached,
+          subTasksCount: detached.length,
+          completedSubTasksCount: detached.filter(st => st.completed).length,
+          promotedFromTaskId: taskId
+        };
+        if (task.projectId) {
+          newTask.projectId = task.projectId;
+        }
+
+        const parentChanges = withMemoChecklist(task, {
+          subTasks: remaining,
+          subTasksCount: remaining.length,
+          completedSubTasksCount: remaining.filter(st => st.completed).length
+        }, [subTask, ...detached].map(st => st.text));
+        const operations: QueuedOperation[] = [
+          { type: 'set', taskId: newTaskId, data: newTask },
+          { type: 'update', taskId, data: parentChanges }
+        ];
+        const revertOperations: QueuedOperation[] = [
+          { type: 'delete', taskId: newTaskId },
+          { type: 'update', taskId, data: getPreviousValues(task, parentChanges) }
+        ];
+
+        // 昇格するサブタスクと子孫の完了ポイントの履歴を新しいタスクへ移す
+        const movedTexts = [subTask, ...detached].map(st => st.text);
+        const movePoints = () => usePointStore.getState().moveTaskPointHistory(taskId, newTaskId, { subTaskTexts: movedTexts });
+
+        try {
+          await queueOperations(operations);
+          let pointMoves = await movePoints();
+
+          useHistoryStore.getState().record({
+            label: `サブタスク「${subTask.text}」のタスクへの昇格`,
+            undo: async () => {
+              await queueOperations(revertOperations);
+              await usePointStore.getState().restorePointHistory(pointMoves);
+            },
+            redo: async () => {
+              await queueOperations(operations);
+              pointMoves = await movePoints();
+            }
+          });
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`サブタスク「${subTask.text}」をタスクに昇格しました`, UNDO_ACTION);
+          return newTaskId;
+        } catch (error) {
+          console.error("サブタスク昇格エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("サブタスクの昇格に失敗しました");
+          return null;
+        }
+      },
+
+      /**
+       * タスクを別のタスクのサブタスクとして統合（元のタスクのサブタスクはその子になる）
+       * 完了状態と完了ポイントの履歴は統合先へ引き継ぎ、元のタスクはゴミ箱へ移動する
+       */
+      mergeTaskIntoTask: async (taskId, targetTaskId) => {
+        const { tasks } = get();
+        const task = tasks.find((t) => t.id === taskId);
+        const target = tasks.find((t) => t.id === targetTaskId);
+        if (!task || !target || taskId === targetTaskId) return;
+
+        // 統合後のサブタスクは元のタスクの分だけ1階層深くなる
+        if (SubTaskUtils.getLevelCount(task.subTasks) + 1 > SubTaskUtils.MAX_DEPTH) {
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`サブタスクが${SubTaskUtils.MAX_DEPTH}階層を超えるため統合できません`);
+          return;
+        }
+
+        const mergedSubTask: SubTask = {
+          id: SubTaskUtils.generateSubTaskId(),
+          text: task.text,
+          completed: task.completed,
+          completedAt: task.completed ? (task.completedAt || Date.now()) : null,
+          order: SubTaskUtils.getChildren(target.subTasks, null).length + 1,
+          createdAt: Date.now(),
+          parentId: null
+        };
+        const mergedSubTasks = [
+          ...target.subTasks,
+          mergedSubTask,
+          ...task.subTasks.map(st => ({
+            ...st,
+            parentId: SubTaskUtils.getParentId(task.subTasks, st) || mergedSubTask.id
+          }))
+        ];
+
+        const targetChanges = withMemoChecklist(target, {
+          subTasks: mergedSubTasks,
+          subTasksCount: mergedSubTasks.length,
+          completedSubTasksCount: mergedSubTasks.filter(st => st.completed).length
+        });
+        const trash = createTrashOperations([task], tasks);
+        const operations: QueuedOperation[] = [
+          { type: 'update', taskId: targetTaskId, data: targetChanges },
+          { type: 'update', taskId, data: { mergedIntoTaskId: targetTaskId } },
+          ...trash.operations
+        ];
+        const revertOperations: QueuedOperation[] = [
+          { type: 'update', taskId: targetTaskId, data: getPreviousValues(target, targetChanges) },
+          { type: 'update', taskId, data: { mergedIntoTaskId: DELETED_FIELD } },
+          ...trash.revertOperations
+        ];
+
+        // タスク自身とサブタスクの完了ポイントの履歴を統合先へ移す
+        const movePoints = () => usePointStore.getState().moveTaskPointHistory(taskId, targetTaskId, { asSubTaskText: task.text });
+
+        try {
+          await queueOperations(operations);
+          let pointMoves = await movePoints();
+
+          useHistoryStore.getState().record({
+            label: `タスク「${task.text}」の「${target.text}」への統合`,
+            undo: async () => {
+              await queueOperations(revertOperations);
+              await usePointStore.getState().restorePointHistory(pointMoves);
+            },
+            redo: async () => {
+              await queueOperations(operations);
+              pointMoves = await movePoints();
+            }
+          });
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage(`タスク「${task.text}」を「${target.text}」のサブタスクに統合しました`, UNDO_ACTION);
+        } catch (error) {
+          console.error("タスク統合エラー:", error);
+
+          const feedbackStore = useFeedbackStore.getState();
+          feedbackStore.setMessage("タスクの統合に失敗しました");
+        }
+      },
+
       /**
        * タスクのポモドーロタイマーを開始
        */
@@ -590,6 +2405,69 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         // PomodoroStore の startPomodoro メソッドを呼び出し
         const pomodoroStore = usePomodoroStore.getState();
         pomodoroStore.startPomodoro(taskId);
+
+        // 開始したことを変更履歴に記録（タスクの内容は変わらない）
+        queueWrite('update', taskId, {
+          activityLog: TaskActivityLog.append(task.activityLog, [{ kind: 'pomodoro_started', at: Date.now() }])
+        }).catch(error => console.error("ポモドーロ開始の記録エラー:", error));
+      },
+
+      /**
+       * 同期待ちの書き込みを追加順にFirestoreへ送信
+       * オフラインで失敗した場合はキューに残して、オンライン復帰時に再開する
+       */
+      flushPendingWrites: async () => {
+        if (flushing) return;
+        if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+        
+        flushing = true;
+        try {
+          while (get().pendingWrites.length > 0) {
+            const write = get().pendingWrites[0];
+            
+            try {
+              await sendWrite(write);
+            } catch (error) {
+              if (isOfflineError(error)) {
+                console.log("オフラインのため同期を中断します");
+                break;
+              }
+              
+              console.error("タスクの同期エラー:", error);
+              const feedbackStore = useFeedbackStore.getState();
+              const failedAttempts = (write.failedAttempts || 0) + 1;
+              
+              // 上限までは失敗回数を記録してキューに残し、後の書き込みの順序を保つため同期を中断する
+              if (failedAttempts < MAX_SEND_ATTEMPTS) {
+                const retried = { ...write, failedAttempts };
+                await OfflineQueue.enqueue(retried)
+                  .catch(error => console.error("オフラインキューへの保存エラー:", error));
+                set(state => ({ pendingWrites: state.pendingWrites.map(w => w.id === write.id ? retried : w) }));
+                feedbackStore.setMessage("変更を同期できませんでした。しばらくしてから再試行します");
+                setTimeout(() => get().flushPendingWrites(), SEND_RETRY_DELAY * failedAttempts);
+                break;
+              }
+              
+              // 再送しても成功しない書き込みは破棄し、画面の表示もサーバーの状態に戻す
+              const taskCount = new Set(write.operations.map(operation => operation.taskId)).size;
+              feedbackStore.setMessage(`同期できなかった変更を取り消しました（${taskCount}件のタスク）`);
+            }
+            
+            await OfflineQueue.remove(write.id)
+              .catch(error => console.error("オフラインキューの削除エラー:", error));
+            set(state => ({ pendingWrites: state.pendingWrites.filter(w => w.id !== write.id) }));
+            refreshTasks();
+          }
+        } finally {
+          flushing = false;
+        }
+      },
+
+      /**
+       * タスクに同期待ちの変更があるかどうか
+       */
+      isTaskPending: (taskId) => {
+        return get().pendingWrites.some(write => OfflineQueue.touchesTask(write, taskId));
       },
 
       /**
@@ -604,7 +2482,10 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           filteredTasks = get().getTasksByFilter(filter);
         }
         
-        // ソート適用
+        // ソート適用（着手可能順では一覧外のブロッカーも考慮する）
+        if (sortConfig.sortBy === 'ready') {
+          return DependencyUtils.sortByReadiness(filteredTasks, tasks);
+        }
         return TaskUtils.sortTasks(filteredTasks, sortConfig);
       },
 
@@ -632,45 +2513,59 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
       },
 
       /**
-       * 🔥 追加: 期限切れタスクを取得
+       * 🔥 追加: 期限切れタスクを取得（時刻が設定されている場合は時刻を過ぎたもの、スヌーズ中は除く）
        */
       getOverdueTasks: () => {
-        const today = new Date().toISOString().split('T')[0];
-        return get().tasks.filter(task => 
-          !task.completed && 
-          task.deadline && 
-          task.deadline < today
-        );
+        const now = Date.now();
+        return get().tasks.filter(task => DueUtils.isOverdue(task, now) && !SnoozeUtils.isSnoozed(task, now));
       },
 
       /**
-       * 🔥 追加: 今日が期限のタスクを取得
+       * 🔥 追加: 今日が期限のタスクを取得（期限の時刻を過ぎたものは期限切れとして除く、スヌーズ中は除く）
        */
       getTasksDueToday: () => {
-        const today = new Date().toISOString().split('T')[0];
-        return get().tasks.filter(task => 
-          !task.completed && 
-          task.deadline === today
-        );
+        const now = Date.now();
+        return get().tasks.filter(task => DueUtils.isDueToday(task, now) && !SnoozeUtils.isSnoozed(task, now));
       },
 
       /**
-       * 🔥 追加: 期限間近のタスクを取得
+       * 🔥 追加: 期限間近のタスクを取得（スヌーズ中は開始日まで除く）
        */
       getTasksDueSoon: (days = 3) => {
-        const today = new Date();
-        const futureDate = new Date();
-        futureDate.setDate(today.getDate() + days);
-        
-        const todayStr = today.toISOString().split('T')[0];
-        const futureDateStr = futureDate.toISOString().split('T')[0];
-        
-        return get().tasks.filter(task => 
-          !task.completed && 
-          task.deadline && 
-          task.deadline >= todayStr && 
-          task.deadline <= futureDateStr
-        );
+        const now = Date.now();
+        return get().tasks.filter(task => DueUtils.isDueWithin(task, days, now) && !SnoozeUtils.isSnoozed(task, now));
+      },
+
+      /**
+       * タグでタスクを取得
+       */
+      getTasksByTag: (tag) => {
+        return get().tasks.filter(task => task.tags?.includes(tag));
+      },
+
+      /**
+       * プロジェクトでタスクを取得（null で全プロジェクト、ProjectUtils.UNASSIGNED で未分類）
+       */
+      getTasksByProject: (projectId) => {
+        const tasks = get().tasks;
+        if (!projectId) return tasks;
+        return tasks.filter(task => ProjectUtils.getProjectKey(task) === projectId);
+      },
+
+      /**
+       * 未完了のブロッカーがあるタスクを取得
+       */
+      getBlockedTasks: () => {
+        const tasks = get().tasks;
+        return tasks.filter(task => !task.completed && DependencyUtils.isBlocked(task, tasks));
+      },
+
+      /**
+       * スヌーズ中（開始日が明日以降）のタスクを取得
+       */
+      getSnoozedTasks: () => {
+        const now = Date.now();
+        return get().tasks.filter(task => SnoozeUtils.isSnoozed(task, now));
       },
 
       /**
@@ -684,7 +2579,9 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
        * タスクの分析情報を取得
        */
       getTaskAnalytics: () => {
-        const tasks = get().tasks;
+        // アーカイブ済みのタスクも完了実績として集計に含める
+        const { tasks: activeTasks, archivedTasks } = get();
+        const tasks = [...activeTasks, ...archivedTasks];
         const totalTasks = tasks.length;
         const completedTasks = tasks.filter(t => t.completed).length;
         const totalSubTasks = tasks.reduce((sum, t) => sum + t.subTasks.length, 0);
@@ -693,6 +2590,13 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
         const tasksWithSubTasks = tasks.filter(t => t.subTasks.length > 0).length;
         const estimatedTotalMinutes = tasks.reduce((sum, t) => sum + (t.estimatedMinutes || 0), 0);
         const actualTotalMinutes = tasks.reduce((sum, t) => sum + (t.actualMinutes || 0), 0);
+        const tagCounts = tasks.reduce((counts, t) => {
+          (t.tags || []).forEach(tag => {
+            counts[tag] = (counts[tag] || 0) + 1;
+          });
+          return counts;
+        }, {} as { [tag: string]: number });
+        const projectStats = ProjectUtils.calculateStats(tasks);
 
         return {
           totalTasks,
@@ -703,7 +2607,9 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           tasksWithMemo,
           tasksWithSubTasks,
           estimatedTotalMinutes,
-          actualTotalMinutes
+          actualTotalMinutes,
+          tagCounts,
+          projectStats
         };
       },
 
@@ -716,40 +2622,42 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
           unsubscribe();
         }
         
-        set({ tasks: [], unsubscribe: null });
+        serverTasks = [];
+        taskSearchIndex.clear();
+        set({ tasks: [], archivedTasks: [], trashedTasks: [], pendingWrites: [], unsubscribe: null });
       },
 
       /**
-       * 完了から1週間経過したタスクを削除する
+       * 完了から一定期間経過したタスクをアーカイブし、保持期間を過ぎたゴミ箱のタスクを完全に削除する
+       * 期間はユーザーごとの保持設定に従う
        */
-      checkAndDeleteCompletedTasks: async () => {
-        const tasks = get().tasks;
+      checkAndArchiveCompletedTasks: async () => {
+        const { tasks, trashedTasks } = get();
+        const { retention, loaded } = useUserSettingsStore.getState();
         const now = Date.now();
-        const tasksToDelete = tasks.filter(task => {
-          return task.completed && 
-                 task.completedAt && 
-                 (now - task.completedAt > ONE_WEEK_MS) &&
-                 task.scheduledForDeletion;
-        });
         
-        if (tasksToDelete.length === 0) return;
+        // 保持設定の読み込み前は既定値で処理しない
+        if (!loaded) return;
+        
+        const tasksToArchive = tasks.filter(task => RetentionUtils.shouldArchive(task, retention, now));
+        const tasksToPurge = trashedTasks.filter(task => RetentionUtils.shouldPurge(task, retention, now));
+        
+        if (tasksToArchive.length === 0 && tasksToPurge.length === 0) return;
         
         try {
-          const batch = writeBatch(db);
-          tasksToDelete.forEach(task => {
-            const taskRef = doc(db, "enhancedTasks", task.id);
-            batch.delete(taskRef);
-          });
-          
-          await batch.commit();
+          await queueOperations([
+            ...tasksToArchive.map(task => ({ type: 'update' as const, taskId: task.id, data: { archivedAt: now } })),
+            ...tasksToPurge.map(task => ({ type: 'delete' as const, taskId: task.id }))
+          ]);
           
-          // 削除完了のフィードバック
-          const feedbackStore = useFeedbackStore.getState();
-          feedbackStore.setMessage(`完了から1週間経過した${tasksToDelete.length}件のタスクを自動的に削除しました`);
+          if (tasksToArchive.length > 0) {
+            const feedbackStore = useFeedbackStore.getState();
+            feedbackStore.setMessage(`完了から${retention.archiveAfterDays}日経過した${tasksToArchive.length}件のタスクをアーカイブしました`);
+          }
           
-          console.log(`${tasksToDelete.length}件の古い完了済みタスクを削除しました`);
+          console.log(`${tasksToArchive.length}件をアーカイブ、ゴミ箱の${tasksToPurge.length}件を完全に削除しました`);
         } catch (error) {
-          console.error("古いタスクの削除に失敗:", error);
+          console.error("古いタスクの整理に失敗:", error);
         }
       }
     }),
@@ -764,13 +2672,42 @@ export const useEnhancedTaskStore = create<EnhancedTaskState>()(
 
 // アプリ起動時に定期的なタスクチェック処理をセットアップ
 if (typeof window !== 'undefined') {
-  // 1時間ごとに自動削除チェックを実行
+  // 1時間ごとに自動アーカイブ・ゴミ箱の整理を実行
   setInterval(() => {
-    const { checkAndDeleteCompletedTasks } = useEnhancedTaskStore.getState();
+    const { checkAndArchiveCompletedTasks } = useEnhancedTaskStore.getState();
     const user = useAuthStore.getState().user;
     
     if (user) {
-      checkAndDeleteCompletedTasks();
+      checkAndArchiveCompletedTasks();
+      
+      // 日付が変わっていれば優先度を見直す
+      useEnhancedTaskStore.getState().reevaluatePriorities();
     }
   }, 60 * 60 * 1000); // 1時間ごと
+  
+  // タスクより後に設定を読み込んだ場合も、読み込み後に優先度を見直す
+  // 他の端末で保存した並べ替えの設定はこの端末のソート設定に反映する
+  useUserSettingsStore.subscribe((state, previous) => {
+    if (state.loaded && !previous.loaded) {
+      useEnhancedTaskStore.getState().reevaluatePriorities();
+    }
+    if (state.taskSort && state.taskSort !== previous.taskSort) {
+      useEnhancedTaskStore.setState({ sortConfig: state.taskSort });
+    }
+  });
+  
+  // 30秒ごとにリマインダーを確認して通知
+  setInterval(() => {
+    if (!useAuthStore.getState().user) return;
+    
+    const { tasks } = useEnhancedTaskStore.getState();
+    TaskReminders.takeDueReminders(tasks).forEach(showTaskReminder);
+  }, 30 * 1000);
+  
+  // オンライン復帰時に同期待ちの書き込みを再送
+  window.addEventListener('online', () => {
+    if (useAuthStore.getState().user) {
+      useEnhancedTaskStore.getState().flushPendingWrites();
+    }
+  });
 }
\ No newline at end of file
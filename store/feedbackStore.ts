@@ -3,16 +3,26 @@
  * 
  * アプリ内で表示する通知やフィードバックメッセージを管理するZustandストア
  * 一時的なメッセージを統一的に扱うためのシンプルなインターフェースを提供
+ * v1.8.0: メッセージに「元に戻す」などの操作ボタンを添えられるように拡張
  */
 
 import { create } from "zustand";
 
+/**
+ * メッセージに添える操作ボタン
+ */
+export type FeedbackAction = {
+  label: string;        // ボタンの表示テキスト
+  onClick: () => void;  // ボタン押下時の処理
+};
+
 /**
  * フィードバック状態の型定義
  */
 type FeedbackState = {
   message: string | null;                 // 表示するメッセージ（nullの場合は非表示）
-  setMessage: (msg: string | null) => void; // メッセージを設定する関数
+  action: FeedbackAction | null;          // メッセージに添える操作ボタン
+  setMessage: (msg: string | null, action?: FeedbackAction) => void; // メッセージを設定する関数
 };
 
 /**
@@ -20,10 +30,12 @@ type FeedbackState = {
  */
 export const useFeedbackStore = create<FeedbackState>((set) => ({
   message: null,
+  action: null,
   
   /**
    * フィードバックメッセージを設定
    * @param msg 表示するメッセージ、またはnull（非表示）
+   * @param action メッセージに添える操作ボタン（省略時はボタンなし）
    */
-  setMessage: (msg) => set({ message: msg }),
+  setMessage: (msg, action) => set({ message: msg, action: action || null }),
 }));
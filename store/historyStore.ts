@@ -0,0 +1,209 @@
+/**
+ * 操作履歴ストア（元に戻す・やり直し）
+ *
+ * タスク・サブタスク操作の取り消しとやり直しを管理するZustandストア
+ * 各操作は「元に戻す処理」と「やり直す処理」の組として記録され、
+ * 取り消し・やり直しの実行中に発生した操作は履歴に記録しない
+ * v1.8.0: 元に戻す・やり直し機能の実装
+ */
+
+import { create } from "zustand";
+import { useFeedbackStore, FeedbackAction } from "@/store/feedbackStore";
+
+/**
+ * 履歴に記録する操作
+ */
+export interface HistoryEntry {
+  label: string;                  // 操作の説明（フィードバック表示用）
+  undo: () => Promise<void>;      // 操作を取り消す処理
+  redo: () => Promise<void>;      // 操作をやり直す処理
+}
+
+/**
+ * 操作履歴ストアの状態とアクション定義
+ */
+interface HistoryState {
+  past: HistoryEntry[];           // 取り消し可能な操作（新しいものが末尾）
+  future: HistoryEntry[];         // やり直し可能な操作（新しいものが末尾）
+  busy: boolean;                  // 取り消し・やり直しの実行中
+
+  record: (entry: HistoryEntry) => void;
+  group: <T>(label: string, operation: () => Promise<T>) => Promise<T>;
+  withoutRecording: <T>(operation: () => Promise<T>) => Promise<T>;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  clearHistory: () => void;
+}
+
+// 保持する履歴の最大件数
+const MAX_HISTORY = 50;
+
+// 履歴への記録を止めている処理の数
+let suppressDepth = 0;
+
+// まとめて記録する処理の実行中に記録された操作
+let groupEntries: HistoryEntry[] | null = null;
+
+/**
+ * フィードバックに表示する「元に戻す」ボタン
+ */
+export const UNDO_ACTION: FeedbackAction = {
+  label: '元に戻す',
+  onClick: () => {
+    useHistoryStore.getState().undo();
+  }
+};
+
+/**
+ * フィードバックに表示する「やり直す」ボタン
+ */
+const REDO_ACTION: FeedbackAction = {
+  label: 'やり直す',
+  onClick: () => {
+    useHistoryStore.getState().redo();
+  }
+};
+
+/**
+ * 操作履歴Zustandストア
+ */
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  busy: false,
+
+  /**
+   * 操作を履歴に記録（新しい操作を記録するとやり直し履歴は破棄される）
+   */
+  record: (entry) => {
+    if (suppressDepth > 0) return;
+    if (groupEntries) {
+      groupEntries.push(entry);
+      return;
+    }
+
+    set(state => ({
+      past: [...state.past, entry].slice(-MAX_HISTORY),
+      future: []
+    }));
+  },
+
+  /**
+   * 処理中に記録された操作を1つの操作として履歴に記録
+   * 取り消しは記録された順と逆に、やり直しは記録された順に実行する
+   * 途中で失敗した場合も、それまでに記録された操作は取り消せるように記録する
+   */
+  group: async (label, operation) => {
+    if (groupEntries) return operation();
+
+    const entries: HistoryEntry[] = [];
+    groupEntries = entries;
+    try {
+      return await operation();
+    } finally {
+      groupEntries = null;
+      if (entries.length > 0) {
+        get().record({
+          label,
+          undo: async () => {
+            for (const entry of [...entries].reverse()) {
+              await entry.undo();
+            }
+          },
+          redo: async () => {
+            for (const entry of entries) {
+              await entry.redo();
+            }
+          }
+        });
+      }
+    }
+  },
+
+  /**
+   * 履歴に記録せずに処理を実行
+   */
+  withoutRecording: async (operation) => {
+    suppressDepth++;
+    try {
+      return await operation();
+    } finally {
+      suppressDepth--;
+    }
+  },
+
+  /**
+   * 直前の操作を取り消す
+   */
+  undo: async () => {
+    const { past, busy } = get();
+    const entry = past[past.length - 1];
+    if (!entry || busy) return;
+
+    set({ busy: true });
+    try {
+      await get().withoutRecording(entry.undo);
+      set(state => ({
+        past: state.past.slice(0, -1),
+        future: [...state.future, entry]
+      }));
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`↩️ 元に戻しました: ${entry.label}`, REDO_ACTION);
+    } catch (error) {
+      console.error("元に戻す処理エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("元に戻せませんでした");
+    } finally {
+      set({ busy: false });
+    }
+  },
+
+  /**
+   * 取り消した操作をやり直す
+   */
+  redo: async () => {
+    const { future, busy } = get();
+    const entry = future[future.length - 1];
+    if (!entry || busy) return;
+
+    set({ busy: true });
+    try {
+      await get().withoutRecording(entry.redo);
+      set(state => ({
+        past: [...state.past, entry],
+        future: state.future.slice(0, -1)
+      }));
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`↪️ やり直しました: ${entry.label}`, UNDO_ACTION);
+    } catch (error) {
+      console.error("やり直し処理エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("やり直せませんでした");
+    } finally {
+      set({ busy: false });
+    }
+  },
+
+  /**
+   * 取り消し可能な操作があるかどうか
+   */
+  canUndo: () => get().past.length > 0,
+
+  /**
+   * やり直し可能な操作があるかどうか
+   */
+  canRedo: () => get().future.length > 0,
+
+  /**
+   * 履歴をクリア
+   */
+  clearHistory: () => {
+    set({ past: [], future: [] });
+  }
+}));
@@ -5,6 +5,7 @@
  * Firestoreとの連携により、ポイントデータの永続化を提供
  * v1.5.1: タスク完了取り消し時の総獲得ポイントも減算するように変更
  * v1.6.0: ゲームセンター機能追加でポイント消費機能を拡張
+ * v1.8.0: 一括操作用にポイントの付与・減算をまとめて行う機能、タスクとサブタスクの変換に伴うポイント履歴の付け替えを追加
  */
 
 import { create } from "zustand";
@@ -19,7 +20,8 @@ import {
   query,
   where,
   getDocs,
-  addDoc
+  addDoc,
+  writeBatch
 } from "firebase/firestore";
 import { useAuthStore } from "@/store/auth";
 import { useFeedbackStore } from "@/store/feedbackStore";
@@ -54,6 +56,46 @@ export interface UserPoints {
   lastLoginBonusDate?: string;  // 最後にログインボーナスを受け取った日
 }
 
+/**
+ * 一括操作でポイントを付与・減算するタスク
+ */
+export interface BulkPointTask {
+  id: string;
+  text: string;
+  priority: PriorityLevel;
+}
+
+/**
+ * ポイント履歴の付け替え条件
+ */
+export interface PointHistoryMoveOptions {
+  subTaskTexts?: string[];      // 指定したサブタスクの完了履歴だけを移す（未指定ならタスクの履歴すべて）
+  asSubTaskText?: string;       // タスク自身の完了履歴を、このサブタスクの完了履歴として書き換える
+}
+
+/**
+ * 付け替え前のポイント履歴（元に戻すために使う）
+ */
+export interface PointHistoryMove {
+  id: string;
+  taskId: string;
+  description: string;
+}
+
+/**
+ * サブタスクの完了履歴かどうか（説明文で判定、取り消しの履歴を含む）
+ */
+const isSubTaskHistory = (description: string, subTaskText: string): boolean => {
+  return description.startsWith('サブタスク完了') && description.includes(subTaskText.substring(0, 15));
+};
+
+/**
+ * タスク完了ポイントの説明文を作成
+ */
+const getTaskPointDescription = (prefix: string, taskText: string): string => {
+  return `${prefix}: ${taskText.substring(0, 20)}${taskText.length > 20 ? '...' : ''}`;
+};
+
 /**
  * ポイントストアの状態とアクション定義
  */
@@ -78,6 +120,14 @@ interface PointState {
   
   // サブタスク完了取り消し時のポイント減算
   revokeSubTaskCompletionPoints: (taskId: string, subTaskText: string) => Promise<number>;
+
+  // 一括操作時のポイント付与・減算（フィードバックは呼び出し側で表示）
+  awardBulkTaskCompletionPoints: (tasks: BulkPointTask[]) => Promise<number>;
+  revokeBulkTaskCompletionPoints: (tasks: BulkPointTask[]) => Promise<number>;
+
+  // タスクとサブタスクの変換時のポイント履歴の付け替え（ポイント残高は変わらない）
+  moveTaskPointHistory: (fromTaskId: string, toTaskId: string, options?: PointHistoryMoveOptions) => Promise<PointHistoryMove[]>;
+  restorePointHistory: (moves: PointHistoryMove[]) => Promise<void>;
   
   // ログインボーナス
   checkAndAwardLoginBonus: () => Promise<void>;
@@ -430,7 +480,8 @@ export const usePointStore = create<PointState>((set, get) => ({
         if (historyData.description.includes("サブタスク完了") && 
             historyData.description.includes(subTaskText.substring(0, 15)) &&
             historyData.points > 0) {
-          revokedPoints = 3; // サブタスクのポイントは固定3ポイント
+          // サブタスクのポイントは3ポイント（タスクから変換したサブタスクは元のタスクのポイント）
+          revokedPoints = historyData.points;
           break;
         }
       }
@@ -455,6 +506,201 @@ export const usePointStore = create<PointState>((set, get) => ({
     }
   },
 
+  /**
+   * 複数タスクの完了ポイントをまとめて付与
+   * 履歴はタスクごとに記録し（個別の取り消しに対応するため）、ポイント残高は1回で更新する
+   */
+  awardBulkTaskCompletionPoints: async (tasks) => {
+    const user = useAuthStore.getState().user;
+    if (!user || tasks.length === 0) return 0;
+
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const timestamp = Date.now();
+      const batch = writeBatch(db);
+      let totalAwardedPoints = 0;
+
+      tasks.forEach(task => {
+        const points = getPointsForPriority(task.priority);
+        totalAwardedPoints += points;
+
+        const historyData: PointHistory = {
+          userId: user.uid,
+          type: 'task_completion',
+          points,
+          description: getTaskPointDescription('タスク完了', task.text),
+          taskId: task.id,
+          date: today,
+          timestamp
+        };
+        batch.set(doc(collection(db, "pointHistory")), historyData);
+      });
+
+      batch.update(doc(db, "userPoints", user.uid), {
+        totalPoints: increment(totalAwardedPoints),
+        currentPoints: increment(totalAwardedPoints)
+      });
+      await batch.commit();
+
+      // ローカル状態を更新
+      const currentUserPoints = get().userPoints;
+      if (currentUserPoints) {
+        set({
+          userPoints: {
+            ...currentUserPoints,
+            totalPoints: currentUserPoints.totalPoints + totalAwardedPoints,
+            currentPoints: currentUserPoints.currentPoints + totalAwardedPoints
+          }
+        });
+      }
+
+      get().loadPointHistory();
+      return totalAwardedPoints;
+    } catch (error) {
+      console.error("一括ポイント付与エラー:", error);
+      return 0;
+    }
+  },
+
+  /**
+   * 複数タスクの完了ポイントをまとめて減算（総獲得ポイントからも減算）
+   */
+  revokeBulkTaskCompletionPoints: async (tasks) => {
+    const user = useAuthStore.getState().user;
+    const currentUserPoints = get().userPoints;
+    if (!user || !currentUserPoints || tasks.length === 0) return 0;
+
+    try {
+      // タスク完了のポイント履歴を一度に取得し、対象タスクごとに集計
+      const historyQuery = query(
+        collection(db, "pointHistory"),
+        where("userId", "==", user.uid),
+        where("type", "==", "task_completion")
+      );
+      const snapshot = await getDocs(historyQuery);
+
+      const earnedPoints: { [taskId: string]: number } = {};
+      snapshot.docs.forEach(historyDoc => {
+        const historyData = historyDoc.data() as PointHistory;
+        if (historyData.taskId && historyData.points > 0) { // 正のポイントのみ（既に取り消し済みを除外）
+          earnedPoints[historyData.taskId] = (earnedPoints[historyData.taskId] || 0) + historyData.points;
+        }
+      });
+
+      const today = new Date().toISOString().split('T')[0];
+      const timestamp = Date.now();
+      const batch = writeBatch(db);
+      let totalRevokedPoints = 0;
+
+      tasks.forEach(task => {
+        const points = earnedPoints[task.id] || 0;
+        if (points <= 0) return;
+        totalRevokedPoints += points;
+
+        const historyData: PointHistory = {
+          userId: user.uid,
+          type: 'task_completion',
+          points: -points,
+          description: getTaskPointDescription('タスク完了取り消し', task.text),
+          taskId: task.id,
+          date: today,
+          timestamp
+        };
+        batch.set(doc(collection(db, "pointHistory")), historyData);
+      });
+
+      if (totalRevokedPoints === 0) return 0;
+
+      const newCurrentPoints = Math.max(0, currentUserPoints.currentPoints - totalRevokedPoints);
+      const newTotalPoints = Math.max(0, currentUserPoints.totalPoints - totalRevokedPoints);
+      batch.update(doc(db, "userPoints", user.uid), {
+        currentPoints: newCurrentPoints,
+        totalPoints: newTotalPoints
+      });
+      await batch.commit();
+
+      set({
+        userPoints: {
+          ...currentUserPoints,
+          currentPoints: newCurrentPoints,
+          totalPoints: newTotalPoints
+        }
+      });
+
+      get().loadPointHistory();
+      return totalRevokedPoints;
+    } catch (error) {
+      console.error("一括ポイント減算エラー:", error);
+      return 0;
+    }
+  },
+
+  /**
+   * タスクのポイント履歴を別のタスクへ付け替え
+   * サブタスクの昇格・タスクの統合の後も、完了の取り消しで正しいポイントが減算されるようにする
+   * @returns 付け替え前の履歴（restorePointHistory で元に戻せる）
+   */
+  moveTaskPointHistory: async (fromTaskId, toTaskId, options = {}) => {
+    const user = useAuthStore.getState().user;
+    if (!user || fromTaskId === toTaskId) return [];
+
+    try {
+      const historyQuery = query(
+        collection(db, "pointHistory"),
+        where("userId", "==", user.uid),
+        where("taskId", "==", fromTaskId),
+        where("type", "==", "task_completion")
+      );
+      const snapshot = await getDocs(historyQuery);
+
+      const batch = writeBatch(db);
+      const moves: PointHistoryMove[] = [];
+
+      snapshot.docs.forEach(historyDoc => {
+        const historyData = historyDoc.data() as PointHistory;
+        const { subTaskTexts, asSubTaskText } = options;
+        if (subTaskTexts && !subTaskTexts.some(text => isSubTaskHistory(historyData.description, text))) return;
+
+        // タスク自身の完了履歴は、サブタスクの完了取り消しで見つかる説明文に書き換える
+        const isOwnHistory = !historyData.description.startsWith('サブタスク完了');
+        const description = asSubTaskText && isOwnHistory
+          ? `${historyData.points > 0 ? 'サブタスク完了' : 'サブタスク完了取り消し'}: ${asSubTaskText.substring(0, 15)}...`
+          : historyData.description;
+
+        batch.update(historyDoc.ref, { taskId: toTaskId, description });
+        moves.push({ id: historyDoc.id, taskId: fromTaskId, description: historyData.description });
+      });
+
+      if (moves.length === 0) return [];
+      await batch.commit();
+
+      get().loadPointHistory();
+      return moves;
+    } catch (error) {
+      console.error("ポイント履歴の付け替えエラー:", error);
+      return [];
+    }
+  },
+
+  /**
+   * 付け替えたポイント履歴を元に戻す
+   */
+  restorePointHistory: async (moves) => {
+    if (moves.length === 0) return;
+
+    try {
+      const batch = writeBatch(db);
+      moves.forEach(move => {
+        batch.update(doc(db, "pointHistory", move.id), { taskId: move.taskId, description: move.description });
+      });
+      await batch.commit();
+
+      get().loadPointHistory();
+    } catch (error) {
+      console.error("ポイント履歴の復元エラー:", error);
+    }
+  },
+
   /**
    * ログインボーナスの確認と付与
    */
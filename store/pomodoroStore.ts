@@ -3,6 +3,7 @@
  * 
  * ポモドーロテクニックに基づくタイマー機能を提供します。
  * 作業時間と休憩時間の管理、通知機能、統計情報の連携などを行います。
+ * v1.8.0: 作業時間をタスクの実績時間（actualMinutes）に自動記録
  */
 
 import { create } from "zustand";
@@ -44,6 +45,22 @@ let globalTimerId: NodeJS.Timeout | null = null;
 let audioInstance: HTMLAudioElement | null = null;
 let soundPlayCount = 0;
 
+/**
+ * 集中した時間をタスクの実績時間に加算
+ * 1分未満の端数は四捨五入し、0分の場合は記録しない
+ * @returns 記録した分数
+ */
+const recordFocusTime = (taskId: string | null, seconds: number): number => {
+  const minutes = Math.round(seconds / 60);
+  if (!taskId || minutes <= 0) return 0;
+
+  // 動的インポートでタスクストアを参照（循環参照を避ける）
+  import('@/store/enhancedTaskStore')
+    .then(({ useEnhancedTaskStore }) => useEnhancedTaskStore.getState().addActualMinutes(taskId, minutes))
+    .catch(error => console.error("作業時間の記録エラー:", error));
+  return minutes;
+};
+
 /**
  * 通知音を再生する関数
  * @param set Zustand の set 関数
@@ -192,6 +209,12 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
    * @param taskId 作業対象のタスクID
    */
   startPomodoro: (taskId) => {
+    // 作業中に別のタスクで開始し直した場合は、それまでの作業時間を記録
+    const current = get();
+    if (current.isRunning && !current.isBreak) {
+      recordFocusTime(current.taskId, WORK_TIME - current.timeLeft);
+    }
+    
     const feedbackStore = useFeedbackStore.getState();
     feedbackStore.setMessage("ポモドーロタイマーを開始しました！");
     
@@ -226,6 +249,10 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
       get().stopAlarm();
     }
     
+    // 作業の途中で終了した場合は、それまでの作業時間を記録
+    const { taskId, isRunning, isBreak, timeLeft } = get();
+    const recordedMinutes = isRunning && !isBreak ? recordFocusTime(taskId, WORK_TIME - timeLeft) : 0;
+    
     set({ 
       taskId: null, 
       isRunning: false, 
@@ -235,7 +262,11 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
     });
     
     const feedbackStore = useFeedbackStore.getState();
-    feedbackStore.setMessage("ポモドーロタイマーを終了しました");
+    feedbackStore.setMessage(
+      recordedMinutes > 0
+        ? `ポモドーロタイマーを終了しました（作業時間 ${recordedMinutes}分を記録）`
+        : "ポモドーロタイマーを終了しました"
+    );
   },
 
   /**
@@ -269,6 +300,9 @@ export const usePomodoroStore = create<PomodoroState>((set, get) => ({
           const statsStore = useStatsStore.getState();
           statsStore.incrementPomodoro();
           
+          // 作業時間をタスクの実績時間に記録
+          recordFocusTime(state.taskId, WORK_TIME);
+          
           // 効果音を再生
           playNotificationSoundWrapper(set);
           
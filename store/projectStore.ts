@@ -0,0 +1,304 @@
+/**
+ * プロジェクト管理ストア
+ *
+ * タスクをまとめるプロジェクト（名前・色・アイコン・アーカイブ状態）を管理するZustandストア
+ * プロジェクトの削除時は、所属タスクを別のプロジェクトへ移動するかゴミ箱へ移動する
+ * v1.8.0: プロジェクト機能の実装
+ */
+
+import { create } from "zustand";
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot
+} from "firebase/firestore";
+import { useAuthStore } from "@/store/auth";
+import { useFeedbackStore } from "@/store/feedbackStore";
+import { useEnhancedTaskStore } from "@/store/enhancedTaskStore";
+import { useHistoryStore, UNDO_ACTION } from "@/store/historyStore";
+import { TaskProject, ProjectUtils, TagUtils } from "@/lib/taskInterfaces";
+
+/**
+ * プロジェクト作成・更新データ
+ */
+export interface ProjectData {
+  name: string;
+  color: string;
+  icon: string;
+}
+
+/**
+ * プロジェクト削除時の所属タスクの扱い（delete はゴミ箱へ移動）
+ * moveTo: 移動先のプロジェクトID（null は未分類）
+ */
+export type ProjectTaskDisposition =
+  | { type: 'move'; moveTo: string | null }
+  | { type: 'delete' };
+
+/**
+ * プロジェクトストアの状態とアクション定義
+ */
+interface ProjectState {
+  projects: TaskProject[];
+  loading: boolean;
+  unsubscribe: (() => void) | null;
+
+  // 表示中のプロジェクト（null は全プロジェクト、ProjectUtils.UNASSIGNED は未分類）
+  selectedProjectId: string | null;
+  setSelectedProjectId: (projectId: string | null) => void;
+
+  // データ管理
+  loadProjects: () => void;
+  addProject: (data: ProjectData) => Promise<string | null>;
+  updateProject: (projectId: string, data: Partial<ProjectData>) => Promise<void>;
+  setProjectArchived: (projectId: string, archived: boolean) => Promise<void>;
+  removeProject: (projectId: string, disposition: ProjectTaskDisposition) => Promise<void>;
+
+  // 取得
+  getProjectById: (projectId: string | undefined) => TaskProject | undefined;
+  getActiveProjects: () => TaskProject[];
+
+  // ユーティリティ
+  clearProjects: () => void;
+}
+
+/**
+ * プロジェクト管理Zustandストア
+ */
+export const useProjectStore = create<ProjectState>((set, get) => ({
+  projects: [],
+  loading: true,
+  unsubscribe: null,
+  selectedProjectId: null,
+
+  /**
+   * 表示中のプロジェクトを切り替え
+   */
+  setSelectedProjectId: (projectId) => {
+    set({ selectedProjectId: projectId });
+  },
+
+  /**
+   * ユーザーのプロジェクトをFirestoreからリアルタイムで監視・読み込む
+   */
+  loadProjects: () => {
+    const user = useAuthStore.getState().user;
+
+    // 前回のリスナーがあれば解除
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    if (!user) {
+      set({ projects: [], loading: false, unsubscribe: null });
+      return;
+    }
+
+    set({ loading: true });
+
+    try {
+      const q = query(collection(db, "projects"), where("userId", "==", user.uid));
+
+      const unsubscribeListener = onSnapshot(q,
+        (snapshot) => {
+          const projects = snapshot.docs
+            .map((doc) => ({ id: doc.id, archived: false, ...doc.data() })) as TaskProject[];
+
+          // クライアントサイドで作成順にソート
+          projects.sort((a, b) => a.createdAt - b.createdAt);
+
+          // 選択中のプロジェクトが削除された場合は全プロジェクト表示に戻す
+          const { selectedProjectId } = get();
+          const selectionRemoved = selectedProjectId &&
+            selectedProjectId !== ProjectUtils.UNASSIGNED &&
+            !projects.some(project => project.id === selectedProjectId);
+
+          set({
+            projects,
+            loading: false,
+            ...(selectionRemoved ? { selectedProjectId: null } : {})
+          });
+        },
+        (error) => {
+          console.error("プロジェクトの監視エラー:", error);
+          set({ loading: false });
+        }
+      );
+
+      set({ unsubscribe: unsubscribeListener });
+    } catch (error) {
+      console.error("プロジェクト監視の設定に失敗:", error);
+      set({ loading: false });
+    }
+  },
+
+  /**
+   * 新しいプロジェクトを作成
+   */
+  addProject: async (data) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error("ユーザーがログインしていません");
+
+    const name = data.name.trim();
+    if (!name) return null;
+
+    const newProject: Omit<TaskProject, 'id'> = {
+      userId: user.uid,
+      name,
+      color: data.color || TagUtils.getDefaultColor(name),
+      icon: data.icon || ProjectUtils.ICONS[0],
+      archived: false,
+      createdAt: Date.now()
+    };
+
+    try {
+      const docRef = await addDoc(collection(db, "projects"), newProject);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`プロジェクト「${name}」を作成しました`);
+      return docRef.id;
+    } catch (error) {
+      console.error("プロジェクト作成エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("プロジェクトの作成に失敗しました");
+      return null;
+    }
+  },
+
+  /**
+   * プロジェクトの名前・色・アイコンを更新
+   */
+  updateProject: async (projectId, data) => {
+    const updates: Partial<ProjectData> = { ...data };
+    if (updates.name !== undefined) {
+      updates.name = updates.name.trim();
+      if (!updates.name) return;
+    }
+
+    try {
+      await updateDoc(doc(db, "projects", projectId), updates);
+    } catch (error) {
+      console.error("プロジェクト更新エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("プロジェクトの更新に失敗しました");
+    }
+  },
+
+  /**
+   * プロジェクトのアーカイブ状態を切り替え
+   */
+  setProjectArchived: async (projectId, archived) => {
+    const project = get().getProjectById(projectId);
+    if (!project) return;
+
+    try {
+      await updateDoc(doc(db, "projects", projectId), { archived });
+
+      // アーカイブしたプロジェクトを表示中なら全プロジェクト表示に戻す
+      if (archived && get().selectedProjectId === projectId) {
+        set({ selectedProjectId: null });
+      }
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(
+        archived
+          ? `プロジェクト「${project.name}」をアーカイブしました`
+          : `プロジェクト「${project.name}」をアーカイブから戻しました`
+      );
+    } catch (error) {
+      console.error("プロジェクトアーカイブエラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("プロジェクトのアーカイブに失敗しました");
+    }
+  },
+
+  /**
+   * プロジェクトを削除
+   * 所属タスクは指定に従って別のプロジェクト（または未分類）へ移動するか、ゴミ箱へ移動する
+   */
+  removeProject: async (projectId, disposition) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const project = get().getProjectById(projectId);
+    if (!project) return;
+
+    const label = `プロジェクト「${project.name}」の削除`;
+
+    try {
+      // 所属タスクの移動とプロジェクトの削除を1つの操作として「元に戻す」履歴に記録する
+      const taskCount = await useHistoryStore.getState().group(label, async () => {
+        // 所属タスクはオフライン時も書き込みキューに積んで反映する
+        const count = await useEnhancedTaskStore.getState().releaseProjectTasks(projectId, disposition);
+        await deleteDoc(doc(db, "projects", projectId));
+
+        // 元に戻す場合は同じIDで作り直す
+        const { id, ...projectData } = project;
+        useHistoryStore.getState().record({
+          label,
+          undo: () => setDoc(doc(db, "projects", id), projectData),
+          redo: () => deleteDoc(doc(db, "projects", id))
+        });
+        return count;
+      });
+
+      if (get().selectedProjectId === projectId) {
+        set({ selectedProjectId: null });
+      }
+
+      const feedbackStore = useFeedbackStore.getState();
+      if (disposition.type === 'delete') {
+        feedbackStore.setMessage(`プロジェクト「${project.name}」を削除し、${taskCount}件のタスクをゴミ箱へ移動しました`, UNDO_ACTION);
+      } else {
+        const target = get().getProjectById(disposition.moveTo || undefined);
+        feedbackStore.setMessage(
+          `プロジェクト「${project.name}」を削除し、${taskCount}件のタスクを${target ? `「${target.name}」` : '未分類'}に移動しました`,
+          UNDO_ACTION
+        );
+      }
+    } catch (error) {
+      console.error("プロジェクト削除エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("プロジェクトの削除に失敗しました");
+    }
+  },
+
+  /**
+   * IDでプロジェクトを取得
+   */
+  getProjectById: (projectId) => {
+    if (!projectId) return undefined;
+    return get().projects.find(project => project.id === projectId);
+  },
+
+  /**
+   * アーカイブされていないプロジェクトを取得
+   */
+  getActiveProjects: () => {
+    return get().projects.filter(project => !project.archived);
+  },
+
+  /**
+   * プロジェクトリストをクリア
+   */
+  clearProjects: () => {
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    set({ projects: [], selectedProjectId: null, unsubscribe: null });
+  }
+}));
@@ -0,0 +1,274 @@
+/**
+ * タグ管理ストア
+ *
+ * タスクに付けるタグ（名前と色）の作成・変更・統合・削除を管理するZustandストア
+ * タグ名の変更や統合はユーザーの全タスク（enhancedTasks）に一括で反映する
+ * v1.8.0: タグ機能の実装
+ */
+
+import { create } from "zustand";
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  addDoc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot
+} from "firebase/firestore";
+import { useAuthStore } from "@/store/auth";
+import { useFeedbackStore } from "@/store/feedbackStore";
+import { useEnhancedTaskStore } from "@/store/enhancedTaskStore";
+import { useHistoryStore, UNDO_ACTION } from "@/store/historyStore";
+import { TaskTag, TagUtils } from "@/lib/taskInterfaces";
+
+/**
+ * タグストアの状態とアクション定義
+ */
+interface TagState {
+  tags: TaskTag[];
+  loading: boolean;
+  unsubscribe: (() => void) | null;
+
+  // データ管理
+  loadTags: () => void;
+  addTag: (name: string, color?: string) => Promise<string | null>;
+  ensureTags: (names: string[]) => Promise<void>;
+  updateTagColor: (tagId: string, color: string) => Promise<void>;
+  renameTag: (tagId: string, newName: string) => Promise<void>;
+  removeTag: (tagId: string) => Promise<void>;
+
+  // 取得
+  getTagByName: (name: string) => TaskTag | undefined;
+  getTagColor: (name: string) => string;
+
+  // ユーティリティ
+  clearTags: () => void;
+}
+
+/**
+ * 削除したタグ定義を元に戻せるよう「元に戻す」履歴に記録（同じIDで作り直す）
+ */
+const recordTagDeletion = (tag: TaskTag, label: string) => {
+  const { id, ...tagData } = tag;
+
+  useHistoryStore.getState().record({
+    label,
+    undo: () => setDoc(doc(db, "taskTags", id), tagData),
+    redo: () => deleteDoc(doc(db, "taskTags", id))
+  });
+};
+
+/**
+ * タグ管理Zustandストア
+ */
+export const useTagStore = create<TagState>((set, get) => ({
+  tags: [],
+  loading: true,
+  unsubscribe: null,
+
+  /**
+   * ユーザーのタグをFirestoreからリアルタイムで監視・読み込む
+   */
+  loadTags: () => {
+    const user = useAuthStore.getState().user;
+
+    // 前回のリスナーがあれば解除
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    if (!user) {
+      set({ tags: [], loading: false, unsubscribe: null });
+      return;
+    }
+
+    set({ loading: true });
+
+    try {
+      const q = query(collection(db, "taskTags"), where("userId", "==", user.uid));
+
+      const unsubscribeListener = onSnapshot(q,
+        (snapshot) => {
+          const tags = snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() })) as TaskTag[];
+
+          // クライアントサイドで名前順にソート
+          tags.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+
+          set({ tags, loading: false });
+        },
+        (error) => {
+          console.error("タグの監視エラー:", error);
+          set({ loading: false });
+        }
+      );
+
+      set({ unsubscribe: unsubscribeListener });
+    } catch (error) {
+      console.error("タグ監視の設定に失敗:", error);
+      set({ loading: false });
+    }
+  },
+
+  /**
+   * 新しいタグを作成（同名のタグがあれば既存のIDを返す）
+   */
+  addTag: async (name, color) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error("ユーザーがログインしていません");
+
+    const normalized = TagUtils.normalizeName(name);
+    if (!normalized) return null;
+
+    const existing = get().getTagByName(normalized);
+    if (existing) return existing.id;
+
+    const newTag: Omit<TaskTag, 'id'> = {
+      userId: user.uid,
+      name: normalized,
+      color: color || TagUtils.getDefaultColor(normalized),
+      createdAt: Date.now()
+    };
+
+    try {
+      const docRef = await addDoc(collection(db, "taskTags"), newTag);
+      return docRef.id;
+    } catch (error) {
+      console.error("タグ作成エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("タグの作成に失敗しました");
+      return null;
+    }
+  },
+
+  /**
+   * 指定したタグ名のうち未登録のものを作成
+   */
+  ensureTags: async (names) => {
+    for (const name of names) {
+      if (!get().getTagByName(name)) {
+        await get().addTag(name);
+      }
+    }
+  },
+
+  /**
+   * タグの色を変更
+   */
+  updateTagColor: async (tagId, color) => {
+    try {
+      await updateDoc(doc(db, "taskTags", tagId), { color });
+    } catch (error) {
+      console.error("タグ色変更エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("タグの色の変更に失敗しました");
+    }
+  },
+
+  /**
+   * タグ名を変更
+   * 変更後の名前のタグが既に存在する場合は、そのタグに統合する
+   */
+  renameTag: async (tagId, newName) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const tag = get().tags.find(t => t.id === tagId);
+    const normalized = TagUtils.normalizeName(newName);
+    if (!tag || !normalized || normalized === tag.name) return;
+
+    const mergeTarget = get().getTagByName(normalized);
+    const label = `タグ「${tag.name}」の「${normalized}」への${mergeTarget ? '統合' : '変更'}`;
+
+    try {
+      // タスクの書き換えとタグ定義の変更を1つの操作として「元に戻す」履歴に記録する
+      await useHistoryStore.getState().group(label, async () => {
+        // 全タスクのタグを書き換え（オフライン時も書き込みキューに積んで反映する）
+        const updatedCount = await useEnhancedTaskStore.getState().replaceTaskTag(tag.name, normalized);
+
+        const feedbackStore = useFeedbackStore.getState();
+        if (mergeTarget) {
+          // 統合: 元のタグ定義を削除
+          await deleteDoc(doc(db, "taskTags", tagId));
+          recordTagDeletion(tag, label);
+          feedbackStore.setMessage(`タグ「${tag.name}」を「${normalized}」に統合しました（${updatedCount}件のタスク）`, UNDO_ACTION);
+        } else {
+          await updateDoc(doc(db, "taskTags", tagId), { name: normalized });
+          useHistoryStore.getState().record({
+            label,
+            undo: () => updateDoc(doc(db, "taskTags", tagId), { name: tag.name }),
+            redo: () => updateDoc(doc(db, "taskTags", tagId), { name: normalized })
+          });
+          feedbackStore.setMessage(`タグ「${tag.name}」を「${normalized}」に変更しました（${updatedCount}件のタスク）`, UNDO_ACTION);
+        }
+      });
+    } catch (error) {
+      console.error("タグ名変更エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("タグ名の変更に失敗しました");
+    }
+  },
+
+  /**
+   * タグを削除（全タスクからも取り除く）
+   */
+  removeTag: async (tagId) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const tag = get().tags.find(t => t.id === tagId);
+    if (!tag) return;
+
+    const label = `タグ「${tag.name}」の削除`;
+
+    try {
+      await useHistoryStore.getState().group(label, async () => {
+        await useEnhancedTaskStore.getState().replaceTaskTag(tag.name, null);
+        await deleteDoc(doc(db, "taskTags", tagId));
+        recordTagDeletion(tag, label);
+      });
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`タグ「${tag.name}」を削除しました`, UNDO_ACTION);
+    } catch (error) {
+      console.error("タグ削除エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("タグの削除に失敗しました");
+    }
+  },
+
+  /**
+   * 名前でタグを取得
+   */
+  getTagByName: (name) => {
+    return get().tags.find(tag => tag.name === name);
+  },
+
+  /**
+   * タグ名の表示色を取得（未登録のタグはデフォルト色）
+   */
+  getTagColor: (name) => {
+    return get().getTagByName(name)?.color || TagUtils.getDefaultColor(name);
+  },
+
+  /**
+   * タグリストをクリア
+   */
+  clearTags: () => {
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    set({ tags: [], unsubscribe: null });
+  }
+}));
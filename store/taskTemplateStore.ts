@@ -0,0 +1,249 @@
+/**
+ * タスクテンプレートストア
+ *
+ * 繰り返し使うチェックリスト（リリース手順・入社手続き・旅行の準備など）を
+ * タスク名・優先度・相対的な期限・見積もり時間・メモ・サブタスクのテンプレートとして保存し、
+ * テンプレートから新しいタスクを作成するためのZustandストア
+ * v1.8.0: タスクテンプレート機能の実装
+ */
+
+import { create } from "zustand";
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot
+} from "firebase/firestore";
+import { useAuthStore } from "@/store/auth";
+import { useFeedbackStore } from "@/store/feedbackStore";
+import { useEnhancedTaskStore } from "@/store/enhancedTaskStore";
+import { EnhancedTask, TaskTemplate } from "@/lib/taskInterfaces";
+import { TaskTemplates, TaskTemplateData } from "@/lib/taskTemplates";
+
+/**
+ * テンプレートストアの状態とアクション定義
+ */
+interface TaskTemplateState {
+  templates: TaskTemplate[];
+  loading: boolean;
+  unsubscribe: (() => void) | null;
+
+  // データ管理
+  loadTemplates: () => void;
+  addTemplate: (data: TaskTemplateData) => Promise<string | null>;
+  saveTaskAsTemplate: (task: EnhancedTask) => Promise<string | null>;
+  updateTemplate: (templateId: string, data: Partial<TaskTemplateData>) => Promise<void>;
+  removeTemplate: (templateId: string) => Promise<void>;
+
+  // テンプレートからタスクを作成
+  createTaskFromTemplate: (templateId: string, projectId?: string) => Promise<string | null>;
+
+  // 取得
+  getTemplateById: (templateId: string) => TaskTemplate | undefined;
+
+  // ユーティリティ
+  clearTemplates: () => void;
+}
+
+/**
+ * Firestoreに保存できる形に整える（undefinedのフィールドを除く）
+ */
+const toFirestoreData = (data: Partial<TaskTemplateData>): Partial<TaskTemplateData> => {
+  const result: Partial<Record<keyof TaskTemplateData, unknown>> = {};
+  (Object.keys(data) as (keyof TaskTemplateData)[]).forEach(field => {
+    if (data[field] !== undefined) result[field] = data[field];
+  });
+  if (typeof data.name === 'string') result.name = data.name.trim();
+  return result as Partial<TaskTemplateData>;
+};
+
+/**
+ * タスクテンプレートZustandストア
+ */
+export const useTaskTemplateStore = create<TaskTemplateState>((set, get) => ({
+  templates: [],
+  loading: true,
+  unsubscribe: null,
+
+  /**
+   * ユーザーのテンプレートをFirestoreからリアルタイムで監視・読み込む
+   */
+  loadTemplates: () => {
+    const user = useAuthStore.getState().user;
+
+    // 前回のリスナーがあれば解除
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    if (!user) {
+      set({ templates: [], loading: false, unsubscribe: null });
+      return;
+    }
+
+    set({ loading: true });
+
+    try {
+      const q = query(collection(db, "taskTemplates"), where("userId", "==", user.uid));
+
+      const unsubscribeListener = onSnapshot(q,
+        (snapshot) => {
+          const templates = snapshot.docs
+            .map((doc) => ({ id: doc.id, ...doc.data() }) as TaskTemplate)
+            .map((template) => ({ ...template, subTasks: template.subTasks || [] }));
+
+          // 最近使ったテンプレートを先頭に、未使用は作成順
+          templates.sort((a, b) => (b.lastUsedAt || 0) - (a.lastUsedAt || 0) || a.createdAt - b.createdAt);
+
+          set({ templates, loading: false });
+        },
+        (error) => {
+          console.error("テンプレートの監視エラー:", error);
+          set({ loading: false });
+        }
+      );
+
+      set({ unsubscribe: unsubscribeListener });
+    } catch (error) {
+      console.error("テンプレート監視の設定に失敗:", error);
+      set({ loading: false });
+    }
+  },
+
+  /**
+   * 新しいテンプレートを保存
+   */
+  addTemplate: async (data) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error("ユーザーがログインしていません");
+
+    const name = data.name.trim();
+    if (!name || !data.text.trim()) return null;
+
+    const newTemplate = {
+      ...toFirestoreData(data),
+      userId: user.uid,
+      createdAt: Date.now()
+    };
+
+    try {
+      const docRef = await addDoc(collection(db, "taskTemplates"), newTemplate);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`テンプレート「${name}」を保存しました`);
+      return docRef.id;
+    } catch (error) {
+      console.error("テンプレート保存エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("テンプレートの保存に失敗しました");
+      return null;
+    }
+  },
+
+  /**
+   * 既存のタスクをテンプレートとして保存
+   */
+  saveTaskAsTemplate: async (task) => {
+    return get().addTemplate(TaskTemplates.fromTask(task));
+  },
+
+  /**
+   * テンプレートを更新
+   */
+  updateTemplate: async (templateId, data) => {
+    if (data.name !== undefined && !data.name.trim()) return;
+    if (data.text !== undefined && !data.text.trim()) return;
+
+    try {
+      await updateDoc(doc(db, "taskTemplates", templateId), toFirestoreData(data));
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("テンプレートを更新しました");
+    } catch (error) {
+      console.error("テンプレート更新エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("テンプレートの更新に失敗しました");
+    }
+  },
+
+  /**
+   * テンプレートを削除
+   */
+  removeTemplate: async (templateId) => {
+    const template = get().getTemplateById(templateId);
+    if (!template) return;
+
+    try {
+      await deleteDoc(doc(db, "taskTemplates", templateId));
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`テンプレート「${template.name}」を削除しました`);
+    } catch (error) {
+      console.error("テンプレート削除エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("テンプレートの削除に失敗しました");
+    }
+  },
+
+  /**
+   * テンプレートから新しいタスクを作成（プレースホルダーは今日の日付で置き換える）
+   * @returns 作成したタスクのID
+   */
+  createTaskFromTemplate: async (templateId, projectId) => {
+    const template = get().getTemplateById(templateId);
+    if (!template) return null;
+
+    const instance = TaskTemplates.instantiate(template);
+
+    try {
+      const taskId = await useEnhancedTaskStore.getState().addTask(
+        instance.text,
+        instance.deadline,
+        instance.priority,
+        instance.memo,
+        {
+          estimatedMinutes: instance.estimatedMinutes,
+          projectId,
+          subTasks: instance.subTasks
+        }
+      );
+
+      // 最近使ったテンプレートを先頭に表示するため、使用日時を記録
+      updateDoc(doc(db, "taskTemplates", templateId), { lastUsedAt: Date.now() })
+        .catch(error => console.error("テンプレート使用日時の記録エラー:", error));
+
+      return taskId;
+    } catch (error) {
+      console.error("テンプレートからのタスク作成エラー:", error);
+      return null;
+    }
+  },
+
+  /**
+   * IDでテンプレートを取得
+   */
+  getTemplateById: (templateId) => {
+    return get().templates.find(template => template.id === templateId);
+  },
+
+  /**
+   * テンプレートをクリア
+   */
+  clearTemplates: () => {
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    set({ templates: [], unsubscribe: null });
+  }
+}));
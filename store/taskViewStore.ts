@@ -0,0 +1,263 @@
+/**
+ * 保存ビューストア
+ *
+ * 検索クエリ・並べ替え・グループ表示の組み合わせを名前付きのビューとして保存し、
+ * タスク一覧の上にタブとして固定表示するためのZustandストア
+ * v1.8.0: 保存ビュー機能の実装
+ */
+
+import { create } from "zustand";
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  onSnapshot
+} from "firebase/firestore";
+import { useAuthStore } from "@/store/auth";
+import { useFeedbackStore } from "@/store/feedbackStore";
+import { SavedTaskView, TaskSortConfig, TaskGrouping, TaskViewUtils } from "@/lib/taskInterfaces";
+
+/**
+ * 保存ビューの作成・更新データ
+ */
+export interface TaskViewData {
+  name: string;
+  query: string;
+  sortConfig: TaskSortConfig;
+  grouping: TaskGrouping;
+}
+
+/**
+ * 保存ビューストアの状態とアクション定義
+ */
+interface TaskViewState {
+  views: SavedTaskView[];
+  loading: boolean;
+  unsubscribe: (() => void) | null;
+
+  // 表示中のビュー（null は全タスク、組み込みビューは TaskViewUtils.BUILT_IN_VIEWS のID）
+  activeViewId: string | null;
+  setActiveViewId: (viewId: string | null) => void;
+
+  // データ管理
+  loadViews: () => void;
+  addView: (data: TaskViewData) => Promise<string | null>;
+  updateView: (viewId: string, data: Partial<TaskViewData>) => Promise<void>;
+  setViewPinned: (viewId: string, pinned: boolean) => Promise<void>;
+  removeView: (viewId: string) => Promise<void>;
+
+  // 取得
+  getViewById: (viewId: string | null) => SavedTaskView | undefined;
+  getPinnedViews: () => SavedTaskView[];
+
+  // ユーティリティ
+  clearViews: () => void;
+}
+
+/**
+ * 保存ビューZustandストア
+ */
+export const useTaskViewStore = create<TaskViewState>((set, get) => ({
+  views: [],
+  loading: true,
+  unsubscribe: null,
+  activeViewId: null,
+
+  /**
+   * 表示中のビューを切り替え
+   */
+  setActiveViewId: (viewId) => {
+    set({ activeViewId: viewId });
+  },
+
+  /**
+   * ユーザーの保存ビューをFirestoreからリアルタイムで監視・読み込む
+   */
+  loadViews: () => {
+    const user = useAuthStore.getState().user;
+
+    // 前回のリスナーがあれば解除
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    if (!user) {
+      set({ views: [], loading: false, unsubscribe: null });
+      return;
+    }
+
+    set({ loading: true });
+
+    try {
+      const q = query(collection(db, "taskViews"), where("userId", "==", user.uid));
+
+      const unsubscribeListener = onSnapshot(q,
+        (snapshot) => {
+          const views = snapshot.docs
+            .map((doc) => ({ id: doc.id, pinned: true, grouping: 'none', ...doc.data() })) as SavedTaskView[];
+
+          // クライアントサイドで作成順にソート
+          views.sort((a, b) => a.createdAt - b.createdAt);
+
+          // 表示中の保存ビューが削除された場合は全タスク表示に戻す
+          const { activeViewId } = get();
+          const viewRemoved = activeViewId &&
+            !TaskViewUtils.BUILT_IN_VIEWS.some(view => view.id === activeViewId) &&
+            !views.some(view => view.id === activeViewId);
+
+          set({
+            views,
+            loading: false,
+            ...(viewRemoved ? { activeViewId: null } : {})
+          });
+        },
+        (error) => {
+          console.error("保存ビューの監視エラー:", error);
+          set({ loading: false });
+        }
+      );
+
+      set({ unsubscribe: unsubscribeListener });
+    } catch (error) {
+      console.error("保存ビュー監視の設定に失敗:", error);
+      set({ loading: false });
+    }
+  },
+
+  /**
+   * 新しいビューを保存（タブとして固定表示する）
+   */
+  addView: async (data) => {
+    const user = useAuthStore.getState().user;
+    if (!user) throw new Error("ユーザーがログインしていません");
+
+    const name = data.name.trim();
+    if (!name) return null;
+
+    const newView: Omit<SavedTaskView, 'id'> = {
+      userId: user.uid,
+      name,
+      query: data.query.trim(),
+      sortConfig: data.sortConfig,
+      grouping: data.grouping,
+      pinned: true,
+      createdAt: Date.now()
+    };
+
+    try {
+      const docRef = await addDoc(collection(db, "taskViews"), newView);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`ビュー「${name}」を保存しました`);
+      return docRef.id;
+    } catch (error) {
+      console.error("ビュー保存エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("ビューの保存に失敗しました");
+      return null;
+    }
+  },
+
+  /**
+   * ビューの名前・検索条件・並べ替え・グループ表示を更新
+   */
+  updateView: async (viewId, data) => {
+    const updates: Partial<TaskViewData> = { ...data };
+    if (updates.name !== undefined) {
+      updates.name = updates.name.trim();
+      if (!updates.name) return;
+    }
+    if (updates.query !== undefined) {
+      updates.query = updates.query.trim();
+    }
+
+    try {
+      await updateDoc(doc(db, "taskViews", viewId), updates);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("ビューを更新しました");
+    } catch (error) {
+      console.error("ビュー更新エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("ビューの更新に失敗しました");
+    }
+  },
+
+  /**
+   * ビューをタブとして固定表示するかどうかを切り替え
+   */
+  setViewPinned: async (viewId, pinned) => {
+    try {
+      await updateDoc(doc(db, "taskViews", viewId), { pinned });
+
+      // 固定を外したビューを表示中なら全タスク表示に戻す
+      if (!pinned && get().activeViewId === viewId) {
+        set({ activeViewId: null });
+      }
+    } catch (error) {
+      console.error("ビュー固定エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("ビューの固定表示の切り替えに失敗しました");
+    }
+  },
+
+  /**
+   * ビューを削除
+   */
+  removeView: async (viewId) => {
+    const view = get().getViewById(viewId);
+    if (!view) return;
+
+    try {
+      await deleteDoc(doc(db, "taskViews", viewId));
+
+      if (get().activeViewId === viewId) {
+        set({ activeViewId: null });
+      }
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage(`ビュー「${view.name}」を削除しました`);
+    } catch (error) {
+      console.error("ビュー削除エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("ビューの削除に失敗しました");
+    }
+  },
+
+  /**
+   * IDで保存ビューを取得
+   */
+  getViewById: (viewId) => {
+    if (!viewId) return undefined;
+    return get().views.find(view => view.id === viewId);
+  },
+
+  /**
+   * タブとして固定表示する保存ビューを取得
+   */
+  getPinnedViews: () => {
+    return get().views.filter(view => view.pinned);
+  },
+
+  /**
+   * 保存ビューをクリア
+   */
+  clearViews: () => {
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    set({ views: [], activeViewId: null, unsubscribe: null });
+  }
+}));
@@ -0,0 +1,174 @@
+/**
+ * ユーザー設定ストア
+ *
+ * 端末をまたいで共有するユーザーごとの設定（userSettings コレクション）を管理するZustandストア
+ * v1.8.0: 完了済みタスクのアーカイブ・ゴミ箱の保持設定、優先度の自動調整の設定、タスクの並べ替えの設定を追加
+ */
+
+import { create } from "zustand";
+import { db } from "@/lib/firebase";
+import { doc, setDoc, onSnapshot } from "firebase/firestore";
+import { useAuthStore } from "@/store/auth";
+import { useFeedbackStore } from "@/store/feedbackStore";
+import { TaskRetentionSettings, RetentionUtils, PriorityEscalationSettings, PriorityEscalationUtils, TaskSortConfig, TaskUtils } from "@/lib/taskInterfaces";
+
+/**
+ * ユーザー設定ストアの状態とアクション定義
+ */
+interface UserSettingsState {
+  retention: TaskRetentionSettings;
+  priorityEscalation: PriorityEscalationSettings;
+  taskSort: TaskSortConfig | null;   // タスクの並べ替え（未保存なら null）
+  loaded: boolean;
+  unsubscribe: (() => void) | null;
+
+  loadSettings: () => void;
+  updateRetention: (settings: Partial<TaskRetentionSettings>) => Promise<void>;
+  updatePriorityEscalation: (settings: Partial<PriorityEscalationSettings>) => Promise<void>;
+  updateTaskSort: (config: TaskSortConfig) => Promise<void>;
+  clearSettings: () => void;
+}
+
+/**
+ * ユーザー設定Zustandストア
+ */
+export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
+  retention: RetentionUtils.DEFAULT_SETTINGS,
+  priorityEscalation: PriorityEscalationUtils.DEFAULT_SETTINGS,
+  taskSort: null,
+  loaded: false,
+  unsubscribe: null,
+
+  /**
+   * ユーザー設定をFirestoreからリアルタイムで監視・読み込む
+   */
+  loadSettings: () => {
+    const user = useAuthStore.getState().user;
+
+    // 前回のリスナーがあれば解除
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    if (!user) {
+      set({
+        retention: RetentionUtils.DEFAULT_SETTINGS,
+        priorityEscalation: PriorityEscalationUtils.DEFAULT_SETTINGS,
+        taskSort: null,
+        loaded: false,
+        unsubscribe: null
+      });
+      return;
+    }
+
+    try {
+      const unsubscribeListener = onSnapshot(doc(db, "userSettings", user.uid),
+        (snapshot) => {
+          const data = snapshot.data();
+          set({
+            retention: { ...RetentionUtils.DEFAULT_SETTINGS, ...(data?.retention || {}) },
+            priorityEscalation: { ...PriorityEscalationUtils.DEFAULT_SETTINGS, ...(data?.priorityEscalation || {}) },
+            taskSort: data?.taskSort ? TaskUtils.normalizeSortConfig(data.taskSort) : null,
+            loaded: true
+          });
+        },
+        (error) => {
+          console.error("ユーザー設定の監視エラー:", error);
+          set({ loaded: true });
+        }
+      );
+
+      set({ unsubscribe: unsubscribeListener });
+    } catch (error) {
+      console.error("ユーザー設定監視の設定に失敗:", error);
+      set({ loaded: true });
+    }
+  },
+
+  /**
+   * アーカイブ・ゴミ箱の保持設定を更新
+   */
+  updateRetention: async (settings) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const retention = { ...get().retention, ...settings };
+    retention.archiveAfterDays = Math.max(0, Math.floor(retention.archiveAfterDays));
+    retention.trashRetentionDays = Math.max(1, Math.floor(retention.trashRetentionDays));
+
+    try {
+      set({ retention });
+      await setDoc(doc(db, "userSettings", user.uid), { retention }, { merge: true });
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("保持設定を更新しました");
+    } catch (error) {
+      console.error("保持設定の更新エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("保持設定の更新に失敗しました");
+    }
+  },
+
+  /**
+   * 優先度の自動調整の設定を更新
+   */
+  updatePriorityEscalation: async (settings) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const priorityEscalation = { ...get().priorityEscalation, ...settings };
+
+    try {
+      set({ priorityEscalation });
+      await setDoc(doc(db, "userSettings", user.uid), { priorityEscalation }, { merge: true });
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("優先度の自動調整の設定を更新しました");
+    } catch (error) {
+      console.error("優先度の自動調整の設定エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("優先度の自動調整の設定に失敗しました");
+    }
+  },
+
+  /**
+   * タスクの並べ替えの設定を保存（並べ替えを変えるたびに呼ばれるため、成功時は通知しない）
+   */
+  updateTaskSort: async (config) => {
+    const user = useAuthStore.getState().user;
+    if (!user) return;
+
+    const taskSort = TaskUtils.normalizeSortConfig(config);
+
+    try {
+      set({ taskSort });
+      await setDoc(doc(db, "userSettings", user.uid), { taskSort }, { merge: true });
+    } catch (error) {
+      console.error("並べ替えの設定の保存エラー:", error);
+
+      const feedbackStore = useFeedbackStore.getState();
+      feedbackStore.setMessage("並べ替えの設定の保存に失敗しました");
+    }
+  },
+
+  /**
+   * ユーザー設定をクリア
+   */
+  clearSettings: () => {
+    const { unsubscribe } = get();
+    if (unsubscribe) {
+      unsubscribe();
+    }
+
+    set({
+      retention: RetentionUtils.DEFAULT_SETTINGS,
+      priorityEscalation: PriorityEscalationUtils.DEFAULT_SETTINGS,
+      taskSort: null,
+      loaded: false,
+      unsubscribe: null
+    });
+  }
+}));
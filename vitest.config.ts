@@ -0,0 +1,21 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+/**
+ * ユニットテストの設定
+ */
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.')
+    }
+  },
+  // テストではCSSを扱わないため、Next.js用のPostCSS設定を読み込まない
+  css: {
+    postcss: {}
+  },
+  test: {
+    include: ['**/__tests__/**/*.test.ts'],
+    environment: 'node'
+  }
+});